@@ -0,0 +1,14 @@
+CREATE TABLE "consultation_transcripts" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"consultation_id" uuid NOT NULL,
+	"turn_index" integer NOT NULL,
+	"role" varchar(20) NOT NULL,
+	"text" text NOT NULL,
+	"offset_ms" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "past_consultations" ADD COLUMN "duration_seconds" integer;--> statement-breakpoint
+ALTER TABLE "past_consultations" ADD COLUMN "started_at" timestamp;--> statement-breakpoint
+ALTER TABLE "past_consultations" ADD COLUMN "ended_at" timestamp;--> statement-breakpoint
+ALTER TABLE "consultation_transcripts" ADD CONSTRAINT "consultation_transcripts_consultation_id_past_consultations_id_fk" FOREIGN KEY ("consultation_id") REFERENCES "public"."past_consultations"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "past_consultations" ADD COLUMN "vapi_call_id" varchar(100);--> statement-breakpoint
+ALTER TABLE "past_consultations" ADD CONSTRAINT "past_consultations_vapi_call_id_unique" UNIQUE("vapi_call_id");
\ No newline at end of file
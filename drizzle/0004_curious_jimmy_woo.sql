@@ -0,0 +1,14 @@
+CREATE TABLE "consultation_red_flags" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"consultation_id" uuid NOT NULL,
+	"rule_id" varchar(50) NOT NULL,
+	"category" varchar(30) NOT NULL,
+	"hotline" varchar(10) NOT NULL,
+	"matched_text" text NOT NULL,
+	"turn_index" integer,
+	"offset_ms" integer,
+	"detected_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "consultation_red_flags_rule_unique" UNIQUE("consultation_id","rule_id")
+);
+--> statement-breakpoint
+ALTER TABLE "consultation_red_flags" ADD CONSTRAINT "consultation_red_flags_consultation_id_past_consultations_id_fk" FOREIGN KEY ("consultation_id") REFERENCES "public"."past_consultations"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "medications" ADD COLUMN "rxcui" varchar(20);
\ No newline at end of file
@@ -0,0 +1,8 @@
+-- Renumber any turns that raced to the same index before the constraint existed, keeping their order
+UPDATE "consultation_transcripts" AS t SET "turn_index" = numbered."turn_index"
+FROM (
+	SELECT "id", (row_number() OVER (PARTITION BY "consultation_id" ORDER BY "turn_index", "created_at", "id") - 1)::integer AS "turn_index"
+	FROM "consultation_transcripts"
+) AS numbered
+WHERE t."id" = numbered."id" AND t."turn_index" <> numbered."turn_index";--> statement-breakpoint
+ALTER TABLE "consultation_transcripts" ADD CONSTRAINT "consultation_transcripts_turn_unique" UNIQUE("consultation_id","turn_index");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "users" ADD COLUMN "mfa_locked_until" timestamp;
\ No newline at end of file
@@ -0,0 +1,6 @@
+CREATE TABLE "password_reset_requests" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"email" varchar(255) NOT NULL,
+	"ip_address" varchar(64),
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
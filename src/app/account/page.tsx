@@ -0,0 +1,228 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Card, CardAction, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { ThemeToggle } from '@/components/ui/theme-toggle';
+import { ArrowLeft, LogOut, Monitor, Smartphone } from 'lucide-react';
+import { apiFetch } from '@/lib/api-client';
+import TwoFactorSettings from '@/components/auth/TwoFactorSettings';
+import PasskeySettings from '@/components/auth/PasskeySettings';
+
+interface SessionSummary {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  current: boolean;
+}
+
+// "Chrome on macOS" from a user agent string; good enough to recognise your own devices
+const describeDevice = (userAgent: string | null) => {
+  if (!userAgent) return { name: 'Unknown device', mobile: false };
+
+  const browser = /Edg\//.test(userAgent) ? 'Edge'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : 'Browser';
+  const os = /iPhone|iPad/.test(userAgent) ? 'iOS'
+    : /Android/.test(userAgent) ? 'Android'
+    : /Windows/.test(userAgent) ? 'Windows'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : 'unknown OS';
+
+  return { name: `${browser} on ${os}`, mobile: /Mobile|Android|iPhone|iPad/.test(userAgent) };
+};
+
+export default function AccountPage() {
+  const { user, logout, isLoading: authLoading } = useAuth();
+  const router = useRouter();
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string>('');
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      router.push('/auth/login');
+    }
+  }, [user, authLoading, router]);
+
+  const fetchSessions = async () => {
+    try {
+      const response = await apiFetch('/api/auth/sessions');
+      if (response.ok) {
+        const data = await response.json();
+        setSessions(data.sessions);
+      } else {
+        setError('Failed to load your sessions');
+      }
+    } catch {
+      setError('Failed to load your sessions');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (user) {
+      fetchSessions();
+    }
+  }, [user]);
+
+  const signOutSession = async (session: SessionSummary) => {
+    setError('');
+    try {
+      const response = await apiFetch(`/api/auth/sessions/${session.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const result = await response.json();
+        setError(result.error || 'Failed to sign out that device');
+        return;
+      }
+
+      if (session.current) {
+        await logout();
+        router.push('/auth/login');
+      } else {
+        setSessions(sessions.filter(other => other.id !== session.id));
+      }
+    } catch {
+      setError('Network error occurred');
+    }
+  };
+
+  const signOutEverywhere = async () => {
+    if (!confirm('Sign out of TalkWell on every device, including this one?')) {
+      return;
+    }
+
+    setError('');
+    try {
+      const response = await apiFetch('/api/auth/sessions', { method: 'DELETE' });
+      if (!response.ok) {
+        const result = await response.json();
+        setError(result.error || 'Failed to sign out everywhere');
+        return;
+      }
+
+      await logout();
+      router.push('/auth/login');
+    } catch {
+      setError('Network error occurred');
+    }
+  };
+
+  if (authLoading || (user && isLoading)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background via-background to-secondary/10">
+        <div className="text-center space-y-4">
+          <h1 className="font-brand text-4xl font-bold">TalkWell</h1>
+          <div className="flex items-center justify-center space-x-2">
+            <div className="w-2 h-2 bg-secondary rounded-full animate-bounce"></div>
+            <div className="w-2 h-2 bg-secondary rounded-full animate-bounce" style={{ animationDelay: '0.1s' }}></div>
+            <div className="w-2 h-2 bg-secondary rounded-full animate-bounce" style={{ animationDelay: '0.2s' }}></div>
+            <span className="ml-3 text-muted-foreground">Loading your account...</span>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-secondary/10">
+      <div className="max-w-4xl mx-auto p-6">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div className="flex items-center space-x-4">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => router.push('/dashboard')}
+              className="hover:bg-secondary/10 focus-visible:ring-secondary"
+            >
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Dashboard
+            </Button>
+            <div className="space-y-1">
+              <div>
+                <h1 className="font-brand text-4xl font-bold">TalkWell</h1>
+              </div>
+              <h2 className="text-xl font-semibold text-foreground">Account Security</h2>
+              <p className="text-muted-foreground">How you sign in, and the devices signed in to your account</p>
+            </div>
+          </div>
+          <ThemeToggle />
+        </div>
+
+        {error && (
+          <Alert variant="destructive" className="mb-6">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="space-y-6 mb-6">
+          <PasskeySettings />
+          <TwoFactorSettings />
+        </div>
+
+        <Card className="border-secondary/20">
+          <CardHeader>
+            <CardTitle>Active Sessions</CardTitle>
+            <CardDescription>
+              Sign out any device you don&apos;t recognise. Last seen is updated about every 15 minutes while a device is in use.
+            </CardDescription>
+            <CardAction>
+              <Button variant="outline" onClick={signOutEverywhere}>
+                <LogOut className="w-4 h-4" />
+                Sign out everywhere
+              </Button>
+            </CardAction>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {sessions.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No active sessions.</p>
+            ) : (
+              sessions.map((session) => {
+                const device = describeDevice(session.userAgent);
+                const DeviceIcon = device.mobile ? Smartphone : Monitor;
+                return (
+                  <div key={session.id} className="flex items-center justify-between rounded-md border p-4">
+                    <div className="flex items-start space-x-3">
+                      <DeviceIcon className="w-5 h-5 mt-0.5 text-secondary" />
+                      <div className="space-y-1">
+                        <div className="flex items-center gap-2">
+                          <p className="font-medium">{device.name}</p>
+                          {session.current && <Badge variant="secondary">This device</Badge>}
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          {session.ipAddress || 'Unknown IP'} · Last seen {new Date(session.lastUsedAt).toLocaleString()}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          Signed in {new Date(session.createdAt).toLocaleDateString()}
+                        </p>
+                      </div>
+                    </div>
+                    <Button variant="outline" size="sm" onClick={() => signOutSession(session)}>
+                      {session.current ? 'Sign out' : 'Sign out this device'}
+                    </Button>
+                  </div>
+                );
+              })
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { db } from '@/db';
+import { users } from '@/db/schema';
+import { forgotPasswordSchema, sanitizeString } from '@/lib/auth';
+import { clientIp } from '@/lib/sessions';
+import {
+  EMAIL_NOT_CONFIGURED,
+  TOO_MANY_RESET_REQUESTS,
+  allowPasswordResetRequest,
+  emailConfigured,
+  sendPasswordResetEmail,
+} from '@/lib/email-tokens';
+import { eq } from 'drizzle-orm';
+
+// Email a password reset link. The answer, and how long it takes, is the same whether or not the address
+// has an account: the email goes out after the response, and throttling counts every address alike.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const result = forgotPasswordSchema.safeParse(body);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: result.error.issues },
+        { status: 400 }
+      );
+    }
+
+    // Checked before the lookup so the answer never depends on whether the address has an account
+    if (!emailConfigured()) {
+      return NextResponse.json({ error: EMAIL_NOT_CONFIGURED.error }, { status: EMAIL_NOT_CONFIGURED.status });
+    }
+
+    const email = sanitizeString(result.data.email.toLowerCase());
+    if (!(await allowPasswordResetRequest(email, clientIp(request)))) {
+      return NextResponse.json({ error: TOO_MANY_RESET_REQUESTS.error }, { status: TOO_MANY_RESET_REQUESTS.status });
+    }
+
+    const user = await db.select().from(users).where(eq(users.email, email)).limit(1);
+
+    if (user.length > 0 && !user[0].deletedAt) {
+      after(async () => {
+        try {
+          await sendPasswordResetEmail(user[0]);
+        } catch (error) {
+          console.error('Password reset email error:', error);
+        }
+      });
+    }
+
+    return NextResponse.json(
+      { message: 'If an account uses that email address, a link to reset its password is on its way' },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Forgot password error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
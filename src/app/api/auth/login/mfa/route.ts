@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { users } from '@/db/schema';
+import { mfaLoginSchema } from '@/lib/auth';
+import { startSession, toAuthUser } from '@/lib/auth-server';
+import { setSessionCookies } from '@/lib/sessions';
+import { verifyMfaChallenge, verifySecondFactor } from '@/lib/mfa';
+import { eq } from 'drizzle-orm';
+
+// Second login step for accounts with 2FA: the challenge from /api/auth/login plus an authenticator or recovery code
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const result = mfaLoginSchema.safeParse(body);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: result.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const userId = verifyMfaChallenge(result.data.mfaToken);
+    if (!userId) {
+      return NextResponse.json({ error: 'Sign-in has expired, please enter your password again' }, { status: 401 });
+    }
+
+    const verified = await verifySecondFactor(userId, result.data.code);
+    if ('error' in verified) {
+      return NextResponse.json({ error: verified.error }, { status: verified.status });
+    }
+
+    const user = await db.select().from(users).where(eq(users.id, userId)).limit(1);
+
+    const issued = await startSession(user[0], request);
+    if ('error' in issued) {
+      return NextResponse.json({ error: issued.error }, { status: issued.status });
+    }
+
+    const response = NextResponse.json({
+      message: 'Login successful',
+      user: toAuthUser(user[0]),
+      method: verified.method,
+    });
+    return setSessionCookies(response, issued.accessToken, issued.tokens);
+  } catch (error) {
+    console.error('MFA login error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,13 +2,15 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
 import { users } from '@/db/schema';
 import { loginSchema, verifyPassword, sanitizeString } from '@/lib/auth';
-import { eq } from 'drizzle-orm';
-import { sign } from 'jsonwebtoken';
+import { accountRestriction, startSession, toAuthUser } from '@/lib/auth-server';
+import { setSessionCookies } from '@/lib/sessions';
+import { isMfaEnabled, signMfaChallenge } from '@/lib/mfa';
+import { eq, or } from 'drizzle-orm';
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    
+
     // Validate input
     const result = loginSchema.safeParse(body);
     if (!result.success) {
@@ -27,56 +29,19 @@ export async function POST(request: NextRequest) {
     const user = await db
       .select()
       .from(users)
-      .where(eq(users.username, sanitizedUsername))
+      .where(or(eq(users.username, sanitizedUsername), eq(users.email, sanitizedUsername)))
       .limit(1);
 
-    if (user.length === 0) {
-      // Check if it's an email instead
-      const userByEmail = await db
-        .select()
-        .from(users)
-        .where(eq(users.email, sanitizedUsername))
-        .limit(1);
-
-      if (userByEmail.length === 0) {
-        return NextResponse.json(
-          { error: 'Invalid credentials' },
-          { status: 401 }
-        );
-      }
-
-      // Verify password
-      const isValidPassword = await verifyPassword(password, userByEmail[0].passwordHash);
-      if (!isValidPassword) {
-        return NextResponse.json(
-          { error: 'Invalid credentials' },
-          { status: 401 }
-        );
-      }
-
-      // Create JWT token
-      const token = sign(
-        { 
-          userId: userByEmail[0].id, 
-          username: userByEmail[0].username 
-        },
-        process.env.NEXTAUTH_SECRET || 'fallback-secret',
-        { expiresIn: '7d' }
+    // Deleted accounts get the same answer as unknown ones
+    if (user.length === 0 || user[0].deletedAt) {
+      return NextResponse.json(
+        { error: 'Invalid credentials' },
+        { status: 401 }
       );
-
-      // Return success with user data (without password)
-      // eslint-disable-next-line @typescript-eslint/no-unused-vars
-      const { passwordHash, ...userWithoutPassword } = userByEmail[0];
-      
-      return NextResponse.json({
-        message: 'Login successful',
-        user: userWithoutPassword,
-        token,
-      });
     }
 
-    // Verify password
-    const isValidPassword = await verifyPassword(password, user[0].passwordHash);
+    // Verify password; passwordless accounts can only use their passkeys
+    const isValidPassword = !!user[0].passwordHash && await verifyPassword(password, user[0].passwordHash);
     if (!isValidPassword) {
       return NextResponse.json(
         { error: 'Invalid credentials' },
@@ -84,25 +49,32 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Create JWT token
-    const token = sign(
-      { 
-        userId: user[0].id, 
-        username: user[0].username 
-      },
-      process.env.NEXTAUTH_SECRET || 'fallback-secret',
-      { expiresIn: '7d' }
-    );
+    const restriction = accountRestriction(user[0]);
+    if (restriction) {
+      return NextResponse.json({ error: restriction.error }, { status: restriction.status });
+    }
+
+    // With 2FA on, the password only earns a short-lived challenge to exchange with a code at /api/auth/login/mfa
+    if (isMfaEnabled(user[0])) {
+      const mfaToken = signMfaChallenge(user[0].id);
+      if (!mfaToken) {
+        return NextResponse.json({ error: 'Authentication is not configured' }, { status: 500 });
+      }
+      return NextResponse.json({ message: 'Two-factor authentication required', mfa_required: true, mfaToken });
+    }
+
+    // Open a session; its tokens only travel in HttpOnly cookies
+    const issued = await startSession(user[0], request);
+    if ('error' in issued) {
+      return NextResponse.json({ error: issued.error }, { status: issued.status });
+    }
 
     // Return success with user data (without password)
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    const { passwordHash, ...userWithoutPassword } = user[0];
-    
-    return NextResponse.json({
+    const response = NextResponse.json({
       message: 'Login successful',
-      user: userWithoutPassword,
-      token,
+      user: toAuthUser(user[0]),
     });
+    return setSessionCookies(response, issued.accessToken, issued.tokens);
   } catch (error) {
     console.error('Login error:', error);
     return NextResponse.json(
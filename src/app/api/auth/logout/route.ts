@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { REFRESH_COOKIE, findSessionForRefreshToken, revokeSession, clearSessionCookies } from '@/lib/sessions';
+
+// End the browser's session: its refresh token stops working and the cookies are cleared
+export async function POST(request: NextRequest) {
+  try {
+    const refreshToken = request.cookies.get(REFRESH_COOKIE)?.value;
+    const session = refreshToken ? await findSessionForRefreshToken(refreshToken) : null;
+    if (session) {
+      await revokeSession(session.id, 'logout');
+    }
+
+    return clearSessionCookies(NextResponse.json({ message: 'Logged out' }, { status: 200 }));
+  } catch (error) {
+    console.error('Logout error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { mfaCodeSchema } from '@/lib/auth';
+import { withAuth } from '@/lib/auth-server';
+import { replaceRecoveryCodes, verifySecondFactor } from '@/lib/mfa';
+
+// Replace all recovery codes with a fresh set; needs a current authenticator or recovery code
+export const POST = withAuth(async (request, { userId }) => {
+  try {
+    const body = await request.json();
+
+    const result = mfaCodeSchema.safeParse(body);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: result.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const verified = await verifySecondFactor(userId, result.data.code);
+    if ('error' in verified) {
+      return NextResponse.json({ error: verified.error }, { status: verified.status });
+    }
+
+    const recoveryCodes = await replaceRecoveryCodes(userId);
+    return NextResponse.json({ message: 'Recovery codes replaced', recoveryCodes });
+  } catch (error) {
+    console.error('Recovery codes error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+});
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth-server';
+import { countUnusedRecoveryCodes } from '@/lib/mfa';
+
+// Two-factor status for the account page
+export const GET = withAuth(async (request, { userId, user }) => {
+  try {
+    const enabled = !!user.totpEnabledAt;
+
+    return NextResponse.json({
+      enabled,
+      enabledAt: user.totpEnabledAt,
+      recoveryCodesRemaining: enabled ? await countUnusedRecoveryCodes(userId) : 0,
+    });
+  } catch (error) {
+    console.error('MFA status error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+});
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { mfaCodeSchema } from '@/lib/auth';
+import { withAuth } from '@/lib/auth-server';
+import { beginTotpEnrollment, disableTotp, verifySecondFactor } from '@/lib/mfa';
+
+// Start (or restart) authenticator setup: a new secret, its otpauth URI and a QR code of it
+export const POST = withAuth(async (request, { user }) => {
+  try {
+    const enrollment = await beginTotpEnrollment(user);
+    if ('error' in enrollment) {
+      return NextResponse.json({ error: enrollment.error }, { status: enrollment.status });
+    }
+
+    return NextResponse.json(enrollment);
+  } catch (error) {
+    console.error('TOTP setup error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+});
+
+// Turn 2FA off; needs a current authenticator or recovery code
+export const DELETE = withAuth(async (request, { userId }) => {
+  try {
+    const body = await request.json();
+
+    const result = mfaCodeSchema.safeParse(body);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: result.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const verified = await verifySecondFactor(userId, result.data.code);
+    if ('error' in verified) {
+      return NextResponse.json({ error: verified.error }, { status: verified.status });
+    }
+
+    await disableTotp(userId);
+    return NextResponse.json({ message: 'Two-factor authentication turned off' });
+  } catch (error) {
+    console.error('TOTP disable error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+});
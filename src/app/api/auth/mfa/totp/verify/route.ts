@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { mfaCodeSchema } from '@/lib/auth';
+import { withAuth } from '@/lib/auth-server';
+import { confirmTotpEnrollment } from '@/lib/mfa';
+
+// Finish setup with the first code from the authenticator app; responds with the recovery codes
+export const POST = withAuth(async (request, { userId }) => {
+  try {
+    const body = await request.json();
+
+    const result = mfaCodeSchema.safeParse(body);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: result.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const confirmed = await confirmTotpEnrollment(userId, result.data.code);
+    if ('error' in confirmed) {
+      return NextResponse.json({ error: confirmed.error }, { status: confirmed.status });
+    }
+
+    return NextResponse.json({ message: 'Two-factor authentication enabled', recoveryCodes: confirmed.recoveryCodes });
+  } catch (error) {
+    console.error('TOTP verify error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+});
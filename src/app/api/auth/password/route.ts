@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/db';
+import { users } from '@/db/schema';
+import { loginSchema, verifyPassword } from '@/lib/auth';
+import { withAuth } from '@/lib/auth-server';
+import { removePassword } from '@/lib/webauthn';
+import { eq } from 'drizzle-orm';
+
+// Go passwordless: drop the password once the account has a passkey to sign in with
+export const DELETE = withAuth(async (request, { userId }) => {
+  try {
+    const body = await request.json();
+
+    const result = loginSchema.pick({ password: true }).safeParse(body);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: result.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const found = await db.select({ passwordHash: users.passwordHash }).from(users).where(eq(users.id, userId)).limit(1);
+    if (!found[0]?.passwordHash) {
+      return NextResponse.json({ error: 'This account has no password' }, { status: 400 });
+    }
+
+    if (!(await verifyPassword(result.data.password, found[0].passwordHash))) {
+      return NextResponse.json({ error: 'Incorrect password' }, { status: 403 });
+    }
+
+    if (!(await removePassword(userId))) {
+      return NextResponse.json({ error: 'Add a passkey before removing your password' }, { status: 409 });
+    }
+
+    return NextResponse.json({ message: 'Password removed' }, { status: 200 });
+  } catch (error) {
+    console.error('Password removal error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+});
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { refreshSession } from '@/lib/auth-server';
+import { REFRESH_COOKIE, ALREADY_REFRESHED, setSessionCookies, clearSessionCookies } from '@/lib/sessions';
+
+// Exchange the refresh cookie for a new access token and a new refresh token
+export async function POST(request: NextRequest) {
+  try {
+    const refreshToken = request.cookies.get(REFRESH_COOKIE)?.value;
+    if (!refreshToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const refreshed = await refreshSession(refreshToken, request);
+    if ('error' in refreshed) {
+      const response = NextResponse.json({ error: refreshed.error }, { status: refreshed.status });
+      // A refresh racing this one already replaced the cookies; leave them alone
+      return refreshed.status === ALREADY_REFRESHED.status ? response : clearSessionCookies(response);
+    }
+
+    const response = NextResponse.json({ user: refreshed.user }, { status: 200 });
+    return setSessionCookies(response, refreshed.accessToken, refreshed.tokens);
+  } catch (error) {
+    console.error('Session refresh error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
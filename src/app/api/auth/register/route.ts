@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
 import { users } from '@/db/schema';
 import { registerSchema, hashPassword, sanitizeString } from '@/lib/auth';
+import { EMAIL_NOT_CONFIGURED, VERIFICATION_EMAIL_NOT_SENT, emailConfigured, sendVerificationEmail } from '@/lib/email-tokens';
 import { eq } from 'drizzle-orm';
 
 export async function POST(request: NextRequest) {
@@ -19,6 +20,11 @@ export async function POST(request: NextRequest) {
 
     const { username, email, password, firstName, lastName } = result.data;
 
+    // New accounts stay restricted until they follow the verification link, so there must be one to send
+    if (!emailConfigured()) {
+      return NextResponse.json({ error: EMAIL_NOT_CONFIGURED.error }, { status: EMAIL_NOT_CONFIGURED.status });
+    }
+
     // Sanitize inputs
     const sanitizedUsername = sanitizeString(username.toLowerCase());
     const sanitizedEmail = sanitizeString(email.toLowerCase());
@@ -66,10 +72,14 @@ export async function POST(request: NextRequest) {
         firstName: sanitizedFirstName,
         lastName: sanitizedLastName,
       })
-      .returning({ id: users.id, username: users.username, email: users.email });
+      .returning({ id: users.id, username: users.username, email: users.email, firstName: users.firstName });
+
+    // The account can sign in, but stays restricted until the address is confirmed. If the email does not go
+    // out, the verification page can ask for another one.
+    const verificationEmailSent = await sendVerificationEmail(newUser[0]);
 
     return NextResponse.json(
-      { message: 'User created successfully', user: newUser[0] },
+      { message: verificationEmailSent ? 'User created successfully' : VERIFICATION_EMAIL_NOT_SENT, user: newUser[0], verificationEmailSent },
       { status: 201 }
     );
   } catch (error) {
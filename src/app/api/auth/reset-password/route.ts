@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { users } from '@/db/schema';
+import { resetPasswordSchema, hashPassword } from '@/lib/auth';
+import { consumeEmailToken } from '@/lib/email-tokens';
+import { revokeUserSessions } from '@/lib/sessions';
+import { eq } from 'drizzle-orm';
+
+// Set a new password from a reset link, then sign the account out everywhere
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const result = resetPasswordSchema.safeParse(body);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: result.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const token = await consumeEmailToken(result.data.token, 'password-reset');
+    if ('error' in token) {
+      return NextResponse.json({ error: token.error }, { status: token.status });
+    }
+
+    const user = await db.select().from(users).where(eq(users.id, token.userId)).limit(1);
+    // The link only counts for the address it was sent to
+    if (user.length === 0 || user[0].deletedAt || user[0].email !== token.email) {
+      return NextResponse.json({ error: 'This link is invalid or has expired' }, { status: 400 });
+    }
+
+    const now = new Date();
+    await db
+      .update(users)
+      .set({
+        passwordHash: await hashPassword(result.data.password),
+        // Following the emailed link also proves the address
+        emailVerifiedAt: user[0].emailVerifiedAt ?? now,
+        updatedAt: now,
+      })
+      .where(eq(users.id, user[0].id));
+
+    await revokeUserSessions(user[0].id, 'password-reset');
+
+    return NextResponse.json({ message: 'Password updated. Please sign in with your new password.' }, { status: 200 });
+  } catch (error) {
+    console.error('Reset password error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,7 @@
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth-server';
+
+// The signed-in account, checked against the database; AuthProvider calls this on mount
+export const GET = withAuth(async (request, { user }) => {
+  return NextResponse.json({ user }, { status: 200 });
+}, { allowUnverified: true });
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth-server';
+import { revokeUserSession, clearSessionCookies } from '@/lib/sessions';
+
+// Sign out one device. Ending the current session also clears this browser's cookies.
+export const DELETE = withAuth(async (request, { userId, sessionId }, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const resolvedParams = await params;
+
+    const current = resolvedParams.id === sessionId;
+
+    const revoked = await revokeUserSession(userId, resolvedParams.id, current ? 'logout' : 'signed-out-remotely');
+    if (!revoked) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    const response = NextResponse.json({ message: 'Session signed out' }, { status: 200 });
+    return current ? clearSessionCookies(response) : response;
+  } catch (error) {
+    console.error('Session revoke error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}, { allowUnverified: true });
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth-server';
+import { listActiveSessions, revokeUserSessions, clearSessionCookies } from '@/lib/sessions';
+import { Session } from '@/db/schema';
+
+const toSessionSummary = (session: Session, currentSessionId: string | null) => ({
+  id: session.id,
+  userAgent: session.userAgent,
+  ipAddress: session.ipAddress,
+  createdAt: session.createdAt,
+  lastUsedAt: session.lastUsedAt,
+  expiresAt: session.expiresAt,
+  current: session.id === currentSessionId,
+});
+
+// The user's signed-in devices
+export const GET = withAuth(async (request, { userId, sessionId }) => {
+  try {
+    const activeSessions = await listActiveSessions(userId);
+    return NextResponse.json(
+      { sessions: activeSessions.map(session => toSessionSummary(session, sessionId)) },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Sessions fetch error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}, { allowUnverified: true });
+
+// Sign out everywhere, including this browser
+export const DELETE = withAuth(async (request, { userId }) => {
+  try {
+    const revoked = await revokeUserSessions(userId, 'logout-everywhere');
+    return clearSessionCookies(NextResponse.json({ message: 'Signed out everywhere', revoked }, { status: 200 }));
+  } catch (error) {
+    console.error('Sessions revoke error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}, { allowUnverified: true });
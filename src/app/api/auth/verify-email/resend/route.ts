@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth-server';
+import { sendVerificationEmail } from '@/lib/email-tokens';
+
+// Send a fresh verification link to the signed-in account; earlier links stop working
+export const POST = withAuth(async (request, { user }) => {
+  try {
+    if (user.emailVerifiedAt) {
+      return NextResponse.json({ error: 'Email address is already verified' }, { status: 400 });
+    }
+
+    if (!(await sendVerificationEmail(user))) {
+      return NextResponse.json({ error: 'Could not send the verification email' }, { status: 500 });
+    }
+
+    return NextResponse.json({ message: `Verification email sent to ${user.email}` }, { status: 200 });
+  } catch (error) {
+    console.error('Resend verification error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}, { allowUnverified: true });
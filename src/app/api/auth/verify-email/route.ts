@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { users } from '@/db/schema';
+import { emailTokenSchema } from '@/lib/auth';
+import { consumeEmailToken } from '@/lib/email-tokens';
+import { eq } from 'drizzle-orm';
+
+// Confirm an email address from the link in the verification email
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const result = emailTokenSchema.safeParse(body);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: result.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const token = await consumeEmailToken(result.data.token, 'email-verification');
+    if ('error' in token) {
+      return NextResponse.json({ error: token.error }, { status: token.status });
+    }
+
+    const user = await db.select().from(users).where(eq(users.id, token.userId)).limit(1);
+    if (user.length === 0 || user[0].deletedAt || user[0].email !== token.email) {
+      return NextResponse.json({ error: 'This link is invalid or has expired' }, { status: 400 });
+    }
+
+    if (!user[0].emailVerifiedAt) {
+      await db.update(users).set({ emailVerifiedAt: new Date(), updatedAt: new Date() }).where(eq(users.id, user[0].id));
+    }
+
+    return NextResponse.json({ message: 'Email address confirmed' }, { status: 200 });
+  } catch (error) {
+    console.error('Verify email error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { beginPasskeyAuthentication } from '@/lib/webauthn';
+
+// Options for signing in with a passkey; no username needed, the passkey identifies the account
+export async function POST() {
+  try {
+    const ceremony = await beginPasskeyAuthentication();
+    if ('error' in ceremony) {
+      return NextResponse.json({ error: ceremony.error }, { status: ceremony.status });
+    }
+
+    return NextResponse.json(ceremony);
+  } catch (error) {
+    console.error('Passkey sign-in options error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthenticationResponseJSON } from '@simplewebauthn/server';
+import { webauthnResponseSchema } from '@/lib/auth';
+import { startSession, toAuthUser } from '@/lib/auth-server';
+import { setSessionCookies } from '@/lib/sessions';
+import { finishPasskeyAuthentication } from '@/lib/webauthn';
+
+// Sign in with a passkey. It already proves possession and user verification, so there is no TOTP step.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const result = webauthnResponseSchema.safeParse(body);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: result.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const user = await finishPasskeyAuthentication(result.data.challengeId, result.data.response as unknown as AuthenticationResponseJSON);
+    if ('error' in user) {
+      return NextResponse.json({ error: user.error }, { status: user.status });
+    }
+
+    const issued = await startSession(user, request);
+    if ('error' in issued) {
+      return NextResponse.json({ error: issued.error }, { status: issued.status });
+    }
+
+    const response = NextResponse.json({ message: 'Login successful', user: toAuthUser(user) });
+    return setSessionCookies(response, issued.accessToken, issued.tokens);
+  } catch (error) {
+    console.error('Passkey sign-in error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth-server';
+import { removePasskey } from '@/lib/webauthn';
+
+// Remove a passkey, unless it is the only way left to sign in
+export const DELETE = withAuth(async (request, { userId }, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const resolvedParams = await params;
+
+    const removed = await removePasskey(userId, resolvedParams.id);
+    if (removed !== true) {
+      return NextResponse.json({ error: removed.error }, { status: removed.status });
+    }
+
+    return NextResponse.json({ message: 'Passkey removed' }, { status: 200 });
+  } catch (error) {
+    console.error('Passkey delete error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+});
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth-server';
+import { db } from '@/db';
+import { users } from '@/db/schema';
+import { listPasskeys, reauthenticationFor } from '@/lib/webauthn';
+import { eq } from 'drizzle-orm';
+
+// The account's passkeys (never their keys), whether it still has a password, and what adding a passkey will ask for
+export const GET = withAuth(async (request, { userId }) => {
+  try {
+    const [registered, account] = await Promise.all([
+      listPasskeys(userId),
+      db.select().from(users).where(eq(users.id, userId)).limit(1),
+    ]);
+
+    return NextResponse.json({
+      hasPassword: !!account[0]?.passwordHash,
+      reauthentication: account[0] ? reauthenticationFor(account[0]) : 'recent-sign-in',
+      passkeys: registered.map(passkey => ({
+        id: passkey.id,
+        name: passkey.name,
+        synced: passkey.deviceType === 'multiDevice',
+        createdAt: passkey.createdAt,
+        lastUsedAt: passkey.lastUsedAt,
+      })),
+    });
+  } catch (error) {
+    console.error('Passkeys fetch error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+});
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { reauthenticationSchema } from '@/lib/auth';
+import { withAuth } from '@/lib/auth-server';
+import { beginPasskeyRegistration } from '@/lib/webauthn';
+
+// Options for adding a passkey to the signed-in account, after a current code or password (see reauthenticationFor)
+export const POST = withAuth(async (request, { user, sessionId }) => {
+  try {
+    const body = await request.json();
+
+    const result = reauthenticationSchema.safeParse(body);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: result.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const ceremony = await beginPasskeyRegistration(user, sessionId, result.data);
+    if ('error' in ceremony) {
+      return NextResponse.json({ error: ceremony.error }, { status: ceremony.status });
+    }
+
+    return NextResponse.json(ceremony);
+  } catch (error) {
+    console.error('Passkey registration options error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+});
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { RegistrationResponseJSON } from '@simplewebauthn/server';
+import { webauthnResponseSchema } from '@/lib/auth';
+import { withAuth } from '@/lib/auth-server';
+import { finishPasskeyRegistration } from '@/lib/webauthn';
+
+// Save the passkey the browser just created for the signed-in account
+export const POST = withAuth(async (request, { userId }) => {
+  try {
+    const body = await request.json();
+
+    const result = webauthnResponseSchema.safeParse(body);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: result.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { challengeId, response, name } = result.data;
+    const passkey = await finishPasskeyRegistration(userId, challengeId, response as unknown as RegistrationResponseJSON, name);
+    if ('error' in passkey) {
+      return NextResponse.json({ error: passkey.error }, { status: passkey.status });
+    }
+
+    return NextResponse.json(
+      { message: 'Passkey added', passkey: { id: passkey.id, name: passkey.name, createdAt: passkey.createdAt } },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Passkey registration error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+});
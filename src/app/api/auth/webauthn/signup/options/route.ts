@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { accountDetailsSchema, sanitizeString } from '@/lib/auth';
+import { beginPasswordlessSignup } from '@/lib/webauthn';
+
+// First step of passwordless registration: the account details, answered with passkey creation options
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const result = accountDetailsSchema.safeParse(body);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: result.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { username, email, firstName, lastName } = result.data;
+
+    const ceremony = await beginPasswordlessSignup({
+      username: sanitizeString(username.toLowerCase()),
+      email: sanitizeString(email.toLowerCase()),
+      firstName: sanitizeString(firstName),
+      lastName: sanitizeString(lastName),
+    });
+    if ('error' in ceremony) {
+      return NextResponse.json({ error: ceremony.error }, { status: ceremony.status });
+    }
+
+    return NextResponse.json(ceremony);
+  } catch (error) {
+    console.error('Passkey sign-up options error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
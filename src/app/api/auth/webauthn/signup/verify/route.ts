@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { RegistrationResponseJSON } from '@simplewebauthn/server';
+import { webauthnResponseSchema } from '@/lib/auth';
+import { startSession, toAuthUser } from '@/lib/auth-server';
+import { setSessionCookies } from '@/lib/sessions';
+import { finishPasswordlessSignup } from '@/lib/webauthn';
+import { EMAIL_NOT_CONFIGURED, VERIFICATION_EMAIL_NOT_SENT, emailConfigured, sendVerificationEmail } from '@/lib/email-tokens';
+
+// Create the passwordless account with its passkey and sign it in
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const result = webauthnResponseSchema.safeParse(body);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: result.error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (!emailConfigured()) {
+      return NextResponse.json({ error: EMAIL_NOT_CONFIGURED.error }, { status: EMAIL_NOT_CONFIGURED.status });
+    }
+
+    const user = await finishPasswordlessSignup(result.data.challengeId, result.data.response as unknown as RegistrationResponseJSON);
+    if ('error' in user) {
+      return NextResponse.json({ error: user.error }, { status: user.status });
+    }
+
+    const verificationEmailSent = await sendVerificationEmail(user);
+
+    const issued = await startSession(user, request);
+    if ('error' in issued) {
+      return NextResponse.json({ error: issued.error }, { status: issued.status });
+    }
+
+    const response = NextResponse.json({ message: verificationEmailSent ? 'User created successfully' : VERIFICATION_EMAIL_NOT_SENT, user: toAuthUser(user), verificationEmailSent }, { status: 201 });
+    return setSessionCookies(response, issued.accessToken, issued.tokens);
+  } catch (error) {
+    console.error('Passkey sign-up error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SMART_RESOURCE_TYPES } from '@/lib/smart/scopes';
+
+// SMART App Launch discovery document for the FHIR base URL /api/fhir
+export async function GET(request: NextRequest) {
+  const origin = request.nextUrl.origin;
+
+  return NextResponse.json({
+    issuer: `${origin}/api/fhir`,
+    authorization_endpoint: `${origin}/oauth/authorize`,
+    token_endpoint: `${origin}/api/oauth/token`,
+    introspection_endpoint: `${origin}/api/oauth/introspect`,
+    registration_endpoint: `${origin}/api/oauth/clients`,
+    token_endpoint_auth_methods_supported: ['none', 'client_secret_basic', 'client_secret_post'],
+    grant_types_supported: ['authorization_code'],
+    response_types_supported: ['code'],
+    code_challenge_methods_supported: ['S256'],
+    scopes_supported: [
+      'launch/patient',
+      'patient/*.read',
+      ...SMART_RESOURCE_TYPES.map(type => `patient/${type}.read`),
+      ...SMART_RESOURCE_TYPES.map(type => `patient/${type}.rs`),
+    ],
+    capabilities: ['launch-standalone', 'client-public', 'client-confidential-symmetric', 'context-standalone-patient', 'permission-patient', 'permission-v1', 'permission-v2'],
+  }, { status: 200 });
+}
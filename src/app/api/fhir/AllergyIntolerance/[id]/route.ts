@@ -0,0 +1,45 @@
+import { NextRequest } from 'next/server';
+import { db } from '@/db';
+import { allergies } from '@/db/schema';
+import { eq, and } from 'drizzle-orm';
+import { toFhirAllergyIntolerance } from '@/lib/fhir/allergy-intolerance';
+import { isResourceId } from '@/lib/fhir/common';
+import { fhirResponse, operationOutcome } from '@/lib/fhir/response';
+import { authenticateFhirRequest, canAccess } from '@/lib/smart/auth';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authenticateFhirRequest(request);
+    if (!auth) {
+      return operationOutcome(401, 'login', 'Authentication required');
+    }
+    if (!canAccess(auth, 'AllergyIntolerance', 'read')) {
+      return operationOutcome(403, 'forbidden', 'Access token scope does not allow reading AllergyIntolerance');
+    }
+
+    const userId = auth.userId;
+
+    const resolvedParams = await params;
+
+    // A malformed ID would make Postgres reject the query; it simply matches nothing
+    const allergy = isResourceId(resolvedParams.id)
+      ? await db
+          .select()
+          .from(allergies)
+          .where(and(eq(allergies.id, resolvedParams.id), eq(allergies.userId, userId)))
+          .limit(1)
+      : [];
+
+    if (allergy.length === 0) {
+      return operationOutcome(404, 'not-found', `AllergyIntolerance/${resolvedParams.id} not found`);
+    }
+
+    return fhirResponse(toFhirAllergyIntolerance(allergy[0]));
+  } catch (error) {
+    console.error('FHIR AllergyIntolerance read error:', error);
+    return operationOutcome(500, 'exception', 'Internal server error');
+  }
+}
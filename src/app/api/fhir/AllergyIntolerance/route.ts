@@ -0,0 +1,60 @@
+import { NextRequest } from 'next/server';
+import { db } from '@/db';
+import { allergies } from '@/db/schema';
+import { eq, and, desc } from 'drizzle-orm';
+import { toFhirAllergyIntolerance } from '@/lib/fhir/allergy-intolerance';
+import { referenceId } from '@/lib/fhir/common';
+import { searchsetBundle } from '@/lib/fhir/bundle';
+import { buildSearchConditions, parsePaging, ALLERGY_INTOLERANCE_SEARCH_PARAMETERS } from '@/lib/fhir/search';
+import { fhirResponse, operationOutcome } from '@/lib/fhir/response';
+import { authenticateFhirRequest, canAccess } from '@/lib/smart/auth';
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateFhirRequest(request);
+    if (!auth) {
+      return operationOutcome(401, 'login', 'Authentication required');
+    }
+    if (!canAccess(auth, 'AllergyIntolerance', 'search')) {
+      return operationOutcome(403, 'forbidden', 'Access token scope does not allow searching AllergyIntolerance');
+    }
+
+    const userId = auth.userId;
+
+    const { searchParams } = request.nextUrl;
+
+    const paging = parsePaging(searchParams);
+    if ('error' in paging) {
+      return operationOutcome(400, 'invalid', paging.error);
+    }
+
+    const search = buildSearchConditions(searchParams, ALLERGY_INTOLERANCE_SEARCH_PARAMETERS);
+    if ('error' in search) {
+      return operationOutcome(400, 'invalid', search.error);
+    }
+
+    // ?patient= accepts "<id>" or "Patient/<id>"; other patients simply have no matches
+    const patient = searchParams.get('patient');
+    if (patient && patient !== userId && referenceId({ reference: patient }, 'Patient') !== userId) {
+      return fhirResponse(searchsetBundle(request.nextUrl, [], { total: 0, ...paging }));
+    }
+
+    const where = and(eq(allergies.userId, userId), ...search.conditions);
+
+    const [allergyRecords, total] = await Promise.all([
+      db
+        .select()
+        .from(allergies)
+        .where(where)
+        .orderBy(desc(allergies.createdAt), desc(allergies.id))
+        .limit(paging.count)
+        .offset(paging.offset),
+      db.$count(allergies, where),
+    ]);
+
+    return fhirResponse(searchsetBundle(request.nextUrl, allergyRecords.map(toFhirAllergyIntolerance), { total, ...paging }));
+  } catch (error) {
+    console.error('FHIR AllergyIntolerance search error:', error);
+    return operationOutcome(500, 'exception', 'Internal server error');
+  }
+}
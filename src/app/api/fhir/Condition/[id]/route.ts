@@ -0,0 +1,45 @@
+import { NextRequest } from 'next/server';
+import { db } from '@/db';
+import { medicalConditions } from '@/db/schema';
+import { eq, and } from 'drizzle-orm';
+import { toFhirCondition } from '@/lib/fhir/condition';
+import { isResourceId } from '@/lib/fhir/common';
+import { fhirResponse, operationOutcome } from '@/lib/fhir/response';
+import { authenticateFhirRequest, canAccess } from '@/lib/smart/auth';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authenticateFhirRequest(request);
+    if (!auth) {
+      return operationOutcome(401, 'login', 'Authentication required');
+    }
+    if (!canAccess(auth, 'Condition', 'read')) {
+      return operationOutcome(403, 'forbidden', 'Access token scope does not allow reading Condition');
+    }
+
+    const userId = auth.userId;
+
+    const resolvedParams = await params;
+
+    // A malformed ID would make Postgres reject the query; it simply matches nothing
+    const condition = isResourceId(resolvedParams.id)
+      ? await db
+          .select()
+          .from(medicalConditions)
+          .where(and(eq(medicalConditions.id, resolvedParams.id), eq(medicalConditions.userId, userId)))
+          .limit(1)
+      : [];
+
+    if (condition.length === 0) {
+      return operationOutcome(404, 'not-found', `Condition/${resolvedParams.id} not found`);
+    }
+
+    return fhirResponse(toFhirCondition(condition[0]));
+  } catch (error) {
+    console.error('FHIR Condition read error:', error);
+    return operationOutcome(500, 'exception', 'Internal server error');
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest } from 'next/server';
+import { db } from '@/db';
+import { familyHistory } from '@/db/schema';
+import { eq, and } from 'drizzle-orm';
+import { toFhirFamilyMemberHistory } from '@/lib/fhir/family-member-history';
+import { isResourceId } from '@/lib/fhir/common';
+import { fhirResponse, operationOutcome } from '@/lib/fhir/response';
+import { authenticateFhirRequest, canAccess } from '@/lib/smart/auth';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authenticateFhirRequest(request);
+    if (!auth) {
+      return operationOutcome(401, 'login', 'Authentication required');
+    }
+    if (!canAccess(auth, 'FamilyMemberHistory', 'read')) {
+      return operationOutcome(403, 'forbidden', 'Access token scope does not allow reading FamilyMemberHistory');
+    }
+
+    const userId = auth.userId;
+
+    const resolvedParams = await params;
+
+    // A malformed ID would make Postgres reject the query; it simply matches nothing
+    const history = isResourceId(resolvedParams.id)
+      ? await db
+          .select()
+          .from(familyHistory)
+          .where(and(eq(familyHistory.id, resolvedParams.id), eq(familyHistory.userId, userId)))
+          .limit(1)
+      : [];
+
+    if (history.length === 0) {
+      return operationOutcome(404, 'not-found', `FamilyMemberHistory/${resolvedParams.id} not found`);
+    }
+
+    return fhirResponse(toFhirFamilyMemberHistory(history[0]));
+  } catch (error) {
+    console.error('FHIR FamilyMemberHistory read error:', error);
+    return operationOutcome(500, 'exception', 'Internal server error');
+  }
+}
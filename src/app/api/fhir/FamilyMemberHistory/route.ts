@@ -0,0 +1,55 @@
+import { NextRequest } from 'next/server';
+import { db } from '@/db';
+import { familyHistory } from '@/db/schema';
+import { eq, desc } from 'drizzle-orm';
+import { toFhirFamilyMemberHistory } from '@/lib/fhir/family-member-history';
+import { referenceId } from '@/lib/fhir/common';
+import { searchsetBundle } from '@/lib/fhir/bundle';
+import { parsePaging } from '@/lib/fhir/search';
+import { fhirResponse, operationOutcome } from '@/lib/fhir/response';
+import { authenticateFhirRequest, canAccess } from '@/lib/smart/auth';
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateFhirRequest(request);
+    if (!auth) {
+      return operationOutcome(401, 'login', 'Authentication required');
+    }
+    if (!canAccess(auth, 'FamilyMemberHistory', 'search')) {
+      return operationOutcome(403, 'forbidden', 'Access token scope does not allow searching FamilyMemberHistory');
+    }
+
+    const userId = auth.userId;
+
+    const { searchParams } = request.nextUrl;
+
+    const paging = parsePaging(searchParams);
+    if ('error' in paging) {
+      return operationOutcome(400, 'invalid', paging.error);
+    }
+
+    // ?patient= accepts "<id>" or "Patient/<id>"; other patients simply have no matches
+    const patient = searchParams.get('patient');
+    if (patient && patient !== userId && referenceId({ reference: patient }, 'Patient') !== userId) {
+      return fhirResponse(searchsetBundle(request.nextUrl, [], { total: 0, ...paging }));
+    }
+
+    const where = eq(familyHistory.userId, userId);
+
+    const [history, total] = await Promise.all([
+      db
+        .select()
+        .from(familyHistory)
+        .where(where)
+        .orderBy(desc(familyHistory.createdAt), desc(familyHistory.id))
+        .limit(paging.count)
+        .offset(paging.offset),
+      db.$count(familyHistory, where),
+    ]);
+
+    return fhirResponse(searchsetBundle(request.nextUrl, history.map(toFhirFamilyMemberHistory), { total, ...paging }));
+  } catch (error) {
+    console.error('FHIR FamilyMemberHistory search error:', error);
+    return operationOutcome(500, 'exception', 'Internal server error');
+  }
+}
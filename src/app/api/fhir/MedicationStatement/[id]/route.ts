@@ -0,0 +1,45 @@
+import { NextRequest } from 'next/server';
+import { db } from '@/db';
+import { medications } from '@/db/schema';
+import { eq, and } from 'drizzle-orm';
+import { toFhirMedicationStatement } from '@/lib/fhir/medication-statement';
+import { isResourceId } from '@/lib/fhir/common';
+import { fhirResponse, operationOutcome } from '@/lib/fhir/response';
+import { authenticateFhirRequest, canAccess } from '@/lib/smart/auth';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authenticateFhirRequest(request);
+    if (!auth) {
+      return operationOutcome(401, 'login', 'Authentication required');
+    }
+    if (!canAccess(auth, 'MedicationStatement', 'read')) {
+      return operationOutcome(403, 'forbidden', 'Access token scope does not allow reading MedicationStatement');
+    }
+
+    const userId = auth.userId;
+
+    const resolvedParams = await params;
+
+    // A malformed ID would make Postgres reject the query; it simply matches nothing
+    const medication = isResourceId(resolvedParams.id)
+      ? await db
+          .select()
+          .from(medications)
+          .where(and(eq(medications.id, resolvedParams.id), eq(medications.userId, userId)))
+          .limit(1)
+      : [];
+
+    if (medication.length === 0) {
+      return operationOutcome(404, 'not-found', `MedicationStatement/${resolvedParams.id} not found`);
+    }
+
+    return fhirResponse(toFhirMedicationStatement(medication[0]));
+  } catch (error) {
+    console.error('FHIR MedicationStatement read error:', error);
+    return operationOutcome(500, 'exception', 'Internal server error');
+  }
+}
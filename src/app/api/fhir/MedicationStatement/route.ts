@@ -0,0 +1,60 @@
+import { NextRequest } from 'next/server';
+import { db } from '@/db';
+import { medications } from '@/db/schema';
+import { eq, and, desc } from 'drizzle-orm';
+import { toFhirMedicationStatement } from '@/lib/fhir/medication-statement';
+import { referenceId } from '@/lib/fhir/common';
+import { searchsetBundle } from '@/lib/fhir/bundle';
+import { buildSearchConditions, parsePaging, MEDICATION_STATEMENT_SEARCH_PARAMETERS } from '@/lib/fhir/search';
+import { fhirResponse, operationOutcome } from '@/lib/fhir/response';
+import { authenticateFhirRequest, canAccess } from '@/lib/smart/auth';
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateFhirRequest(request);
+    if (!auth) {
+      return operationOutcome(401, 'login', 'Authentication required');
+    }
+    if (!canAccess(auth, 'MedicationStatement', 'search')) {
+      return operationOutcome(403, 'forbidden', 'Access token scope does not allow searching MedicationStatement');
+    }
+
+    const userId = auth.userId;
+
+    const { searchParams } = request.nextUrl;
+
+    const paging = parsePaging(searchParams);
+    if ('error' in paging) {
+      return operationOutcome(400, 'invalid', paging.error);
+    }
+
+    const search = buildSearchConditions(searchParams, MEDICATION_STATEMENT_SEARCH_PARAMETERS);
+    if ('error' in search) {
+      return operationOutcome(400, 'invalid', search.error);
+    }
+
+    // ?patient= accepts "<id>" or "Patient/<id>"; other patients simply have no matches
+    const patient = searchParams.get('patient');
+    if (patient && patient !== userId && referenceId({ reference: patient }, 'Patient') !== userId) {
+      return fhirResponse(searchsetBundle(request.nextUrl, [], { total: 0, ...paging }));
+    }
+
+    const where = and(eq(medications.userId, userId), ...search.conditions);
+
+    const [medicationList, total] = await Promise.all([
+      db
+        .select()
+        .from(medications)
+        .where(where)
+        .orderBy(desc(medications.createdAt), desc(medications.id))
+        .limit(paging.count)
+        .offset(paging.offset),
+      db.$count(medications, where),
+    ]);
+
+    return fhirResponse(searchsetBundle(request.nextUrl, medicationList.map(toFhirMedicationStatement), { total, ...paging }));
+  } catch (error) {
+    console.error('FHIR MedicationStatement search error:', error);
+    return operationOutcome(500, 'exception', 'Internal server error');
+  }
+}
@@ -0,0 +1,95 @@
+import { NextRequest } from 'next/server';
+import { db } from '@/db';
+import {
+  users,
+  patientProfiles,
+  medicalConditions,
+  allergies,
+  medications,
+  familyHistory,
+  pastConsultations,
+  consultationTranscripts,
+} from '@/db/schema';
+import { eq, inArray, asc } from 'drizzle-orm';
+import { toFhirPatient } from '@/lib/fhir/patient';
+import { toFhirCondition } from '@/lib/fhir/condition';
+import { toFhirAllergyIntolerance } from '@/lib/fhir/allergy-intolerance';
+import { toFhirMedicationStatement } from '@/lib/fhir/medication-statement';
+import { toFhirFamilyMemberHistory } from '@/lib/fhir/family-member-history';
+import { toFhirEncounter, toFhirDocumentReference } from '@/lib/fhir/consultation';
+import { collectionBundle } from '@/lib/fhir/bundle';
+import { fhirResponse, operationOutcome } from '@/lib/fhir/response';
+import { authenticateFhirRequest, canAccess } from '@/lib/smart/auth';
+
+// Patient/$everything: the patient's whole record as a single collection Bundle
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authenticateFhirRequest(request);
+    if (!auth) {
+      return operationOutcome(401, 'login', 'Authentication required');
+    }
+    if (!canAccess(auth, '*', 'read')) {
+      return operationOutcome(403, 'forbidden', 'Patient/$everything requires the patient/*.read scope');
+    }
+
+    const userId = auth.userId;
+
+    const resolvedParams = await params;
+
+    if (resolvedParams.id !== userId) {
+      return operationOutcome(404, 'not-found', `Patient/${resolvedParams.id} not found`);
+    }
+
+    const user = await db
+      .select()
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1);
+
+    if (user.length === 0) {
+      return operationOutcome(404, 'not-found', `Patient/${resolvedParams.id} not found`);
+    }
+
+    const [profile, conditions, allergyRecords, medicationList, history, consultations] = await Promise.all([
+      db.select().from(patientProfiles).where(eq(patientProfiles.userId, userId)).limit(1),
+      db.select().from(medicalConditions).where(eq(medicalConditions.userId, userId)).orderBy(asc(medicalConditions.createdAt)),
+      db.select().from(allergies).where(eq(allergies.userId, userId)).orderBy(asc(allergies.createdAt)),
+      db.select().from(medications).where(eq(medications.userId, userId)).orderBy(asc(medications.createdAt)),
+      db.select().from(familyHistory).where(eq(familyHistory.userId, userId)).orderBy(asc(familyHistory.createdAt)),
+      db.select().from(pastConsultations).where(eq(pastConsultations.userId, userId)).orderBy(asc(pastConsultations.createdAt)),
+    ]);
+
+    const transcriptTurns = consultations.length > 0
+      ? await db
+          .select()
+          .from(consultationTranscripts)
+          .where(inArray(consultationTranscripts.consultationId, consultations.map(c => c.id)))
+          .orderBy(asc(consultationTranscripts.turnIndex))
+      : [];
+
+    const consultationsWithTranscripts = consultations.map(consultation => ({
+      ...consultation,
+      transcript: transcriptTurns.filter(turn => turn.consultationId === consultation.id),
+    }));
+
+    const bundle = collectionBundle(request.nextUrl.origin, [
+      toFhirPatient(user[0], profile[0] ?? null),
+      ...conditions.map(toFhirCondition),
+      ...allergyRecords.map(toFhirAllergyIntolerance),
+      ...medicationList.map(toFhirMedicationStatement),
+      ...history.map(toFhirFamilyMemberHistory),
+      ...consultationsWithTranscripts.flatMap(consultation => [
+        toFhirEncounter(consultation),
+        toFhirDocumentReference(consultation),
+      ]),
+    ]);
+
+    return fhirResponse(bundle);
+  } catch (error) {
+    console.error('FHIR Patient $everything error:', error);
+    return operationOutcome(500, 'exception', 'Internal server error');
+  }
+}
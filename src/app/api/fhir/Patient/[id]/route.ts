@@ -0,0 +1,61 @@
+import { NextRequest } from 'next/server';
+import { db } from '@/db';
+import { users, patientProfiles } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { toFhirPatient } from '@/lib/fhir/patient';
+import { validateUsCorePatient } from '@/lib/fhir/validation';
+import { fhirResponse, operationOutcome } from '@/lib/fhir/response';
+import { authenticateFhirRequest, canAccess } from '@/lib/smart/auth';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authenticateFhirRequest(request);
+    if (!auth) {
+      return operationOutcome(401, 'login', 'Authentication required');
+    }
+    if (!canAccess(auth, 'Patient', 'read')) {
+      return operationOutcome(403, 'forbidden', 'Access token scope does not allow reading Patient');
+    }
+
+    const userId = auth.userId;
+
+    const resolvedParams = await params;
+
+    // Patients can only read their own record; don't reveal whether other IDs exist
+    if (resolvedParams.id !== userId) {
+      return operationOutcome(404, 'not-found', `Patient/${resolvedParams.id} not found`);
+    }
+
+    const user = await db
+      .select()
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1);
+
+    if (user.length === 0) {
+      return operationOutcome(404, 'not-found', `Patient/${resolvedParams.id} not found`);
+    }
+
+    const profile = await db
+      .select()
+      .from(patientProfiles)
+      .where(eq(patientProfiles.userId, userId))
+      .limit(1);
+
+    const patient = toFhirPatient(user[0], profile[0] ?? null);
+
+    const errors = validateUsCorePatient(patient).filter(issue => issue.severity === 'error');
+    if (errors.length > 0) {
+      console.error('FHIR Patient failed US Core validation:', errors);
+      return operationOutcome(500, 'processing', 'Patient resource failed US Core validation', errors);
+    }
+
+    return fhirResponse(patient);
+  } catch (error) {
+    console.error('FHIR Patient read error:', error);
+    return operationOutcome(500, 'exception', 'Internal server error');
+  }
+}
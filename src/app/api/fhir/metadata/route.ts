@@ -0,0 +1,13 @@
+import { NextRequest } from 'next/server';
+import { buildCapabilityStatement } from '@/lib/fhir/capability';
+import { fhirResponse, operationOutcome } from '@/lib/fhir/response';
+
+// The CapabilityStatement is public so partner systems can discover the API before authenticating
+export async function GET(request: NextRequest) {
+  try {
+    return fhirResponse(buildCapabilityStatement(request.nextUrl.origin));
+  } catch (error) {
+    console.error('FHIR metadata error:', error);
+    return operationOutcome(500, 'exception', 'Internal server error');
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { oauthAuthorizationCodes } from '@/db/schema';
+import { validateAuthorizationRequest, buildRedirectUrl, fhirBaseUrl } from '@/lib/smart/authorization';
+import { describeScope } from '@/lib/smart/scopes';
+import { generateSecret, hashSecret, AUTHORIZATION_CODE_TTL_SECONDS } from '@/lib/smart/tokens';
+import { withAuth } from '@/lib/auth-server';
+
+// Validates the app's authorization request for the consent screen at /oauth/authorize
+export async function GET(request: NextRequest) {
+  try {
+    const authorization = await validateAuthorizationRequest(request.nextUrl.searchParams, fhirBaseUrl(request));
+    if ('error' in authorization) {
+      return NextResponse.json(authorization, { status: 400 });
+    }
+
+    return NextResponse.json({
+      client: { name: authorization.client.name },
+      redirectUri: authorization.redirectUri,
+      scopes: authorization.scopes.map(scope => ({ scope, description: describeScope(scope) })),
+    }, { status: 200 });
+  } catch (error) {
+    console.error('OAuth authorization request error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// The signed-in patient approves or denies the request; returns where to send the browser next
+export const POST = withAuth(async (request, { userId }) => {
+  try {
+    const body = await request.json();
+    const params = new URLSearchParams(typeof body.query === 'string' ? body.query : '');
+
+    const authorization = await validateAuthorizationRequest(params, fhirBaseUrl(request));
+    if ('error' in authorization) {
+      return NextResponse.json(authorization, { status: 400 });
+    }
+
+    if (body.approve !== true) {
+      return NextResponse.json({
+        redirectUrl: buildRedirectUrl(authorization.redirectUri, {
+          error: 'access_denied',
+          error_description: 'The patient denied the request',
+          state: authorization.state,
+        }),
+      }, { status: 200 });
+    }
+
+    const code = generateSecret();
+
+    await db
+      .insert(oauthAuthorizationCodes)
+      .values({
+        codeHash: hashSecret(code),
+        clientId: authorization.client.id,
+        userId,
+        redirectUri: authorization.redirectUri,
+        scope: authorization.scopes.join(' '),
+        codeChallenge: authorization.codeChallenge,
+        expiresAt: new Date(Date.now() + AUTHORIZATION_CODE_TTL_SECONDS * 1000),
+      });
+
+    console.log(`OAuth: patient ${userId} authorized client ${authorization.client.clientId} for "${authorization.scopes.join(' ')}"`);
+
+    return NextResponse.json({
+      redirectUrl: buildRedirectUrl(authorization.redirectUri, { code, state: authorization.state }),
+    }, { status: 200 });
+  } catch (error) {
+    console.error('OAuth authorization error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+});
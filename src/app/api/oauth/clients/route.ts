@@ -0,0 +1,83 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/db';
+import { oauthClients, oauthClientRegistrationSchema, OAuthClient } from '@/db/schema';
+import { eq, desc } from 'drizzle-orm';
+import { generateSecret, hashSecret } from '@/lib/smart/tokens';
+import { parseScope, isSupportedScope, DEFAULT_CLIENT_SCOPE } from '@/lib/smart/scopes';
+import { withAuth } from '@/lib/auth-server';
+
+const toRegistrationResponse = (client: OAuthClient) => ({
+  client_id: client.clientId,
+  client_name: client.name,
+  redirect_uris: client.redirectUris,
+  scope: client.scope,
+  token_endpoint_auth_method: client.clientSecretHash ? 'client_secret_basic' : 'none',
+  client_id_issued_at: Math.floor(client.createdAt.getTime() / 1000),
+});
+
+// Clients registered by the signed-in user
+export const GET = withAuth(async (request, { userId }) => {
+  try {
+    const clients = await db
+      .select()
+      .from(oauthClients)
+      .where(eq(oauthClients.ownerId, userId))
+      .orderBy(desc(oauthClients.createdAt));
+
+    return NextResponse.json({ clients: clients.map(toRegistrationResponse) }, { status: 200 });
+  } catch (error) {
+    console.error('OAuth clients fetch error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+});
+
+// Register a third-party app (RFC 7591 request/response fields). The client secret is only returned once.
+export const POST = withAuth(async (request, { userId }) => {
+  try {
+    const body = await request.json();
+
+    const result = oauthClientRegistrationSchema.safeParse(body);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: result.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const scopes = parseScope(result.data.scope ?? DEFAULT_CLIENT_SCOPE);
+    const unsupported = scopes.filter(scope => !isSupportedScope(scope));
+    if (unsupported.length > 0) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: [{ path: ['scope'], message: `Unsupported scopes: ${unsupported.join(' ')}` }] },
+        { status: 400 }
+      );
+    }
+
+    const isConfidential = result.data.token_endpoint_auth_method !== 'none';
+    const clientSecret = isConfidential ? generateSecret() : null;
+
+    const newClient = await db
+      .insert(oauthClients)
+      .values({
+        clientId: generateSecret().slice(0, 32),
+        clientSecretHash: clientSecret ? hashSecret(clientSecret) : null,
+        name: result.data.client_name,
+        redirectUris: result.data.redirect_uris,
+        scope: scopes.join(' '),
+        ownerId: userId,
+      })
+      .returning();
+
+    return NextResponse.json(
+      {
+        ...toRegistrationResponse(newClient[0]),
+        token_endpoint_auth_method: result.data.token_endpoint_auth_method,
+        ...(clientSecret && { client_secret: clientSecret, client_secret_expires_at: 0 }),
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('OAuth client registration error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+});
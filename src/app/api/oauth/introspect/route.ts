@@ -0,0 +1,49 @@
+import { NextRequest } from 'next/server';
+import { db } from '@/db';
+import { oauthAccessTokens } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { authenticateClient, oauthResponse, oauthError } from '@/lib/smart/authorization';
+import { hashSecret } from '@/lib/smart/tokens';
+
+// Token introspection (RFC 7662). Clients can only introspect tokens issued to them;
+// anything else is reported as inactive without revealing why.
+export async function POST(request: NextRequest) {
+  try {
+    const form = new URLSearchParams(await request.text());
+
+    const client = await authenticateClient(request, form);
+    if (!client) {
+      return oauthError(401, 'invalid_client', 'Client authentication failed');
+    }
+
+    const token = form.get('token');
+    if (!token) {
+      return oauthError(400, 'invalid_request', 'token is required');
+    }
+
+    const accessToken = await db
+      .select()
+      .from(oauthAccessTokens)
+      .where(eq(oauthAccessTokens.tokenHash, hashSecret(token)))
+      .limit(1);
+
+    const record = accessToken[0];
+    if (!record || record.clientId !== client.id || record.revokedAt || record.expiresAt < new Date()) {
+      return oauthResponse({ active: false });
+    }
+
+    return oauthResponse({
+      active: true,
+      scope: record.scope,
+      client_id: client.clientId,
+      token_type: 'Bearer',
+      sub: record.userId,
+      patient: record.userId,
+      iat: Math.floor(record.createdAt.getTime() / 1000),
+      exp: Math.floor(record.expiresAt.getTime() / 1000),
+    });
+  } catch (error) {
+    console.error('OAuth introspection error:', error);
+    return oauthError(500, 'server_error', 'Internal server error');
+  }
+}
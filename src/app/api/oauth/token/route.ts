@@ -0,0 +1,100 @@
+import { NextRequest } from 'next/server';
+import { db } from '@/db';
+import { oauthAuthorizationCodes, oauthAccessTokens } from '@/db/schema';
+import { eq, and, isNull } from 'drizzle-orm';
+import { authenticateClient, oauthResponse, oauthError } from '@/lib/smart/authorization';
+import {
+  generateSecret,
+  hashSecret,
+  verifyCodeChallenge,
+  ACCESS_TOKEN_PREFIX,
+  ACCESS_TOKEN_TTL_SECONDS,
+} from '@/lib/smart/tokens';
+
+// Authorization code grant with PKCE (RFC 6749 4.1.3, RFC 7636). Refresh tokens are not issued.
+export async function POST(request: NextRequest) {
+  try {
+    const form = new URLSearchParams(await request.text());
+
+    const client = await authenticateClient(request, form);
+    if (!client) {
+      return oauthError(401, 'invalid_client', 'Client authentication failed');
+    }
+
+    if (form.get('grant_type') !== 'authorization_code') {
+      return oauthError(400, 'unsupported_grant_type', 'Only grant_type=authorization_code is supported');
+    }
+
+    const code = form.get('code');
+    const codeVerifier = form.get('code_verifier');
+    if (!code || !codeVerifier) {
+      return oauthError(400, 'invalid_request', 'code and code_verifier are required');
+    }
+
+    // Claim the code atomically so it can only be exchanged once
+    const codeHash = hashSecret(code);
+    const claimed = await db
+      .update(oauthAuthorizationCodes)
+      .set({ usedAt: new Date() })
+      .where(and(eq(oauthAuthorizationCodes.codeHash, codeHash), isNull(oauthAuthorizationCodes.usedAt)))
+      .returning();
+
+    if (claimed.length === 0) {
+      // A replayed code may have been stolen; revoke everything issued from it (RFC 6749 4.1.2)
+      const reused = await db
+        .select()
+        .from(oauthAuthorizationCodes)
+        .where(eq(oauthAuthorizationCodes.codeHash, codeHash))
+        .limit(1);
+
+      if (reused.length > 0) {
+        console.error(`OAuth: authorization code reused by client ${client.clientId}; revoking its tokens`);
+        await db
+          .update(oauthAccessTokens)
+          .set({ revokedAt: new Date() })
+          .where(and(eq(oauthAccessTokens.authorizationCodeId, reused[0].id), isNull(oauthAccessTokens.revokedAt)));
+      }
+      return oauthError(400, 'invalid_grant', 'Invalid or already used authorization code');
+    }
+
+    const authorizationCode = claimed[0];
+
+    if (authorizationCode.clientId !== client.id) {
+      return oauthError(400, 'invalid_grant', 'Authorization code was issued to another client');
+    }
+    if (authorizationCode.expiresAt < new Date()) {
+      return oauthError(400, 'invalid_grant', 'Authorization code has expired');
+    }
+    if (form.get('redirect_uri') !== authorizationCode.redirectUri) {
+      return oauthError(400, 'invalid_grant', 'redirect_uri does not match the authorization request');
+    }
+    if (!verifyCodeChallenge(codeVerifier, authorizationCode.codeChallenge)) {
+      return oauthError(400, 'invalid_grant', 'code_verifier does not match the code_challenge');
+    }
+
+    const accessToken = generateSecret(ACCESS_TOKEN_PREFIX);
+
+    await db
+      .insert(oauthAccessTokens)
+      .values({
+        tokenHash: hashSecret(accessToken),
+        clientId: client.id,
+        userId: authorizationCode.userId,
+        authorizationCodeId: authorizationCode.id,
+        scope: authorizationCode.scope,
+        expiresAt: new Date(Date.now() + ACCESS_TOKEN_TTL_SECONDS * 1000),
+      });
+
+    // SMART launch context: the Patient ID is the user ID
+    return oauthResponse({
+      access_token: accessToken,
+      token_type: 'Bearer',
+      expires_in: ACCESS_TOKEN_TTL_SECONDS,
+      scope: authorizationCode.scope,
+      patient: authorizationCode.userId,
+    });
+  } catch (error) {
+    console.error('OAuth token error:', error);
+    return oauthError(500, 'server_error', 'Internal server error');
+  }
+}
@@ -0,0 +1,93 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/db';
+import { allergies } from '@/db/schema';
+import { insertAllergySchema } from '@/db/schema';
+import { eq, and } from 'drizzle-orm';
+import { withAuth } from '@/lib/auth-server';
+import { isResourceId } from '@/lib/fhir/common';
+
+export const PUT = withAuth(async (request, { userId }, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const body = await request.json();
+    const resolvedParams = await params;
+    if (!isResourceId(resolvedParams.id)) {
+      return NextResponse.json({ error: 'Allergy not found' }, { status: 404 });
+    }
+    
+    // Clean up empty strings to undefined to match schema expectations
+    const cleanedBody = Object.fromEntries(
+      Object.entries(body).map(([key, value]) => [key, value === '' ? undefined : value])
+    );
+    
+    console.log('Received allergy update data:', cleanedBody);
+    
+    // Validate input (exclude userId since it comes from token)
+    const validationSchema = insertAllergySchema.omit({ userId: true });
+    const result = validationSchema.safeParse(cleanedBody);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: result.error.issues },
+        { status: 400 }
+      );
+    }
+
+    // Update allergy (ensure it belongs to the user)
+    const updatedAllergy = await db
+      .update(allergies)
+      .set({
+        ...result.data,
+        updatedAt: new Date(),
+      })
+      .where(
+        and(
+          eq(allergies.id, resolvedParams.id),
+          eq(allergies.userId, userId)
+        )
+      )
+      .returning();
+
+    if (updatedAllergy.length === 0) {
+      return NextResponse.json({ error: 'Allergy not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { message: 'Allergy updated successfully', allergy: updatedAllergy[0] },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Allergy update error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+});
+
+export const DELETE = withAuth(async (request, { userId }, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const resolvedParams = await params;
+    if (!isResourceId(resolvedParams.id)) {
+      return NextResponse.json({ error: 'Allergy not found' }, { status: 404 });
+    }
+
+    // Delete allergy (ensure it belongs to the user)
+    const deletedAllergy = await db
+      .delete(allergies)
+      .where(
+        and(
+          eq(allergies.id, resolvedParams.id),
+          eq(allergies.userId, userId)
+        )
+      )
+      .returning();
+
+    if (deletedAllergy.length === 0) {
+      return NextResponse.json({ error: 'Allergy not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { message: 'Allergy deleted successfully' },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Allergy deletion error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+});
@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/db';
+import { allergies } from '@/db/schema';
+import { insertAllergySchema } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { withAuth } from '@/lib/auth-server';
+
+export const GET = withAuth(async (request, { userId }) => {
+  try {
+    const userAllergies = await db
+      .select()
+      .from(allergies)
+      .where(eq(allergies.userId, userId))
+      .orderBy(allergies.createdAt);
+
+    return NextResponse.json({ allergies: userAllergies }, { status: 200 });
+  } catch (error) {
+    console.error('Allergies fetch error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+});
+
+export const POST = withAuth(async (request, { userId }) => {
+  try {
+    const body = await request.json();
+    
+    // Clean up empty strings to undefined to match schema expectations
+    const cleanedBody = Object.fromEntries(
+      Object.entries(body).map(([key, value]) => [key, value === '' ? undefined : value])
+    );
+    
+    console.log('Received allergy data:', cleanedBody);
+    
+    // Validate input (exclude userId since it comes from token)
+    const validationSchema = insertAllergySchema.omit({ userId: true });
+    const result = validationSchema.safeParse(cleanedBody);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: result.error.issues },
+        { status: 400 }
+      );
+    }
+
+    // Create allergy
+    const newAllergy = await db
+      .insert(allergies)
+      .values({
+        ...result.data,
+        userId,
+      })
+      .returning();
+
+    return NextResponse.json(
+      { message: 'Allergy added successfully', allergy: newAllergy[0] },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Allergy creation error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+});
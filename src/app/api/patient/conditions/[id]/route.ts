@@ -1,35 +1,12 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { db } from '@/db';
 import { medicalConditions } from '@/db/schema';
 import { insertMedicalConditionSchema } from '@/db/schema';
 import { eq, and } from 'drizzle-orm';
-import { verify } from 'jsonwebtoken';
+import { withAuth } from '@/lib/auth-server';
 
-async function getUserFromToken(request: NextRequest) {
-  const authHeader = request.headers.get('authorization');
-  if (!authHeader?.startsWith('Bearer ')) {
-    return null;
-  }
-
-  const token = authHeader.substring(7);
-  try {
-    const decoded = verify(token, process.env.NEXTAUTH_SECRET || 'fallback-secret') as { userId: string };
-    return decoded.userId;
-  } catch {
-    return null;
-  }
-}
-
-export async function PUT(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+export const PUT = withAuth(async (request, { userId }, { params }: { params: Promise<{ id: string }> }) => {
   try {
-    const userId = await getUserFromToken(request);
-    if (!userId) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
     const body = await request.json();
     const resolvedParams = await params;
     
@@ -77,18 +54,10 @@ export async function PUT(
     console.error('Condition update error:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-}
+});
 
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+export const DELETE = withAuth(async (request, { userId }, { params }: { params: Promise<{ id: string }> }) => {
   try {
-    const userId = await getUserFromToken(request);
-    if (!userId) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
     const resolvedParams = await params;
 
     // Delete condition (ensure it belongs to the user)
@@ -114,4 +83,4 @@ export async function DELETE(
     console.error('Condition deletion error:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-}
+});
@@ -1,32 +1,12 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { db } from '@/db';
 import { medicalConditions } from '@/db/schema';
 import { insertMedicalConditionSchema } from '@/db/schema';
 import { eq } from 'drizzle-orm';
-import { verify } from 'jsonwebtoken';
+import { withAuth } from '@/lib/auth-server';
 
-async function getUserFromToken(request: NextRequest) {
-  const authHeader = request.headers.get('authorization');
-  if (!authHeader?.startsWith('Bearer ')) {
-    return null;
-  }
-
-  const token = authHeader.substring(7);
-  try {
-    const decoded = verify(token, process.env.NEXTAUTH_SECRET || 'fallback-secret') as { userId: string };
-    return decoded.userId;
-  } catch {
-    return null;
-  }
-}
-
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request, { userId }) => {
   try {
-    const userId = await getUserFromToken(request);
-    if (!userId) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
     const conditions = await db
       .select()
       .from(medicalConditions)
@@ -38,15 +18,10 @@ export async function GET(request: NextRequest) {
     console.error('Conditions fetch error:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-}
+});
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request, { userId }) => {
   try {
-    const userId = await getUserFromToken(request);
-    if (!userId) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
     const body = await request.json();
     
     // Clean up empty strings to undefined to match schema expectations
@@ -83,4 +58,4 @@ export async function POST(request: NextRequest) {
     console.error('Condition creation error:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-}
+});
@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/db';
+import { pastConsultations, consultationTranscripts, consultationRedFlags } from '@/db/schema';
+import { eq, and, asc } from 'drizzle-orm';
+import { withAuth } from '@/lib/auth-server';
+import { isResourceId } from '@/lib/fhir/common';
+
+export const GET = withAuth(async (request, { userId }, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const resolvedParams = await params;
+    if (!isResourceId(resolvedParams.id)) {
+      return NextResponse.json({ error: 'Consultation not found' }, { status: 404 });
+    }
+
+    // Fetch consultation (ensure it belongs to the user)
+    const consultation = await db
+      .select()
+      .from(pastConsultations)
+      .where(
+        and(
+          eq(pastConsultations.id, resolvedParams.id),
+          eq(pastConsultations.userId, userId)
+        )
+      )
+      .limit(1);
+
+    if (consultation.length === 0) {
+      return NextResponse.json({ error: 'Consultation not found' }, { status: 404 });
+    }
+
+    const transcript = await db
+      .select()
+      .from(consultationTranscripts)
+      .where(eq(consultationTranscripts.consultationId, consultation[0].id))
+      .orderBy(asc(consultationTranscripts.turnIndex));
+
+    const redFlags = await db
+      .select()
+      .from(consultationRedFlags)
+      .where(eq(consultationRedFlags.consultationId, consultation[0].id))
+      .orderBy(asc(consultationRedFlags.detectedAt));
+
+    return NextResponse.json(
+      { consultation: { ...consultation[0], transcript, redFlags } },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Consultation fetch error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+});
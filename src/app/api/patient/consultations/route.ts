@@ -1,52 +1,54 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { randomUUID } from 'crypto';
+import { NextResponse } from 'next/server';
 import { db } from '@/db';
-import { pastConsultations } from '@/db/schema';
-import { insertConsultationSchema } from '@/db/schema';
-import { eq } from 'drizzle-orm';
-import { verify } from 'jsonwebtoken';
-
-async function getUserFromToken(request: NextRequest) {
-  const authHeader = request.headers.get('authorization');
-  if (!authHeader?.startsWith('Bearer ')) {
-    return null;
-  }
+import { pastConsultations, consultationTranscripts, consultationRedFlags, ConsultationTranscript, NewConsultationRedFlag } from '@/db/schema';
+import { insertConsultationSchema, insertConsultationTranscriptSchema, insertConsultationRedFlagSchema } from '@/db/schema';
+import { eq, inArray, asc } from 'drizzle-orm';
+import { withAuth } from '@/lib/auth-server';
 
-  const token = authHeader.substring(7);
-  try {
-    const decoded = verify(token, process.env.NEXTAUTH_SECRET || 'fallback-secret') as { userId: string };
-    return decoded.userId;
-  } catch {
-    return null;
+// The webhook may already have logged some of these; keep the first record of each rule
+async function saveRedFlags(consultationId: string, redFlags: Omit<NewConsultationRedFlag, 'consultationId'>[]) {
+  if (redFlags.length === 0) {
+    return;
   }
+
+  await db
+    .insert(consultationRedFlags)
+    .values(redFlags.map(flag => ({ ...flag, consultationId })))
+    .onConflictDoNothing();
 }
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request, { userId }) => {
   try {
-    const userId = await getUserFromToken(request);
-    if (!userId) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
     const consultations = await db
       .select()
       .from(pastConsultations)
       .where(eq(pastConsultations.userId, userId))
       .orderBy(pastConsultations.createdAt);
 
-    return NextResponse.json({ consultations }, { status: 200 });
+    // Attach each consultation's transcript turns
+    const transcriptTurns = consultations.length > 0
+      ? await db
+          .select()
+          .from(consultationTranscripts)
+          .where(inArray(consultationTranscripts.consultationId, consultations.map(c => c.id)))
+          .orderBy(asc(consultationTranscripts.turnIndex))
+      : [];
+
+    const consultationsWithTranscripts = consultations.map(consultation => ({
+      ...consultation,
+      transcript: transcriptTurns.filter(turn => turn.consultationId === consultation.id),
+    }));
+
+    return NextResponse.json({ consultations: consultationsWithTranscripts }, { status: 200 });
   } catch (error) {
     console.error('Consultations fetch error:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-}
+});
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request, { userId }) => {
   try {
-    const userId = await getUserFromToken(request);
-    if (!userId) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
     const body = await request.json();
     
     // Prepare consultation data (exclude userId since it comes from token)
@@ -56,6 +58,10 @@ export async function POST(request: NextRequest) {
       diagnosis: body.diagnosis,
       followUpContacts: body.followUpContacts,
       disclaimer: body.disclaimer,
+      durationSeconds: typeof body.duration === 'number' ? Math.round(body.duration) : undefined,
+      startedAt: body.startedAt,
+      endedAt: body.endedAt,
+      vapiCallId: body.vapiCallId,
     };
 
     console.log('Received consultation data:', consultationData);
@@ -70,21 +76,110 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Create consultation record
-    const newConsultation = await db
+    // Validate transcript turns (consultationId is assigned once the consultation exists)
+    const turnSchema = insertConsultationTranscriptSchema.omit({ consultationId: true });
+    const turnsResult = turnSchema.array().safeParse(Array.isArray(body.turns) ? body.turns : []);
+    if (!turnsResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: turnsResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    // Validate emergency red flags detected during the call
+    const redFlagSchema = insertConsultationRedFlagSchema.omit({ consultationId: true, detectedAt: true });
+    const redFlagsResult = redFlagSchema.array().safeParse(Array.isArray(body.redFlags) ? body.redFlags : []);
+    if (!redFlagsResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: redFlagsResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    // The VAPI webhook may already have created this call's consultation
+    const existingConsultation = result.data.vapiCallId
+      ? await db
+          .select()
+          .from(pastConsultations)
+          .where(eq(pastConsultations.vapiCallId, result.data.vapiCallId))
+          .limit(1)
+      : [];
+
+    if (existingConsultation.length > 0 && existingConsultation[0].userId !== userId) {
+      return NextResponse.json({ error: 'Consultation already exists' }, { status: 409 });
+    }
+
+    if (existingConsultation.length > 0) {
+      const updatedConsultation = await db
+        .update(pastConsultations)
+        .set({
+          ...result.data,
+          // Prefer the call timing VAPI reported to the server
+          durationSeconds: existingConsultation[0].durationSeconds ?? result.data.durationSeconds,
+          startedAt: existingConsultation[0].startedAt ?? result.data.startedAt,
+          endedAt: existingConsultation[0].endedAt ?? result.data.endedAt,
+        })
+        .where(eq(pastConsultations.id, existingConsultation[0].id))
+        .returning();
+
+      let transcript = await db
+        .select()
+        .from(consultationTranscripts)
+        .where(eq(consultationTranscripts.consultationId, existingConsultation[0].id))
+        .orderBy(asc(consultationTranscripts.turnIndex));
+
+      // Only fall back to the browser's transcript when the webhook stored none
+      if (transcript.length === 0 && turnsResult.data.length > 0) {
+        transcript = await db
+          .insert(consultationTranscripts)
+          .values(turnsResult.data.map(turn => ({
+            ...turn,
+            consultationId: existingConsultation[0].id,
+          })))
+          .returning();
+      }
+
+      await saveRedFlags(existingConsultation[0].id, redFlagsResult.data);
+
+      return NextResponse.json(
+        { message: 'Consultation saved successfully', consultation: { ...updatedConsultation[0], transcript } },
+        { status: 200 }
+      );
+    }
+
+    // Create the consultation and its transcript (one row per turn) together: neon-http has no interactive
+    // transactions, but a batch runs as one, so a consultation is never left without its transcript
+    const consultationId = randomUUID();
+    const insertConsultation = db
       .insert(pastConsultations)
       .values({
         ...result.data,
+        id: consultationId,
         userId,
       })
       .returning();
 
+    const [newConsultation, transcript] = turnsResult.data.length > 0
+      ? await db.batch([
+          insertConsultation,
+          db
+            .insert(consultationTranscripts)
+            .values(turnsResult.data.map(turn => ({
+              ...turn,
+              consultationId,
+            })))
+            .returning(),
+        ])
+      : [await insertConsultation, [] as ConsultationTranscript[]];
+
+    await saveRedFlags(newConsultation[0].id, redFlagsResult.data);
+
     return NextResponse.json(
-      { message: 'Consultation saved successfully', consultation: newConsultation[0] },
+      { message: 'Consultation saved successfully', consultation: { ...newConsultation[0], transcript } },
       { status: 201 }
     );
   } catch (error) {
     console.error('Consultation creation error:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-}
+});
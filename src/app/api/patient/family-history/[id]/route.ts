@@ -0,0 +1,93 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/db';
+import { familyHistory } from '@/db/schema';
+import { insertFamilyHistorySchema } from '@/db/schema';
+import { eq, and } from 'drizzle-orm';
+import { withAuth } from '@/lib/auth-server';
+import { isResourceId } from '@/lib/fhir/common';
+
+export const PUT = withAuth(async (request, { userId }, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const body = await request.json();
+    const resolvedParams = await params;
+    if (!isResourceId(resolvedParams.id)) {
+      return NextResponse.json({ error: 'Family history entry not found' }, { status: 404 });
+    }
+    
+    // Clean up empty strings to undefined to match schema expectations
+    const cleanedBody = Object.fromEntries(
+      Object.entries(body).map(([key, value]) => [key, value === '' ? undefined : value])
+    );
+    
+    console.log('Received family history update data:', cleanedBody);
+    
+    // Validate input (exclude userId since it comes from token)
+    const validationSchema = insertFamilyHistorySchema.omit({ userId: true });
+    const result = validationSchema.safeParse(cleanedBody);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: result.error.issues },
+        { status: 400 }
+      );
+    }
+
+    // Update family history entry (ensure it belongs to the user)
+    const updatedFamilyHistory = await db
+      .update(familyHistory)
+      .set({
+        ...result.data,
+        updatedAt: new Date(),
+      })
+      .where(
+        and(
+          eq(familyHistory.id, resolvedParams.id),
+          eq(familyHistory.userId, userId)
+        )
+      )
+      .returning();
+
+    if (updatedFamilyHistory.length === 0) {
+      return NextResponse.json({ error: 'Family history entry not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { message: 'Family history entry updated successfully', familyHistory: updatedFamilyHistory[0] },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Family history update error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+});
+
+export const DELETE = withAuth(async (request, { userId }, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const resolvedParams = await params;
+    if (!isResourceId(resolvedParams.id)) {
+      return NextResponse.json({ error: 'Family history entry not found' }, { status: 404 });
+    }
+
+    // Delete family history entry (ensure it belongs to the user)
+    const deletedFamilyHistory = await db
+      .delete(familyHistory)
+      .where(
+        and(
+          eq(familyHistory.id, resolvedParams.id),
+          eq(familyHistory.userId, userId)
+        )
+      )
+      .returning();
+
+    if (deletedFamilyHistory.length === 0) {
+      return NextResponse.json({ error: 'Family history entry not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { message: 'Family history entry deleted successfully' },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Family history deletion error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+});
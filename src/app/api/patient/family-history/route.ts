@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/db';
+import { familyHistory } from '@/db/schema';
+import { insertFamilyHistorySchema } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { withAuth } from '@/lib/auth-server';
+
+export const GET = withAuth(async (request, { userId }) => {
+  try {
+    const userFamilyHistory = await db
+      .select()
+      .from(familyHistory)
+      .where(eq(familyHistory.userId, userId))
+      .orderBy(familyHistory.createdAt);
+
+    return NextResponse.json({ familyHistory: userFamilyHistory }, { status: 200 });
+  } catch (error) {
+    console.error('Family history fetch error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+});
+
+export const POST = withAuth(async (request, { userId }) => {
+  try {
+    const body = await request.json();
+    
+    // Clean up empty strings to undefined to match schema expectations
+    const cleanedBody = Object.fromEntries(
+      Object.entries(body).map(([key, value]) => [key, value === '' ? undefined : value])
+    );
+    
+    console.log('Received family history data:', cleanedBody);
+    
+    // Validate input (exclude userId since it comes from token)
+    const validationSchema = insertFamilyHistorySchema.omit({ userId: true });
+    const result = validationSchema.safeParse(cleanedBody);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: result.error.issues },
+        { status: 400 }
+      );
+    }
+
+    // Create family history entry
+    const newFamilyHistory = await db
+      .insert(familyHistory)
+      .values({
+        ...result.data,
+        userId,
+      })
+      .returning();
+
+    return NextResponse.json(
+      { message: 'Family history entry added successfully', familyHistory: newFamilyHistory[0] },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Family history creation error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+});
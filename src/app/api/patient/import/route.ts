@@ -0,0 +1,117 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/db';
+import { patientProfiles, medicalConditions, allergies, medications } from '@/db/schema';
+import { eq, and } from 'drizzle-orm';
+import { normalizeMedication } from '@/lib/terminology/medications';
+import type { BatchItem } from 'drizzle-orm/batch';
+import { Bundle } from '@/lib/fhir/types';
+import { validateImportBundle, planBundleImport } from '@/lib/fhir/import';
+import { withAuth } from '@/lib/auth-server';
+
+// POST { bundle, confirm }: without confirm, returns the preview plan; with confirm,
+// recomputes the plan against current data and writes it in a single batch
+export const POST = withAuth(async (request, { userId }) => {
+  try {
+    const body = await request.json();
+
+    const bundleIssues = validateImportBundle(body.bundle);
+    if (bundleIssues.length > 0) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: bundleIssues },
+        { status: 400 }
+      );
+    }
+
+    const [profile, conditions, allergyRecords, medicationList] = await Promise.all([
+      db.select().from(patientProfiles).where(eq(patientProfiles.userId, userId)).limit(1),
+      db.select().from(medicalConditions).where(eq(medicalConditions.userId, userId)),
+      db.select().from(allergies).where(eq(allergies.userId, userId)),
+      db.select().from(medications).where(eq(medications.userId, userId)),
+    ]);
+
+    const plan = planBundleImport(body.bundle as Bundle, {
+      profile: profile[0] ?? null,
+      conditions,
+      allergies: allergyRecords,
+      medications: medicationList,
+    });
+
+    if (body.confirm !== true) {
+      return NextResponse.json({ plan }, { status: 200 });
+    }
+
+    const now = new Date();
+    const queries: BatchItem<'pg'>[] = [];
+
+    if (plan.profile?.action === 'create') {
+      queries.push(db.insert(patientProfiles).values({ ...plan.profile.record, userId }));
+    } else if (plan.profile?.action === 'merge') {
+      queries.push(
+        db.update(patientProfiles)
+          .set({ ...plan.profile.record, updatedAt: now })
+          .where(eq(patientProfiles.userId, userId))
+      );
+    }
+
+    for (const item of plan.conditions) {
+      if (item.action === 'create') {
+        queries.push(db.insert(medicalConditions).values({ ...item.record, userId }));
+      } else if (item.action === 'merge' && item.existingId) {
+        queries.push(
+          db.update(medicalConditions)
+            .set({ ...item.record, updatedAt: now })
+            .where(and(eq(medicalConditions.id, item.existingId), eq(medicalConditions.userId, userId)))
+        );
+      }
+    }
+
+    for (const item of plan.allergies) {
+      if (item.action === 'create') {
+        queries.push(db.insert(allergies).values({ ...item.record, userId }));
+      } else if (item.action === 'merge' && item.existingId) {
+        queries.push(
+          db.update(allergies)
+            .set({ ...item.record, updatedAt: now })
+            .where(and(eq(allergies.id, item.existingId), eq(allergies.userId, userId)))
+        );
+      }
+    }
+
+    for (const item of plan.medications) {
+      if (item.action === 'create') {
+        queries.push(db.insert(medications).values({ ...(await normalizeMedication(item.record)), userId }));
+      } else if (item.action === 'merge' && item.existingId) {
+        // Code the merged row as a whole, so a merge fills in a missing RxNorm code just as a create does
+        const current = medicationList.find(row => row.id === item.existingId);
+        const { rxcui, genericName } = await normalizeMedication({ ...current, ...item.record });
+        queries.push(
+          db.update(medications)
+            .set({ ...item.record, rxcui, genericName, updatedAt: now })
+            .where(and(eq(medications.id, item.existingId), eq(medications.userId, userId)))
+        );
+      }
+    }
+
+    // neon-http has no interactive transactions; a batch runs as one transaction, so either everything is written or nothing is
+    if (queries.length > 0) {
+      await db.batch(queries as [BatchItem<'pg'>, ...BatchItem<'pg'>[]]);
+    }
+
+    const count = (items: { action: string }[], action: string) => items.filter(item => item.action === action).length;
+    const items = [...(plan.profile ? [plan.profile] : []), ...plan.conditions, ...plan.allergies, ...plan.medications];
+
+    return NextResponse.json(
+      {
+        message: 'Records imported successfully',
+        created: count(items, 'create'),
+        merged: count(items, 'merge'),
+        skipped: count(items, 'skip'),
+        plan,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Record import error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+});
@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/db';
+import { medications, allergies } from '@/db/schema';
+import { interactionCheckSchema } from '@/db/schema';
+import { checkInteractions, checkNewMedication } from '@/lib/interactions';
+import { normalizeMedication } from '@/lib/terminology/medications';
+import { eq } from 'drizzle-orm';
+import { withAuth } from '@/lib/auth-server';
+
+async function loadMedicationHistory(userId: string) {
+  const [userMedications, userAllergies] = await Promise.all([
+    db.select().from(medications).where(eq(medications.userId, userId)),
+    db.select().from(allergies).where(eq(allergies.userId, userId)),
+  ]);
+  return { userMedications, userAllergies };
+}
+
+// Interaction warnings for the patient's current active medications and medication allergies
+export const GET = withAuth(async (request, { userId }) => {
+  try {
+    const { userMedications, userAllergies } = await loadMedicationHistory(userId);
+    const warnings = checkInteractions(userMedications, userAllergies);
+
+    return NextResponse.json({ warnings }, { status: 200 });
+  } catch (error) {
+    console.error('Interaction check error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+});
+
+// Warnings a medication would add to the patient's list, checked before it is saved
+export const POST = withAuth(async (request, { userId }) => {
+  try {
+    const body = await request.json();
+
+    // Clean up empty strings to undefined to match schema expectations
+    const cleanedBody = Object.fromEntries(
+      Object.entries(body).map(([key, value]) => [key, value === '' ? undefined : value])
+    );
+
+    const result = interactionCheckSchema.safeParse(cleanedBody);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: result.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { replacingId, ...candidate } = result.data;
+    const { userMedications, userAllergies } = await loadMedicationHistory(userId);
+    const warnings = checkNewMedication(
+      await normalizeMedication(candidate),
+      userMedications.filter(medication => medication.id !== replacingId),
+      userAllergies
+    );
+
+    return NextResponse.json({ warnings }, { status: 200 });
+  } catch (error) {
+    console.error('Interaction check error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+});
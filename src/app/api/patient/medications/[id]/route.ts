@@ -0,0 +1,97 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/db';
+import { medications } from '@/db/schema';
+import { insertMedicationSchema } from '@/db/schema';
+import { normalizeMedication } from '@/lib/terminology/medications';
+import { eq, and } from 'drizzle-orm';
+import { withAuth } from '@/lib/auth-server';
+import { isResourceId } from '@/lib/fhir/common';
+
+export const PUT = withAuth(async (request, { userId }, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const body = await request.json();
+    const resolvedParams = await params;
+    if (!isResourceId(resolvedParams.id)) {
+      return NextResponse.json({ error: 'Medication not found' }, { status: 404 });
+    }
+    
+    // Clean up empty strings to undefined to match schema expectations
+    const cleanedBody = Object.fromEntries(
+      Object.entries(body).map(([key, value]) => [key, value === '' ? undefined : value])
+    );
+    
+    console.log('Received medication update data:', cleanedBody);
+    
+    // Validate input (exclude userId since it comes from token)
+    const validationSchema = insertMedicationSchema.omit({ userId: true });
+    const result = validationSchema.safeParse(cleanedBody);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: result.error.issues },
+        { status: 400 }
+      );
+    }
+
+    // Attach the RxNorm code when the name is a known generic or brand
+    const medication = await normalizeMedication(result.data);
+
+    // Update medication (ensure it belongs to the user)
+    const updatedMedication = await db
+      .update(medications)
+      .set({
+        ...medication,
+        updatedAt: new Date(),
+      })
+      .where(
+        and(
+          eq(medications.id, resolvedParams.id),
+          eq(medications.userId, userId)
+        )
+      )
+      .returning();
+
+    if (updatedMedication.length === 0) {
+      return NextResponse.json({ error: 'Medication not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { message: 'Medication updated successfully', medication: updatedMedication[0] },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Medication update error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+});
+
+export const DELETE = withAuth(async (request, { userId }, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const resolvedParams = await params;
+    if (!isResourceId(resolvedParams.id)) {
+      return NextResponse.json({ error: 'Medication not found' }, { status: 404 });
+    }
+
+    // Delete medication (ensure it belongs to the user)
+    const deletedMedication = await db
+      .delete(medications)
+      .where(
+        and(
+          eq(medications.id, resolvedParams.id),
+          eq(medications.userId, userId)
+        )
+      )
+      .returning();
+
+    if (deletedMedication.length === 0) {
+      return NextResponse.json({ error: 'Medication not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { message: 'Medication deleted successfully' },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Medication deletion error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+});
@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/db';
+import { medications } from '@/db/schema';
+import { insertMedicationSchema } from '@/db/schema';
+import { normalizeMedication } from '@/lib/terminology/medications';
+import { eq } from 'drizzle-orm';
+import { withAuth } from '@/lib/auth-server';
+
+export const GET = withAuth(async (request, { userId }) => {
+  try {
+    const userMedications = await db
+      .select()
+      .from(medications)
+      .where(eq(medications.userId, userId))
+      .orderBy(medications.createdAt);
+
+    return NextResponse.json({ medications: userMedications }, { status: 200 });
+  } catch (error) {
+    console.error('Medications fetch error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+});
+
+export const POST = withAuth(async (request, { userId }) => {
+  try {
+    const body = await request.json();
+    
+    // Clean up empty strings to undefined to match schema expectations
+    const cleanedBody = Object.fromEntries(
+      Object.entries(body).map(([key, value]) => [key, value === '' ? undefined : value])
+    );
+    
+    console.log('Received medication data:', cleanedBody);
+    
+    // Validate input (exclude userId since it comes from token)
+    const validationSchema = insertMedicationSchema.omit({ userId: true });
+    const result = validationSchema.safeParse(cleanedBody);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: result.error.issues },
+        { status: 400 }
+      );
+    }
+
+    // Attach the RxNorm code when the name is a known generic or brand
+    const medication = await normalizeMedication(result.data);
+
+    // Create medication
+    const newMedication = await db
+      .insert(medications)
+      .values({
+        ...medication,
+        userId,
+      })
+      .returning();
+
+    return NextResponse.json(
+      { message: 'Medication added successfully', medication: newMedication[0] },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Medication creation error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+});
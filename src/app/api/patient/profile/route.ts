@@ -1,32 +1,12 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { db } from '@/db';
 import { patientProfiles } from '@/db/schema';
 import { insertPatientProfileSchema } from '@/db/schema';
 import { eq } from 'drizzle-orm';
-import { verify } from 'jsonwebtoken';
+import { withAuth } from '@/lib/auth-server';
 
-async function getUserFromToken(request: NextRequest) {
-  const authHeader = request.headers.get('authorization');
-  if (!authHeader?.startsWith('Bearer ')) {
-    return null;
-  }
-
-  const token = authHeader.substring(7);
-  try {
-    const decoded = verify(token, process.env.NEXTAUTH_SECRET || 'fallback-secret') as { userId: string };
-    return decoded.userId;
-  } catch {
-    return null;
-  }
-}
-
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request, { userId }) => {
   try {
-    const userId = await getUserFromToken(request);
-    if (!userId) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
     const profile = await db
       .select()
       .from(patientProfiles)
@@ -42,15 +22,10 @@ export async function GET(request: NextRequest) {
     console.error('Profile fetch error:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-}
+});
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request, { userId }) => {
   try {
-    const userId = await getUserFromToken(request);
-    if (!userId) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
     const body = await request.json();
     
     // Clean up empty strings to undefined to match schema expectations
@@ -101,15 +76,10 @@ export async function POST(request: NextRequest) {
     console.error('Profile creation error:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-}
+});
 
-export async function PUT(request: NextRequest) {
+export const PUT = withAuth(async (request, { userId }) => {
   try {
-    const userId = await getUserFromToken(request);
-    if (!userId) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
     const body = await request.json();
     
     // Clean up empty strings to undefined to match schema expectations
@@ -151,4 +121,4 @@ export async function PUT(request: NextRequest) {
     console.error('Profile update error:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-}
+});
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { DEFAULT_SEARCH_LIMIT, MAX_SEARCH_LIMIT } from '@/lib/terminology';
+import { searchRxNorm } from '@/lib/terminology/medications';
+import { withAuth } from '@/lib/auth-server';
+
+// Medication autocomplete: brand/generic pairs with their standard strengths from the local RxNorm subset
+export const GET = withAuth(async (request) => {
+  try {
+    const query = request.nextUrl.searchParams.get('q')?.trim() ?? '';
+    const limit = Number(request.nextUrl.searchParams.get('limit') ?? DEFAULT_SEARCH_LIMIT);
+
+    if (!Number.isInteger(limit) || limit < 1) {
+      return NextResponse.json({ error: 'limit must be a positive integer' }, { status: 400 });
+    }
+
+    const results = query.length < 2 ? [] : await searchRxNorm(query, Math.min(limit, MAX_SEARCH_LIMIT));
+
+    return NextResponse.json({ results }, { status: 200 });
+  } catch (error) {
+    console.error('Medication search error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+});
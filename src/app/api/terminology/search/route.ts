@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { searchIcd10Cm, DEFAULT_SEARCH_LIMIT, MAX_SEARCH_LIMIT } from '@/lib/terminology';
+import { withAuth } from '@/lib/auth-server';
+
+// Autocomplete for condition names and ICD-10-CM codes, served from the bundled index
+export const GET = withAuth(async (request) => {
+  try {
+    const query = request.nextUrl.searchParams.get('q')?.trim() ?? '';
+    const limit = Number(request.nextUrl.searchParams.get('limit') ?? DEFAULT_SEARCH_LIMIT);
+
+    if (!Number.isInteger(limit) || limit < 1) {
+      return NextResponse.json({ error: 'limit must be a positive integer' }, { status: 400 });
+    }
+
+    const results = query.length < 2 ? [] : searchIcd10Cm(query, Math.min(limit, MAX_SEARCH_LIMIT));
+
+    return NextResponse.json({ results }, { status: 200 });
+  } catch (error) {
+    console.error('Terminology search error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+});
@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { signCallToken } from '@/lib/vapi-server';
+import { withAuth } from '@/lib/auth-server';
+
+// Issue a token the browser attaches to a VAPI call so webhook events can be attributed to the user
+export const POST = withAuth(async (request, { userId }) => {
+  try {
+    const callToken = signCallToken(userId);
+    if (!callToken) {
+      return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+
+    return NextResponse.json({ callToken }, { status: 200 });
+  } catch (error) {
+    console.error('Call token error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+});
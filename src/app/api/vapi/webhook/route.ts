@@ -0,0 +1,241 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { pastConsultations, consultationTranscripts, consultationRedFlags, PastConsultation } from '@/db/schema';
+import { eq, asc, desc, sql } from 'drizzle-orm';
+import {
+  DEFAULT_CONSULTATION_DISCLAIMER,
+  verifyWebhookSecret,
+  verifyCallToken,
+  getCallMetadata,
+  artifactMessagesToTurns,
+  VapiCall,
+  VapiServerMessage,
+  VapiStatusUpdateMessage,
+  VapiTranscriptMessage,
+  VapiEndOfCallReportMessage,
+} from '@/lib/vapi-server';
+import { extractTranscriptSummary, formatSymptoms, formatNextSteps, formatAssessment } from '@/lib/summary-extraction';
+import { detectRedFlags, RedFlagTurn } from '@/lib/red-flags';
+import { getEnabledRedFlagRules } from '@/lib/red-flags/rules';
+
+// Find the consultation for a call, creating a placeholder on the first event we see.
+// The unique vapiCallId makes this safe to repeat when VAPI retries a delivery.
+async function ensureConsultation(call: VapiCall, userId: string): Promise<PastConsultation | null> {
+  const metadata = getCallMetadata(call);
+  const concern = typeof metadata.currentConcern === 'string' ? metadata.currentConcern : '';
+
+  await db
+    .insert(pastConsultations)
+    .values({
+      userId,
+      vapiCallId: call.id,
+      summary: concern ? `Voice consultation regarding: ${concern}` : 'Voice consultation',
+      disclaimer: DEFAULT_CONSULTATION_DISCLAIMER,
+    })
+    .onConflictDoNothing({ target: pastConsultations.vapiCallId });
+
+  const consultation = await db
+    .select()
+    .from(pastConsultations)
+    .where(eq(pastConsultations.vapiCallId, call.id))
+    .limit(1);
+
+  // Never attach events to another user's consultation
+  if (consultation.length === 0 || consultation[0].userId !== userId) {
+    return null;
+  }
+
+  return consultation[0];
+}
+
+// Log emergency red flags against the consultation; the unique (consultation, rule) pair keeps this idempotent
+async function logRedFlags(consultationId: string, turns: RedFlagTurn[]) {
+  const redFlags = detectRedFlags(turns, getEnabledRedFlagRules());
+  if (redFlags.length === 0) {
+    return;
+  }
+
+  console.warn('Red flags detected in consultation', consultationId, redFlags.map(flag => flag.ruleId));
+
+  await db
+    .insert(consultationRedFlags)
+    .values(redFlags.map(flag => ({
+      consultationId,
+      ruleId: flag.ruleId,
+      category: flag.category,
+      hotline: flag.hotline,
+      matchedText: flag.matchedText,
+      turnIndex: flag.turnIndex,
+      offsetMs: flag.offsetMs,
+    })))
+    .onConflictDoNothing();
+}
+
+async function handleStatusUpdate(message: VapiStatusUpdateMessage, consultation: PastConsultation) {
+  if (message.status === 'in-progress' && !consultation.startedAt) {
+    await db
+      .update(pastConsultations)
+      .set({ startedAt: new Date() })
+      .where(eq(pastConsultations.id, consultation.id));
+  } else if (message.status === 'ended' && !consultation.endedAt) {
+    await db
+      .update(pastConsultations)
+      .set({ endedAt: new Date() })
+      .where(eq(pastConsultations.id, consultation.id));
+  }
+}
+
+// Transcript events that lose the race for a turn index are retried this many times in all
+const TRANSCRIPT_INSERT_ATTEMPTS = 3;
+
+async function handleTranscript(message: VapiTranscriptMessage, consultation: PastConsultation) {
+  // Partial transcripts are superseded by the final one
+  if (message.transcriptType !== 'final' || !message.transcript?.trim()) {
+    return;
+  }
+
+  const lastTurn = await db
+    .select()
+    .from(consultationTranscripts)
+    .where(eq(consultationTranscripts.consultationId, consultation.id))
+    .orderBy(desc(consultationTranscripts.turnIndex))
+    .limit(1);
+
+  // Skip redelivered events
+  if (lastTurn.length > 0 && lastTurn[0].role === message.role && lastTurn[0].text === message.transcript.trim()) {
+    return;
+  }
+
+  const startedAt = consultation.startedAt?.getTime() ?? consultation.createdAt.getTime();
+  const spokenAt = typeof message.timestamp === 'number' ? message.timestamp : Date.now();
+
+  // Events for one call can arrive side by side, so the next turn index is worked out by the insert itself
+  // and the unique (consultation, turn) pair makes a racing insert retry with the index after it
+  let saved = false;
+  for (let attempt = 0; attempt < TRANSCRIPT_INSERT_ATTEMPTS && !saved; attempt++) {
+    const inserted = await db
+      .insert(consultationTranscripts)
+      .values({
+        consultationId: consultation.id,
+        turnIndex: sql`(select coalesce(max(${consultationTranscripts.turnIndex}) + 1, 0) from ${consultationTranscripts} where ${consultationTranscripts.consultationId} = ${consultation.id})`,
+        role: message.role,
+        text: message.transcript.trim(),
+        offsetMs: Math.max(0, spokenAt - startedAt),
+      })
+      .onConflictDoNothing({ target: [consultationTranscripts.consultationId, consultationTranscripts.turnIndex] })
+      .returning({ id: consultationTranscripts.id });
+    saved = inserted.length > 0;
+  }
+
+  if (!saved) {
+    console.error('Could not save transcript turn for consultation', consultation.id);
+    return;
+  }
+
+  if (message.role === 'user') {
+    const turns = await db
+      .select()
+      .from(consultationTranscripts)
+      .where(eq(consultationTranscripts.consultationId, consultation.id))
+      .orderBy(asc(consultationTranscripts.turnIndex));
+
+    await logRedFlags(consultation.id, turns.map(turn => ({
+      role: turn.role as RedFlagTurn['role'],
+      text: turn.text,
+      offsetMs: turn.offsetMs,
+    })));
+  }
+}
+
+async function handleEndOfCallReport(message: VapiEndOfCallReportMessage, consultation: PastConsultation) {
+  const startedAt = message.startedAt ? new Date(message.startedAt) : consultation.startedAt;
+  const endedAt = message.endedAt ? new Date(message.endedAt) : consultation.endedAt ?? new Date();
+  const durationSeconds = typeof message.durationSeconds === 'number'
+    ? Math.round(message.durationSeconds)
+    : startedAt ? Math.round((endedAt.getTime() - startedAt.getTime()) / 1000) : null;
+
+  const turns = artifactMessagesToTurns(message.artifact?.messages ?? []);
+  const extraction = extractTranscriptSummary(turns);
+
+  await db
+    .update(pastConsultations)
+    .set({
+      startedAt,
+      endedAt,
+      durationSeconds,
+      // Keep whatever the patient already saw and edited in the browser
+      symptoms: consultation.symptoms ?? formatSymptoms(extraction) ?? message.analysis?.summary ?? null,
+      diagnosis: consultation.diagnosis ?? formatAssessment(extraction),
+      followUpContacts: consultation.followUpContacts ?? formatNextSteps(extraction),
+    })
+    .where(eq(pastConsultations.id, consultation.id));
+
+  // The end-of-call artifact is the authoritative transcript; replace anything streamed earlier.
+  // A batch runs as one transaction, so a failed insert keeps the streamed transcript rather than losing it.
+  if (turns.length > 0) {
+    await db.batch([
+      db
+        .delete(consultationTranscripts)
+        .where(eq(consultationTranscripts.consultationId, consultation.id)),
+      db
+        .insert(consultationTranscripts)
+        .values(turns.map(turn => ({ ...turn, consultationId: consultation.id }))),
+    ]);
+  }
+
+  await logRedFlags(consultation.id, turns);
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const webhookSecret = process.env.VAPI_WEBHOOK_SECRET;
+    if (!webhookSecret) {
+      console.error('VAPI webhook received but VAPI_WEBHOOK_SECRET is not configured');
+      return NextResponse.json({ error: 'Webhook not configured' }, { status: 500 });
+    }
+
+    if (!verifyWebhookSecret(request.headers.get('x-vapi-secret'), webhookSecret)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const message = body?.message as VapiServerMessage | undefined;
+    if (!message?.type || !message.call?.id) {
+      return NextResponse.json({ error: 'Invalid webhook payload' }, { status: 400 });
+    }
+
+    if (!['status-update', 'transcript', 'end-of-call-report'].includes(message.type)) {
+      return NextResponse.json({ received: true }, { status: 200 });
+    }
+
+    // Attribute the call to a user through the signed token set when the call started
+    const userId = verifyCallToken(getCallMetadata(message.call).callToken);
+    if (!userId) {
+      console.warn('VAPI webhook event without a valid call token:', message.call.id);
+      return NextResponse.json({ received: true, ignored: 'Unknown call' }, { status: 200 });
+    }
+
+    const consultation = await ensureConsultation(message.call, userId);
+    if (!consultation) {
+      console.warn('VAPI webhook call ID belongs to another user:', message.call.id);
+      return NextResponse.json({ received: true, ignored: 'Unknown call' }, { status: 200 });
+    }
+
+    switch (message.type) {
+      case 'status-update':
+        await handleStatusUpdate(message as VapiStatusUpdateMessage, consultation);
+        break;
+      case 'transcript':
+        await handleTranscript(message as VapiTranscriptMessage, consultation);
+        break;
+      case 'end-of-call-report':
+        await handleEndOfCallReport(message as VapiEndOfCallReportMessage, consultation);
+        break;
+    }
+
+    return NextResponse.json({ received: true, consultationId: consultation.id }, { status: 200 });
+  } catch (error) {
+    console.error('VAPI webhook error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
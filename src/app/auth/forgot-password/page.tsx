@@ -0,0 +1,38 @@
+import Link from 'next/link';
+import ForgotPasswordForm from '@/components/auth/ForgotPasswordForm';
+import { ThemeToggle } from '@/components/ui/theme-toggle';
+
+export default function ForgotPasswordPage() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background via-background to-secondary/10 px-4">
+      <div className="absolute top-4 right-4">
+        <ThemeToggle />
+      </div>
+      
+      <div className="w-full max-w-md space-y-8">
+        <div className="text-center space-y-2">
+          <h1 className="font-brand text-5xl font-bold">
+            TalkWell
+          </h1>
+          <p className="text-muted-foreground">
+            We&apos;ll help you get back into your account
+          </p>
+        </div>
+        
+        <ForgotPasswordForm />
+        
+        <div className="text-center">
+          <p className="text-sm text-muted-foreground">
+            Remembered your password?{' '}
+            <Link 
+              href="/auth/login" 
+              className="font-medium text-secondary hover:text-secondary/80 transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-secondary focus-visible:ring-offset-2 focus-visible:ring-offset-background rounded-sm"
+            >
+              Back to sign in
+            </Link>
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
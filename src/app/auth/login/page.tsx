@@ -1,3 +1,4 @@
+import { Suspense } from 'react';
 import Link from 'next/link';
 import LoginForm from '@/components/auth/LoginForm';
 import { ThemeToggle } from '@/components/ui/theme-toggle';
@@ -19,7 +20,9 @@ export default function LoginPage() {
           </p>
         </div>
         
-        <LoginForm />
+        <Suspense>
+          <LoginForm />
+        </Suspense>
         
         <div className="text-center">
           <p className="text-sm text-muted-foreground">
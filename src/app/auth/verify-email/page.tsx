@@ -0,0 +1,28 @@
+import { Suspense } from 'react';
+import VerifyEmail from '@/components/auth/VerifyEmail';
+import { ThemeToggle } from '@/components/ui/theme-toggle';
+
+export default function VerifyEmailPage() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background via-background to-secondary/10 px-4">
+      <div className="absolute top-4 right-4">
+        <ThemeToggle />
+      </div>
+
+      <div className="w-full max-w-md space-y-8">
+        <div className="text-center space-y-2">
+          <h1 className="font-brand text-5xl font-bold">
+            TalkWell
+          </h1>
+          <p className="text-muted-foreground">
+            One last step to keep your health information safe
+          </p>
+        </div>
+
+        <Suspense>
+          <VerifyEmail />
+        </Suspense>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,298 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { PastConsultationDetail } from '@/db/schema';
+import { ArrowLeft, Calendar, Clock, AlertTriangle, MessageCircle, Search, User, Bot, Siren } from 'lucide-react';
+import { ThemeToggle } from '@/components/ui/theme-toggle';
+import { apiFetch } from '@/lib/api-client';
+
+// Escape user input so it can be used inside a RegExp
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export default function ConsultationDetailPage() {
+  const { user, isLoading: authLoading } = useAuth();
+  const router = useRouter();
+  const params = useParams<{ id: string }>();
+  const [consultation, setConsultation] = useState<PastConsultationDetail | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string>('');
+  const [searchQuery, setSearchQuery] = useState('');
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      router.push('/auth/login');
+    }
+  }, [user, authLoading, router]);
+
+  useEffect(() => {
+    const fetchConsultation = async () => {
+      if (!user) return;
+
+      try {
+        setIsLoading(true);
+        const response = await apiFetch(`/api/patient/consultations/${params.id}`);
+
+        if (response.ok) {
+          const data = await response.json();
+          setConsultation(data.consultation);
+        } else if (response.status === 404) {
+          setError('Consultation not found');
+        } else {
+          setError('Failed to load consultation');
+        }
+      } catch {
+        setError('Failed to load consultation');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchConsultation();
+  }, [user, params.id]);
+
+  const formatOffset = (offsetMs: number) => {
+    const totalSeconds = Math.floor(offsetMs / 1000);
+    const mins = Math.floor(totalSeconds / 60);
+    const secs = totalSeconds % 60;
+    return `${mins}:${secs.toString().padStart(2, '0')}`;
+  };
+
+  const query = searchQuery.trim();
+  const searchPattern = query ? new RegExp(`(${escapeRegExp(query)})`, 'gi') : null;
+
+  const highlight = (text: string) => {
+    if (!searchPattern) return text;
+    return text.split(searchPattern).map((part, index) =>
+      part.toLowerCase() === query.toLowerCase() ? (
+        <mark key={index} className="bg-yellow-200 text-gray-900 rounded px-0.5">{part}</mark>
+      ) : (
+        part
+      )
+    );
+  };
+
+  const matchCount = searchPattern && consultation
+    ? consultation.transcript.reduce((count, turn) => count + (turn.text.match(searchPattern)?.length || 0), 0)
+    : 0;
+
+  if (authLoading || isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background via-background to-secondary/10">
+        <div className="text-center space-y-4">
+          <h1 className="font-brand text-4xl font-bold">TalkWell</h1>
+          <div className="flex items-center justify-center space-x-2">
+            <div className="w-2 h-2 bg-secondary rounded-full animate-bounce"></div>
+            <div className="w-2 h-2 bg-secondary rounded-full animate-bounce" style={{ animationDelay: '0.1s' }}></div>
+            <div className="w-2 h-2 bg-secondary rounded-full animate-bounce" style={{ animationDelay: '0.2s' }}></div>
+            <span className="ml-3 text-muted-foreground">Loading consultation...</span>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return null;
+  }
+
+  const callStart = consultation
+    ? new Date(consultation.startedAt || consultation.createdAt).getTime()
+    : 0;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-secondary/10">
+      <div className="max-w-4xl mx-auto p-6">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div className="flex items-center space-x-4">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => router.push('/consultation-history')}
+              className="hover:bg-secondary/10 focus-visible:ring-secondary"
+            >
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to History
+            </Button>
+            <div className="space-y-1">
+              <div>
+                <h1 className="font-brand text-4xl font-bold">TalkWell</h1>
+              </div>
+              <h2 className="text-xl font-semibold text-foreground">Consultation Details</h2>
+              <p className="text-muted-foreground">Summary and full conversation</p>
+            </div>
+          </div>
+          <ThemeToggle />
+        </div>
+
+        {error && (
+          <Alert variant="destructive" className="mb-6">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {consultation && (
+          <div className="space-y-6">
+            {/* Emergency red flags raised during the call */}
+            {consultation.redFlags.length > 0 && (
+              <Alert variant="destructive">
+                <Siren className="h-4 w-4" />
+                <AlertDescription>
+                  <p className="font-medium">Emergency warning signs were detected during this consultation</p>
+                  <ul className="list-disc pl-4 mt-1 space-y-1">
+                    {consultation.redFlags.map((flag) => (
+                      <li key={flag.id}>
+                        &ldquo;{flag.matchedText}&rdquo;
+                        {flag.offsetMs != null && ` at ${formatOffset(flag.offsetMs)}`}
+                        {' '}&mdash; {flag.hotline === '988' ? 'call or text 988' : 'call 911'}
+                      </li>
+                    ))}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {/* Summary */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">{consultation.summary}</CardTitle>
+                <div className="flex items-center space-x-2 mt-2">
+                  <Badge variant="secondary">
+                    <Calendar className="w-3 h-3 mr-1" />
+                    {new Date(consultation.createdAt).toLocaleDateString()}
+                  </Badge>
+                  <Badge variant="outline">
+                    <Clock className="w-3 h-3 mr-1" />
+                    {new Date(consultation.startedAt || consultation.createdAt).toLocaleTimeString()}
+                  </Badge>
+                  {consultation.durationSeconds != null && (
+                    <Badge variant="outline">
+                      {formatOffset(consultation.durationSeconds * 1000)}
+                    </Badge>
+                  )}
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {consultation.symptoms && (
+                  <div>
+                    <h4 className="font-medium text-sm text-gray-700 mb-1">Symptoms Discussed:</h4>
+                    <p className="text-sm text-gray-600">{consultation.symptoms}</p>
+                  </div>
+                )}
+
+                {consultation.diagnosis && consultation.diagnosis !== 'General consultation - no diagnosis provided' && (
+                  <div>
+                    <h4 className="font-medium text-sm text-gray-700 mb-1">Assessment:</h4>
+                    <p className="text-sm text-gray-600">{consultation.diagnosis}</p>
+                  </div>
+                )}
+
+                {consultation.followUpContacts && (
+                  <div>
+                    <h4 className="font-medium text-sm text-gray-700 mb-1">Follow-up Recommendations:</h4>
+                    <p className="text-sm text-blue-600">{consultation.followUpContacts}</p>
+                  </div>
+                )}
+
+                {consultation.disclaimer && (
+                  <Alert>
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertDescription className="text-xs">
+                      {consultation.disclaimer}
+                    </AlertDescription>
+                  </Alert>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Transcript */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <MessageCircle className="w-5 h-5 mr-2" />
+                  Conversation
+                </CardTitle>
+                <CardDescription>
+                  {consultation.transcript.length > 0
+                    ? `${consultation.transcript.length} turns`
+                    : 'No transcript was recorded for this consultation'}
+                </CardDescription>
+                {consultation.transcript.length > 0 && (
+                  <div className="flex items-center space-x-3 pt-2">
+                    <div className="relative flex-1">
+                      <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+                      <Input
+                        placeholder="Search the conversation"
+                        value={searchQuery}
+                        onChange={(e) => setSearchQuery(e.target.value)}
+                        className="pl-9"
+                      />
+                    </div>
+                    {query && (
+                      <span className="text-xs text-muted-foreground whitespace-nowrap">
+                        {matchCount} {matchCount === 1 ? 'match' : 'matches'}
+                      </span>
+                    )}
+                  </div>
+                )}
+              </CardHeader>
+              {consultation.transcript.length > 0 && (
+                <CardContent>
+                  <div className="space-y-4">
+                    {consultation.transcript.map((turn) => (
+                      <div
+                        key={turn.id}
+                        className={`flex ${turn.role === 'user' ? 'justify-end' : 'justify-start'}`}
+                      >
+                        <div
+                          className={`max-w-[85%] p-4 rounded-2xl shadow-sm ${
+                            turn.role === 'user'
+                              ? 'bg-blue-500 text-white rounded-br-md'
+                              : 'bg-gray-100 text-gray-900 rounded-bl-md'
+                          }`}
+                        >
+                          <div className="flex items-center mb-2">
+                            <div className={`w-6 h-6 rounded-full flex items-center justify-center mr-2 ${
+                              turn.role === 'user' ? 'bg-blue-400' : 'bg-gray-300'
+                            }`}>
+                              {turn.role === 'user' ? (
+                                <User className="w-3 h-3" />
+                              ) : (
+                                <Bot className="w-3 h-3" />
+                              )}
+                            </div>
+                            <span className={`text-xs font-medium ${
+                              turn.role === 'user' ? 'text-blue-100' : 'text-gray-600'
+                            }`}>
+                              {turn.role === 'user' ? 'You' : 'AI Nurse'}
+                            </span>
+                            <span
+                              className={`text-xs ml-2 ${
+                                turn.role === 'user' ? 'text-blue-200' : 'text-gray-500'
+                              }`}
+                              title={new Date(callStart + turn.offsetMs).toLocaleTimeString()}
+                            >
+                              {formatOffset(turn.offsetMs)}
+                            </span>
+                          </div>
+                          <p className="text-sm leading-relaxed">{highlight(turn.text)}</p>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              )}
+            </Card>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
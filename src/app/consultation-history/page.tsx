@@ -7,14 +7,15 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
-import { PastConsultation } from '@/db/schema';
-import { ArrowLeft, MessageSquare, Calendar, Clock, AlertTriangle } from 'lucide-react';
+import { PastConsultationWithTranscript } from '@/db/schema';
+import { ArrowLeft, MessageSquare, MessageCircle, Calendar, Clock, AlertTriangle } from 'lucide-react';
 import { ThemeToggle } from '@/components/ui/theme-toggle';
+import { apiFetch } from '@/lib/api-client';
 
 export default function ConsultationHistoryPage() {
   const { user, isLoading: authLoading } = useAuth();
   const router = useRouter();
-  const [consultations, setConsultations] = useState<PastConsultation[]>([]);
+  const [consultations, setConsultations] = useState<PastConsultationWithTranscript[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string>('');
 
@@ -29,13 +30,7 @@ export default function ConsultationHistoryPage() {
 
     try {
       setIsLoading(true);
-      const token = localStorage.getItem('auth-token');
-      
-      const response = await fetch('/api/patient/consultations', {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
-      });
+      const response = await apiFetch('/api/patient/consultations');
       
       if (response.ok) {
         const data = await response.json();
@@ -54,6 +49,12 @@ export default function ConsultationHistoryPage() {
     fetchConsultations();
   }, [user]);
 
+  const formatDuration = (seconds: number) => {
+    const mins = Math.floor(seconds / 60);
+    const secs = seconds % 60;
+    return `${mins}:${secs.toString().padStart(2, '0')}`;
+  };
+
   if (authLoading || isLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background via-background to-secondary/10">
@@ -197,6 +198,11 @@ export default function ConsultationHistoryPage() {
                           <Clock className="w-3 h-3 mr-1" />
                           {new Date(consultation.createdAt).toLocaleTimeString()}
                         </Badge>
+                        {consultation.durationSeconds != null && (
+                          <Badge variant="outline">
+                            {formatDuration(consultation.durationSeconds)}
+                          </Badge>
+                        )}
                       </div>
                     </div>
                     <Badge variant={index < 3 ? "default" : "secondary"}>
@@ -226,6 +232,15 @@ export default function ConsultationHistoryPage() {
                     </div>
                   )}
 
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => router.push(`/consultation-history/${consultation.id}`)}
+                  >
+                    <MessageCircle className="w-4 h-4 mr-2" />
+                    {consultation.transcript.length > 0 ? 'View Conversation' : 'View Details'}
+                  </Button>
+
                   {consultation.disclaimer && (
                     <Alert>
                       <AlertTriangle className="h-4 w-4" />
@@ -1,23 +1,51 @@
 'use client';
 
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Card, CardAction, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { ThemeToggle } from '@/components/ui/theme-toggle';
-import { MessageCircle, History, User, Activity } from 'lucide-react';
+import InteractionWarnings from '@/components/patient/InteractionWarnings';
+import type { InteractionWarning } from '@/lib/interactions';
+import { MessageCircle, History, User, Activity, Download, ShieldCheck } from 'lucide-react';
+import { apiFetch } from '@/lib/api-client';
 
 export default function DashboardPage() {
   const { user, logout, isLoading } = useAuth();
   const router = useRouter();
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [downloadError, setDownloadError] = useState<string | null>(null);
+  const [interactionWarnings, setInteractionWarnings] = useState<InteractionWarning[]>([]);
 
   useEffect(() => {
     if (!isLoading && !user) {
       router.push('/auth/login');
+    } else if (user && !user.emailVerifiedAt) {
+      // The API refuses unverified accounts until they confirm their address
+      router.push('/auth/verify-email');
     }
   }, [user, isLoading, router]);
 
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchInteractionWarnings = async () => {
+      try {
+        const response = await apiFetch('/api/patient/interactions');
+
+        if (response.ok) {
+          const result = await response.json();
+          setInteractionWarnings(result.warnings);
+        }
+      } catch (error) {
+        console.error('Interaction check error:', error);
+      }
+    };
+
+    fetchInteractionWarnings();
+  }, [user]);
+
   if (isLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background via-background to-secondary/10">
@@ -38,11 +66,40 @@ export default function DashboardPage() {
     return null; // Will redirect in useEffect
   }
 
-  const handleLogout = () => {
-    logout();
+  const handleLogout = async () => {
+    await logout();
     router.push('/auth/login');
   };
 
+  // Save the full FHIR record (Patient/$everything) as a JSON file
+  const handleDownloadRecord = async () => {
+    setIsDownloading(true);
+    setDownloadError(null);
+
+    try {
+      const response = await apiFetch(`/api/fhir/Patient/${user.id}/$everything`);
+
+      if (!response.ok) {
+        throw new Error('Failed to download record');
+      }
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `talkwell-record-${new Date().toISOString().slice(0, 10)}.json`;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Record download error:', error);
+      setDownloadError('Could not download your record. Please try again.');
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-background via-background to-secondary/10 p-8">
       <div className="max-w-6xl mx-auto">
@@ -70,6 +127,15 @@ export default function DashboardPage() {
           </div>
         </div>
 
+        {interactionWarnings.length > 0 && (
+          <div className="mb-8 space-y-2">
+            <InteractionWarnings warnings={interactionWarnings} title="Possible interactions in your medication list" />
+            <Button variant="outline" size="sm" onClick={() => router.push('/patient-history')}>
+              Review medications
+            </Button>
+          </div>
+        )}
+
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
           <Card className="hover:shadow-lg transition-all duration-300 hover:scale-[1.02] border-secondary/20">
             <CardHeader>
@@ -140,6 +206,23 @@ export default function DashboardPage() {
                 <User className="w-5 h-5 text-secondary" />
                 <CardTitle>Account Information</CardTitle>
               </div>
+              <CardAction className="flex gap-2">
+                <Button variant="outline" onClick={() => router.push('/account')}>
+                  <ShieldCheck className="w-4 h-4" />
+                  Account security
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={handleDownloadRecord}
+                  disabled={isDownloading}
+                >
+                  <Download className="w-4 h-4" />
+                  {isDownloading ? 'Preparing...' : 'Download my record'}
+                </Button>
+              </CardAction>
+              {downloadError && (
+                <p className="text-sm text-destructive">{downloadError}</p>
+              )}
             </CardHeader>
             <CardContent>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
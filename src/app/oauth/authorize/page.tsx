@@ -0,0 +1,172 @@
+'use client';
+
+import { Suspense, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ThemeToggle } from '@/components/ui/theme-toggle';
+import { ShieldCheck, Check } from 'lucide-react';
+import { apiFetch } from '@/lib/api-client';
+
+interface AuthorizationDetails {
+  client: { name: string };
+  redirectUri: string;
+  scopes: { scope: string; description: string }[];
+}
+
+// SMART on FHIR consent screen: the signed-in patient approves or denies a third-party app
+function ConsentScreen() {
+  const { user, isLoading: authLoading } = useAuth();
+  const searchParams = useSearchParams();
+  const query = searchParams.toString();
+  const [details, setDetails] = useState<AuthorizationDetails | null>(null);
+  const [error, setError] = useState<string>('');
+  const [errorRedirectUrl, setErrorRedirectUrl] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    const fetchDetails = async () => {
+      try {
+        const response = await apiFetch(`/api/oauth/authorize?${query}`);
+        const result = await response.json();
+
+        if (response.ok) {
+          setDetails(result);
+        } else {
+          setError(result.error_description || result.error || 'Invalid authorization request');
+          setErrorRedirectUrl(result.redirectUrl ?? null);
+        }
+      } catch {
+        setError('Failed to load authorization request');
+      }
+    };
+
+    fetchDetails();
+  }, [query]);
+
+  const respond = async (approve: boolean) => {
+    setIsSubmitting(true);
+    setError('');
+
+    try {
+      const response = await apiFetch('/api/oauth/authorize', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ query, approve }),
+      });
+
+      const result = await response.json();
+      if (response.ok && result.redirectUrl) {
+        window.location.assign(result.redirectUrl);
+        return;
+      }
+
+      setError(result.error_description || result.error || 'Authorization failed');
+      setErrorRedirectUrl(result.redirectUrl ?? null);
+    } catch {
+      setError('Network error occurred');
+    }
+    setIsSubmitting(false);
+  };
+
+  if (authLoading) {
+    return <p className="text-center text-muted-foreground">Loading...</p>;
+  }
+
+  return (
+    <Card className="w-full max-w-md mx-auto border-secondary/20 shadow-xl">
+      <CardHeader className="space-y-1">
+        <div className="flex justify-center">
+          <ShieldCheck className="w-8 h-8 text-secondary" />
+        </div>
+        <CardTitle className="text-2xl font-bold text-center text-foreground">
+          {details ? `Allow ${details.client.name}?` : 'Authorize app'}
+        </CardTitle>
+        {details && (
+          <CardDescription className="text-center text-muted-foreground">
+            {details.client.name} is asking to connect to your TalkWell health record.
+          </CardDescription>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {error && errorRedirectUrl && (
+          <Button variant="outline" className="w-full" onClick={() => window.location.assign(errorRedirectUrl)}>
+            Return to the app
+          </Button>
+        )}
+
+        {details && !user && (
+          <div className="space-y-3 text-center">
+            <p className="text-sm text-muted-foreground">Sign in to review this request.</p>
+            <Button asChild className="w-full bg-secondary hover:bg-secondary/90 focus-visible:ring-secondary">
+              <Link href={`/auth/login?redirect=${encodeURIComponent(`/oauth/authorize?${query}`)}`}>Sign In</Link>
+            </Button>
+          </div>
+        )}
+
+        {details && user && (
+          <>
+            <div className="space-y-2">
+              <p className="text-sm font-medium">This app will be able to:</p>
+              <ul className="space-y-2">
+                {details.scopes.map(({ scope, description }) => (
+                  <li key={scope} className="flex items-start space-x-2 text-sm">
+                    <Check className="w-4 h-4 mt-0.5 text-secondary shrink-0" />
+                    <span>{description}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Signed in as {user.username}. The app can only read your records, never change them, and access expires after an hour.
+              You will be sent back to {new URL(details.redirectUri).host}.
+            </p>
+            <div className="flex space-x-2">
+              <Button variant="outline" className="flex-1" onClick={() => respond(false)} disabled={isSubmitting}>
+                Deny
+              </Button>
+              <Button
+                className="flex-1 bg-secondary hover:bg-secondary/90 focus-visible:ring-secondary"
+                onClick={() => respond(true)}
+                disabled={isSubmitting}
+              >
+                {isSubmitting ? 'Authorizing...' : 'Allow'}
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function AuthorizePage() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background via-background to-secondary/10 px-4">
+      <div className="absolute top-4 right-4">
+        <ThemeToggle />
+      </div>
+
+      <div className="w-full max-w-md space-y-8">
+        <div className="text-center">
+          <h1 className="font-brand text-5xl font-bold">TalkWell</h1>
+        </div>
+
+        <Suspense fallback={<p className="text-center text-muted-foreground">Loading...</p>}>
+          <ConsentScreen />
+        </Suspense>
+      </div>
+    </div>
+  );
+}
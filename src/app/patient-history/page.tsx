@@ -5,19 +5,27 @@ import { useRouter } from 'next/navigation';
 import { useAuth } from '@/contexts/AuthContext';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Button } from '@/components/ui/button';
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import PatientProfileForm from '@/components/patient/PatientProfileForm';
 import MedicalConditionsForm from '@/components/patient/MedicalConditionsForm';
-import { PatientProfile, MedicalCondition } from '@/db/schema';
-import { ArrowLeft, User, FileText, Heart, Pill, AlertTriangle, Users } from 'lucide-react';
+import MedicationsForm from '@/components/patient/MedicationsForm';
+import AllergiesForm from '@/components/patient/AllergiesForm';
+import FamilyHistoryForm from '@/components/patient/FamilyHistoryForm';
+import ImportRecordDialog from '@/components/patient/ImportRecordDialog';
+import { PatientProfile, MedicalCondition, Medication, Allergy, FamilyHistory } from '@/db/schema';
+import { ArrowLeft, User, FileText, Heart, AlertTriangle } from 'lucide-react';
 import { ThemeToggle } from '@/components/ui/theme-toggle';
+import { apiFetch } from '@/lib/api-client';
 
 export default function PatientHistoryPage() {
   const { user, isLoading: authLoading } = useAuth();
   const router = useRouter();
   const [profile, setProfile] = useState<PatientProfile | null>(null);
   const [conditions, setConditions] = useState<MedicalCondition[]>([]);
+  const [medications, setMedications] = useState<Medication[]>([]);
+  const [allergies, setAllergies] = useState<Allergy[]>([]);
+  const [familyHistory, setFamilyHistory] = useState<FamilyHistory[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string>('');
 
@@ -32,14 +40,8 @@ export default function PatientHistoryPage() {
 
     try {
       setIsLoading(true);
-      const token = localStorage.getItem('auth-token');
-      
       // Fetch profile
-      const profileResponse = await fetch('/api/patient/profile', {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
-      });
+      const profileResponse = await apiFetch('/api/patient/profile');
       
       if (profileResponse.ok) {
         const profileData = await profileResponse.json();
@@ -47,16 +49,36 @@ export default function PatientHistoryPage() {
       }
 
       // Fetch conditions
-      const conditionsResponse = await fetch('/api/patient/conditions', {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
-      });
+      const conditionsResponse = await apiFetch('/api/patient/conditions');
       
       if (conditionsResponse.ok) {
         const conditionsData = await conditionsResponse.json();
         setConditions(conditionsData.conditions);
       }
+
+      // Fetch medications
+      const medicationsResponse = await apiFetch('/api/patient/medications');
+      
+      if (medicationsResponse.ok) {
+        const medicationsData = await medicationsResponse.json();
+        setMedications(medicationsData.medications);
+      }
+
+      // Fetch allergies
+      const allergiesResponse = await apiFetch('/api/patient/allergies');
+      
+      if (allergiesResponse.ok) {
+        const allergiesData = await allergiesResponse.json();
+        setAllergies(allergiesData.allergies);
+      }
+
+      // Fetch family history
+      const familyHistoryResponse = await apiFetch('/api/patient/family-history');
+      
+      if (familyHistoryResponse.ok) {
+        const familyHistoryData = await familyHistoryResponse.json();
+        setFamilyHistory(familyHistoryData.familyHistory);
+      }
     } catch {
       setError('Failed to load patient data');
     } finally {
@@ -133,7 +155,10 @@ export default function PatientHistoryPage() {
               <p className="text-muted-foreground">Manage your medical information and history</p>
             </div>
           </div>
-          <ThemeToggle />
+          <div className="flex items-center space-x-3">
+            <ImportRecordDialog onImported={refreshData} />
+            <ThemeToggle />
+          </div>
         </div>
 
         {error && (
@@ -189,7 +214,7 @@ export default function PatientHistoryPage() {
               <FileText className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">{conditions.length}</div>
+              <div className="text-2xl font-bold">{conditions.length + medications.length + allergies.length + familyHistory.length}</div>
               <p className="text-xs text-muted-foreground">
                 Medical records
               </p>
@@ -244,72 +269,30 @@ export default function PatientHistoryPage() {
           </TabsContent>
 
           <TabsContent value="medications" className="space-y-6">
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center">
-                  <Pill className="w-5 h-5 mr-2" />
-                  Current Medications
-                </CardTitle>
-                <CardDescription>
-                  Manage your current and past medications
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="text-center py-12">
-                  <Pill className="w-12 h-12 mx-auto text-gray-400 mb-4" />
-                  <p className="text-gray-500 mb-4">Medications management coming soon</p>
-                  <p className="text-sm text-gray-400">
-                    This feature will allow you to track your current medications, dosages, and schedules.
-                  </p>
-                </div>
-              </CardContent>
-            </Card>
+            <MedicationsForm
+              medications={medications}
+              onMedicationAdded={refreshData}
+              onMedicationUpdated={refreshData}
+              onMedicationDeleted={refreshData}
+            />
           </TabsContent>
 
           <TabsContent value="allergies" className="space-y-6">
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center">
-                  <AlertTriangle className="w-5 h-5 mr-2" />
-                  Allergies & Reactions
-                </CardTitle>
-                <CardDescription>
-                  Track your known allergies and adverse reactions
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="text-center py-12">
-                  <AlertTriangle className="w-12 h-12 mx-auto text-gray-400 mb-4" />
-                  <p className="text-gray-500 mb-4">Allergies tracking coming soon</p>
-                  <p className="text-sm text-gray-400">
-                    This feature will help you maintain a record of allergies and adverse reactions.
-                  </p>
-                </div>
-              </CardContent>
-            </Card>
+            <AllergiesForm
+              allergies={allergies}
+              onAllergyAdded={refreshData}
+              onAllergyUpdated={refreshData}
+              onAllergyDeleted={refreshData}
+            />
           </TabsContent>
 
           <TabsContent value="family" className="space-y-6">
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center">
-                  <Users className="w-5 h-5 mr-2" />
-                  Family Medical History
-                </CardTitle>
-                <CardDescription>
-                  Record your family&apos;s medical history for better care
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="text-center py-12">
-                  <Users className="w-12 h-12 mx-auto text-gray-400 mb-4" />
-                  <p className="text-gray-500 mb-4">Family history tracking coming soon</p>
-                  <p className="text-sm text-gray-400">
-                    This feature will allow you to record your family&apos;s medical history.
-                  </p>
-                </div>
-              </CardContent>
-            </Card>
+            <FamilyHistoryForm
+              familyHistory={familyHistory}
+              onEntryAdded={refreshData}
+              onEntryUpdated={refreshData}
+              onEntryDeleted={refreshData}
+            />
           </TabsContent>
         </Tabs>
       </div>
@@ -7,16 +7,20 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import VoiceChatInterface from '@/components/voice/VoiceChatInterface';
-import { PatientProfile, MedicalCondition, PastConsultation } from '@/db/schema';
+import { PatientProfile, MedicalCondition, Medication, Allergy, FamilyHistory, PastConsultation } from '@/db/schema';
 import { ConversationSummary } from '@/lib/vapi';
 import { ArrowLeft, MessageSquare, Clock, FileText, AlertTriangle } from 'lucide-react';
 import { ThemeToggle } from '@/components/ui/theme-toggle';
+import { apiFetch } from '@/lib/api-client';
 
 export default function VoiceConsultationPage() {
   const { user, isLoading: authLoading } = useAuth();
   const router = useRouter();
   const [profile, setProfile] = useState<PatientProfile | null>(null);
   const [conditions, setConditions] = useState<MedicalCondition[]>([]);
+  const [medications, setMedications] = useState<Medication[]>([]);
+  const [allergies, setAllergies] = useState<Allergy[]>([]);
+  const [familyHistory, setFamilyHistory] = useState<FamilyHistory[]>([]);
   const [pastConsultations, setPastConsultations] = useState<PastConsultation[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string>('');
@@ -33,14 +37,8 @@ export default function VoiceConsultationPage() {
 
     try {
       setIsLoading(true);
-      const token = localStorage.getItem('auth-token');
-      
       // Fetch profile
-      const profileResponse = await fetch('/api/patient/profile', {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
-      });
+      const profileResponse = await apiFetch('/api/patient/profile');
       
       if (profileResponse.ok) {
         const profileData = await profileResponse.json();
@@ -48,23 +46,39 @@ export default function VoiceConsultationPage() {
       }
 
       // Fetch conditions
-      const conditionsResponse = await fetch('/api/patient/conditions', {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
-      });
+      const conditionsResponse = await apiFetch('/api/patient/conditions');
       
       if (conditionsResponse.ok) {
         const conditionsData = await conditionsResponse.json();
         setConditions(conditionsData.conditions);
       }
 
+      // Fetch medications
+      const medicationsResponse = await apiFetch('/api/patient/medications');
+      
+      if (medicationsResponse.ok) {
+        const medicationsData = await medicationsResponse.json();
+        setMedications(medicationsData.medications);
+      }
+
+      // Fetch allergies
+      const allergiesResponse = await apiFetch('/api/patient/allergies');
+      
+      if (allergiesResponse.ok) {
+        const allergiesData = await allergiesResponse.json();
+        setAllergies(allergiesData.allergies);
+      }
+
+      // Fetch family history
+      const familyHistoryResponse = await apiFetch('/api/patient/family-history');
+      
+      if (familyHistoryResponse.ok) {
+        const familyHistoryData = await familyHistoryResponse.json();
+        setFamilyHistory(familyHistoryData.familyHistory);
+      }
+
       // Fetch past consultations
-      const consultationsResponse = await fetch('/api/patient/consultations', {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
-      });
+      const consultationsResponse = await apiFetch('/api/patient/consultations');
       
       if (consultationsResponse.ok) {
         const consultationsData = await consultationsResponse.json();
@@ -222,6 +236,9 @@ export default function VoiceConsultationPage() {
         <VoiceChatInterface
           profile={profile}
           conditions={conditions}
+          medications={medications}
+          allergies={allergies}
+          familyHistory={familyHistory}
           pastConsultations={pastConsultations}
           onConsultationEnd={handleConsultationEnd}
         />
@@ -1,21 +1,26 @@
 'use client';
 
 import { useState } from 'react';
-import { useRouter } from 'next/navigation';
+import { useRouter, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { KeyRound } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
-import { loginSchema, LoginInput } from '@/lib/auth';
+import { loginSchema, LoginInput, mfaCodeSchema, MfaCodeInput } from '@/lib/auth';
 
 export default function LoginForm() {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string>('');
-  const { login } = useAuth();
+  // Set once the password is accepted for an account with two-factor authentication
+  const [mfaToken, setMfaToken] = useState<string | null>(null);
+  const { login, verifyMfa, loginWithPasskey } = useAuth();
   const router = useRouter();
+  const searchParams = useSearchParams();
 
   const form = useForm<LoginInput>({
     resolver: zodResolver(loginSchema),
@@ -25,6 +30,19 @@ export default function LoginForm() {
     },
   });
 
+  const codeForm = useForm<MfaCodeInput>({
+    resolver: zodResolver(mfaCodeSchema),
+    defaultValues: {
+      code: '',
+    },
+  });
+
+  const redirectAfterLogin = () => {
+    // Only follow same-site paths, e.g. back to the OAuth consent screen
+    const redirect = searchParams.get('redirect');
+    router.push(redirect && /^\/(?![/\\])/.test(redirect) ? redirect : '/dashboard');
+  };
+
   const onSubmit = async (data: LoginInput) => {
     setIsLoading(true);
     setError('');
@@ -33,7 +51,9 @@ export default function LoginForm() {
       const result = await login(data.username, data.password);
       
       if (result.success) {
-        router.push('/dashboard');
+        redirectAfterLogin();
+      } else if (result.mfaToken) {
+        setMfaToken(result.mfaToken);
       } else {
         setError(result.error || 'Login failed');
       }
@@ -44,6 +64,108 @@ export default function LoginForm() {
     }
   };
 
+  const signInWithPasskey = async () => {
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const result = await loginWithPasskey();
+
+      if (result.success) {
+        redirectAfterLogin();
+      } else {
+        setError(result.error || 'Passkey sign-in failed');
+      }
+    } catch {
+      setError('An unexpected error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const onSubmitCode = async (data: MfaCodeInput) => {
+    if (!mfaToken) return;
+
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const result = await verifyMfa(mfaToken, data.code);
+
+      if (result.success) {
+        redirectAfterLogin();
+      } else {
+        setError(result.error || 'Verification failed');
+      }
+    } catch {
+      setError('An unexpected error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const startOver = () => {
+    setMfaToken(null);
+    setError('');
+    codeForm.reset();
+    form.resetField('password');
+  };
+
+  if (mfaToken) {
+    return (
+      <Card className="w-full max-w-md mx-auto border-secondary/20 shadow-xl">
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-2xl font-bold text-center text-foreground">Two-Factor Authentication</CardTitle>
+          <CardDescription className="text-center text-muted-foreground">
+            Enter the 6-digit code from your authenticator app, or one of your recovery codes
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Form {...codeForm}>
+            <form onSubmit={codeForm.handleSubmit(onSubmitCode)} className="space-y-4">
+              <FormField
+                control={codeForm.control}
+                name="code"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Verification Code</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="123456"
+                        autoComplete="one-time-code"
+                        autoFocus
+                        {...field}
+                        disabled={isLoading}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {error && (
+                <div className="text-sm text-destructive bg-destructive/10 p-3 rounded-md border border-destructive/20">
+                  {error}
+                </div>
+              )}
+
+              <Button
+                type="submit"
+                className="w-full bg-secondary hover:bg-secondary/90 focus-visible:ring-secondary"
+                disabled={isLoading}
+              >
+                {isLoading ? 'Verifying...' : 'Verify'}
+              </Button>
+              <Button type="button" variant="ghost" className="w-full" onClick={startOver} disabled={isLoading}>
+                Back to sign in
+              </Button>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+    );
+  }
+
   return (
     <Card className="w-full max-w-md mx-auto border-secondary/20 shadow-xl">
       <CardHeader className="space-y-1">
@@ -78,7 +200,15 @@ export default function LoginForm() {
               name="password"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Password</FormLabel>
+                  <div className="flex items-center justify-between">
+                    <FormLabel>Password</FormLabel>
+                    <Link
+                      href="/auth/forgot-password"
+                      className="text-xs text-secondary hover:text-secondary/80 transition-colors"
+                    >
+                      Forgot password?
+                    </Link>
+                  </div>
                   <FormControl>
                     <Input
                       type="password"
@@ -107,6 +237,23 @@ export default function LoginForm() {
             </Button>
           </form>
         </Form>
+
+        <div className="flex items-center gap-3 my-4">
+          <div className="h-px flex-1 bg-border" />
+          <span className="text-xs text-muted-foreground">or</span>
+          <div className="h-px flex-1 bg-border" />
+        </div>
+
+        <Button
+          type="button"
+          variant="outline"
+          className="w-full"
+          onClick={signInWithPasskey}
+          disabled={isLoading}
+        >
+          <KeyRound className="w-4 h-4" />
+          Sign in with a passkey
+        </Button>
       </CardContent>
     </Card>
   );
@@ -0,0 +1,261 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { startRegistration } from '@simplewebauthn/browser';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Card, CardAction, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { KeyRound, Trash2 } from 'lucide-react';
+import { apiFetch } from '@/lib/api-client';
+
+interface PasskeySummary {
+  id: string;
+  name: string | null;
+  synced: boolean;
+  createdAt: string;
+  lastUsedAt: string | null;
+}
+
+// What adding a passkey asks for, from GET /api/auth/webauthn/passkeys
+type Reauthentication = 'code' | 'password' | 'recent-sign-in';
+
+export default function PasskeySettings() {
+  const [passkeys, setPasskeys] = useState<PasskeySummary[]>([]);
+  const [hasPassword, setHasPassword] = useState(true);
+  const [reauthentication, setReauthentication] = useState<Reauthentication>('password');
+  const [name, setName] = useState('');
+  const [proof, setProof] = useState('');
+  const [password, setPassword] = useState('');
+  const [removingPassword, setRemovingPassword] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string>('');
+  const [message, setMessage] = useState<string>('');
+
+  const fetchPasskeys = async () => {
+    try {
+      const response = await apiFetch('/api/auth/webauthn/passkeys');
+      if (response.ok) {
+        const data = await response.json();
+        setPasskeys(data.passkeys);
+        setHasPassword(data.hasPassword);
+        setReauthentication(data.reauthentication);
+      } else {
+        setError('Failed to load your passkeys');
+      }
+    } catch {
+      setError('Failed to load your passkeys');
+    }
+  };
+
+  useEffect(() => {
+    fetchPasskeys();
+  }, []);
+
+  const addPasskey = async () => {
+    setIsLoading(true);
+    setError('');
+    setMessage('');
+
+    try {
+      const optionsResponse = await apiFetch('/api/auth/webauthn/register/options', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(reauthentication === 'code' ? { code: proof } : reauthentication === 'password' ? { password: proof } : {}),
+      });
+      const { challengeId, options, error: optionsError } = await optionsResponse.json();
+      if (!optionsResponse.ok) {
+        setError(optionsError || 'Failed to start adding a passkey');
+        return;
+      }
+
+      let credential;
+      try {
+        credential = await startRegistration({ optionsJSON: options });
+      } catch (registrationError) {
+        setError(registrationError instanceof Error && registrationError.name === 'InvalidStateError'
+          ? 'This device already has a passkey for your account'
+          : 'Passkey request was cancelled');
+        return;
+      }
+
+      const response = await apiFetch('/api/auth/webauthn/register/verify', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ challengeId, response: credential, name: name.trim() || undefined }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        setError(result.error || 'Failed to add passkey');
+        return;
+      }
+
+      setName('');
+      setProof('');
+      setMessage('Passkey added. You can now sign in with it.');
+      await fetchPasskeys();
+    } catch {
+      setError('Network error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const removePasskey = async (passkey: PasskeySummary) => {
+    if (!confirm(`Remove the passkey "${passkey.name || 'Passkey'}"?`)) {
+      return;
+    }
+
+    setError('');
+    setMessage('');
+    try {
+      const response = await apiFetch(`/api/auth/webauthn/passkeys/${passkey.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const result = await response.json();
+        setError(result.error || 'Failed to remove passkey');
+        return;
+      }
+      setPasskeys(passkeys.filter(other => other.id !== passkey.id));
+    } catch {
+      setError('Network error occurred');
+    }
+  };
+
+  const removePassword = async () => {
+    setIsLoading(true);
+    setError('');
+    setMessage('');
+
+    try {
+      const response = await apiFetch('/api/auth/password', {
+        method: 'DELETE',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ password }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        setError(result.error || 'Failed to remove password');
+        return;
+      }
+
+      setPassword('');
+      setRemovingPassword(false);
+      setHasPassword(false);
+      setReauthentication(current => (current === 'password' ? 'recent-sign-in' : current));
+      setMessage('Password removed. Sign in with your passkeys from now on.');
+    } catch {
+      setError('Network error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card className="border-secondary/20">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          Passkeys
+          {!hasPassword && <Badge variant="secondary">Passwordless</Badge>}
+        </CardTitle>
+        <CardDescription>
+          Sign in with your fingerprint, face or screen lock instead of typing a password.
+        </CardDescription>
+        {hasPassword && passkeys.length > 0 && !removingPassword && (
+          <CardAction>
+            <Button variant="outline" onClick={() => setRemovingPassword(true)}>Remove password</Button>
+          </CardAction>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {message && (
+          <Alert>
+            <AlertDescription>{message}</AlertDescription>
+          </Alert>
+        )}
+
+        {removingPassword && (
+          <div className="space-y-2 max-w-sm">
+            <p className="text-sm">Enter your current password to remove it. You will only be able to sign in with a passkey.</p>
+            <Input
+              type="password"
+              placeholder="Current password"
+              value={password}
+              onChange={(event) => setPassword(event.target.value)}
+              disabled={isLoading}
+            />
+            <div className="flex gap-2">
+              <Button variant="destructive" onClick={removePassword} disabled={isLoading || !password}>
+                {isLoading ? 'Removing...' : 'Remove password'}
+              </Button>
+              <Button variant="ghost" onClick={() => setRemovingPassword(false)} disabled={isLoading}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {passkeys.map((passkey) => (
+          <div key={passkey.id} className="flex items-center justify-between rounded-md border p-4">
+            <div className="flex items-start space-x-3">
+              <KeyRound className="w-5 h-5 mt-0.5 text-secondary" />
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <p className="font-medium">{passkey.name || 'Passkey'}</p>
+                  {passkey.synced && <Badge variant="outline">Synced</Badge>}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Added {new Date(passkey.createdAt).toLocaleDateString()}
+                  {passkey.lastUsedAt && ` · Last used ${new Date(passkey.lastUsedAt).toLocaleString()}`}
+                </p>
+              </div>
+            </div>
+            <Button variant="ghost" size="sm" onClick={() => removePasskey(passkey)} aria-label="Remove passkey">
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+
+        <div className="space-y-2 max-w-md">
+          <Input
+            placeholder="Name, e.g. My phone (optional)"
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            maxLength={100}
+            disabled={isLoading}
+          />
+          {reauthentication !== 'recent-sign-in' && (
+            <Input
+              type={reauthentication === 'password' ? 'password' : 'text'}
+              inputMode={reauthentication === 'code' ? 'numeric' : undefined}
+              autoComplete={reauthentication === 'code' ? 'one-time-code' : 'current-password'}
+              placeholder={reauthentication === 'code' ? 'Code from your authenticator app' : 'Current password'}
+              value={proof}
+              onChange={(event) => setProof(event.target.value)}
+              disabled={isLoading}
+            />
+          )}
+          <Button
+            variant="outline"
+            onClick={addPasskey}
+            disabled={isLoading || (reauthentication !== 'recent-sign-in' && !proof)}
+          >
+            <KeyRound className="w-4 h-4" />
+            {isLoading ? 'Waiting...' : 'Add a passkey'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
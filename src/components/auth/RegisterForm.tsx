@@ -8,6 +8,7 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { KeyRound } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { registerSchema, RegisterInput } from '@/lib/auth';
 
@@ -15,7 +16,9 @@ export default function RegisterForm() {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string>('');
   const [success, setSuccess] = useState<string>('');
-  const { register } = useAuth();
+  // Passwordless sign-up: a passkey on this device instead of a password
+  const [usePasskey, setUsePasskey] = useState(false);
+  const { register, registerWithPasskey } = useAuth();
   const router = useRouter();
 
   const form = useForm<RegisterInput>({
@@ -39,7 +42,7 @@ export default function RegisterForm() {
       const result = await register(data);
       
       if (result.success) {
-        setSuccess('Account created successfully! You can now sign in.');
+        setSuccess('Account created! We sent you an email; confirm your address, then sign in.');
         form.reset();
         // Redirect to login after a short delay
         setTimeout(() => {
@@ -55,12 +58,39 @@ export default function RegisterForm() {
     }
   };
 
+  const onCreateWithPasskey = async () => {
+    // Only the account details are needed; the password fields are hidden
+    const valid = await form.trigger(['firstName', 'lastName', 'username', 'email']);
+    if (!valid) return;
+
+    setIsLoading(true);
+    setError('');
+    setSuccess('');
+
+    try {
+      const { username, email, firstName, lastName } = form.getValues();
+      const result = await registerWithPasskey({ username, email, firstName, lastName });
+
+      if (result.success) {
+        router.push('/auth/verify-email');
+      } else {
+        setError(result.error || 'Registration failed');
+      }
+    } catch {
+      setError('An unexpected error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   return (
     <Card className="w-full max-w-md mx-auto border-secondary/20 shadow-xl">
       <CardHeader className="space-y-1">
         <CardTitle className="text-2xl font-bold text-center text-foreground">Create Account</CardTitle>
         <CardDescription className="text-center text-muted-foreground">
-          Fill in your information to create a new account
+          {usePasskey
+            ? 'Sign in with your fingerprint, face or screen lock instead of a password'
+            : 'Fill in your information to create a new account'}
         </CardDescription>
       </CardHeader>
       <CardContent>
@@ -141,43 +171,47 @@ export default function RegisterForm() {
               )}
             />
 
-            <FormField
-              control={form.control}
-              name="password"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Password</FormLabel>
-                  <FormControl>
-                    <Input
-                      type="password"
-                      placeholder="Create a strong password"
-                      {...field}
-                      disabled={isLoading}
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
+            {!usePasskey && (
+              <>
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Password</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="password"
+                          placeholder="Create a strong password"
+                          {...field}
+                          disabled={isLoading}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
 
-            <FormField
-              control={form.control}
-              name="confirmPassword"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Confirm Password</FormLabel>
-                  <FormControl>
-                    <Input
-                      type="password"
-                      placeholder="Confirm your password"
-                      {...field}
-                      disabled={isLoading}
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
+                <FormField
+                  control={form.control}
+                  name="confirmPassword"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Confirm Password</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="password"
+                          placeholder="Confirm your password"
+                          {...field}
+                          disabled={isLoading}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </>
+            )}
 
             {error && (
               <div className="text-sm text-destructive bg-destructive/10 p-3 rounded-md border border-destructive/20">
@@ -191,12 +225,37 @@ export default function RegisterForm() {
               </div>
             )}
 
+            {usePasskey ? (
+              <Button
+                type="button"
+                className="w-full bg-secondary hover:bg-secondary/90 focus-visible:ring-secondary"
+                onClick={onCreateWithPasskey}
+                disabled={isLoading}
+              >
+                <KeyRound className="w-4 h-4" />
+                {isLoading ? 'Creating Account...' : 'Create Account with a Passkey'}
+              </Button>
+            ) : (
+              <Button
+                type="submit"
+                className="w-full bg-secondary hover:bg-secondary/90 focus-visible:ring-secondary"
+                disabled={isLoading}
+              >
+                {isLoading ? 'Creating Account...' : 'Create Account'}
+              </Button>
+            )}
+
             <Button
-              type="submit"
-              className="w-full bg-secondary hover:bg-secondary/90 focus-visible:ring-secondary"
+              type="button"
+              variant="ghost"
+              className="w-full"
+              onClick={() => {
+                setUsePasskey(!usePasskey);
+                setError('');
+              }}
               disabled={isLoading}
             >
-              {isLoading ? 'Creating Account...' : 'Create Account'}
+              {usePasskey ? 'Use a password instead' : 'Use a passkey instead of a password'}
             </Button>
           </form>
         </Form>
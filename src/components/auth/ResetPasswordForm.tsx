@@ -0,0 +1,151 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { resetPasswordSchema, ResetPasswordInput } from '@/lib/auth';
+
+export default function ResetPasswordForm() {
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string>('');
+  const [success, setSuccess] = useState<string>('');
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token') || '';
+
+  const form = useForm<ResetPasswordInput>({
+    resolver: zodResolver(resetPasswordSchema),
+    defaultValues: {
+      token,
+      password: '',
+      confirmPassword: '',
+    },
+  });
+
+  const onSubmit = async (data: ResetPasswordInput) => {
+    setIsLoading(true);
+    setError('');
+    setSuccess('');
+
+    try {
+      const response = await fetch('/api/auth/reset-password', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(data),
+      });
+      const result = await response.json();
+
+      if (response.ok) {
+        setSuccess(result.message);
+        form.reset({ token: '', password: '', confirmPassword: '' });
+        setTimeout(() => {
+          router.push('/auth/login');
+        }, 2000);
+      } else {
+        setError(result.error || 'Could not reset your password');
+      }
+    } catch {
+      setError('Network error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (!token) {
+    return (
+      <Card className="w-full max-w-md mx-auto border-secondary/20 shadow-xl">
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-2xl font-bold text-center text-foreground">Reset Password</CardTitle>
+          <CardDescription className="text-center text-muted-foreground">
+            This page needs the link from your password reset email.{' '}
+            <Link href="/auth/forgot-password" className="font-medium text-secondary hover:text-secondary/80">
+              Request a new one
+            </Link>
+          </CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="w-full max-w-md mx-auto border-secondary/20 shadow-xl">
+      <CardHeader className="space-y-1">
+        <CardTitle className="text-2xl font-bold text-center text-foreground">Reset Password</CardTitle>
+        <CardDescription className="text-center text-muted-foreground">
+          Choose a new password. You&apos;ll be signed out on all your devices.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="password"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>New Password</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="password"
+                      placeholder="Create a strong password"
+                      {...field}
+                      disabled={isLoading}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="confirmPassword"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Confirm New Password</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="password"
+                      placeholder="Confirm your new password"
+                      {...field}
+                      disabled={isLoading}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {error && (
+              <div className="text-sm text-destructive bg-destructive/10 p-3 rounded-md border border-destructive/20">
+                {error}
+              </div>
+            )}
+
+            {success && (
+              <div className="text-sm text-green-700 bg-green-50 dark:bg-green-950 dark:text-green-300 p-3 rounded-md border border-green-200 dark:border-green-800">
+                {success}
+              </div>
+            )}
+
+            <Button
+              type="submit"
+              className="w-full bg-secondary hover:bg-secondary/90 focus-visible:ring-secondary"
+              disabled={isLoading || !!success}
+            >
+              {isLoading ? 'Saving...' : 'Set New Password'}
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,228 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Card, CardAction, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { KeyRound } from 'lucide-react';
+import { mfaCodeSchema, MfaCodeInput } from '@/lib/auth';
+import { apiFetch } from '@/lib/api-client';
+
+interface MfaStatus {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+}
+
+interface Enrollment {
+  secret: string;
+  qrCode: string;
+}
+
+// What the code field is for: confirming setup, turning 2FA off, or getting new recovery codes
+type CodeAction = 'enroll' | 'disable' | 'regenerate';
+
+const CODE_ACTIONS: Record<CodeAction, { url: string; method: string; label: string }> = {
+  enroll: { url: '/api/auth/mfa/totp/verify', method: 'POST', label: 'Turn on' },
+  disable: { url: '/api/auth/mfa/totp', method: 'DELETE', label: 'Turn off two-factor authentication' },
+  regenerate: { url: '/api/auth/mfa/recovery-codes', method: 'POST', label: 'Get new recovery codes' },
+};
+
+export default function TwoFactorSettings() {
+  const [status, setStatus] = useState<MfaStatus | null>(null);
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [action, setAction] = useState<CodeAction | null>(null);
+  // Shown once, straight after they are generated
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  const form = useForm<MfaCodeInput>({
+    resolver: zodResolver(mfaCodeSchema),
+    defaultValues: {
+      code: '',
+    },
+  });
+
+  const fetchStatus = async () => {
+    try {
+      const response = await apiFetch('/api/auth/mfa');
+      if (response.ok) {
+        setStatus(await response.json());
+      } else {
+        setError('Failed to load two-factor settings');
+      }
+    } catch {
+      setError('Failed to load two-factor settings');
+    }
+  };
+
+  useEffect(() => {
+    fetchStatus();
+  }, []);
+
+  const chooseAction = (next: CodeAction | null) => {
+    setAction(next);
+    setError('');
+    form.reset();
+  };
+
+  const startEnrollment = async () => {
+    setIsLoading(true);
+    setError('');
+    setRecoveryCodes(null);
+
+    try {
+      const response = await apiFetch('/api/auth/mfa/totp', { method: 'POST' });
+      const result = await response.json();
+      if (response.ok) {
+        setEnrollment(result);
+        chooseAction('enroll');
+      } else {
+        setError(result.error || 'Failed to start two-factor setup');
+      }
+    } catch {
+      setError('Network error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const onSubmit = async (data: MfaCodeInput) => {
+    if (!action) return;
+
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const { url, method } = CODE_ACTIONS[action];
+      const response = await apiFetch(url, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(data),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        setError(result.error || 'Verification failed');
+        return;
+      }
+
+      setRecoveryCodes(result.recoveryCodes ?? null);
+      setEnrollment(null);
+      chooseAction(null);
+      await fetchStatus();
+    } catch {
+      setError('Network error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card className="border-secondary/20">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          Two-Factor Authentication
+          {status?.enabled && <Badge variant="secondary">On</Badge>}
+        </CardTitle>
+        <CardDescription>
+          {status?.enabled
+            ? `Signing in needs a code from your authenticator app. ${status.recoveryCodesRemaining} recovery codes left.`
+            : 'Add a code from an authenticator app to your password when signing in.'}
+        </CardDescription>
+        {status && !enrollment && !action && (
+          <CardAction className="flex gap-2">
+            {status.enabled ? (
+              <>
+                <Button variant="outline" onClick={() => chooseAction('regenerate')}>New recovery codes</Button>
+                <Button variant="outline" onClick={() => chooseAction('disable')}>Turn off</Button>
+              </>
+            ) : (
+              <Button variant="outline" onClick={startEnrollment} disabled={isLoading}>
+                <KeyRound className="w-4 h-4" />
+                {isLoading ? 'Starting...' : 'Set up'}
+              </Button>
+            )}
+          </CardAction>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {recoveryCodes && (
+          <Alert>
+            <AlertTitle>Save your recovery codes</AlertTitle>
+            <AlertDescription>
+              <p>Each code signs you in once if you lose your authenticator. They won&apos;t be shown again.</p>
+              <div className="grid grid-cols-2 gap-x-6 gap-y-1 font-mono text-sm text-foreground mt-2">
+                {recoveryCodes.map(code => <span key={code}>{code}</span>)}
+              </div>
+              <Button variant="outline" size="sm" className="mt-3" onClick={() => setRecoveryCodes(null)}>
+                I&apos;ve saved them
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {enrollment && (
+          <div className="flex flex-col sm:flex-row gap-4 items-start">
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img src={enrollment.qrCode} alt="QR code for your authenticator app" className="w-40 h-40 rounded-md border bg-white" />
+            <div className="space-y-2 text-sm">
+              <p>Scan the QR code with your authenticator app, then enter the 6-digit code it shows.</p>
+              <p className="text-muted-foreground">Can&apos;t scan it? Enter this key instead:</p>
+              <p className="font-mono break-all">{enrollment.secret}</p>
+            </div>
+          </div>
+        )}
+
+        {action && (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-3 max-w-sm">
+              <FormField
+                control={form.control}
+                name="code"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{action === 'enroll' ? 'Code from your app' : 'Authenticator or recovery code'}</FormLabel>
+                    <FormControl>
+                      <Input placeholder="123456" autoComplete="one-time-code" {...field} disabled={isLoading} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="flex gap-2">
+                <Button type="submit" className="bg-secondary hover:bg-secondary/90" disabled={isLoading}>
+                  {isLoading ? 'Checking...' : CODE_ACTIONS[action].label}
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  onClick={() => {
+                    setEnrollment(null);
+                    chooseAction(null);
+                  }}
+                  disabled={isLoading}
+                >
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          </Form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,141 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { MailCheck } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { apiFetch } from '@/lib/api-client';
+
+// Both ends of email verification: following the emailed link (?token=...), and the page unverified
+// accounts are sent to, where they can ask for another link
+export default function VerifyEmail() {
+  const { user, logout, refreshUser, isLoading: authLoading } = useAuth();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+  const [status, setStatus] = useState<'idle' | 'verifying' | 'verified'>(token ? 'verifying' : 'idle');
+  const [error, setError] = useState<string>('');
+  const [message, setMessage] = useState<string>('');
+  const [isSending, setIsSending] = useState(false);
+  // Links are single-use, so never post the token twice (effects run twice in development)
+  const submitted = useRef(false);
+
+  useEffect(() => {
+    if (!token || submitted.current) return;
+    submitted.current = true;
+
+    const verify = async () => {
+      try {
+        const response = await fetch('/api/auth/verify-email', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ token }),
+        });
+        const result = await response.json();
+
+        if (response.ok) {
+          setStatus('verified');
+          await refreshUser();
+        } else {
+          setStatus('idle');
+          setError(result.error || 'Could not confirm your email address');
+        }
+      } catch {
+        setStatus('idle');
+        setError('Network error occurred');
+      }
+    };
+
+    verify();
+  }, [token, refreshUser]);
+
+  const resend = async () => {
+    setIsSending(true);
+    setError('');
+    setMessage('');
+
+    try {
+      const response = await apiFetch('/api/auth/verify-email/resend', { method: 'POST' });
+      const result = await response.json();
+      if (response.ok) {
+        setMessage(result.message);
+      } else {
+        setError(result.error || 'Could not send the verification email');
+      }
+    } catch {
+      setError('Network error occurred');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const signOut = async () => {
+    await logout();
+    router.push('/auth/login');
+  };
+
+  const verified = status === 'verified' || !!user?.emailVerifiedAt;
+
+  const description = status === 'verifying'
+    ? 'Confirming your email address...'
+    : verified
+      ? 'Your email address is confirmed. You have full access to TalkWell.'
+      : user
+        ? `We sent a link to ${user.email}. Open it to confirm your address and start using TalkWell.`
+        : 'Sign in to get a new confirmation link.';
+
+  return (
+    <Card className="w-full max-w-md mx-auto border-secondary/20 shadow-xl">
+      <CardHeader className="space-y-1">
+        <div className="flex justify-center">
+          <MailCheck className="w-10 h-10 text-secondary" />
+        </div>
+        <CardTitle className="text-2xl font-bold text-center text-foreground">
+          {verified ? 'Email Confirmed' : 'Confirm Your Email'}
+        </CardTitle>
+        <CardDescription className="text-center text-muted-foreground">{description}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="text-sm text-destructive bg-destructive/10 p-3 rounded-md border border-destructive/20">
+            {error}
+          </div>
+        )}
+
+        {message && (
+          <div className="text-sm text-green-700 bg-green-50 dark:bg-green-950 dark:text-green-300 p-3 rounded-md border border-green-200 dark:border-green-800">
+            {message}
+          </div>
+        )}
+
+        {status !== 'verifying' && !authLoading && (
+          verified || !user ? (
+            <Button
+              className="w-full bg-secondary hover:bg-secondary/90 focus-visible:ring-secondary"
+              onClick={() => router.push(user ? '/dashboard' : '/auth/login')}
+            >
+              {user ? 'Go to Dashboard' : 'Sign In'}
+            </Button>
+          ) : (
+            <>
+              <Button
+                className="w-full bg-secondary hover:bg-secondary/90 focus-visible:ring-secondary"
+                onClick={resend}
+                disabled={isSending}
+              >
+                {isSending ? 'Sending...' : 'Send a New Link'}
+              </Button>
+              <Button variant="ghost" className="w-full" onClick={signOut}>
+                Sign out
+              </Button>
+            </>
+          )
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,497 @@
+'use client';
+
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Allergy } from '@/db/schema';
+import { z } from 'zod';
+import { Plus, Edit, Trash2, AlertTriangle } from 'lucide-react';
+import { apiFetch } from '@/lib/api-client';
+
+// Create a form-specific schema that matches our form requirements
+const allergyFormSchema = z.object({
+  allergen: z.string().min(1, 'Allergen is required').max(255),
+  allergenType: z.enum(['food', 'medication', 'environmental', 'other']).optional(),
+  severity: z.enum(['mild', 'moderate', 'severe', 'life-threatening']).optional(),
+  reaction: z.string().optional(),
+  onsetDate: z.string().optional().refine((date) => !date || !isNaN(Date.parse(date)), 'Invalid date format'),
+  status: z.enum(['active', 'inactive', 'resolved']).optional(),
+  verificationStatus: z.enum(['confirmed', 'unconfirmed', 'refuted']).optional(),
+  notes: z.string().optional(),
+});
+
+type AllergyInput = z.infer<typeof allergyFormSchema>;
+
+interface AllergiesFormProps {
+  allergies: Allergy[];
+  onAllergyAdded?: () => void;
+  onAllergyUpdated?: () => void;
+  onAllergyDeleted?: () => void;
+}
+
+export default function AllergiesForm({
+  allergies,
+  onAllergyAdded,
+  onAllergyUpdated,
+  onAllergyDeleted
+}: AllergiesFormProps) {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingAllergy, setEditingAllergy] = useState<Allergy | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  const form = useForm<AllergyInput>({
+    resolver: zodResolver(allergyFormSchema),
+    defaultValues: {
+      allergen: '',
+      allergenType: undefined,
+      severity: undefined,
+      reaction: '',
+      onsetDate: '',
+      status: 'active',
+      verificationStatus: 'unconfirmed',
+      notes: '',
+    },
+  });
+
+  const resetForm = () => {
+    form.reset({
+      allergen: '',
+      allergenType: undefined,
+      severity: undefined,
+      reaction: '',
+      onsetDate: '',
+      status: 'active',
+      verificationStatus: 'unconfirmed',
+      notes: '',
+    });
+    setEditingAllergy(null);
+    setError('');
+  };
+
+  const openDialog = (allergy?: Allergy) => {
+    if (allergy) {
+      setEditingAllergy(allergy);
+      form.reset({
+        allergen: allergy.allergen,
+        allergenType: allergy.allergenType as 'food' | 'medication' | 'environmental' | 'other' | undefined,
+        severity: allergy.severity as 'mild' | 'moderate' | 'severe' | 'life-threatening' | undefined,
+        reaction: allergy.reaction || '',
+        onsetDate: allergy.onsetDate || '',
+        status: allergy.status as 'active' | 'inactive' | 'resolved' | undefined,
+        verificationStatus: allergy.verificationStatus as 'confirmed' | 'unconfirmed' | 'refuted' | undefined,
+        notes: allergy.notes || '',
+      });
+    } else {
+      resetForm();
+    }
+    setIsDialogOpen(true);
+  };
+
+  const closeDialog = () => {
+    setIsDialogOpen(false);
+    resetForm();
+  };
+
+  const onSubmit = async (data: AllergyInput) => {
+    setIsLoading(true);
+    setError('');
+
+    try {
+      // Clean up empty strings to undefined to match schema expectations
+      const cleanedData = Object.fromEntries(
+        Object.entries(data).map(([key, value]) => [key, value === '' ? undefined : value])
+      );
+
+      console.log('Submitting allergy data:', cleanedData);
+
+      const url = editingAllergy
+        ? `/api/patient/allergies/${editingAllergy.id}`
+        : '/api/patient/allergies';
+
+      const method = editingAllergy ? 'PUT' : 'POST';
+
+      const response = await apiFetch(url, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(cleanedData),
+      });
+
+      const result = await response.json();
+      console.log('Allergy submission response:', result);
+
+      if (response.ok) {
+        closeDialog();
+        if (editingAllergy) {
+          onAllergyUpdated?.();
+        } else {
+          onAllergyAdded?.();
+        }
+      } else {
+        console.error('Allergy submission failed:', result);
+        setError(result.error || 'Failed to save allergy');
+        if (result.details) {
+          console.error('Validation details:', result.details);
+        }
+      }
+    } catch (err) {
+      console.error('Network error during allergy submission:', err);
+      setError('Network error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const deleteAllergy = async (allergyId: string) => {
+    if (!confirm('Are you sure you want to delete this allergy?')) {
+      return;
+    }
+
+    try {
+      const response = await apiFetch(`/api/patient/allergies/${allergyId}`, {
+        method: 'DELETE',
+      });
+
+      if (response.ok) {
+        onAllergyDeleted?.();
+      } else {
+        const result = await response.json();
+        setError(result.error || 'Failed to delete allergy');
+      }
+    } catch {
+      setError('Network error occurred');
+    }
+  };
+
+  const getSeverityColor = (severity: string) => {
+    switch (severity) {
+      case 'mild': return 'bg-blue-100 text-blue-800';
+      case 'moderate': return 'bg-yellow-100 text-yellow-800';
+      case 'severe': return 'bg-orange-100 text-orange-800';
+      case 'life-threatening': return 'bg-red-100 text-red-800';
+      default: return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  const getVerificationColor = (verificationStatus: string) => {
+    switch (verificationStatus) {
+      case 'confirmed': return 'bg-green-100 text-green-800';
+      case 'unconfirmed': return 'bg-yellow-100 text-yellow-800';
+      case 'refuted': return 'bg-gray-100 text-gray-800';
+      default: return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-semibold">Allergies & Reactions</h3>
+          <p className="text-sm text-gray-600">Track your known allergies and adverse reactions</p>
+        </div>
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogTrigger asChild>
+            <Button onClick={() => openDialog()}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Allergy
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>
+                {editingAllergy ? 'Edit Allergy' : 'Add Allergy'}
+              </DialogTitle>
+              <DialogDescription>
+                Enter details about the allergen, how you react to it and how severe the reaction is.
+              </DialogDescription>
+            </DialogHeader>
+
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="allergen"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Allergen *</FormLabel>
+                        <FormControl>
+                          <Input
+                            placeholder="e.g., Penicillin, Peanuts"
+                            {...field}
+                            disabled={isLoading}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="allergenType"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Allergen Type</FormLabel>
+                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                          <FormControl>
+                            <SelectTrigger disabled={isLoading}>
+                              <SelectValue placeholder="Select type" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="food">Food</SelectItem>
+                            <SelectItem value="medication">Medication</SelectItem>
+                            <SelectItem value="environmental">Environmental</SelectItem>
+                            <SelectItem value="other">Other</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="severity"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Severity</FormLabel>
+                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                          <FormControl>
+                            <SelectTrigger disabled={isLoading}>
+                              <SelectValue placeholder="Select severity" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="mild">Mild</SelectItem>
+                            <SelectItem value="moderate">Moderate</SelectItem>
+                            <SelectItem value="severe">Severe</SelectItem>
+                            <SelectItem value="life-threatening">Life-threatening</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="verificationStatus"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Verification</FormLabel>
+                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                          <FormControl>
+                            <SelectTrigger disabled={isLoading}>
+                              <SelectValue placeholder="Select verification status" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="confirmed">Confirmed</SelectItem>
+                            <SelectItem value="unconfirmed">Unconfirmed</SelectItem>
+                            <SelectItem value="refuted">Refuted</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="status"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Status</FormLabel>
+                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                          <FormControl>
+                            <SelectTrigger disabled={isLoading}>
+                              <SelectValue placeholder="Select status" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="active">Active</SelectItem>
+                            <SelectItem value="inactive">Inactive</SelectItem>
+                            <SelectItem value="resolved">Resolved</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="onsetDate"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Onset Date</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="date"
+                            {...field}
+                            disabled={isLoading}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="reaction"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Reaction</FormLabel>
+                      <FormControl>
+                        <Textarea
+                          placeholder="e.g., Hives, swelling of the throat, difficulty breathing"
+                          {...field}
+                          disabled={isLoading}
+                          rows={3}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="notes"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Additional Notes</FormLabel>
+                      <FormControl>
+                        <Textarea
+                          placeholder="Any additional notes or observations"
+                          {...field}
+                          disabled={isLoading}
+                          rows={3}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {error && (
+                  <Alert variant="destructive">
+                    <AlertDescription>{error}</AlertDescription>
+                  </Alert>
+                )}
+
+                <div className="flex justify-end space-x-2">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={closeDialog}
+                    disabled={isLoading}
+                  >
+                    Cancel
+                  </Button>
+                  <Button type="submit" disabled={isLoading}>
+                    {isLoading ? 'Saving...' : editingAllergy ? 'Update' : 'Add Allergy'}
+                  </Button>
+                </div>
+              </form>
+            </Form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {allergies.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <p className="text-gray-500 mb-4">No allergies recorded yet</p>
+            <Button onClick={() => openDialog()}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Your First Allergy
+            </Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-4">
+          {allergies.map((allergy) => (
+            <Card
+              key={allergy.id}
+              className={allergy.severity === 'life-threatening' ? 'border-red-300' : undefined}
+            >
+              <CardHeader className="pb-3">
+                <div className="flex justify-between items-start">
+                  <div>
+                    <CardTitle className="text-lg flex items-center">
+                      {allergy.severity === 'life-threatening' && (
+                        <AlertTriangle className="w-4 h-4 mr-2 text-red-600" />
+                      )}
+                      {allergy.allergen}
+                    </CardTitle>
+                    {allergy.allergenType && (
+                      <p className="text-sm text-gray-500 capitalize">{allergy.allergenType} allergy</p>
+                    )}
+                  </div>
+                  <div className="flex space-x-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => openDialog(allergy)}
+                    >
+                      <Edit className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => deleteAllergy(allergy.id)}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="flex flex-wrap gap-2 mb-3">
+                  {allergy.severity && (
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${getSeverityColor(allergy.severity)}`}>
+                      {allergy.severity}
+                    </span>
+                  )}
+                  <span className={`px-2 py-1 rounded-full text-xs font-medium ${getVerificationColor(allergy.verificationStatus || 'unconfirmed')}`}>
+                    {allergy.verificationStatus || 'unconfirmed'}
+                  </span>
+                  {allergy.status && allergy.status !== 'active' && (
+                    <span className="px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+                      {allergy.status}
+                    </span>
+                  )}
+                </div>
+
+                {allergy.reaction && (
+                  <p className="text-sm text-gray-700 mb-2">Reaction: {allergy.reaction}</p>
+                )}
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-2 text-xs text-gray-500">
+                  {allergy.onsetDate && (
+                    <div>Onset: {new Date(allergy.onsetDate).toLocaleDateString()}</div>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
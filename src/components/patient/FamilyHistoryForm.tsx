@@ -0,0 +1,456 @@
+'use client';
+
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { FamilyHistory } from '@/db/schema';
+import { z } from 'zod';
+import { Plus, Edit, Trash2 } from 'lucide-react';
+import { apiFetch } from '@/lib/api-client';
+
+// Relatives offered in the editor, in the order they are grouped on screen
+const relationships = [
+  { value: 'mother', label: 'Mother', group: 'Mother' },
+  { value: 'father', label: 'Father', group: 'Father' },
+  { value: 'sister', label: 'Sister', group: 'Siblings' },
+  { value: 'brother', label: 'Brother', group: 'Siblings' },
+  { value: 'maternal-grandmother', label: 'Maternal Grandmother', group: 'Grandparents' },
+  { value: 'maternal-grandfather', label: 'Maternal Grandfather', group: 'Grandparents' },
+  { value: 'paternal-grandmother', label: 'Paternal Grandmother', group: 'Grandparents' },
+  { value: 'paternal-grandfather', label: 'Paternal Grandfather', group: 'Grandparents' },
+  { value: 'aunt', label: 'Aunt', group: 'Other Relatives' },
+  { value: 'uncle', label: 'Uncle', group: 'Other Relatives' },
+  { value: 'child', label: 'Child', group: 'Other Relatives' },
+  { value: 'other', label: 'Other', group: 'Other Relatives' },
+];
+
+const relativeGroups = ['Mother', 'Father', 'Siblings', 'Grandparents', 'Other Relatives'];
+
+const getRelationship = (value: string) =>
+  relationships.find(r => r.value === value);
+
+// Create a form-specific schema that matches our form requirements
+const familyHistoryFormSchema = z.object({
+  relationship: z.string().min(1, 'Relationship is required').max(50),
+  condition: z.string().min(1, 'Condition is required').max(255),
+  ageOfOnset: z.string().max(20).optional(),
+  ageAtDeath: z.string().max(20).optional(),
+  causeOfDeath: z.string().max(255).optional(),
+  notes: z.string().optional(),
+});
+
+type FamilyHistoryInput = z.infer<typeof familyHistoryFormSchema>;
+
+interface FamilyHistoryFormProps {
+  familyHistory: FamilyHistory[];
+  onEntryAdded?: () => void;
+  onEntryUpdated?: () => void;
+  onEntryDeleted?: () => void;
+}
+
+export default function FamilyHistoryForm({
+  familyHistory,
+  onEntryAdded,
+  onEntryUpdated,
+  onEntryDeleted
+}: FamilyHistoryFormProps) {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingEntry, setEditingEntry] = useState<FamilyHistory | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  const form = useForm<FamilyHistoryInput>({
+    resolver: zodResolver(familyHistoryFormSchema),
+    defaultValues: {
+      relationship: '',
+      condition: '',
+      ageOfOnset: '',
+      ageAtDeath: '',
+      causeOfDeath: '',
+      notes: '',
+    },
+  });
+
+  const resetForm = () => {
+    form.reset({
+      relationship: '',
+      condition: '',
+      ageOfOnset: '',
+      ageAtDeath: '',
+      causeOfDeath: '',
+      notes: '',
+    });
+    setEditingEntry(null);
+    setError('');
+  };
+
+  const openDialog = (entry?: FamilyHistory, relationship?: string) => {
+    if (entry) {
+      setEditingEntry(entry);
+      form.reset({
+        relationship: entry.relationship,
+        condition: entry.condition,
+        ageOfOnset: entry.ageOfOnset || '',
+        ageAtDeath: entry.ageAtDeath || '',
+        causeOfDeath: entry.causeOfDeath || '',
+        notes: entry.notes || '',
+      });
+    } else {
+      resetForm();
+      if (relationship) {
+        form.setValue('relationship', relationship);
+      }
+    }
+    setIsDialogOpen(true);
+  };
+
+  const closeDialog = () => {
+    setIsDialogOpen(false);
+    resetForm();
+  };
+
+  const onSubmit = async (data: FamilyHistoryInput) => {
+    setIsLoading(true);
+    setError('');
+
+    try {
+      // Clean up empty strings to undefined to match schema expectations
+      const cleanedData = Object.fromEntries(
+        Object.entries(data).map(([key, value]) => [key, value === '' ? undefined : value])
+      );
+
+      console.log('Submitting family history data:', cleanedData);
+
+      const url = editingEntry
+        ? `/api/patient/family-history/${editingEntry.id}`
+        : '/api/patient/family-history';
+
+      const method = editingEntry ? 'PUT' : 'POST';
+
+      const response = await apiFetch(url, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(cleanedData),
+      });
+
+      const result = await response.json();
+      console.log('Family history submission response:', result);
+
+      if (response.ok) {
+        closeDialog();
+        if (editingEntry) {
+          onEntryUpdated?.();
+        } else {
+          onEntryAdded?.();
+        }
+      } else {
+        console.error('Family history submission failed:', result);
+        setError(result.error || 'Failed to save family history entry');
+        if (result.details) {
+          console.error('Validation details:', result.details);
+        }
+      }
+    } catch (err) {
+      console.error('Network error during family history submission:', err);
+      setError('Network error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const deleteEntry = async (entryId: string) => {
+    if (!confirm('Are you sure you want to delete this family history entry?')) {
+      return;
+    }
+
+    try {
+      const response = await apiFetch(`/api/patient/family-history/${entryId}`, {
+        method: 'DELETE',
+      });
+
+      if (response.ok) {
+        onEntryDeleted?.();
+      } else {
+        const result = await response.json();
+        setError(result.error || 'Failed to delete family history entry');
+      }
+    } catch {
+      setError('Network error occurred');
+    }
+  };
+
+  // Entries with a relationship we don't offer (e.g. older free-text data) fall under "Other Relatives"
+  const entriesByGroup = relativeGroups.map(group => ({
+    group,
+    entries: familyHistory.filter(entry =>
+      (getRelationship(entry.relationship)?.group || 'Other Relatives') === group
+    ),
+  }));
+
+  const defaultRelationshipFor = (group: string) =>
+    relationships.find(r => r.group === group)?.value;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-semibold">Family Medical History</h3>
+          <p className="text-sm text-gray-600">Record conditions that run in your family</p>
+        </div>
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogTrigger asChild>
+            <Button onClick={() => openDialog()}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Family Condition
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>
+                {editingEntry ? 'Edit Family History' : 'Add Family History'}
+              </DialogTitle>
+              <DialogDescription>
+                Enter the relative, their condition and, if known, the age it started.
+              </DialogDescription>
+            </DialogHeader>
+
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="relationship"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Relative *</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger disabled={isLoading}>
+                              <SelectValue placeholder="Select relative" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {relationships.map(r => (
+                              <SelectItem key={r.value} value={r.value}>{r.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="condition"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Condition *</FormLabel>
+                        <FormControl>
+                          <Input
+                            placeholder="e.g., Breast cancer, Heart disease"
+                            {...field}
+                            disabled={isLoading}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="ageOfOnset"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Age of Onset</FormLabel>
+                        <FormControl>
+                          <Input
+                            placeholder="e.g., 45"
+                            {...field}
+                            disabled={isLoading}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="ageAtDeath"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Age at Death</FormLabel>
+                        <FormControl>
+                          <Input
+                            placeholder="Leave blank if living"
+                            {...field}
+                            disabled={isLoading}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="causeOfDeath"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Cause of Death</FormLabel>
+                        <FormControl>
+                          <Input
+                            placeholder="If applicable"
+                            {...field}
+                            disabled={isLoading}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="notes"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Additional Notes</FormLabel>
+                      <FormControl>
+                        <Textarea
+                          placeholder="Any additional notes or observations"
+                          {...field}
+                          disabled={isLoading}
+                          rows={3}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {error && (
+                  <Alert variant="destructive">
+                    <AlertDescription>{error}</AlertDescription>
+                  </Alert>
+                )}
+
+                <div className="flex justify-end space-x-2">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={closeDialog}
+                    disabled={isLoading}
+                  >
+                    Cancel
+                  </Button>
+                  <Button type="submit" disabled={isLoading}>
+                    {isLoading ? 'Saving...' : editingEntry ? 'Update' : 'Add Entry'}
+                  </Button>
+                </div>
+              </form>
+            </Form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {familyHistory.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <p className="text-gray-500 mb-4">No family history recorded yet</p>
+            <Button onClick={() => openDialog()}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Your First Family Condition
+            </Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {entriesByGroup.map(({ group, entries }) => (
+            <Card key={group}>
+              <CardHeader className="pb-3">
+                <div className="flex justify-between items-center">
+                  <CardTitle className="text-lg">{group}</CardTitle>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => openDialog(undefined, defaultRelationshipFor(group))}
+                  >
+                    <Plus className="w-4 h-4" />
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {entries.length === 0 ? (
+                  <p className="text-sm text-gray-400">No conditions recorded</p>
+                ) : (
+                  <div className="space-y-3">
+                    {entries.map((entry) => (
+                      <div key={entry.id} className="border-l-4 border-blue-500 pl-3 py-1">
+                        <div className="flex justify-between items-start">
+                          <div>
+                            <p className="font-medium">{entry.condition}</p>
+                            {group !== 'Mother' && group !== 'Father' && (
+                              <p className="text-xs text-gray-500">
+                                {getRelationship(entry.relationship)?.label || entry.relationship}
+                              </p>
+                            )}
+                          </div>
+                          <div className="flex space-x-2">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => openDialog(entry)}
+                            >
+                              <Edit className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => deleteEntry(entry.id)}
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        </div>
+
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-1 text-xs text-gray-500 mt-1">
+                          {entry.ageOfOnset && (
+                            <div>Onset at age: {entry.ageOfOnset}</div>
+                          )}
+                          {entry.ageAtDeath && (
+                            <div>Died at age: {entry.ageAtDeath}</div>
+                          )}
+                          {entry.causeOfDeath && (
+                            <div>Cause of death: {entry.causeOfDeath}</div>
+                          )}
+                        </div>
+
+                        {entry.notes && (
+                          <p className="text-sm text-gray-700 mt-1">{entry.notes}</p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Upload } from 'lucide-react';
+import type { ImportPlan, ImportItem, ImportAction } from '@/lib/fhir/import';
+import { apiFetch } from '@/lib/api-client';
+
+interface ImportRecordDialogProps {
+  onImported?: () => void;
+}
+
+const actionLabels: Record<ImportAction, string> = {
+  create: 'New',
+  merge: 'Update',
+  skip: 'Skip',
+};
+
+const actionVariants: Record<ImportAction, 'default' | 'secondary' | 'outline'> = {
+  create: 'default',
+  merge: 'secondary',
+  skip: 'outline',
+};
+
+// "medicationName" -> "medication name"
+const fieldLabel = (field: string) => field.replace(/([A-Z])/g, ' $1').toLowerCase();
+
+function PlanSection({ title, items }: { title: string; items: ImportItem<object>[] }) {
+  if (items.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-semibold">{title}</h4>
+      {items.map((item, index) => (
+        <div key={`${item.label}-${index}`} className="rounded-md border p-3 space-y-1">
+          <div className="flex items-center justify-between">
+            <span className="font-medium">{item.label}</span>
+            <Badge variant={actionVariants[item.action]}>{actionLabels[item.action]}</Badge>
+          </div>
+          {item.reason && <p className="text-xs text-muted-foreground">{item.reason}</p>}
+          {item.action !== 'skip' && item.changes.map(change => (
+            <p key={change.field} className="text-xs">
+              <span className="text-muted-foreground capitalize">{fieldLabel(change.field)}:</span> {change.incoming}
+            </p>
+          ))}
+          {item.conflicts.map(conflict => (
+            <p key={conflict.field} className="text-xs text-amber-600">
+              <span className="capitalize">{fieldLabel(conflict.field)}</span>: keeping &quot;{conflict.current}&quot; (file has &quot;{conflict.incoming}&quot;)
+            </p>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function ImportRecordDialog({ onImported }: ImportRecordDialogProps) {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [bundle, setBundle] = useState<unknown>(null);
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  const resetState = () => {
+    setBundle(null);
+    setPlan(null);
+    setError('');
+  };
+
+  const submitBundle = async (data: unknown, confirm: boolean) => {
+    const response = await apiFetch('/api/patient/import', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ bundle: data, confirm }),
+    });
+
+    const result = await response.json();
+    if (!response.ok) {
+      console.error('Record import failed:', result);
+      // Entry problems name where they are, e.g. "bundle.entry.2.resource.code: ..."
+      const issue = result.details?.[0];
+      const location = issue?.path?.length > 1 ? `${issue.path.join('.')}: ` : '';
+      throw new Error(issue ? `${location}${issue.message}` : result.error || 'Failed to import record');
+    }
+    return result;
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    resetState();
+    if (!file) return;
+
+    setIsLoading(true);
+    try {
+      let data: unknown;
+      try {
+        data = JSON.parse(await file.text());
+      } catch {
+        throw new Error('The file is not valid JSON');
+      }
+
+      const result = await submitBundle(data, false);
+      setBundle(data);
+      setPlan(result.plan);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read file');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setIsLoading(true);
+    setError('');
+
+    try {
+      await submitBundle(bundle, true);
+      setIsDialogOpen(false);
+      resetState();
+      onImported?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import record');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const items = plan
+    ? [...(plan.profile ? [plan.profile] : []), ...plan.conditions, ...plan.allergies, ...plan.medications]
+    : [];
+  const pendingCount = items.filter(item => item.action !== 'skip').length;
+  const ignoredTypes = plan ? Object.entries(plan.ignored) : [];
+
+  return (
+    <Dialog
+      open={isDialogOpen}
+      onOpenChange={(open) => {
+        setIsDialogOpen(open);
+        if (!open) resetState();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="hover:bg-secondary/10 focus-visible:ring-secondary">
+          <Upload className="w-4 h-4 mr-2" />
+          Import FHIR Record
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import a health record</DialogTitle>
+          <DialogDescription>
+            Upload a FHIR R4 Bundle (JSON) exported from another patient portal. Your profile, conditions,
+            allergies and medications are prefilled from it; nothing is saved until you confirm.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="fhir-bundle">FHIR Bundle file</Label>
+            <Input
+              id="fhir-bundle"
+              type="file"
+              accept=".json,application/json,application/fhir+json"
+              onChange={handleFileChange}
+              disabled={isLoading}
+            />
+          </div>
+
+          {plan && (
+            <div className="space-y-4">
+              {items.length === 0 && (
+                <p className="text-sm text-muted-foreground">
+                  No Patient, Condition, AllergyIntolerance or MedicationStatement entries were found in this file.
+                </p>
+              )}
+              {plan.profile && <PlanSection title="Profile" items={[plan.profile]} />}
+              <PlanSection title="Conditions" items={plan.conditions} />
+              <PlanSection title="Allergies" items={plan.allergies} />
+              <PlanSection title="Medications" items={plan.medications} />
+              {ignoredTypes.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Not imported: {ignoredTypes.map(([type, count]) => `${count} ${type}`).join(', ')}
+                </p>
+              )}
+            </div>
+          )}
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="flex justify-end space-x-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setIsDialogOpen(false)}
+              disabled={isLoading}
+            >
+              Cancel
+            </Button>
+            <Button onClick={handleImport} disabled={isLoading || !plan || pendingCount === 0}>
+              {isLoading ? 'Working...' : `Import ${pendingCount} ${pendingCount === 1 ? 'record' : 'records'}`}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
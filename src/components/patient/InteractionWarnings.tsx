@@ -0,0 +1,51 @@
+'use client';
+
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import type { InteractionWarning } from '@/lib/interactions';
+import type { InteractionSeverity } from '@/lib/interactions/rules';
+import { TriangleAlert } from 'lucide-react';
+
+interface InteractionWarningsProps {
+  warnings: InteractionWarning[];
+  title?: string;
+}
+
+const SEVERITY_LABELS: Record<InteractionSeverity, { label: string; className: string }> = {
+  contraindicated: { label: 'Do not combine', className: 'bg-red-100 text-red-800' },
+  major: { label: 'Major', className: 'bg-orange-100 text-orange-800' },
+  moderate: { label: 'Moderate', className: 'bg-yellow-100 text-yellow-800' },
+};
+
+// Interaction warnings from the local rules, most severe first. Shown while adding a medication and on the dashboard.
+export default function InteractionWarnings({ warnings, title = 'Possible medication interactions' }: InteractionWarningsProps) {
+  if (warnings.length === 0) {
+    return null;
+  }
+
+  const hasContraindicated = warnings.some(warning => warning.severity === 'contraindicated');
+
+  return (
+    <Alert variant={hasContraindicated ? 'destructive' : 'default'} aria-live="polite">
+      <TriangleAlert className="h-4 w-4" />
+      <AlertTitle>{title}</AlertTitle>
+      <AlertDescription className="space-y-3">
+        <ul className="space-y-2">
+          {warnings.map((warning) => (
+            <li key={`${warning.ruleId}-${warning.title}`}>
+              <div className="flex flex-wrap items-center gap-2">
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${SEVERITY_LABELS[warning.severity].className}`}>
+                  {SEVERITY_LABELS[warning.severity].label}
+                </span>
+                <span className="font-medium">{warning.title}</span>
+              </div>
+              <p className="text-sm">{warning.summary}. {warning.guidance}</p>
+            </li>
+          ))}
+        </ul>
+        <p className="text-xs">
+          Do not stop or change a prescribed medicine because of this list; check with your doctor or pharmacist.
+        </p>
+      </AlertDescription>
+    </Alert>
+  );
+}
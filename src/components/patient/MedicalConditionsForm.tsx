@@ -12,13 +12,16 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { MedicalCondition } from '@/db/schema';
+import { isValidConditionCode } from '@/lib/terminology/codes';
+import TerminologyAutocomplete from './TerminologyAutocomplete';
 import { z } from 'zod';
 import { Plus, Edit, Trash2 } from 'lucide-react';
+import { apiFetch } from '@/lib/api-client';
 
 // Create a form-specific schema that matches our form requirements
 const medicalConditionFormSchema = z.object({
   conditionName: z.string().min(1, 'Condition name is required').max(255),
-  conditionCode: z.string().optional(),
+  conditionCode: z.string().max(50).optional().refine((code) => !code || isValidConditionCode(code), 'Must be an ICD-10-CM code (e.g. E11.9) or a SNOMED CT concept id'),
   severity: z.enum(['mild', 'moderate', 'severe']).optional(),
   status: z.enum(['active', 'inactive', 'resolved']).optional(),
   onsetDate: z.string().optional().refine((date) => !date || !isNaN(Date.parse(date)), 'Invalid date format'),
@@ -126,11 +129,10 @@ export default function MedicalConditionsForm({
       
       const method = editingCondition ? 'PUT' : 'POST';
 
-      const response = await fetch(url, {
+      const response = await apiFetch(url, {
         method,
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${localStorage.getItem('auth-token')}`,
         },
         body: JSON.stringify(cleanedData),
       });
@@ -166,11 +168,8 @@ export default function MedicalConditionsForm({
     }
 
     try {
-      const response = await fetch(`/api/patient/conditions/${conditionId}`, {
+      const response = await apiFetch(`/api/patient/conditions/${conditionId}`, {
         method: 'DELETE',
-        headers: {
-          'Authorization': `Bearer ${localStorage.getItem('auth-token')}`,
-        },
       });
 
       if (response.ok) {
@@ -236,9 +235,14 @@ export default function MedicalConditionsForm({
                       <FormItem>
                         <FormLabel>Condition Name *</FormLabel>
                         <FormControl>
-                          <Input
+                          <TerminologyAutocomplete
+                            searchUrl="/api/terminology/search"
                             placeholder="e.g., Hypertension, Diabetes"
                             {...field}
+                            onSelect={(result) => {
+                              form.setValue('conditionName', result.display, { shouldValidate: true });
+                              form.setValue('conditionCode', result.code, { shouldValidate: true });
+                            }}
                             disabled={isLoading}
                           />
                         </FormControl>
@@ -0,0 +1,649 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Medication } from '@/db/schema';
+import type { MedicationSearchResult } from '@/lib/terminology/medications';
+import type { InteractionWarning } from '@/lib/interactions';
+import TerminologyAutocomplete from './TerminologyAutocomplete';
+import InteractionWarnings from './InteractionWarnings';
+import { z } from 'zod';
+import { Plus, Edit, Trash2 } from 'lucide-react';
+import { apiFetch } from '@/lib/api-client';
+
+// Create a form-specific schema that matches our form requirements
+const medicationFormSchema = z.object({
+  medicationName: z.string().min(1, 'Medication name is required').max(255),
+  genericName: z.string().max(255).optional(),
+  rxcui: z.string().optional(),
+  dosage: z.string().max(100).optional(),
+  frequency: z.string().max(100).optional(),
+  route: z.enum(['oral', 'injection', 'topical', 'inhalation', 'other']).optional(),
+  status: z.enum(['active', 'inactive', 'discontinued']).optional(),
+  startDate: z.string().optional().refine((date) => !date || !isNaN(Date.parse(date)), 'Invalid date format'),
+  endDate: z.string().optional().refine((date) => !date || !isNaN(Date.parse(date)), 'Invalid date format'),
+  prescribedBy: z.string().optional(),
+  purpose: z.string().optional(),
+  notes: z.string().optional(),
+});
+
+type MedicationInput = z.infer<typeof medicationFormSchema>;
+
+const INTERACTION_CHECK_DELAY_MS = 400;
+
+// Route implied by an RxNorm dose form, e.g. "500 MG Oral Tablet" -> oral
+const routeForStrength = (strength: string): MedicationInput['route'] => {
+  const doseForm = strength.toLowerCase();
+  if (doseForm.includes('inhal')) return 'inhalation';
+  if (doseForm.includes('inject')) return 'injection';
+  if (/oral|sublingual|chewable/.test(doseForm)) return 'oral';
+  if (/topical|cream|ointment/.test(doseForm)) return 'topical';
+  return undefined;
+};
+
+interface MedicationsFormProps {
+  medications: Medication[];
+  onMedicationAdded?: () => void;
+  onMedicationUpdated?: () => void;
+  onMedicationDeleted?: () => void;
+}
+
+export default function MedicationsForm({
+  medications,
+  onMedicationAdded,
+  onMedicationUpdated,
+  onMedicationDeleted
+}: MedicationsFormProps) {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingMedication, setEditingMedication] = useState<Medication | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string>('');
+  // Standard strengths of the RxNorm drug picked in the name field
+  const [strengths, setStrengths] = useState<string[]>([]);
+  // What saving this medication would add to the patient's interaction warnings
+  const [interactionWarnings, setInteractionWarnings] = useState<InteractionWarning[]>([]);
+
+  const form = useForm<MedicationInput>({
+    resolver: zodResolver(medicationFormSchema),
+    defaultValues: {
+      medicationName: '',
+      genericName: '',
+      rxcui: '',
+      dosage: '',
+      frequency: '',
+      route: undefined,
+      status: 'active',
+      startDate: '',
+      endDate: '',
+      prescribedBy: '',
+      purpose: '',
+      notes: '',
+    },
+  });
+
+  const [medicationName, genericName, rxcui] = form.watch(['medicationName', 'genericName', 'rxcui']);
+  const editingId = editingMedication?.id;
+
+  useEffect(() => {
+    if (!isDialogOpen || (medicationName ?? '').trim().length < 2) {
+      setInteractionWarnings([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const response = await apiFetch('/api/patient/interactions', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ medicationName, genericName, rxcui, replacingId: editingId }),
+          signal: controller.signal,
+        });
+
+        if (response.ok) {
+          const result = await response.json();
+          setInteractionWarnings(result.warnings);
+        }
+      } catch (err) {
+        if ((err as Error).name !== 'AbortError') {
+          console.error('Interaction check failed:', err);
+        }
+      }
+    }, INTERACTION_CHECK_DELAY_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [isDialogOpen, medicationName, genericName, rxcui, editingId]);
+
+  const resetForm = () => {
+    form.reset({
+      medicationName: '',
+      genericName: '',
+      rxcui: '',
+      dosage: '',
+      frequency: '',
+      route: undefined,
+      status: 'active',
+      startDate: '',
+      endDate: '',
+      prescribedBy: '',
+      purpose: '',
+      notes: '',
+    });
+    setEditingMedication(null);
+    setStrengths([]);
+    setInteractionWarnings([]);
+    setError('');
+  };
+
+  const openDialog = (medication?: Medication) => {
+    if (medication) {
+      setEditingMedication(medication);
+      form.reset({
+        medicationName: medication.medicationName,
+        genericName: medication.genericName || '',
+        rxcui: medication.rxcui || '',
+        dosage: medication.dosage || '',
+        frequency: medication.frequency || '',
+        route: medication.route as 'oral' | 'injection' | 'topical' | 'inhalation' | 'other' | undefined,
+        status: medication.status as 'active' | 'inactive' | 'discontinued' | undefined,
+        startDate: medication.startDate || '',
+        endDate: medication.endDate || '',
+        prescribedBy: medication.prescribedBy || '',
+        purpose: medication.purpose || '',
+        notes: medication.notes || '',
+      });
+    } else {
+      resetForm();
+    }
+    setIsDialogOpen(true);
+  };
+
+  const closeDialog = () => {
+    setIsDialogOpen(false);
+    resetForm();
+  };
+
+  const onSubmit = async (data: MedicationInput) => {
+    setIsLoading(true);
+    setError('');
+
+    try {
+      // Clean up empty strings to undefined to match schema expectations
+      const cleanedData = {
+        ...Object.fromEntries(
+          Object.entries(data).map(([key, value]) => [key, value === '' ? undefined : value])
+        ),
+        // An edited name drops the RxNorm code; send null so an update clears the stored one
+        rxcui: data.rxcui || null,
+      };
+
+      console.log('Submitting medication data:', cleanedData);
+
+      const url = editingMedication
+        ? `/api/patient/medications/${editingMedication.id}`
+        : '/api/patient/medications';
+
+      const method = editingMedication ? 'PUT' : 'POST';
+
+      const response = await apiFetch(url, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(cleanedData),
+      });
+
+      const result = await response.json();
+      console.log('Medication submission response:', result);
+
+      if (response.ok) {
+        closeDialog();
+        if (editingMedication) {
+          onMedicationUpdated?.();
+        } else {
+          onMedicationAdded?.();
+        }
+      } else {
+        console.error('Medication submission failed:', result);
+        setError(result.error || 'Failed to save medication');
+        if (result.details) {
+          console.error('Validation details:', result.details);
+        }
+      }
+    } catch (err) {
+      console.error('Network error during medication submission:', err);
+      setError('Network error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const deleteMedication = async (medicationId: string) => {
+    if (!confirm('Are you sure you want to delete this medication?')) {
+      return;
+    }
+
+    try {
+      const response = await apiFetch(`/api/patient/medications/${medicationId}`, {
+        method: 'DELETE',
+      });
+
+      if (response.ok) {
+        onMedicationDeleted?.();
+      } else {
+        const result = await response.json();
+        setError(result.error || 'Failed to delete medication');
+      }
+    } catch {
+      setError('Network error occurred');
+    }
+  };
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'active': return 'bg-green-100 text-green-800';
+      case 'inactive': return 'bg-yellow-100 text-yellow-800';
+      case 'discontinued': return 'bg-gray-100 text-gray-800';
+      default: return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-semibold">Medications</h3>
+          <p className="text-sm text-gray-600">Manage your current and past medications</p>
+        </div>
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogTrigger asChild>
+            <Button onClick={() => openDialog()}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Medication
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>
+                {editingMedication ? 'Edit Medication' : 'Add Medication'}
+              </DialogTitle>
+              <DialogDescription>
+                Enter details about the medication including dose, frequency and dates.
+              </DialogDescription>
+            </DialogHeader>
+
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="medicationName"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Medication Name *</FormLabel>
+                        <FormControl>
+                          <TerminologyAutocomplete<MedicationSearchResult>
+                            searchUrl="/api/terminology/medications"
+                            placeholder="e.g., Lipitor, Metformin"
+                            {...field}
+                            onChange={(event) => {
+                              field.onChange(event);
+                              form.setValue('rxcui', '');
+                              setStrengths([]);
+                            }}
+                            onSelect={(result) => {
+                              form.setValue('medicationName', result.brandName ?? result.genericName, { shouldValidate: true });
+                              form.setValue('genericName', result.genericName);
+                              form.setValue('rxcui', result.code);
+                              setStrengths(result.strengths);
+                            }}
+                            disabled={isLoading}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="genericName"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Generic Name</FormLabel>
+                        <FormControl>
+                          <Input
+                            placeholder="e.g., Atorvastatin"
+                            {...field}
+                            disabled={isLoading}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="dosage"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Dose</FormLabel>
+                        <FormControl>
+                          <Input
+                            placeholder="e.g., 20 mg"
+                            {...field}
+                            disabled={isLoading}
+                          />
+                        </FormControl>
+                        {strengths.length > 0 && (
+                          <div className="flex flex-wrap gap-1">
+                            {strengths.map((strength) => (
+                              <Button
+                                key={strength}
+                                type="button"
+                                variant="outline"
+                                size="sm"
+                                className="h-6 px-2 text-xs"
+                                onClick={() => {
+                                  form.setValue('dosage', strength, { shouldValidate: true });
+                                  if (!form.getValues('route')) {
+                                    form.setValue('route', routeForStrength(strength));
+                                  }
+                                }}
+                                disabled={isLoading}
+                              >
+                                {strength}
+                              </Button>
+                            ))}
+                          </div>
+                        )}
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="frequency"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Frequency</FormLabel>
+                        <FormControl>
+                          <Input
+                            placeholder="e.g., Once daily"
+                            {...field}
+                            disabled={isLoading}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="route"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Route</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger disabled={isLoading}>
+                              <SelectValue placeholder="Select route" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="oral">Oral</SelectItem>
+                            <SelectItem value="injection">Injection</SelectItem>
+                            <SelectItem value="topical">Topical</SelectItem>
+                            <SelectItem value="inhalation">Inhalation</SelectItem>
+                            <SelectItem value="other">Other</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="status"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Status</FormLabel>
+                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                          <FormControl>
+                            <SelectTrigger disabled={isLoading}>
+                              <SelectValue placeholder="Select status" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="active">Active</SelectItem>
+                            <SelectItem value="inactive">Inactive</SelectItem>
+                            <SelectItem value="discontinued">Discontinued</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="startDate"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Start Date</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="date"
+                            {...field}
+                            disabled={isLoading}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="endDate"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>End Date</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="date"
+                            {...field}
+                            disabled={isLoading}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="prescribedBy"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Prescribed By</FormLabel>
+                        <FormControl>
+                          <Input
+                            placeholder="Healthcare provider name"
+                            {...field}
+                            disabled={isLoading}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="purpose"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Purpose</FormLabel>
+                      <FormControl>
+                        <Textarea
+                          placeholder="What is this medication for?"
+                          {...field}
+                          disabled={isLoading}
+                          rows={2}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="notes"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Additional Notes</FormLabel>
+                      <FormControl>
+                        <Textarea
+                          placeholder="Side effects, special instructions, etc."
+                          {...field}
+                          disabled={isLoading}
+                          rows={3}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <InteractionWarnings
+                  warnings={interactionWarnings}
+                  title={editingMedication ? 'Interactions with your other medications' : 'Adding this medication may cause interactions'}
+                />
+
+                {error && (
+                  <Alert variant="destructive">
+                    <AlertDescription>{error}</AlertDescription>
+                  </Alert>
+                )}
+
+                <div className="flex justify-end space-x-2">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={closeDialog}
+                    disabled={isLoading}
+                  >
+                    Cancel
+                  </Button>
+                  <Button type="submit" disabled={isLoading}>
+                    {isLoading ? 'Saving...' : editingMedication ? 'Update' : 'Add Medication'}
+                  </Button>
+                </div>
+              </form>
+            </Form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {medications.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <p className="text-gray-500 mb-4">No medications recorded yet</p>
+            <Button onClick={() => openDialog()}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Your First Medication
+            </Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-4">
+          {medications.map((medication) => (
+            <Card key={medication.id}>
+              <CardHeader className="pb-3">
+                <div className="flex justify-between items-start">
+                  <div>
+                    <CardTitle className="text-lg">{medication.medicationName}</CardTitle>
+                    {medication.genericName && (
+                      <p className="text-sm text-gray-500">Generic: {medication.genericName}</p>
+                    )}
+                  </div>
+                  <div className="flex space-x-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => openDialog(medication)}
+                    >
+                      <Edit className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => deleteMedication(medication.id)}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="flex flex-wrap gap-2 mb-3">
+                  <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(medication.status || 'active')}`}>
+                    {medication.status || 'Active'}
+                  </span>
+                  {medication.route && (
+                    <span className="px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                      {medication.route}
+                    </span>
+                  )}
+                </div>
+
+                {(medication.dosage || medication.frequency) && (
+                  <p className="text-sm text-gray-700 mb-2">
+                    {[medication.dosage, medication.frequency].filter(Boolean).join(' — ')}
+                  </p>
+                )}
+
+                {medication.purpose && (
+                  <p className="text-sm text-gray-700 mb-2">{medication.purpose}</p>
+                )}
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-2 text-xs text-gray-500">
+                  {medication.startDate && (
+                    <div>Started: {new Date(medication.startDate).toLocaleDateString()}</div>
+                  )}
+                  {medication.endDate && (
+                    <div>Ended: {new Date(medication.endDate).toLocaleDateString()}</div>
+                  )}
+                  {medication.prescribedBy && (
+                    <div>By: {medication.prescribedBy}</div>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
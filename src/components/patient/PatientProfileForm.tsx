@@ -11,6 +11,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { z } from 'zod';
+import { apiFetch } from '@/lib/api-client';
 // import { useAuth } from '@/contexts/AuthContext'; // May be needed for future enhancements
 
 // Create form-specific schema
@@ -105,11 +106,10 @@ export default function PatientProfileForm({ initialData, onSuccess }: PatientPr
 
       console.log('Submitting patient profile data:', cleanedData);
 
-      const response = await fetch('/api/patient/profile', {
+      const response = await apiFetch('/api/patient/profile', {
         method: initialData ? 'PUT' : 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${localStorage.getItem('auth-token')}`,
         },
         body: JSON.stringify(cleanedData),
       });
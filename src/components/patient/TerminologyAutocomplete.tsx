@@ -0,0 +1,135 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import type { TerminologyResult } from '@/lib/terminology';
+import { apiFetch } from '@/lib/api-client';
+
+const SEARCH_DELAY_MS = 250;
+
+type TerminologyAutocompleteProps<T extends TerminologyResult> = Omit<React.ComponentProps<'input'>, 'onSelect'> & {
+  // Endpoint taking ?q= and returning { results: T[] }
+  searchUrl: string;
+  onSelect: (result: T) => void;
+};
+
+// Text input that suggests coded terms while the patient types. Typing stays free text;
+// picking a suggestion hands the coded result to onSelect.
+export default function TerminologyAutocomplete<T extends TerminologyResult>({
+  searchUrl,
+  onSelect,
+  ...inputProps
+}: TerminologyAutocompleteProps<T>) {
+  const [results, setResults] = useState<T[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+  const [hasTyped, setHasTyped] = useState(false);
+
+  const query = typeof inputProps.value === 'string' ? inputProps.value.trim() : '';
+
+  useEffect(() => {
+    if (!hasTyped || query.length < 2) {
+      setResults([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const response = await apiFetch(`${searchUrl}?q=${encodeURIComponent(query)}`, {
+          signal: controller.signal,
+        });
+
+        if (response.ok) {
+          const data = await response.json();
+          setResults(data.results);
+          setHighlighted(0);
+          setIsOpen(true);
+        }
+      } catch (err) {
+        if ((err as Error).name !== 'AbortError') {
+          console.error('Terminology search failed:', err);
+        }
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query, hasTyped, searchUrl]);
+
+  const select = (result: T) => {
+    onSelect(result);
+    setHasTyped(false);
+    setIsOpen(false);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!isOpen || results.length === 0) return;
+
+    if (event.key === 'ArrowDown') {
+      event.preventDefault();
+      setHighlighted((highlighted + 1) % results.length);
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault();
+      setHighlighted((highlighted - 1 + results.length) % results.length);
+    } else if (event.key === 'Enter') {
+      event.preventDefault();
+      select(results[highlighted]);
+    } else if (event.key === 'Escape') {
+      event.preventDefault();
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Input
+        {...inputProps}
+        autoComplete="off"
+        role="combobox"
+        aria-expanded={isOpen && results.length > 0}
+        aria-autocomplete="list"
+        onChange={(event) => {
+          setHasTyped(true);
+          inputProps.onChange?.(event);
+        }}
+        onKeyDown={handleKeyDown}
+        onBlur={(event) => {
+          setIsOpen(false);
+          inputProps.onBlur?.(event);
+        }}
+      />
+      {isOpen && results.length > 0 && (
+        <ul
+          role="listbox"
+          className="absolute z-50 mt-1 max-h-64 w-full overflow-y-auto rounded-md border bg-popover p-1 text-popover-foreground shadow-md"
+        >
+          {results.map((result, index) => (
+            <li
+              key={`${result.code}-${result.display}`}
+              role="option"
+              aria-selected={index === highlighted}
+              className={`cursor-pointer rounded-sm px-2 py-1.5 text-sm ${index === highlighted ? 'bg-accent text-accent-foreground' : ''}`}
+              // Select before the input's blur closes the list
+              onMouseDown={(event) => {
+                event.preventDefault();
+                select(result);
+              }}
+              onMouseEnter={() => setHighlighted(index)}
+            >
+              <div className="flex items-baseline justify-between gap-2">
+                <span>{result.display}</span>
+                <span className="font-mono text-xs text-gray-500">{result.code}</span>
+              </div>
+              {result.matchedTerm && (
+                <p className="text-xs text-gray-500">Matches &quot;{result.matchedTerm}&quot;</p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+'use client';
+
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { RedFlagMatch } from '@/lib/red-flags';
+import { Phone, MessageSquare, Siren } from 'lucide-react';
+
+interface RedFlagBannerProps {
+  redFlags: RedFlagMatch[];
+}
+
+// Emergency guidance shown for the rest of the consultation once a red flag is detected.
+// Deliberately has no dismiss button.
+export default function RedFlagBanner({ redFlags }: RedFlagBannerProps) {
+  if (redFlags.length === 0) {
+    return null;
+  }
+
+  const needs911 = redFlags.some(flag => flag.hotline === '911');
+  const needs988 = redFlags.some(flag => flag.hotline === '988');
+
+  return (
+    <Alert variant="destructive" className="border-2 border-red-500 bg-red-50 dark:bg-red-950/40" aria-live="assertive">
+      <Siren className="h-5 w-5" />
+      <AlertTitle className="text-base">
+        {needs911 ? 'This may be a medical emergency' : 'Help is available right now'}
+      </AlertTitle>
+      <AlertDescription className="space-y-3">
+        <ul className="space-y-1">
+          {redFlags.map((flag) => (
+            <li key={flag.ruleId}>
+              <span className="font-medium">{flag.name}:</span> {flag.guidance}
+            </li>
+          ))}
+        </ul>
+        <div className="flex flex-wrap gap-2">
+          {needs911 && (
+            <Button asChild variant="destructive" size="sm">
+              <a href="tel:911">
+                <Phone className="w-4 h-4 mr-2" />
+                Call 911
+              </a>
+            </Button>
+          )}
+          {needs988 && (
+            <>
+              <Button asChild variant="destructive" size="sm">
+                <a href="tel:988">
+                  <Phone className="w-4 h-4 mr-2" />
+                  Call 988
+                </a>
+              </Button>
+              <Button asChild variant="outline" size="sm">
+                <a href="sms:988">
+                  <MessageSquare className="w-4 h-4 mr-2" />
+                  Text 988
+                </a>
+              </Button>
+            </>
+          )}
+        </div>
+        <p className="text-xs">
+          The AI nurse cannot contact emergency services for you.
+        </p>
+      </AlertDescription>
+    </Alert>
+  );
+}
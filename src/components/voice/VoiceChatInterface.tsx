@@ -17,13 +17,23 @@ import {
   Bot
 } from 'lucide-react';
 import Vapi from '@vapi-ai/web';
-import { createVapiInstance, VapiMessage, ConversationSummary, generatePatientContext } from '@/lib/vapi';
-import { PatientProfile, MedicalCondition, PastConsultation } from '@/db/schema';
+import { createVapiInstance, VapiMessage, ConversationSummary, TranscriptTurn, buildAssistantOverrides } from '@/lib/vapi';
+import { PatientProfile, MedicalCondition, Medication, Allergy, FamilyHistory, PastConsultation } from '@/db/schema';
+import { extractTranscriptSummary, formatSymptoms, formatNextSteps, formatAssessment } from '@/lib/summary-extraction';
+import { detectRedFlags, RedFlagMatch } from '@/lib/red-flags';
+import { getEnabledRedFlagRules, RED_FLAG_ASSISTANT_INSTRUCTIONS_ENABLED } from '@/lib/red-flags/rules';
 import ConsultationSummary from './ConsultationSummary';
+import RedFlagBanner from './RedFlagBanner';
+import { apiFetch } from '@/lib/api-client';
+
+const redFlagRules = getEnabledRedFlagRules();
 
 interface VoiceChatInterfaceProps {
   profile: PatientProfile | null;
   conditions: MedicalCondition[];
+  medications: Medication[];
+  allergies: Allergy[];
+  familyHistory: FamilyHistory[];
   pastConsultations: PastConsultation[];
   onConsultationEnd?: (summary: ConversationSummary) => void;
 }
@@ -39,6 +49,9 @@ interface TranscriptMessage {
 export default function VoiceChatInterface({
   profile,
   conditions,
+  medications,
+  allergies,
+  familyHistory,
   pastConsultations,
   onConsultationEnd
 }: VoiceChatInterfaceProps) {
@@ -60,11 +73,14 @@ export default function VoiceChatInterface({
   const [vapiAnalysisSummary, setVapiAnalysisSummary] = useState<string | null>(null);
   const [endOfCallReport, setEndOfCallReport] = useState<any | null>(null);
   const [userEndedCall, setUserEndedCall] = useState(false);
+  const [redFlags, setRedFlags] = useState<RedFlagMatch[]>([]);
   
   const vapiRef = useRef<Vapi | null>(null);
   const callStartTimeRef = useRef<Date | null>(null);
+  const callIdRef = useRef<string | null>(null);
   const durationIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const transcriptScrollRef = useRef<HTMLDivElement | null>(null);
+  const reportedRedFlagsRef = useRef<Set<string>>(new Set());
 
   useEffect(() => {
     // Initialize VAPI only once
@@ -264,6 +280,42 @@ export default function VoiceChatInterface({
     };
   }, []);
 
+  // Check final transcript turns for emergencies as they arrive
+  useEffect(() => {
+    if (!isCallActive || messages.length === 0) return;
+
+    const callStart = callStartTimeRef.current?.getTime() ?? messages[0].timestamp.getTime();
+    const detected = detectRedFlags(
+      messages.map(msg => ({
+        role: msg.role,
+        text: msg.content,
+        offsetMs: Math.max(0, msg.timestamp.getTime() - callStart),
+      })),
+      redFlagRules
+    );
+    const newFlags = detected.filter(flag => !reportedRedFlagsRef.current.has(flag.ruleId));
+    if (newFlags.length === 0) return;
+
+    newFlags.forEach(flag => {
+      reportedRedFlagsRef.current.add(flag.ruleId);
+      console.warn('Emergency red flag detected:', flag.ruleId, flag.matchedText);
+
+      // Tell the assistant to switch to emergency guidance
+      if (RED_FLAG_ASSISTANT_INSTRUCTIONS_ENABLED && vapiRef.current) {
+        try {
+          vapiRef.current.send({
+            type: 'add-message',
+            message: { role: 'system', content: flag.assistantInstruction },
+            triggerResponseEnabled: true,
+          });
+        } catch (err) {
+          console.error('Failed to send red flag instruction to assistant:', err);
+        }
+      }
+    });
+    setRedFlags(prev => [...prev, ...newFlags]);
+  }, [messages, isCallActive]);
+
   const startDurationTimer = () => {
     console.log('Starting duration timer');
     if (durationIntervalRef.current) {
@@ -298,6 +350,8 @@ export default function VoiceChatInterface({
     setError('');
     setTranscript(null);
     setCallDuration(0);
+    setRedFlags([]);
+    reportedRedFlagsRef.current.clear();
     
     // Clear any existing timer
     if (durationIntervalRef.current) {
@@ -315,16 +369,28 @@ export default function VoiceChatInterface({
 
       console.log('Starting VAPI call with assistant key:', assistantKey);
       
-      // Generate patient context for the assistant
-      const patientContext = generatePatientContext(profile, conditions, pastConsultations, initialContext);
-      console.log('Generated patient context:', patientContext);
+      // Get a call token so the server webhook can attribute this call to the patient
+      let callToken: string | undefined;
+      try {
+        const tokenResponse = await apiFetch('/api/vapi/call-token', {
+          method: 'POST',
+        });
+        if (tokenResponse.ok) {
+          callToken = (await tokenResponse.json()).callToken;
+        }
+      } catch (err) {
+        console.warn('Failed to get call token, consultation will only be saved from the browser:', err);
+      }
+
+      // Pass the patient context to the assistant as template variables
+      const assistantOverrides = buildAssistantOverrides(
+        { profile, conditions, medications, allergies, familyHistory, pastConsultations },
+        initialContext,
+        { callToken }
+      );
       
-      // For VAPI, we'll use the assistant ID from environment
-      // The patient context will be handled by the assistant's system message
-      await vapiRef.current.start(assistantKey, {
-        // You can pass additional options here if needed
-        // variableValues: { patientContext }
-      });
+      const call = await vapiRef.current.start(assistantKey, assistantOverrides);
+      callIdRef.current = call?.id ?? null;
       
       console.log('VAPI call started successfully');
     } catch (err) {
@@ -401,11 +467,10 @@ export default function VoiceChatInterface({
         
         // Save consultation to database
         try {
-          const response = await fetch('/api/patient/consultations', {
+          const response = await apiFetch('/api/patient/consultations', {
             method: 'POST',
             headers: {
               'Content-Type': 'application/json',
-              'Authorization': `Bearer ${localStorage.getItem('auth-token')}`,
             },
             body: JSON.stringify(summary),
           });
@@ -441,40 +506,27 @@ export default function VoiceChatInterface({
       .map(msg => `${msg.role === 'user' ? 'Patient' : 'AI Nurse'}: ${msg.content}`)
       .join('\n');
 
-    let symptoms = 'No specific symptoms mentioned';
-    let followUpContacts = profile?.city && profile?.state 
-      ? `Recommended to contact local healthcare providers in ${profile.city}, ${profile.state}` 
-      : 'Contact your primary care physician or local healthcare provider';
-
-    // Use end-of-call-report data if available (highest priority)
-    if (endOfCallReport && endOfCallReport.summary) {
-      console.log('Using end-of-call-report summary:', endOfCallReport.summary);
-      symptoms = endOfCallReport.summary;
-      // You can customize this further based on the actual structure of the summary
-    } else if (vapiAnalysisSummary) {
-      // Fallback to VAPI analysis summary
-      const sentences = vapiAnalysisSummary.split('. ').filter(s => s.trim().length > 0);
-      if (sentences.length >= 2) {
-        // First two sentences for symptoms
-        symptoms = sentences.slice(0, 2).join('. ');
-        if (!symptoms.endsWith('.')) symptoms += '.';
-        
-        // Last sentence for follow-up
-        if (sentences.length > 2) {
-          followUpContacts = sentences.slice(-1)[0];
-          if (!followUpContacts.endsWith('.')) followUpContacts += '.';
-        }
-      } else if (sentences.length === 1) {
-        symptoms = sentences[0];
-        if (!symptoms.endsWith('.')) symptoms += '.';
-      }
-    } else {
-      // Final fallback to extracting from user messages
-      const userMessages = messages.filter(msg => msg.role === 'user');
-      if (userMessages.length > 0) {
-        symptoms = userMessages.map(msg => msg.content).join('; ');
-      }
-    }
+    // Structured transcript turns, offset from the start of the call
+    const callStart = callStartTimeRef.current?.getTime() ?? messages[0].timestamp.getTime();
+    const turns: TranscriptTurn[] = messages.map((msg, index) => ({
+      turnIndex: index,
+      role: msg.role,
+      text: msg.content,
+      offsetMs: Math.max(0, msg.timestamp.getTime() - callStart),
+    }));
+
+    // Rule-based extraction works without VAPI analysis; fall back to VAPI's summary only when it finds no symptoms
+    const extraction = extractTranscriptSummary(turns);
+    console.log('Extracted consultation summary:', extraction);
+
+    const symptoms = formatSymptoms(extraction)
+      || endOfCallReport?.summary
+      || vapiAnalysisSummary
+      || 'No specific symptoms mentioned';
+    const followUpContacts = formatNextSteps(extraction)
+      || (profile?.city && profile?.state
+        ? `Recommended to contact local healthcare providers in ${profile.city}, ${profile.state}`
+        : 'Contact your primary care physician or local healthcare provider');
 
     // Use transcript from end-of-call-report if available
     let finalTranscript = transcriptText;
@@ -483,14 +535,21 @@ export default function VoiceChatInterface({
       finalTranscript = endOfCallReport.artifact.transcript;
     }
 
+    const duration = finalCallDuration || callDuration;
+
     return {
       summary: `Voice consultation regarding: ${initialContext}`,
       symptoms,
-      diagnosis: 'General consultation - no diagnosis provided',
+      diagnosis: formatAssessment(extraction) || 'General consultation - no diagnosis provided',
       followUpContacts,
       disclaimer: 'This consultation was with an AI assistant and does not constitute professional medical advice. Please consult with a qualified healthcare professional for proper medical diagnosis and treatment.',
-      duration: finalCallDuration || callDuration,
+      duration,
       transcript: finalTranscript,
+      turns,
+      startedAt: new Date(callStart).toISOString(),
+      endedAt: new Date(callStart + duration * 1000).toISOString(),
+      vapiCallId: callIdRef.current ?? undefined,
+      redFlags: detectRedFlags(turns, redFlagRules),
     };
   };
 
@@ -519,6 +578,9 @@ export default function VoiceChatInterface({
     setVapiAnalysisSummary(null);
     setEndOfCallReport(null);
     setUserEndedCall(false); // Reset user ended call flag
+    setRedFlags([]);
+    reportedRedFlagsRef.current.clear();
+    callIdRef.current = null;
     setIsCallActive(false); // Ensure call is not active
     setIsLoading(false); // Ensure loading is false
     
@@ -532,11 +594,10 @@ export default function VoiceChatInterface({
   const handleSummarySave = async (editedSummary: ConversationSummary) => {
     try {
       // Update the consultation in the database
-      const response = await fetch('/api/patient/consultations', {
+      const response = await apiFetch('/api/patient/consultations', {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${localStorage.getItem('auth-token')}`,
         },
         body: JSON.stringify(editedSummary),
       });
@@ -567,26 +628,32 @@ export default function VoiceChatInterface({
   // Show loading state when generating summary
   if (isGeneratingSummary) {
     return (
-      <Card>
-        <CardContent className="flex items-center justify-center py-12">
-          <div className="text-center">
-            <div className="w-16 h-16 border-4 border-blue-500 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
-            <h3 className="text-lg font-semibold mb-2">Generating Consultation Summary...</h3>
-            <p className="text-gray-600">Please wait while we process your consultation</p>
-          </div>
-        </CardContent>
-      </Card>
+      <div className="space-y-6">
+        <RedFlagBanner redFlags={redFlags} />
+        <Card>
+          <CardContent className="flex items-center justify-center py-12">
+            <div className="text-center">
+              <div className="w-16 h-16 border-4 border-blue-500 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+              <h3 className="text-lg font-semibold mb-2">Generating Consultation Summary...</h3>
+              <p className="text-gray-600">Please wait while we process your consultation</p>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
     );
   }
 
   // Show consultation summary after call ends
   if (showSummary && consultationSummary) {
     return (
-      <ConsultationSummary
-        summary={consultationSummary}
-        onClose={handleSummaryClose}
-        onSave={handleSummarySave}
-      />
+      <div className="space-y-6">
+        <RedFlagBanner redFlags={redFlags} />
+        <ConsultationSummary
+          summary={consultationSummary}
+          onClose={handleSummaryClose}
+          onSave={handleSummarySave}
+        />
+      </div>
     );
   }
 
@@ -664,6 +731,9 @@ export default function VoiceChatInterface({
         </Card>
       )}
 
+      {/* Emergency guidance stays visible for the rest of the call */}
+      {isCallActive && <RedFlagBanner redFlags={redFlags} />}
+
       {/* Active Call Interface */}
       {isCallActive && (
         <Card>
@@ -2,12 +2,26 @@
 
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { User } from '@/db/schema';
+import { apiFetch } from '@/lib/api-client';
+import { startAuthentication, startRegistration } from '@simplewebauthn/browser';
+
+interface LoginResult {
+  success: boolean;
+  error?: string;
+  // Set when the password was right but the account needs a second factor; pass it to verifyMfa
+  mfaToken?: string;
+}
 
 interface AuthContextType {
   user: User | null;
-  login: (username: string, password: string) => Promise<{ success: boolean; error?: string }>;
+  login: (username: string, password: string) => Promise<LoginResult>;
+  verifyMfa: (mfaToken: string, code: string) => Promise<{ success: boolean; error?: string }>;
+  loginWithPasskey: () => Promise<{ success: boolean; error?: string }>;
   register: (userData: RegisterData) => Promise<{ success: boolean; error?: string }>;
-  logout: () => void;
+  registerWithPasskey: (userData: PasskeyRegisterData) => Promise<{ success: boolean; error?: string }>;
+  logout: () => Promise<void>;
+  // Re-read the signed-in account, e.g. after its email address was confirmed
+  refreshUser: () => Promise<void>;
   isLoading: boolean;
 }
 
@@ -20,29 +34,78 @@ interface RegisterData {
   lastName: string;
 }
 
+type PasskeyRegisterData = Omit<RegisterData, 'password' | 'confirmPassword'>;
+
+// Both passkey ceremonies: fetch options, let the browser talk to the authenticator, send back its answer
+const runPasskeyCeremony = async (
+  optionsUrl: string,
+  verifyUrl: string,
+  ceremony: 'register' | 'authenticate',
+  optionsBody?: unknown
+) => {
+  const optionsResponse = await apiFetch(optionsUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(optionsBody ?? {}),
+  });
+  const { challengeId, options, error } = await optionsResponse.json();
+  if (!optionsResponse.ok) {
+    return { ok: false, data: { error } };
+  }
+
+  let credential;
+  try {
+    credential = ceremony === 'register'
+      ? await startRegistration({ optionsJSON: options })
+      : await startAuthentication({ optionsJSON: options });
+  } catch (error) {
+    // NotAllowedError covers both cancelling and timing out
+    const cancelled = error instanceof Error && error.name === 'NotAllowedError';
+    return { ok: false, data: { error: cancelled ? 'Passkey request was cancelled' : 'Your device could not use a passkey' } };
+  }
+
+  const response = await apiFetch(verifyUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ challengeId, response: credential }),
+  });
+  return { ok: response.ok, data: await response.json() };
+};
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
-  useEffect(() => {
-    // Check for stored token on mount
-    const token = localStorage.getItem('auth-token');
-    if (token) {
-      // You could verify the token with the server here
-      // For now, we'll just check if it exists
-      const userData = localStorage.getItem('user-data');
-      if (userData) {
-        setUser(JSON.parse(userData));
+  const checkSession = async () => {
+    try {
+      const response = await apiFetch('/api/auth/session');
+      if (response.ok) {
+        const data = await response.json();
+        setUser(data.user);
       }
+    } catch {
+      setUser(null);
     }
-    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    // Tokens used to live in localStorage; drop any left over from before cookie sessions
+    localStorage.removeItem('auth-token');
+    localStorage.removeItem('user-data');
+
+    // Ask the server who is signed in; the session cookies are HttpOnly
+    checkSession().finally(() => setIsLoading(false));
   }, []);
 
-  const login = async (username: string, password: string) => {
+  const login = async (username: string, password: string): Promise<LoginResult> => {
     try {
-      const response = await fetch('/api/auth/login', {
+      const response = await apiFetch('/api/auth/login', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -52,10 +115,73 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
       const data = await response.json();
 
+      if (response.ok && data.mfa_required) {
+        return { success: false, mfaToken: data.mfaToken };
+      } else if (response.ok) {
+        setUser(data.user);
+        return { success: true };
+      } else {
+        return { success: false, error: data.error };
+      }
+    } catch {
+      return { success: false, error: 'Network error occurred' };
+    }
+  };
+
+  const verifyMfa = async (mfaToken: string, code: string) => {
+    try {
+      const response = await apiFetch('/api/auth/login/mfa', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ mfaToken, code }),
+      });
+
+      const data = await response.json();
+
       if (response.ok) {
         setUser(data.user);
-        localStorage.setItem('auth-token', data.token);
-        localStorage.setItem('user-data', JSON.stringify(data.user));
+        return { success: true };
+      } else {
+        return { success: false, error: data.error };
+      }
+    } catch {
+      return { success: false, error: 'Network error occurred' };
+    }
+  };
+
+  const loginWithPasskey = async () => {
+    try {
+      const { ok, data } = await runPasskeyCeremony(
+        '/api/auth/webauthn/authenticate/options',
+        '/api/auth/webauthn/authenticate/verify',
+        'authenticate'
+      );
+
+      if (ok) {
+        setUser(data.user);
+        return { success: true };
+      } else {
+        return { success: false, error: data.error };
+      }
+    } catch {
+      return { success: false, error: 'Network error occurred' };
+    }
+  };
+
+  // Passwordless sign-up; the new account is signed in straight away
+  const registerWithPasskey = async (userData: PasskeyRegisterData) => {
+    try {
+      const { ok, data } = await runPasskeyCeremony(
+        '/api/auth/webauthn/signup/options',
+        '/api/auth/webauthn/signup/verify',
+        'register',
+        userData
+      );
+
+      if (ok) {
+        setUser(data.user);
         return { success: true };
       } else {
         return { success: false, error: data.error };
@@ -87,14 +213,17 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const logout = () => {
+  const logout = async () => {
     setUser(null);
-    localStorage.removeItem('auth-token');
-    localStorage.removeItem('user-data');
+    try {
+      await apiFetch('/api/auth/logout', { method: 'POST' });
+    } catch (error) {
+      console.error('Logout error:', error);
+    }
   };
 
   return (
-    <AuthContext.Provider value={{ user, login, register, logout, isLoading }}>
+    <AuthContext.Provider value={{ user, login, verifyMfa, loginWithPasskey, register, registerWithPasskey, logout, refreshUser: checkSession, isLoading }}>
       {children}
     </AuthContext.Provider>
   );
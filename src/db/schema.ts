@@ -1,15 +1,29 @@
-import { pgTable, varchar, timestamp, text, uuid, date } from 'drizzle-orm/pg-core';
+import { pgTable, varchar, timestamp, text, uuid, date, integer, unique, boolean } from 'drizzle-orm/pg-core';
 import { createInsertSchema, createSelectSchema } from 'drizzle-zod';
 import { z } from 'zod';
+import { isValidConditionCode } from '../lib/terminology/codes';
 
 // Users table for authentication
 export const users = pgTable('users', {
   id: uuid('id').defaultRandom().primaryKey(),
   username: varchar('username', { length: 50 }).notNull().unique(),
   email: varchar('email', { length: 255 }).notNull().unique(),
-  passwordHash: text('password_hash').notNull(),
+  passwordHash: text('password_hash'), // null for passwordless accounts, which sign in with a passkey
   firstName: varchar('first_name', { length: 100 }),
   lastName: varchar('last_name', { length: 100 }),
+  // Set once the address is confirmed from the verification email; until then the API refuses the account
+  emailVerifiedAt: timestamp('email_verified_at'),
+  // Deleted accounts keep their rows but can no longer sign in or use issued tokens
+  deletedAt: timestamp('deleted_at'),
+  // Sign-in and API access are refused until this time
+  lockedUntil: timestamp('locked_until'),
+  // TOTP two-factor authentication: the secret is AES-256-GCM encrypted and only counts once totp_enabled_at is set
+  totpSecret: text('totp_secret'),
+  totpEnabledAt: timestamp('totp_enabled_at'),
+  totpLastUsedStep: integer('totp_last_used_step'), // a code is accepted once
+  mfaFailedAttempts: integer('mfa_failed_attempts').default(0).notNull(),
+  // Two-factor codes are refused until this time; unlike locked_until it leaves existing sessions alone
+  mfaLockedUntil: timestamp('mfa_locked_until'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
@@ -90,6 +104,7 @@ export const medications = pgTable('medications', {
   // Medication Information
   medicationName: varchar('medication_name', { length: 255 }).notNull(),
   genericName: varchar('generic_name', { length: 255 }),
+  rxcui: varchar('rxcui', { length: 20 }), // RxNorm ingredient concept
   dosage: varchar('dosage', { length: 100 }),
   frequency: varchar('frequency', { length: 100 }),
   route: varchar('route', { length: 50 }), // oral, injection, topical, etc.
@@ -164,6 +179,152 @@ export const pastConsultations = pgTable('past_consultations', {
   diagnosis: text('diagnosis'),
   followUpContacts: text('follow_up_contacts'),
   disclaimer: text('disclaimer').notNull(),
+  vapiCallId: varchar('vapi_call_id', { length: 100 }).unique(), // VAPI call ID, used to match webhook events
+  durationSeconds: integer('duration_seconds'),
+  startedAt: timestamp('started_at'),
+  endedAt: timestamp('ended_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Consultation transcripts, one row per conversation turn
+export const consultationTranscripts = pgTable('consultation_transcripts', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  consultationId: uuid('consultation_id').references(() => pastConsultations.id, { onDelete: 'cascade' }).notNull(),
+  turnIndex: integer('turn_index').notNull(),
+  role: varchar('role', { length: 20 }).notNull(), // user, assistant
+  text: text('text').notNull(),
+  offsetMs: integer('offset_ms').notNull(), // milliseconds since the call started
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  unique('consultation_transcripts_turn_unique').on(table.consultationId, table.turnIndex),
+]);
+
+// Emergency red flags detected during a consultation, at most one row per rule
+export const consultationRedFlags = pgTable('consultation_red_flags', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  consultationId: uuid('consultation_id').references(() => pastConsultations.id, { onDelete: 'cascade' }).notNull(),
+  ruleId: varchar('rule_id', { length: 50 }).notNull(),
+  category: varchar('category', { length: 30 }).notNull(), // cardiac, stroke, mental-health, anaphylaxis, bleeding
+  hotline: varchar('hotline', { length: 10 }).notNull(), // 911, 988
+  matchedText: text('matched_text').notNull(),
+  turnIndex: integer('turn_index'),
+  offsetMs: integer('offset_ms'),
+  detectedAt: timestamp('detected_at').defaultNow().notNull(),
+}, (table) => [
+  unique('consultation_red_flags_rule_unique').on(table.consultationId, table.ruleId),
+]);
+
+// OAuth2 clients: third-party SMART on FHIR apps registered by a user
+export const oauthClients = pgTable('oauth_clients', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  clientId: varchar('client_id', { length: 64 }).notNull().unique(),
+  clientSecretHash: varchar('client_secret_hash', { length: 64 }), // SHA-256; null for public clients, which rely on PKCE alone
+  name: varchar('name', { length: 100 }).notNull(),
+  redirectUris: text('redirect_uris').array().notNull(),
+  scope: text('scope').notNull(), // space-separated scopes the client may request
+  ownerId: uuid('owner_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Single-use authorization codes issued after the patient approves the consent screen
+export const oauthAuthorizationCodes = pgTable('oauth_authorization_codes', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  codeHash: varchar('code_hash', { length: 64 }).notNull().unique(), // SHA-256 of the code
+  clientId: uuid('client_id').references(() => oauthClients.id, { onDelete: 'cascade' }).notNull(),
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  redirectUri: text('redirect_uri').notNull(),
+  scope: text('scope').notNull(),
+  codeChallenge: varchar('code_challenge', { length: 128 }).notNull(), // PKCE S256 challenge
+  expiresAt: timestamp('expires_at').notNull(),
+  usedAt: timestamp('used_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Opaque access tokens for third-party apps; only the hash is stored
+export const oauthAccessTokens = pgTable('oauth_access_tokens', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  tokenHash: varchar('token_hash', { length: 64 }).notNull().unique(), // SHA-256 of the token
+  clientId: uuid('client_id').references(() => oauthClients.id, { onDelete: 'cascade' }).notNull(),
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  authorizationCodeId: uuid('authorization_code_id').references(() => oauthAuthorizationCodes.id, { onDelete: 'cascade' }),
+  scope: text('scope').notNull(),
+  expiresAt: timestamp('expires_at').notNull(),
+  revokedAt: timestamp('revoked_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Login sessions. The refresh token is "<session id>.<secret>" and only the secret's hash is stored. It is
+// replaced on every refresh, so an old one coming back means it was copied and the session is revoked.
+export const sessions = pgTable('sessions', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  refreshTokenHash: varchar('refresh_token_hash', { length: 64 }).notNull(), // SHA-256 of the current secret
+  // The secret it replaced; a racing refresh that presents it soon after the rotation is turned away without revoking
+  previousRefreshTokenHash: varchar('previous_refresh_token_hash', { length: 64 }),
+  rotatedAt: timestamp('rotated_at'),
+  userAgent: text('user_agent'),
+  ipAddress: varchar('ip_address', { length: 64 }),
+  expiresAt: timestamp('expires_at').notNull(),
+  revokedAt: timestamp('revoked_at'),
+  revokedReason: varchar('revoked_reason', { length: 30 }), // logout, signed-out-remotely, logout-everywhere, password-reset, refresh-token-reuse, account-restricted
+  lastUsedAt: timestamp('last_used_at').defaultNow().notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// WebAuthn credentials (passkeys); any of them signs the account in instead of a password
+export const passkeys = pgTable('passkeys', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  credentialId: text('credential_id').notNull().unique(), // base64url
+  publicKey: text('public_key').notNull(), // base64url COSE public key
+  counter: integer('counter').default(0).notNull(), // signature counter; many passkeys always report 0
+  transports: text('transports'), // comma-separated hints, e.g. internal,hybrid
+  deviceType: varchar('device_type', { length: 20 }), // singleDevice, multiDevice (synced)
+  backedUp: boolean('backed_up').default(false).notNull(),
+  name: varchar('name', { length: 100 }),
+  lastUsedAt: timestamp('last_used_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Outstanding WebAuthn ceremonies; each challenge is deleted as soon as a response is checked against it
+export const webauthnChallenges = pgTable('webauthn_challenges', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  challenge: varchar('challenge', { length: 128 }).notNull(),
+  purpose: varchar('purpose', { length: 20 }).notNull(), // registration, signup, authentication
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }), // account adding a passkey
+  // Passwordless sign-up: the new account's details (JSON), only saved once its passkey checks out
+  pendingAccount: text('pending_account'),
+  expiresAt: timestamp('expires_at').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Links sent by email (password reset, email verification). The link carries a signed token naming this
+// row, which is marked used the first time the link is followed.
+export const emailTokens = pgTable('email_tokens', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  purpose: varchar('purpose', { length: 30 }).notNull(), // password-reset, email-verification
+  email: varchar('email', { length: 255 }).notNull(), // address the link was sent to
+  expiresAt: timestamp('expires_at').notNull(),
+  usedAt: timestamp('used_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Forgot-password requests, kept for an hour so the form can be throttled per address and per client IP.
+// Recorded whether or not an account uses the address, so throttling never reveals which ones do.
+export const passwordResetRequests = pgTable('password_reset_requests', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  email: varchar('email', { length: 255 }).notNull(),
+  ipAddress: varchar('ip_address', { length: 64 }),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// One-time recovery codes for accounts with two-factor authentication
+export const mfaRecoveryCodes = pgTable('mfa_recovery_codes', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  codeHash: varchar('code_hash', { length: 64 }).notNull(), // SHA-256 of the normalised code
+  usedAt: timestamp('used_at'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
 });
 
@@ -192,6 +353,7 @@ export const insertPatientProfileSchema = createInsertSchema(patientProfiles, {
 // Medical Condition Schema
 export const insertMedicalConditionSchema = createInsertSchema(medicalConditions, {
   conditionName: z.string().min(1, 'Condition name is required').max(255),
+  conditionCode: z.string().max(50).optional().refine((code) => !code || isValidConditionCode(code), 'Must be an ICD-10-CM code (e.g. E11.9) or a SNOMED CT concept id'),
   severity: z.enum(['mild', 'moderate', 'severe']).optional(),
   status: z.enum(['active', 'inactive', 'resolved']).optional().default('active'),
   onsetDate: z.string().optional().refine((date) => !date || date === '' || !isNaN(Date.parse(date)), 'Invalid date format'),
@@ -202,6 +364,7 @@ export const insertMedicalConditionSchema = createInsertSchema(medicalConditions
 // Medication Schema
 export const insertMedicationSchema = createInsertSchema(medications, {
   medicationName: z.string().min(1, 'Medication name is required').max(255),
+  rxcui: z.string().regex(/^\d{1,20}$/, 'Invalid RxCUI').nullish(),
   dosage: z.string().max(100).optional(),
   frequency: z.string().max(100).optional(),
   route: z.enum(['oral', 'injection', 'topical', 'inhalation', 'other']).optional(),
@@ -234,6 +397,49 @@ export const insertConsultationSchema = createInsertSchema(pastConsultations, {
   diagnosis: z.string().optional(),
   followUpContacts: z.string().optional(),
   disclaimer: z.string().min(1),
+  vapiCallId: z.string().max(100).optional(),
+  durationSeconds: z.number().int().min(0).optional(),
+  startedAt: z.coerce.date().optional(),
+  endedAt: z.coerce.date().optional(),
+});
+
+export const insertConsultationTranscriptSchema = createInsertSchema(consultationTranscripts, {
+  turnIndex: z.number().int().min(0),
+  role: z.enum(['user', 'assistant']),
+  text: z.string().min(1),
+  offsetMs: z.number().int().min(0),
+});
+
+export const insertConsultationRedFlagSchema = createInsertSchema(consultationRedFlags, {
+  ruleId: z.string().min(1).max(50),
+  category: z.enum(['cardiac', 'stroke', 'mental-health', 'anaphylaxis', 'bleeding']),
+  hotline: z.enum(['911', '988']),
+  matchedText: z.string().min(1),
+  turnIndex: z.number().int().min(0).optional(),
+  offsetMs: z.number().int().min(0).optional(),
+});
+
+// Medication being added or edited, checked for interactions before it is saved
+export const interactionCheckSchema = insertMedicationSchema.pick({
+  medicationName: true,
+  genericName: true,
+  rxcui: true,
+}).extend({
+  // Id of the saved medication being edited, left out of the comparison
+  replacingId: z.string().uuid().optional(),
+});
+
+// OAuth2 dynamic client registration request (RFC 7591 field names)
+export const oauthClientRegistrationSchema = z.object({
+  client_name: z.string().min(1, 'Client name is required').max(100),
+  redirect_uris: z.array(
+    z.string().url('Invalid redirect URI').refine(
+      (uri) => uri.startsWith('https://') || /^http:\/\/(localhost|127\.0\.0\.1)(:\d+)?\//.test(uri),
+      'Redirect URIs must use https (or http on localhost)'
+    )
+  ).min(1, 'At least one redirect URI is required'),
+  scope: z.string().max(1000).optional(),
+  token_endpoint_auth_method: z.enum(['none', 'client_secret_basic', 'client_secret_post']).default('none'),
 });
 
 // Types
@@ -257,3 +463,27 @@ export type NewFamilyHistory = typeof familyHistory.$inferInsert;
 
 export type PastConsultation = typeof pastConsultations.$inferSelect;
 export type NewPastConsultation = typeof pastConsultations.$inferInsert;
+
+export type ConsultationTranscript = typeof consultationTranscripts.$inferSelect;
+export type NewConsultationTranscript = typeof consultationTranscripts.$inferInsert;
+
+export type PastConsultationWithTranscript = PastConsultation & { transcript: ConsultationTranscript[] };
+
+export type ConsultationRedFlag = typeof consultationRedFlags.$inferSelect;
+export type NewConsultationRedFlag = typeof consultationRedFlags.$inferInsert;
+
+export type PastConsultationDetail = PastConsultationWithTranscript & { redFlags: ConsultationRedFlag[] };
+
+export type OAuthClient = typeof oauthClients.$inferSelect;
+export type NewOAuthClient = typeof oauthClients.$inferInsert;
+
+export type OAuthAuthorizationCode = typeof oauthAuthorizationCodes.$inferSelect;
+export type OAuthAccessToken = typeof oauthAccessTokens.$inferSelect;
+
+export type Session = typeof sessions.$inferSelect;
+
+export type MfaRecoveryCode = typeof mfaRecoveryCodes.$inferSelect;
+
+export type Passkey = typeof passkeys.$inferSelect;
+export type EmailToken = typeof emailTokens.$inferSelect;
+export type WebAuthnChallenge = typeof webauthnChallenges.$inferSelect;
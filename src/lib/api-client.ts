@@ -0,0 +1,35 @@
+// Browser fetch for our own API. The session lives in HttpOnly cookies, so nothing here touches a token:
+// when the short-lived access cookie has expired the request is retried once after refreshing the session.
+
+const NO_REFRESH_PATHS = [
+  '/api/auth/login',
+  '/api/auth/refresh',
+  '/api/auth/logout',
+  '/api/auth/webauthn/authenticate',
+  '/api/auth/webauthn/signup',
+];
+
+let refreshing: Promise<boolean> | null = null;
+
+// One refresh at a time, shared by every request that hit the expired access token. A 409 means another tab
+// refreshed the session first and the browser already has its new cookies.
+export function refreshSession(): Promise<boolean> {
+  refreshing ??= fetch('/api/auth/refresh', { method: 'POST', credentials: 'same-origin' })
+    .then(response => response.ok || response.status === 409)
+    .catch(() => false)
+    .finally(() => {
+      refreshing = null;
+    });
+  return refreshing;
+}
+
+export async function apiFetch(url: string, init?: RequestInit): Promise<Response> {
+  const request = () => fetch(url, { credentials: 'same-origin', ...init });
+
+  const response = await request();
+  if (response.status !== 401 || NO_REFRESH_PATHS.some(path => url.startsWith(path))) {
+    return response;
+  }
+
+  return (await refreshSession()) ? request() : response;
+}
@@ -0,0 +1,213 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { sign, verify } from 'jsonwebtoken';
+import { db } from '@/db';
+import { users, sessions, User } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import {
+  ACCESS_COOKIE,
+  ACCESS_TOKEN_TTL_SECONDS,
+  createSession,
+  rotateSession,
+  revokeSession,
+  SessionTokens,
+} from '@/lib/sessions';
+
+// Server-only authentication shared by the API routes: access token signing and verification,
+// sessions, account checks and the withAuth route wrapper
+
+// Credentials and 2FA bookkeeping never leave the server
+export type AuthUser = Omit<User, 'passwordHash' | 'totpSecret' | 'totpLastUsedStep' | 'mfaFailedAttempts' | 'mfaLockedUntil'>;
+
+export interface AuthContext {
+  userId: string;
+  user: AuthUser;
+  // Session the access token was issued for; null for SMART access tokens
+  sessionId: string | null;
+}
+
+export interface AuthFailure {
+  error: string;
+  status: number;
+}
+
+const UNAUTHORIZED: AuthFailure = { error: 'Unauthorized', status: 401 };
+export const EMAIL_NOT_VERIFIED: AuthFailure = { error: 'Email address not verified', status: 403 };
+
+// Every token is signed with NEXTAUTH_SECRET. Without it nothing is issued or accepted, rather than
+// falling back to a guessable default.
+export function getAuthSecret(): string | null {
+  const secret = process.env.NEXTAUTH_SECRET;
+  if (!secret) {
+    console.error('NEXTAUTH_SECRET is not set; refusing to issue or accept tokens');
+    return null;
+  }
+  return secret;
+}
+
+export const isAccountLocked = (user: Pick<User, 'lockedUntil'>, now = new Date()): boolean =>
+  !!user.lockedUntil && user.lockedUntil > now;
+
+// Why an account may not sign in or use its tokens, if anything
+export function accountRestriction(user: Pick<User, 'deletedAt' | 'lockedUntil'>): AuthFailure | null {
+  if (user.deletedAt) {
+    return UNAUTHORIZED;
+  }
+  if (isAccountLocked(user)) {
+    return { error: 'Account is locked', status: 403 };
+  }
+  return null;
+}
+
+// Unverified accounts can sign in, but only reach the endpoints that help them confirm their address
+export const isEmailVerified = (user: Pick<User, 'emailVerifiedAt'>) => !!user.emailVerifiedAt;
+
+export function toAuthUser(user: User): AuthUser {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { passwordHash, totpSecret, totpLastUsedStep, mfaFailedAttempts, mfaLockedUntil, ...authUser } = user;
+  return authUser;
+}
+
+// Load the account a token was issued to; deleted and locked accounts are refused
+export async function loadActiveUser(userId: string): Promise<AuthContext | AuthFailure> {
+  const found = await db.select().from(users).where(eq(users.id, userId)).limit(1);
+  if (found.length === 0) {
+    return UNAUTHORIZED;
+  }
+
+  const restriction = accountRestriction(found[0]);
+  if (restriction) {
+    return restriction;
+  }
+
+  return { userId, user: toAuthUser(found[0]), sessionId: null };
+}
+
+// Short-lived access token for one session; the refresh token in the session cookie renews it
+export function signAccessToken(user: Pick<User, 'id' | 'username'>, sessionId: string): string | null {
+  const secret = getAuthSecret();
+  if (!secret) {
+    return null;
+  }
+
+  return sign({ userId: user.id, username: user.username, sid: sessionId }, secret, { expiresIn: ACCESS_TOKEN_TTL_SECONDS });
+}
+
+export interface IssuedSession {
+  accessToken: string;
+  tokens: SessionTokens;
+}
+
+// Open a session for an account that has just proven who it is
+export async function startSession(user: Pick<User, 'id' | 'username'>, request: NextRequest): Promise<IssuedSession | AuthFailure> {
+  if (!getAuthSecret()) {
+    return { error: 'Authentication is not configured', status: 500 };
+  }
+
+  const tokens = await createSession(user.id, request);
+  return { accessToken: signAccessToken(user, tokens.session.id)!, tokens };
+}
+
+// Rotate the refresh token and issue a new access token, re-checking the account
+export async function refreshSession(refreshToken: string, request: NextRequest): Promise<(IssuedSession & AuthContext) | AuthFailure> {
+  if (!getAuthSecret()) {
+    return { error: 'Authentication is not configured', status: 500 };
+  }
+
+  const tokens = await rotateSession(refreshToken, request);
+  if ('error' in tokens) {
+    return tokens;
+  }
+
+  const account = await loadActiveUser(tokens.session.userId);
+  if ('error' in account) {
+    await revokeSession(tokens.session.id, 'account-restricted');
+    return account;
+  }
+
+  return { ...account, sessionId: tokens.session.id, accessToken: signAccessToken(account.user, tokens.session.id)!, tokens };
+}
+
+// Verify an access token, then check its session is still open and load the account. Signing out revokes the
+// session, so its access tokens stop working immediately. Purpose-bound tokens (e.g. VAPI call tokens) are not access tokens.
+export async function authenticateToken(token: string): Promise<AuthContext | AuthFailure> {
+  const secret = getAuthSecret();
+  if (!secret) {
+    return { error: 'Authentication is not configured', status: 500 };
+  }
+
+  let claims: { userId: string; sid: string };
+  try {
+    const decoded = verify(token, secret) as { userId?: unknown; sid?: unknown; purpose?: unknown };
+    if (typeof decoded.userId !== 'string' || typeof decoded.sid !== 'string' || decoded.purpose !== undefined) {
+      return UNAUTHORIZED;
+    }
+    claims = { userId: decoded.userId, sid: decoded.sid };
+  } catch {
+    return UNAUTHORIZED;
+  }
+
+  const found = await db
+    .select({ session: sessions, user: users })
+    .from(sessions)
+    .innerJoin(users, eq(sessions.userId, users.id))
+    .where(eq(sessions.id, claims.sid))
+    .limit(1);
+
+  if (found.length === 0) {
+    return UNAUTHORIZED;
+  }
+
+  const { session, user } = found[0];
+  if (session.userId !== claims.userId || session.revokedAt || session.expiresAt <= new Date()) {
+    return UNAUTHORIZED;
+  }
+
+  const restriction = accountRestriction(user);
+  if (restriction) {
+    return restriction;
+  }
+
+  return { userId: user.id, user: toAuthUser(user), sessionId: session.id };
+}
+
+// API clients send a bearer token; the web app sends the HttpOnly access cookie
+export const getRequestToken = (request: NextRequest): string | null => {
+  const authHeader = request.headers.get('authorization');
+  if (authHeader?.startsWith('Bearer ')) {
+    return authHeader.substring(7);
+  }
+  return request.cookies.get(ACCESS_COOKIE)?.value || null;
+};
+
+export async function authenticateRequest(request: NextRequest): Promise<AuthContext | AuthFailure> {
+  const token = getRequestToken(request);
+  return token ? authenticateToken(token) : UNAUTHORIZED;
+}
+
+// Wrap a route handler so it only runs for an authenticated, active account with a verified email address:
+//   export const GET = withAuth(async (request, { userId }) => { ... });
+//   export const PUT = withAuth(async (request, { userId }, { params }: { params: Promise<{ id: string }> }) => { ... });
+// Pass { allowUnverified: true } for the few endpoints an account needs before it has confirmed its email.
+export function withAuth<Context = unknown>(
+  handler: (request: NextRequest, auth: AuthContext, context: Context) => Promise<Response>,
+  options: { allowUnverified?: boolean } = {}
+) {
+  return async (request: NextRequest, context: Context): Promise<Response> => {
+    let auth: AuthContext | AuthFailure;
+    try {
+      auth = await authenticateRequest(request);
+    } catch (error) {
+      console.error('Authentication error:', error);
+      return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+
+    if ('error' in auth) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    if (!options.allowUnverified && !isEmailVerified(auth.user)) {
+      return NextResponse.json({ error: EMAIL_NOT_VERIFIED.error }, { status: EMAIL_NOT_VERIFIED.status });
+    }
+
+    return handler(request, auth, context);
+  };
+}
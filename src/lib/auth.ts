@@ -16,22 +16,71 @@ export const loginSchema = z.object({
   password: z.string().min(1, 'Password is required'),
 });
 
-// Registration schema
-export const registerSchema = z.object({
+// Six-digit authenticator code, or a recovery code (dashes and spaces are ignored)
+export const mfaCodeSchema = z.object({
+  code: z.string().trim().min(6, 'Enter the code from your authenticator app').max(20),
+});
+
+export const mfaLoginSchema = mfaCodeSchema.extend({
+  mfaToken: z.string().min(1, 'Sign-in challenge is missing'),
+});
+
+// Account details shared by password and passwordless (passkey) registration
+export const accountDetailsSchema = z.object({
   username: z.string()
     .min(3, 'Username must be at least 3 characters')
     .max(50, 'Username must not exceed 50 characters')
     .regex(/^[a-zA-Z0-9_]+$/, 'Username can only contain letters, numbers, and underscores'),
   email: z.string().email('Invalid email format'),
-  password: passwordSchema,
-  confirmPassword: z.string(),
   firstName: z.string().min(1, 'First name is required').max(100),
   lastName: z.string().min(1, 'Last name is required').max(100),
+});
+
+// Registration schema
+export const registerSchema = accountDetailsSchema.extend({
+  password: passwordSchema,
+  confirmPassword: z.string(),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ["confirmPassword"],
+});
+
+export const forgotPasswordSchema = z.object({
+  email: z.string().email('Invalid email format'),
+});
+
+// Token from an emailed link (password reset, email verification)
+export const emailTokenSchema = z.object({
+  token: z.string().min(1, 'Link is missing its token'),
+});
+
+export const resetPasswordSchema = emailTokenSchema.extend({
+  password: passwordSchema,
+  confirmPassword: z.string(),
 }).refine((data) => data.password === data.confirmPassword, {
   message: "Passwords don't match",
   path: ["confirmPassword"],
 });
 
+// Browser response to a WebAuthn ceremony, answering the challenge the options endpoint issued.
+// @simplewebauthn/server checks the credential itself.
+export const webauthnResponseSchema = z.object({
+  challengeId: z.string().uuid('Invalid challenge'),
+  response: z.object({
+    id: z.string().min(1),
+    rawId: z.string().min(1),
+    type: z.literal('public-key'),
+    response: z.record(z.string(), z.unknown()),
+  }).passthrough(),
+  name: z.string().trim().max(100).optional(),
+});
+
+// Proof of identity before adding a passkey: an authenticator or recovery code when 2FA is on, otherwise the password
+export const reauthenticationSchema = z.object({
+  code: z.string().trim().max(20).optional(),
+  password: z.string().max(128).optional(),
+});
+
 // Hash password with bcrypt
 export async function hashPassword(password: string): Promise<string> {
   const saltRounds = 12; // Strong salt rounds
@@ -51,3 +100,8 @@ export function sanitizeString(input: string): string {
 // Types
 export type LoginInput = z.infer<typeof loginSchema>;
 export type RegisterInput = z.infer<typeof registerSchema>;
+export type AccountDetailsInput = z.infer<typeof accountDetailsSchema>;
+export type ForgotPasswordInput = z.infer<typeof forgotPasswordSchema>;
+export type ResetPasswordInput = z.infer<typeof resetPasswordSchema>;
+export type MfaCodeInput = z.infer<typeof mfaCodeSchema>;
+export type ReauthenticationInput = z.infer<typeof reauthenticationSchema>;
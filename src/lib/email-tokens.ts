@@ -0,0 +1,137 @@
+import { sign, verify } from 'jsonwebtoken';
+import { db } from '@/db';
+import { emailTokens, EmailToken, passwordResetRequests, User } from '@/db/schema';
+import { eq, and, isNull, gt, lt } from 'drizzle-orm';
+import { AuthFailure, getAuthSecret } from '@/lib/auth-server';
+import { getMailTransport, sendMail } from '@/lib/mailer';
+import { passwordResetEmail, verificationEmail } from '@/lib/mailer/templates';
+
+// Server-only single-use links sent by email. The token is a JWT signed with NEXTAUTH_SECRET whose ID names
+// an email_tokens row; following the link marks the row used, and issuing a new link retires older ones.
+
+export type EmailTokenPurpose = 'password-reset' | 'email-verification';
+
+export const EMAIL_TOKEN_TTL_SECONDS: Record<EmailTokenPurpose, number> = {
+  'password-reset': 60 * 60,
+  'email-verification': 24 * 60 * 60,
+};
+
+const INVALID_LINK: AuthFailure = { error: 'This link is invalid or has expired', status: 400 };
+export const EMAIL_NOT_CONFIGURED: AuthFailure = { error: 'Email is not configured', status: 500 };
+export const VERIFICATION_EMAIL_NOT_SENT = 'Account created, but the verification email could not be sent. Ask for a new link from the verification page.';
+export const TOO_MANY_RESET_REQUESTS: AuthFailure = { error: 'Too many password reset requests, please try again later', status: 429 };
+
+// Forgot-password requests allowed per hour for one address, and from one client IP
+export const PASSWORD_RESET_REQUEST_LIMITS = { perEmail: 3, perIp: 10 };
+const PASSWORD_RESET_WINDOW_SECONDS = 60 * 60;
+
+export async function issueEmailToken(user: Pick<User, 'id' | 'email'>, purpose: EmailTokenPurpose): Promise<string | null> {
+  const secret = getAuthSecret();
+  if (!secret) {
+    return null;
+  }
+
+  const now = new Date();
+  const ttl = EMAIL_TOKEN_TTL_SECONDS[purpose];
+
+  // Only the newest link of each kind works
+  await db
+    .update(emailTokens)
+    .set({ usedAt: now })
+    .where(and(eq(emailTokens.userId, user.id), eq(emailTokens.purpose, purpose), isNull(emailTokens.usedAt)));
+
+  const created = await db
+    .insert(emailTokens)
+    .values({ userId: user.id, purpose, email: user.email, expiresAt: new Date(now.getTime() + ttl * 1000) })
+    .returning({ id: emailTokens.id });
+
+  return sign({ userId: user.id, purpose }, secret, { jwtid: created[0].id, expiresIn: ttl });
+}
+
+// Check the signature and expiry, then claim the row so the link cannot be followed twice
+export async function consumeEmailToken(token: string, purpose: EmailTokenPurpose): Promise<EmailToken | AuthFailure> {
+  const secret = getAuthSecret();
+  if (!secret) {
+    return { error: 'Authentication is not configured', status: 500 };
+  }
+
+  let tokenId: string;
+  try {
+    const decoded = verify(token, secret) as { purpose?: unknown; jti?: unknown };
+    if (decoded.purpose !== purpose || typeof decoded.jti !== 'string') {
+      return INVALID_LINK;
+    }
+    tokenId = decoded.jti;
+  } catch {
+    return INVALID_LINK;
+  }
+
+  const now = new Date();
+  const claimed = await db
+    .update(emailTokens)
+    .set({ usedAt: now })
+    .where(and(
+      eq(emailTokens.id, tokenId),
+      eq(emailTokens.purpose, purpose),
+      isNull(emailTokens.usedAt),
+      gt(emailTokens.expiresAt, now)
+    ))
+    .returning();
+
+  return claimed[0] ?? INVALID_LINK;
+}
+
+// Record a forgot-password request, or refuse it once its address or client IP has used up the hour's allowance
+export async function allowPasswordResetRequest(email: string, ipAddress: string | null): Promise<boolean> {
+  const since = new Date(Date.now() - PASSWORD_RESET_WINDOW_SECONDS * 1000);
+  await db.delete(passwordResetRequests).where(lt(passwordResetRequests.createdAt, since));
+
+  const [byEmail, byIp] = await Promise.all([
+    db.$count(passwordResetRequests, eq(passwordResetRequests.email, email)),
+    ipAddress ? db.$count(passwordResetRequests, eq(passwordResetRequests.ipAddress, ipAddress)) : 0,
+  ]);
+  if (byEmail >= PASSWORD_RESET_REQUEST_LIMITS.perEmail || byIp >= PASSWORD_RESET_REQUEST_LIMITS.perIp) {
+    return false;
+  }
+
+  await db.insert(passwordResetRequests).values({ email, ipAddress });
+  return true;
+}
+
+// Links always point at NEXTAUTH_URL. The request's own origin comes from the Host header, which the
+// client controls, so without a configured address nothing is sent.
+export function getAppUrl(): string | null {
+  const url = process.env.NEXTAUTH_URL?.replace(/\/$/, '');
+  if (!url) {
+    console.error('NEXTAUTH_URL is not set; emails with links are not being sent');
+    return null;
+  }
+  return url;
+}
+
+// Whether emailed links can go out at all: checked before anything that depends on one being sent
+export const emailConfigured = () => !!getAppUrl() && !!getMailTransport();
+
+export async function sendVerificationEmail(user: Pick<User, 'id' | 'email' | 'firstName'>): Promise<boolean> {
+  const appUrl = getAppUrl();
+  const token = appUrl && await issueEmailToken(user, 'email-verification');
+  if (!token) {
+    return false;
+  }
+
+  const link = `${appUrl}/auth/verify-email?token=${encodeURIComponent(token)}`;
+  const validHours = EMAIL_TOKEN_TTL_SECONDS['email-verification'] / 3600;
+  return sendMail(verificationEmail(user.email, user.firstName, link, validHours));
+}
+
+export async function sendPasswordResetEmail(user: Pick<User, 'id' | 'email' | 'firstName'>): Promise<boolean> {
+  const appUrl = getAppUrl();
+  const token = appUrl && await issueEmailToken(user, 'password-reset');
+  if (!token) {
+    return false;
+  }
+
+  const link = `${appUrl}/auth/reset-password?token=${encodeURIComponent(token)}`;
+  const validMinutes = EMAIL_TOKEN_TTL_SECONDS['password-reset'] / 60;
+  return sendMail(passwordResetEmail(user.email, user.firstName, link, validMinutes));
+}
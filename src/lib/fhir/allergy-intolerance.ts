@@ -0,0 +1,115 @@
+import { Allergy, NewAllergy } from '@/db/schema';
+import { AllergyIntolerance } from './types';
+import {
+  patientReference,
+  toDateColumn,
+  toFhirDate,
+  codeableText,
+  codeIn,
+  toAnnotations,
+  fromAnnotations,
+  stringExtension,
+  getStringExtension,
+  withExtensions,
+} from './common';
+
+export const US_CORE_ALLERGY_INTOLERANCE_PROFILE = 'http://hl7.org/fhir/us/core/StructureDefinition/us-core-allergyintolerance';
+
+export const ALLERGY_CLINICAL_SYSTEM = 'http://terminology.hl7.org/CodeSystem/allergyintolerance-clinical';
+export const ALLERGY_VERIFICATION_SYSTEM = 'http://terminology.hl7.org/CodeSystem/allergyintolerance-verification';
+
+const categories: Record<string, NonNullable<AllergyIntolerance['category']>[number]> = {
+  food: 'food',
+  medication: 'medication',
+  environmental: 'environment',
+};
+
+// FHIR splits our severity into criticality (risk of future harm) and reaction severity
+const criticality: Record<string, AllergyIntolerance['criticality']> = {
+  mild: 'low',
+  moderate: 'low',
+  severe: 'high',
+  'life-threatening': 'high',
+};
+
+const reactionSeverity: Record<string, 'mild' | 'moderate' | 'severe'> = {
+  mild: 'mild',
+  moderate: 'moderate',
+  severe: 'severe',
+  'life-threatening': 'severe',
+};
+
+export function toFhirAllergyIntolerance(allergy: Allergy): AllergyIntolerance {
+  const verificationStatus = allergy.verificationStatus || 'unconfirmed';
+
+  const resource: AllergyIntolerance = {
+    resourceType: 'AllergyIntolerance',
+    id: allergy.id,
+    meta: {
+      profile: [US_CORE_ALLERGY_INTOLERANCE_PROFILE],
+      lastUpdated: allergy.updatedAt.toISOString(),
+    },
+    clinicalStatus: {
+      coding: [{ system: ALLERGY_CLINICAL_SYSTEM, code: allergy.status || 'active' }],
+    },
+    verificationStatus: {
+      coding: [{ system: ALLERGY_VERIFICATION_SYSTEM, code: verificationStatus }],
+    },
+    code: { text: allergy.allergen },
+    patient: patientReference(allergy.userId),
+    recordedDate: toFhirDate(allergy.createdAt),
+  };
+
+  if (allergy.allergenType && categories[allergy.allergenType]) {
+    resource.category = [categories[allergy.allergenType]];
+  }
+  if (allergy.severity && criticality[allergy.severity]) {
+    resource.criticality = criticality[allergy.severity];
+  }
+  if (allergy.onsetDate) resource.onsetDateTime = allergy.onsetDate;
+
+  if (allergy.reaction) {
+    resource.reaction = [{
+      manifestation: [{ text: allergy.reaction }],
+      ...(allergy.severity && reactionSeverity[allergy.severity] && { severity: reactionSeverity[allergy.severity] }),
+    }];
+  }
+
+  const note = toAnnotations(allergy.notes);
+  if (note) resource.note = note;
+
+  // Keep our exact severity (e.g. life-threatening), which criticality alone cannot express
+  return withExtensions(resource, [
+    ...stringExtension('allergy-severity', allergy.severity),
+    ...(allergy.allergenType === 'other' ? stringExtension('allergen-type', allergy.allergenType) : []),
+  ]);
+}
+
+// Inverse of toFhirAllergyIntolerance; userId is assigned by the caller
+export function fromFhirAllergyIntolerance(resource: AllergyIntolerance): Omit<NewAllergy, 'userId'> {
+  const clinicalStatus = codeIn(resource.clinicalStatus, ALLERGY_CLINICAL_SYSTEM);
+  const verificationStatus = codeIn(resource.verificationStatus, ALLERGY_VERIFICATION_SYSTEM);
+  const category = resource.category?.[0];
+
+  let severity = getStringExtension(resource, 'allergy-severity');
+  if (!severity) {
+    const reaction = resource.reaction?.find(item => item.severity)?.severity;
+    severity = reaction ?? (resource.criticality === 'high' ? 'severe' : resource.criticality === 'low' ? 'mild' : undefined);
+  }
+
+  return {
+    allergen: codeableText(resource.code) || 'Unknown allergen',
+    allergenType: Object.keys(categories).find(type => categories[type] === category)
+      ?? getStringExtension(resource, 'allergen-type')
+      ?? (category ? 'other' : undefined),
+    severity,
+    reaction: resource.reaction
+      ?.flatMap(item => item.manifestation.map(manifestation => codeableText(manifestation)))
+      .filter(Boolean)
+      .join(', ') || undefined,
+    onsetDate: toDateColumn(resource.onsetDateTime),
+    status: clinicalStatus === 'inactive' || clinicalStatus === 'resolved' ? clinicalStatus : 'active',
+    verificationStatus: verificationStatus === 'confirmed' || verificationStatus === 'refuted' ? verificationStatus : 'unconfirmed',
+    notes: fromAnnotations(resource.note),
+  };
+}
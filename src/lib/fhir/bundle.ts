@@ -0,0 +1,60 @@
+import { Bundle, BundleLink, Resource } from './types';
+
+// Absolute URL of a resource on this server, used for Bundle.entry.fullUrl
+export const resourceUrl = (baseUrl: string, resource: Resource) =>
+  `${baseUrl}/api/fhir/${resource.resourceType}/${resource.id}`;
+
+// Unordered set of resources, as returned by Patient/$everything
+export function collectionBundle(baseUrl: string, resources: Resource[]): Bundle {
+  return {
+    resourceType: 'Bundle',
+    type: 'collection',
+    timestamp: new Date().toISOString(),
+    entry: resources.map(resource => ({
+      fullUrl: resourceUrl(baseUrl, resource),
+      resource,
+    })),
+  };
+}
+
+export interface SearchPage {
+  total: number;
+  count: number;
+  offset: number;
+}
+
+// The request URL with _count/_offset set, for the Bundle paging links
+const pageUrl = (requestUrl: URL, count: number, offset: number) => {
+  const url = new URL(requestUrl.toString());
+  url.searchParams.set('_count', String(count));
+  url.searchParams.set('_offset', String(offset));
+  return url.toString();
+};
+
+// Search results; with a page, adds first/previous/next links and the total number of matches
+export function searchsetBundle<T extends Resource>(requestUrl: URL, resources: T[], page?: SearchPage): Bundle<T> {
+  const link: BundleLink[] = [{ relation: 'self', url: requestUrl.toString() }];
+
+  if (page && page.count > 0) {
+    link.push({ relation: 'first', url: pageUrl(requestUrl, page.count, 0) });
+    if (page.offset > 0) {
+      link.push({ relation: 'previous', url: pageUrl(requestUrl, page.count, Math.max(page.offset - page.count, 0)) });
+    }
+    if (page.offset + page.count < page.total) {
+      link.push({ relation: 'next', url: pageUrl(requestUrl, page.count, page.offset + page.count) });
+    }
+  }
+
+  return {
+    resourceType: 'Bundle',
+    type: 'searchset',
+    timestamp: new Date().toISOString(),
+    total: page?.total ?? resources.length,
+    link,
+    entry: resources.map(resource => ({
+      fullUrl: resourceUrl(requestUrl.origin, resource),
+      resource,
+      search: { mode: 'match' },
+    })),
+  };
+}
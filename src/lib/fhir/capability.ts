@@ -0,0 +1,80 @@
+import { CapabilityStatement, CapabilityStatementResource } from './types';
+import { US_CORE_PATIENT_PROFILE } from './patient';
+import { US_CORE_CONDITION_PROFILE } from './condition';
+import { US_CORE_ALLERGY_INTOLERANCE_PROFILE } from './allergy-intolerance';
+import {
+  SearchParameter,
+  COMMON_SEARCH_PARAMETERS,
+  CONDITION_SEARCH_PARAMETERS,
+  ALLERGY_INTOLERANCE_SEARCH_PARAMETERS,
+  MEDICATION_STATEMENT_SEARCH_PARAMETERS,
+} from './search';
+
+const searchParams = (parameters: Omit<SearchParameter, 'toSql'>[]) =>
+  [...parameters, ...COMMON_SEARCH_PARAMETERS].map(({ name, type, documentation }) => ({ name, type, documentation }));
+
+// Readable and searchable resource types, each scoped to the signed-in patient
+const searchableResource = (
+  type: string,
+  parameters: Omit<SearchParameter, 'toSql'>[],
+  supportedProfile?: string
+): CapabilityStatementResource => ({
+  type,
+  ...(supportedProfile && { supportedProfile: [supportedProfile] }),
+  interaction: [{ code: 'read' }, { code: 'search-type' }],
+  searchParam: searchParams(parameters),
+});
+
+// Describes the FHIR API served under /api/fhir; keep in sync with the routes
+export function buildCapabilityStatement(baseUrl: string): CapabilityStatement {
+  return {
+    resourceType: 'CapabilityStatement',
+    status: 'active',
+    date: new Date().toISOString(),
+    publisher: 'TalkWell',
+    kind: 'instance',
+    software: { name: 'TalkWell FHIR API', version: '0.1.0' },
+    implementation: {
+      description: 'TalkWell patient-facing FHIR R4 API',
+      url: `${baseUrl}/api/fhir`,
+    },
+    fhirVersion: '4.0.1',
+    format: ['application/fhir+json', 'json'],
+    rest: [{
+      mode: 'server',
+      documentation: 'All resources are scoped to the authenticated patient; other patients\' resources are reported as not found.',
+      security: {
+        extension: [{
+          url: 'http://fhir-registry.smarthealthit.org/StructureDefinition/oauth-uris',
+          extension: [
+            { url: 'authorize', valueUri: `${baseUrl}/oauth/authorize` },
+            { url: 'token', valueUri: `${baseUrl}/api/oauth/token` },
+            { url: 'introspect', valueUri: `${baseUrl}/api/oauth/introspect` },
+            { url: 'register', valueUri: `${baseUrl}/api/oauth/clients` },
+          ],
+        }],
+        cors: false,
+        service: [{
+          coding: [{ system: 'http://terminology.hl7.org/CodeSystem/restful-security-service', code: 'SMART-on-FHIR' }],
+        }],
+        description: 'Third-party apps use SMART on FHIR (authorization code + PKCE) with patient/<Resource>.read scopes; see .well-known/smart-configuration. Our own frontend uses the bearer token from /api/auth/login.',
+      },
+      resource: [
+        {
+          type: 'Patient',
+          supportedProfile: [US_CORE_PATIENT_PROFILE],
+          interaction: [{ code: 'read' }],
+          operation: [{
+            name: 'everything',
+            definition: 'http://hl7.org/fhir/OperationDefinition/Patient-everything',
+            documentation: 'Returns the whole patient record as a collection Bundle',
+          }],
+        },
+        searchableResource('Condition', CONDITION_SEARCH_PARAMETERS, US_CORE_CONDITION_PROFILE),
+        searchableResource('AllergyIntolerance', ALLERGY_INTOLERANCE_SEARCH_PARAMETERS, US_CORE_ALLERGY_INTOLERANCE_PROFILE),
+        searchableResource('MedicationStatement', MEDICATION_STATEMENT_SEARCH_PARAMETERS),
+        searchableResource('FamilyMemberHistory', []),
+      ],
+    }],
+  };
+}
@@ -0,0 +1,51 @@
+import { Annotation, CodeableConcept, DomainResource, Extension, Reference } from './types';
+
+// Helpers shared by the FHIR resource mappers
+
+// Base URL for our own extensions, used for fields that have no standard FHIR element
+export const TALKWELL_EXTENSION_BASE = 'urn:talkwell:fhir:StructureDefinition';
+
+export const patientReference = (userId: string): Reference => ({ reference: `Patient/${userId}` });
+
+// Resource IDs are the UUIDs of our rows; anything else names no resource
+export const isResourceId = (id: string): boolean =>
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id);
+
+// "Patient/<id>" -> "<id>"
+export const referenceId = (reference: Reference | undefined, resourceType: string): string | null => {
+  const match = reference?.reference?.match(new RegExp(`(?:^|/)${resourceType}/([^/]+)$`));
+  return match ? match[1] : null;
+};
+
+// FHIR date/dateTime -> date column value (YYYY-MM-DD)
+export const toDateColumn = (value: string | undefined): string | undefined =>
+  value && /^\d{4}-\d{2}-\d{2}/.test(value) ? value.slice(0, 10) : undefined;
+
+export const toFhirDate = (value: Date): string => value.toISOString().slice(0, 10);
+
+export const codeableText = (concept: CodeableConcept | undefined): string | undefined =>
+  concept?.text || concept?.coding?.find(coding => coding.display)?.display || concept?.coding?.[0]?.code;
+
+// Code from the first coding in the given system
+export const codeIn = (concept: CodeableConcept | undefined, system: string): string | undefined =>
+  concept?.coding?.find(coding => coding.system === system)?.code;
+
+export const toAnnotations = (...texts: Array<string | null | undefined>): Annotation[] | undefined => {
+  const notes = texts.filter((text): text is string => !!text?.trim()).map(text => ({ text }));
+  return notes.length > 0 ? notes : undefined;
+};
+
+export const fromAnnotations = (notes: Annotation[] | undefined): string | undefined => {
+  const text = notes?.map(note => note.text).filter(Boolean).join('\n\n');
+  return text || undefined;
+};
+
+export const stringExtension = (name: string, value: string | null | undefined): Extension[] =>
+  value ? [{ url: `${TALKWELL_EXTENSION_BASE}/${name}`, valueString: value }] : [];
+
+export const getStringExtension = (resource: DomainResource, name: string): string | undefined =>
+  resource.extension?.find(extension => extension.url === `${TALKWELL_EXTENSION_BASE}/${name}`)?.valueString;
+
+// Drop an empty extension array so resources stay minimal
+export const withExtensions = <T extends DomainResource>(resource: T, extensions: Extension[]): T =>
+  extensions.length > 0 ? { ...resource, extension: extensions } : resource;
@@ -0,0 +1,107 @@
+import { MedicalCondition, NewMedicalCondition } from '@/db/schema';
+import { Condition, Coding } from './types';
+import {
+  patientReference,
+  toDateColumn,
+  toFhirDate,
+  codeableText,
+  codeIn,
+  toAnnotations,
+  fromAnnotations,
+  stringExtension,
+  getStringExtension,
+  withExtensions,
+} from './common';
+import { isIcd10CmCode, isSnomedConceptId } from '@/lib/terminology/codes';
+
+export const US_CORE_CONDITION_PROFILE = 'http://hl7.org/fhir/us/core/StructureDefinition/us-core-condition-problems-health-concerns';
+
+export const CONDITION_CLINICAL_SYSTEM = 'http://terminology.hl7.org/CodeSystem/condition-clinical';
+export const CONDITION_CATEGORY_SYSTEM = 'http://terminology.hl7.org/CodeSystem/condition-category';
+export const ICD10CM_SYSTEM = 'http://hl7.org/fhir/sid/icd-10-cm';
+export const SNOMED_SYSTEM = 'http://snomed.info/sct';
+// Standard extension for the date the condition was first asserted (our diagnosisDate)
+export const CONDITION_ASSERTED_DATE_URL = 'http://hl7.org/fhir/StructureDefinition/condition-assertedDate';
+
+const severityCodes: Record<string, Coding> = {
+  mild: { system: SNOMED_SYSTEM, code: '255604002', display: 'Mild' },
+  moderate: { system: SNOMED_SYSTEM, code: '6736007', display: 'Moderate' },
+  severe: { system: SNOMED_SYSTEM, code: '24484000', display: 'Severe' },
+};
+
+// conditionCode holds either an ICD-10 or a SNOMED code; tell them apart by shape
+export const conditionCoding = (code: string): Coding | null => {
+  const trimmed = code.trim();
+  if (isIcd10CmCode(trimmed)) return { system: ICD10CM_SYSTEM, code: trimmed.toUpperCase() };
+  if (isSnomedConceptId(trimmed)) return { system: SNOMED_SYSTEM, code: trimmed };
+  return null;
+};
+
+export function toFhirCondition(condition: MedicalCondition): Condition {
+  const status = condition.status || 'active';
+  const coding = condition.conditionCode ? conditionCoding(condition.conditionCode) : null;
+
+  const resource: Condition = {
+    resourceType: 'Condition',
+    id: condition.id,
+    meta: {
+      profile: [US_CORE_CONDITION_PROFILE],
+      lastUpdated: condition.updatedAt.toISOString(),
+    },
+    clinicalStatus: {
+      coding: [{ system: CONDITION_CLINICAL_SYSTEM, code: status }],
+    },
+    category: [{
+      coding: [{ system: CONDITION_CATEGORY_SYSTEM, code: 'problem-list-item', display: 'Problem List Item' }],
+    }],
+    code: {
+      ...(coding && { coding: [{ ...coding, display: condition.conditionName }] }),
+      text: condition.conditionName,
+    },
+    subject: patientReference(condition.userId),
+    recordedDate: toFhirDate(condition.createdAt),
+  };
+
+  if (condition.severity && severityCodes[condition.severity]) {
+    resource.severity = { coding: [severityCodes[condition.severity]], text: condition.severity };
+  }
+  if (condition.onsetDate) resource.onsetDateTime = condition.onsetDate;
+  // con-4: an abatement date is only allowed once the condition is no longer active
+  if (condition.resolutionDate && status !== 'active') resource.abatementDateTime = condition.resolutionDate;
+  if (condition.diagnosedBy) resource.asserter = { display: condition.diagnosedBy };
+
+  const note = toAnnotations(condition.notes);
+  if (note) resource.note = note;
+
+  return withExtensions(resource, [
+    ...(condition.diagnosisDate ? [{ url: CONDITION_ASSERTED_DATE_URL, valueDateTime: condition.diagnosisDate }] : []),
+    ...stringExtension('condition-description', condition.description),
+    // Keep the original code when it is neither ICD-10 nor SNOMED shaped
+    ...(!coding ? stringExtension('condition-code', condition.conditionCode) : []),
+  ]);
+}
+
+// Inverse of toFhirCondition; userId is assigned by the caller
+export function fromFhirCondition(resource: Condition): Omit<NewMedicalCondition, 'userId'> {
+  const clinicalStatus = codeIn(resource.clinicalStatus, CONDITION_CLINICAL_SYSTEM);
+  const severityCode = resource.severity?.coding?.find(coding => coding.system === SNOMED_SYSTEM)?.code;
+  const knownCoding = resource.code?.coding?.find(coding => coding.system === ICD10CM_SYSTEM || coding.system === SNOMED_SYSTEM);
+
+  return {
+    conditionName: codeableText(resource.code) || 'Unknown condition',
+    conditionCode: knownCoding?.code ?? getStringExtension(resource, 'condition-code'),
+    severity: Object.keys(severityCodes).find(level => severityCodes[level].code === severityCode)
+      ?? (resource.severity?.text && severityCodes[resource.severity.text.toLowerCase()] ? resource.severity.text.toLowerCase() : undefined),
+    status: clinicalStatus === 'resolved'
+      ? 'resolved'
+      : clinicalStatus === 'inactive' || clinicalStatus === 'remission'
+        ? 'inactive'
+        : 'active',
+    onsetDate: toDateColumn(resource.onsetDateTime),
+    diagnosisDate: toDateColumn(resource.extension?.find(extension => extension.url === CONDITION_ASSERTED_DATE_URL)?.valueDateTime),
+    resolutionDate: toDateColumn(resource.abatementDateTime),
+    description: getStringExtension(resource, 'condition-description'),
+    notes: fromAnnotations(resource.note),
+    diagnosedBy: resource.asserter?.display,
+  };
+}
@@ -0,0 +1,107 @@
+import { PastConsultationWithTranscript } from '@/db/schema';
+import { Encounter, DocumentReference, DocumentReferenceContent } from './types';
+import { patientReference } from './common';
+
+export const ACT_CODE_SYSTEM = 'http://terminology.hl7.org/CodeSystem/v3-ActCode';
+export const LOINC_SYSTEM = 'http://loinc.org';
+export const US_CORE_DOCUMENT_CATEGORY_SYSTEM = 'http://hl7.org/fhir/us/core/CodeSystem/us-core-documentreference-category';
+const UCUM_SYSTEM = 'http://unitsofmeasure.org';
+
+const toBase64 = (text: string) => Buffer.from(text, 'utf-8').toString('base64');
+
+const formatOffset = (offsetMs: number) => {
+  const totalSeconds = Math.floor(offsetMs / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+const consultationPeriod = (consultation: PastConsultationWithTranscript) => ({
+  start: (consultation.startedAt ?? consultation.createdAt).toISOString(),
+  ...(consultation.endedAt && { end: consultation.endedAt.toISOString() }),
+});
+
+// A voice consultation is a finished virtual encounter between the patient and the AI nurse
+export function toFhirEncounter(consultation: PastConsultationWithTranscript): Encounter {
+  const resource: Encounter = {
+    resourceType: 'Encounter',
+    id: consultation.id,
+    status: 'finished',
+    class: { system: ACT_CODE_SYSTEM, code: 'VR', display: 'virtual' },
+    type: [{ text: 'AI nurse voice consultation' }],
+    subject: patientReference(consultation.userId),
+    period: consultationPeriod(consultation),
+  };
+
+  if (consultation.durationSeconds) {
+    resource.length = {
+      value: Math.round(consultation.durationSeconds / 60 * 10) / 10,
+      unit: 'minutes',
+      system: UCUM_SYSTEM,
+      code: 'min',
+    };
+  }
+  if (consultation.symptoms) {
+    resource.reasonCode = [{ text: consultation.symptoms }];
+  }
+
+  return resource;
+}
+
+// The consultation summary (and transcript, when recorded) as a clinical note for the encounter
+export function toFhirDocumentReference(consultation: PastConsultationWithTranscript): DocumentReference {
+  const summary = [
+    `Summary: ${consultation.summary}`,
+    consultation.symptoms && `Symptoms: ${consultation.symptoms}`,
+    consultation.diagnosis && `Assessment: ${consultation.diagnosis}`,
+    consultation.followUpContacts && `Follow-up: ${consultation.followUpContacts}`,
+    `Disclaimer: ${consultation.disclaimer}`,
+  ].filter(Boolean).join('\n\n');
+
+  const content: DocumentReferenceContent[] = [{
+    attachment: {
+      contentType: 'text/plain; charset=utf-8',
+      language: 'en',
+      title: 'Consultation summary',
+      data: toBase64(summary),
+      creation: consultation.createdAt.toISOString(),
+    },
+  }];
+
+  if (consultation.transcript.length > 0) {
+    const transcript = consultation.transcript
+      .map(turn => `[${formatOffset(turn.offsetMs)}] ${turn.role === 'user' ? 'Patient' : 'AI Nurse'}: ${turn.text}`)
+      .join('\n');
+
+    content.push({
+      attachment: {
+        contentType: 'text/plain; charset=utf-8',
+        language: 'en',
+        title: 'Consultation transcript',
+        data: toBase64(transcript),
+      },
+    });
+  }
+
+  return {
+    resourceType: 'DocumentReference',
+    id: consultation.id,
+    status: 'current',
+    docStatus: 'final',
+    type: {
+      coding: [{ system: LOINC_SYSTEM, code: '11488-4', display: 'Consult note' }],
+      text: 'AI nurse consultation summary',
+    },
+    category: [{
+      coding: [{ system: US_CORE_DOCUMENT_CATEGORY_SYSTEM, code: 'clinical-note', display: 'Clinical Note' }],
+    }],
+    subject: patientReference(consultation.userId),
+    date: consultation.createdAt.toISOString(),
+    description: consultation.diagnosis ?? undefined,
+    content,
+    context: {
+      encounter: [{ reference: `Encounter/${consultation.id}` }],
+      period: consultationPeriod(consultation),
+    },
+  };
+}
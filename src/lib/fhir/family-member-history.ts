@@ -0,0 +1,88 @@
+import { FamilyHistory, NewFamilyHistory } from '@/db/schema';
+import { FamilyMemberHistory, FamilyMemberHistoryCondition, Coding } from './types';
+import { patientReference, codeableText, codeIn, toAnnotations, fromAnnotations } from './common';
+
+export const ROLE_CODE_SYSTEM = 'http://terminology.hl7.org/CodeSystem/v3-RoleCode';
+const UCUM_SYSTEM = 'http://unitsofmeasure.org';
+
+// Relationship values used by FamilyHistoryForm -> HL7 v3 RoleCode
+const relationshipCodes: Record<string, Coding> = {
+  mother: { system: ROLE_CODE_SYSTEM, code: 'MTH', display: 'mother' },
+  father: { system: ROLE_CODE_SYSTEM, code: 'FTH', display: 'father' },
+  sister: { system: ROLE_CODE_SYSTEM, code: 'SIS', display: 'sister' },
+  brother: { system: ROLE_CODE_SYSTEM, code: 'BRO', display: 'brother' },
+  'maternal-grandmother': { system: ROLE_CODE_SYSTEM, code: 'MGRMTH', display: 'maternal grandmother' },
+  'maternal-grandfather': { system: ROLE_CODE_SYSTEM, code: 'MGRFTH', display: 'maternal grandfather' },
+  'paternal-grandmother': { system: ROLE_CODE_SYSTEM, code: 'PGRMTH', display: 'paternal grandmother' },
+  'paternal-grandfather': { system: ROLE_CODE_SYSTEM, code: 'PGRFTH', display: 'paternal grandfather' },
+  aunt: { system: ROLE_CODE_SYSTEM, code: 'AUNT', display: 'aunt' },
+  uncle: { system: ROLE_CODE_SYSTEM, code: 'UNCLE', display: 'uncle' },
+  child: { system: ROLE_CODE_SYSTEM, code: 'CHILD', display: 'child' },
+  other: { system: ROLE_CODE_SYSTEM, code: 'FAMMEMB', display: 'family member' },
+};
+
+export function toFhirFamilyMemberHistory(entry: FamilyHistory): FamilyMemberHistory {
+  const conditions: FamilyMemberHistoryCondition[] = [{
+    code: { text: entry.condition },
+    ...(entry.ageOfOnset && { onsetString: entry.ageOfOnset }),
+    ...(entry.causeOfDeath && entry.causeOfDeath.toLowerCase() === entry.condition.toLowerCase() && { contributedToDeath: true }),
+  }];
+
+  // A different cause of death is recorded as its own condition
+  if (entry.causeOfDeath && entry.causeOfDeath.toLowerCase() !== entry.condition.toLowerCase()) {
+    conditions.push({ code: { text: entry.causeOfDeath }, contributedToDeath: true });
+  }
+
+  const resource: FamilyMemberHistory = {
+    resourceType: 'FamilyMemberHistory',
+    id: entry.id,
+    meta: {
+      lastUpdated: entry.updatedAt.toISOString(),
+    },
+    status: 'completed',
+    patient: patientReference(entry.userId),
+    date: entry.updatedAt.toISOString(),
+    relationship: {
+      coding: [relationshipCodes[entry.relationship] ?? relationshipCodes.other],
+      text: entry.relationship,
+    },
+    condition: conditions,
+  };
+
+  if (entry.ageAtDeath) {
+    const age = Number(entry.ageAtDeath);
+    if (Number.isFinite(age)) {
+      resource.deceasedAge = { value: age, unit: 'years', system: UCUM_SYSTEM, code: 'a' };
+    } else {
+      resource.deceasedString = entry.ageAtDeath;
+    }
+  } else if (entry.causeOfDeath) {
+    resource.deceasedBoolean = true;
+  }
+
+  const note = toAnnotations(entry.notes);
+  if (note) resource.note = note;
+
+  return resource;
+}
+
+// Inverse of toFhirFamilyMemberHistory; userId is assigned by the caller
+export function fromFhirFamilyMemberHistory(resource: FamilyMemberHistory): Omit<NewFamilyHistory, 'userId'> {
+  const roleCode = codeIn(resource.relationship, ROLE_CODE_SYSTEM);
+  const relationshipText = resource.relationship.text?.toLowerCase();
+  const relationship = Object.keys(relationshipCodes).find(key => relationshipCodes[key].code === roleCode)
+    ?? (relationshipText && relationshipText in relationshipCodes ? relationshipText : 'other');
+
+  const conditions = resource.condition ?? [];
+  const primary = conditions.find(condition => !condition.contributedToDeath || conditions.length === 1) ?? conditions[0];
+  const causeOfDeath = conditions.find(condition => condition.contributedToDeath);
+
+  return {
+    relationship,
+    condition: codeableText(primary?.code) || 'Unknown condition',
+    ageOfOnset: primary?.onsetString,
+    ageAtDeath: resource.deceasedAge?.value !== undefined ? String(resource.deceasedAge.value) : resource.deceasedString,
+    causeOfDeath: codeableText(causeOfDeath?.code),
+    notes: fromAnnotations(resource.note),
+  };
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { planBundleImport, validateImportBundle } from './import';
+import { Bundle } from './types';
+
+const bundle = (...resources: object[]) => ({
+  resourceType: 'Bundle',
+  type: 'collection',
+  entry: resources.map(resource => ({ resource })),
+});
+
+const nothingStored = { profile: null, conditions: [], allergies: [], medications: [] };
+
+describe('validateImportBundle', () => {
+  it('accepts importable resources and ignores unsupported ones', () => {
+    const upload = bundle(
+      { resourceType: 'Patient', name: [{ family: 'Doe', given: ['Jane'] }], gender: 'female' },
+      { resourceType: 'Condition', code: { text: 'Asthma' }, subject: { reference: 'Patient/1' } },
+      { resourceType: 'Observation', code: 'not checked' }
+    );
+
+    expect(validateImportBundle(upload)).toEqual([]);
+    expect(planBundleImport(upload as Bundle, nothingStored).ignored).toEqual({ Observation: 1 });
+  });
+
+  it('rejects anything but a Bundle', () => {
+    expect(validateImportBundle(null)).toEqual([{ path: ['bundle'], message: 'Expected a FHIR R4 Bundle resource' }]);
+    expect(validateImportBundle({ resourceType: 'Patient' })).toEqual([
+      { path: ['bundle', 'resourceType'], message: 'Expected a FHIR R4 Bundle resource' },
+    ]);
+  });
+
+  it('reports malformed entries by where they are instead of passing them to the mappers', () => {
+    const issues = validateImportBundle(bundle(
+      { resourceType: 'Condition', code: 'Asthma' },
+      { resourceType: 'Patient', name: { family: 'Doe' } },
+      { resourceType: 'AllergyIntolerance', reaction: [{ severity: 'mild' }] }
+    ));
+
+    expect(issues.map(issue => issue.path)).toEqual([
+      ['bundle', 'entry', 0, 'resource', 'code'],
+      ['bundle', 'entry', 1, 'resource', 'name'],
+      ['bundle', 'entry', 2, 'resource', 'reaction', 0, 'manifestation'],
+    ]);
+  });
+
+  it('rejects more than one Patient', () => {
+    expect(validateImportBundle(bundle({ resourceType: 'Patient' }, { resourceType: 'Patient' }))).toEqual([
+      { path: ['bundle', 'entry'], message: 'Bundle contains more than one Patient' },
+    ]);
+  });
+});
@@ -0,0 +1,312 @@
+import {
+  PatientProfile,
+  MedicalCondition,
+  Allergy,
+  Medication,
+  NewPatientProfile,
+  NewMedicalCondition,
+  NewAllergy,
+  NewMedication,
+  insertPatientProfileSchema,
+  insertMedicalConditionSchema,
+  insertAllergySchema,
+  insertMedicationSchema,
+} from '@/db/schema';
+import { z } from 'zod';
+import { Bundle, Patient, Condition, AllergyIntolerance, MedicationStatement, Resource } from './types';
+import { fromFhirPatient } from './patient';
+import { fromFhirCondition } from './condition';
+import { fromFhirAllergyIntolerance } from './allergy-intolerance';
+import { fromFhirMedicationStatement } from './medication-statement';
+
+// Builds the preview of a FHIR Bundle import. The same plan is shown to the patient
+// and then written by /api/patient/import, so nothing here touches the database.
+
+export type ProfileImport = Omit<NewPatientProfile, 'userId'>;
+export type ConditionImport = Omit<NewMedicalCondition, 'userId'>;
+export type AllergyImport = Omit<NewAllergy, 'userId'>;
+export type MedicationImport = Omit<NewMedication, 'userId'>;
+
+export type ImportAction = 'create' | 'merge' | 'skip';
+
+export interface ImportFieldChange {
+  field: string;
+  current: string | null;
+  incoming: string;
+}
+
+export interface ImportItem<T> {
+  action: ImportAction;
+  label: string;
+  // create: the full record; merge: only the empty fields being filled in
+  record: T;
+  existingId?: string;
+  changes: ImportFieldChange[];
+  // Fields where the existing value differs; the existing value is kept
+  conflicts: ImportFieldChange[];
+  reason?: string;
+}
+
+export interface ImportPlan {
+  profile: ImportItem<ProfileImport> | null;
+  conditions: ImportItem<ConditionImport>[];
+  allergies: ImportItem<AllergyImport>[];
+  medications: ImportItem<MedicationImport>[];
+  // Resource types in the bundle that are not imported, with counts
+  ignored: Record<string, number>;
+}
+
+export interface ExistingRecords {
+  profile: PatientProfile | null;
+  conditions: MedicalCondition[];
+  allergies: Allergy[];
+  medications: Medication[];
+}
+
+const normalize = (value: string | null | undefined) => (value ?? '').trim().toLowerCase().replace(/\s+/g, ' ');
+
+const isEmpty = (value: unknown) => value === undefined || value === null || value === '';
+
+// Fields that only exist on stored rows and never come from an import
+const SYSTEM_FIELDS = ['id', 'userId', 'createdAt', 'updatedAt'];
+
+function diffRecord<T extends object>(existing: object | null, incoming: T) {
+  const current = (existing ?? {}) as Record<string, unknown>;
+  const fill: Record<string, unknown> = {};
+  const changes: ImportFieldChange[] = [];
+  const conflicts: ImportFieldChange[] = [];
+
+  for (const [field, value] of Object.entries(incoming)) {
+    if (isEmpty(value) || SYSTEM_FIELDS.includes(field)) continue;
+
+    const change = { field, current: isEmpty(current[field]) ? null : String(current[field]), incoming: String(value) };
+    if (change.current === null) {
+      fill[field] = value;
+      changes.push(change);
+    } else if (normalize(change.current) !== normalize(change.incoming)) {
+      conflicts.push(change);
+    }
+  }
+
+  return { fill: fill as Partial<T>, changes, conflicts };
+}
+
+// Match each incoming record to an existing row (or an earlier entry of the same bundle)
+function planItems<T extends object, E extends { id: string }>(
+  incoming: T[],
+  existing: E[],
+  keys: (record: T | E) => string[],
+  label: (record: T) => string
+): ImportItem<T>[] {
+  const seen = new Set<string>();
+
+  return incoming.map(record => {
+    const recordKeys = keys(record).filter(Boolean);
+
+    if (recordKeys.some(key => seen.has(key))) {
+      return { action: 'skip', label: label(record), record, changes: [], conflicts: [], reason: 'Duplicate entry in the bundle' };
+    }
+    recordKeys.forEach(key => seen.add(key));
+
+    const match = existing.find(row => keys(row).some(key => key && recordKeys.includes(key)));
+    const { fill, changes, conflicts } = diffRecord(match ?? null, record);
+
+    if (!match) {
+      return { action: 'create', label: label(record), record, changes, conflicts };
+    }
+    if (changes.length === 0) {
+      return {
+        action: 'skip',
+        label: label(record),
+        record: fill as T,
+        existingId: match.id,
+        changes,
+        conflicts,
+        reason: 'Already in your history',
+      };
+    }
+    return { action: 'merge', label: label(record), record: fill as T, existingId: match.id, changes, conflicts };
+  });
+}
+
+// Run the same Zod validation as the patient history forms; invalid entries are skipped, not written
+function validateItem<T>(item: ImportItem<T>, schema: z.ZodObject): ImportItem<T> {
+  if (item.action === 'skip') {
+    return item;
+  }
+
+  const validationSchema = item.action === 'merge' ? schema.omit({ userId: true }).partial() : schema.omit({ userId: true });
+  const result = validationSchema.safeParse(item.record);
+  if (result.success) {
+    return item;
+  }
+
+  const problems = result.error.issues.map(issue => `${issue.path.map(String).join('.')}: ${issue.message}`);
+  return { ...item, action: 'skip', reason: `Invalid data (${problems.join('; ')})` };
+}
+
+const resourcesOfType = <T extends Resource>(bundle: Bundle, resourceType: T['resourceType']) =>
+  (bundle.entry ?? [])
+    .map(entry => entry.resource)
+    .filter((resource): resource is T => resource?.resourceType === resourceType);
+
+// The elements of each imported resource that the fromFhir* mappers read, so a malformed entry is reported
+// instead of failing inside a mapper. Other elements are left alone.
+const coding = z.looseObject({ system: z.string().optional(), code: z.string().optional(), display: z.string().optional() });
+const codeableConcept = z.looseObject({ coding: z.array(coding).optional(), text: z.string().optional() });
+const extension = z.looseObject({ url: z.string(), valueString: z.string().optional(), valueDateTime: z.string().optional() });
+const reference = z.looseObject({ reference: z.string().optional(), display: z.string().optional() });
+const annotation = z.looseObject({ text: z.string() });
+const humanName = z.looseObject({ text: z.string().optional(), family: z.string().optional(), given: z.array(z.string()).optional() });
+const contactPoint = z.looseObject({
+  system: z.string().optional(),
+  value: z.string().optional(),
+  use: z.string().optional(),
+  rank: z.number().optional(),
+});
+
+const domainResource = { extension: z.array(extension).optional(), note: z.array(annotation).optional() };
+
+const importResourceSchemas: Record<string, z.ZodType> = {
+  Patient: z.looseObject({
+    extension: domainResource.extension,
+    identifier: z.array(z.looseObject({ type: codeableConcept.optional(), system: z.string().optional(), value: z.string().optional() })).optional(),
+    name: z.array(humanName).optional(),
+    telecom: z.array(contactPoint).optional(),
+    gender: z.string().optional(),
+    birthDate: z.string().optional(),
+    address: z.array(z.looseObject({
+      use: z.string().optional(),
+      line: z.array(z.string()).optional(),
+      city: z.string().optional(),
+      state: z.string().optional(),
+      postalCode: z.string().optional(),
+      country: z.string().optional(),
+    })).optional(),
+    contact: z.array(z.looseObject({
+      relationship: z.array(codeableConcept).optional(),
+      name: humanName.optional(),
+      telecom: z.array(contactPoint).optional(),
+    })).optional(),
+    communication: z.array(z.looseObject({ language: codeableConcept, preferred: z.boolean().optional() })).optional(),
+  }),
+  Condition: z.looseObject({
+    ...domainResource,
+    clinicalStatus: codeableConcept.optional(),
+    severity: codeableConcept.optional(),
+    code: codeableConcept.optional(),
+    onsetDateTime: z.string().optional(),
+    abatementDateTime: z.string().optional(),
+    asserter: reference.optional(),
+  }),
+  AllergyIntolerance: z.looseObject({
+    ...domainResource,
+    clinicalStatus: codeableConcept.optional(),
+    verificationStatus: codeableConcept.optional(),
+    category: z.array(z.string()).optional(),
+    criticality: z.string().optional(),
+    code: codeableConcept.optional(),
+    onsetDateTime: z.string().optional(),
+    reaction: z.array(z.looseObject({ manifestation: z.array(codeableConcept), severity: z.string().optional() })).optional(),
+  }),
+  MedicationStatement: z.looseObject({
+    ...domainResource,
+    status: z.string().optional(),
+    medicationCodeableConcept: codeableConcept.optional(),
+    effectivePeriod: z.looseObject({ start: z.string().optional(), end: z.string().optional() }).optional(),
+    reasonCode: z.array(codeableConcept).optional(),
+    dosage: z.array(z.looseObject({
+      text: z.string().optional(),
+      timing: z.looseObject({ code: codeableConcept.optional() }).optional(),
+      route: codeableConcept.optional(),
+    })).optional(),
+  }),
+};
+
+const importBundleSchema = z.looseObject({
+  resourceType: z.literal('Bundle', { error: 'Expected a FHIR R4 Bundle resource' }),
+  entry: z.array(z.looseObject({ resource: z.looseObject({ resourceType: z.string() }).optional() })).optional(),
+}, { error: 'Expected a FHIR R4 Bundle resource' });
+
+export interface ImportIssue {
+  path: PropertyKey[];
+  message: string;
+}
+
+// Returns the problems that keep the upload from being imported (none when it can be planned), with paths
+// from the request body such as bundle.entry.2.resource.code
+export function validateImportBundle(input: unknown): ImportIssue[] {
+  const toIssues = (error: z.ZodError, path: PropertyKey[]) =>
+    error.issues.map(issue => ({ path: [...path, ...issue.path], message: issue.message }));
+
+  const envelope = importBundleSchema.safeParse(input);
+  if (!envelope.success) {
+    return toIssues(envelope.error, ['bundle']);
+  }
+
+  const issues: ImportIssue[] = [];
+  (envelope.data.entry ?? []).forEach((entry, index) => {
+    const schema = entry.resource && importResourceSchemas[entry.resource.resourceType];
+    const result = schema?.safeParse(entry.resource);
+    if (result && !result.success) {
+      issues.push(...toIssues(result.error, ['bundle', 'entry', index, 'resource']));
+    }
+  });
+
+  if (resourcesOfType<Patient>(input as Bundle, 'Patient').length > 1) {
+    issues.push({ path: ['bundle', 'entry'], message: 'Bundle contains more than one Patient' });
+  }
+  return issues;
+}
+
+export function planBundleImport(bundle: Bundle, existing: ExistingRecords): ImportPlan {
+  const patients = resourcesOfType<Patient>(bundle, 'Patient');
+
+  const ignored: Record<string, number> = {};
+  for (const entry of bundle.entry ?? []) {
+    const resourceType = entry.resource?.resourceType ?? 'unknown';
+    if (!['Patient', 'Condition', 'AllergyIntolerance', 'MedicationStatement'].includes(resourceType)) {
+      ignored[resourceType] = (ignored[resourceType] ?? 0) + 1;
+    }
+  }
+
+  let profile: ImportItem<ProfileImport> | null = null;
+  if (patients.length === 1) {
+    const record = fromFhirPatient(patients[0]);
+    const { fill, changes, conflicts } = diffRecord(existing.profile, record);
+    profile = !existing.profile
+      ? { action: 'create', label: 'Patient profile', record, changes, conflicts }
+      : {
+          action: changes.length > 0 ? 'merge' : 'skip',
+          label: 'Patient profile',
+          record: fill,
+          existingId: existing.profile.id,
+          changes,
+          conflicts,
+          ...(changes.length === 0 && { reason: 'Nothing new to add' }),
+        };
+  }
+
+  return {
+    profile: profile && validateItem(profile, insertPatientProfileSchema),
+    conditions: planItems(
+      resourcesOfType<Condition>(bundle, 'Condition').map(fromFhirCondition),
+      existing.conditions,
+      record => [normalize(record.conditionName), normalize(record.conditionCode)],
+      record => record.conditionName
+    ).map(item => validateItem(item, insertMedicalConditionSchema)),
+    allergies: planItems(
+      resourcesOfType<AllergyIntolerance>(bundle, 'AllergyIntolerance').map(fromFhirAllergyIntolerance),
+      existing.allergies,
+      record => [normalize(record.allergen)],
+      record => record.allergen
+    ).map(item => validateItem(item, insertAllergySchema)),
+    medications: planItems(
+      resourcesOfType<MedicationStatement>(bundle, 'MedicationStatement').map(fromFhirMedicationStatement),
+      existing.medications,
+      record => [normalize(record.medicationName), normalize(record.genericName)],
+      record => record.medicationName
+    ).map(item => validateItem(item, insertMedicationSchema)),
+    ignored,
+  };
+}
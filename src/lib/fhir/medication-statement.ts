@@ -0,0 +1,104 @@
+import { Medication, NewMedication } from '@/db/schema';
+import { MedicationStatement, Coding } from './types';
+import {
+  patientReference,
+  toDateColumn,
+  codeableText,
+  toAnnotations,
+  fromAnnotations,
+  stringExtension,
+  getStringExtension,
+  withExtensions,
+} from './common';
+import { SNOMED_SYSTEM } from './condition';
+
+export const RXNORM_SYSTEM = 'http://www.nlm.nih.gov/research/umls/rxnorm';
+
+const statuses: Record<string, MedicationStatement['status']> = {
+  active: 'active',
+  inactive: 'completed',
+  discontinued: 'stopped',
+};
+
+const routeCodes: Record<string, Coding> = {
+  oral: { system: SNOMED_SYSTEM, code: '26643006', display: 'Oral route' },
+  injection: { system: SNOMED_SYSTEM, code: '129326001', display: 'Injection' },
+  topical: { system: SNOMED_SYSTEM, code: '6064005', display: 'Topical route' },
+  inhalation: { system: SNOMED_SYSTEM, code: '447694001', display: 'Respiratory tract route' },
+};
+
+export function toFhirMedicationStatement(medication: Medication): MedicationStatement {
+  const resource: MedicationStatement = {
+    resourceType: 'MedicationStatement',
+    id: medication.id,
+    meta: {
+      lastUpdated: medication.updatedAt.toISOString(),
+    },
+    status: statuses[medication.status || 'active'] ?? 'unknown',
+    medicationCodeableConcept: {
+      ...(medication.rxcui && { coding: [{ system: RXNORM_SYSTEM, code: medication.rxcui, display: medication.genericName || undefined }] }),
+      text: medication.medicationName,
+    },
+    subject: patientReference(medication.userId),
+    dateAsserted: medication.createdAt.toISOString(),
+  };
+
+  if (medication.startDate || medication.endDate) {
+    resource.effectivePeriod = {
+      ...(medication.startDate && { start: medication.startDate }),
+      ...(medication.endDate && { end: medication.endDate }),
+    };
+  }
+
+  if (medication.purpose) {
+    resource.reasonCode = [{ text: medication.purpose }];
+  }
+
+  if (medication.dosage || medication.frequency || medication.route) {
+    resource.dosage = [{
+      ...(medication.dosage && { text: medication.dosage }),
+      ...(medication.frequency && { timing: { code: { text: medication.frequency } } }),
+      ...(medication.route && {
+        route: {
+          ...(routeCodes[medication.route] && { coding: [routeCodes[medication.route]] }),
+          text: medication.route,
+        },
+      }),
+    }];
+  }
+
+  const note = toAnnotations(medication.notes);
+  if (note) resource.note = note;
+
+  return withExtensions(resource, [
+    ...stringExtension('generic-name', medication.genericName),
+    ...stringExtension('prescribed-by', medication.prescribedBy),
+  ]);
+}
+
+// Inverse of toFhirMedicationStatement; userId is assigned by the caller
+export function fromFhirMedicationStatement(resource: MedicationStatement): Omit<NewMedication, 'userId'> {
+  const dosage = resource.dosage?.[0];
+  const routeCode = dosage?.route?.coding?.find(coding => coding.system === SNOMED_SYSTEM)?.code;
+  const routeText = dosage?.route?.text?.toLowerCase();
+
+  return {
+    medicationName: codeableText(resource.medicationCodeableConcept) || 'Unknown medication',
+    genericName: getStringExtension(resource, 'generic-name'),
+    rxcui: resource.medicationCodeableConcept?.coding?.find(coding => coding.system === RXNORM_SYSTEM)?.code,
+    dosage: dosage?.text,
+    frequency: codeableText(dosage?.timing?.code),
+    route: Object.keys(routeCodes).find(route => routeCodes[route].code === routeCode)
+      ?? (routeText && routeText in routeCodes ? routeText : dosage?.route ? 'other' : undefined),
+    startDate: toDateColumn(resource.effectivePeriod?.start),
+    endDate: toDateColumn(resource.effectivePeriod?.end),
+    status: resource.status === 'active' || resource.status === 'intended'
+      ? 'active'
+      : resource.status === 'stopped'
+        ? 'discontinued'
+        : 'inactive',
+    prescribedBy: getStringExtension(resource, 'prescribed-by'),
+    purpose: resource.reasonCode?.map(reason => codeableText(reason)).filter(Boolean).join(', ') || undefined,
+    notes: fromAnnotations(resource.note),
+  };
+}
@@ -0,0 +1,224 @@
+import { User, PatientProfile, NewPatientProfile } from '@/db/schema';
+import { Patient, ContactPoint, HumanName, Identifier, PatientCommunication } from './types';
+
+export const US_CORE_PATIENT_PROFILE = 'http://hl7.org/fhir/us/core/StructureDefinition/us-core-patient';
+
+// Identifier system for medicalRecordNumber; set FHIR_MRN_SYSTEM to the issuing organization's URI
+export const MRN_IDENTIFIER_SYSTEM = process.env.FHIR_MRN_SYSTEM || 'urn:talkwell:mrn';
+
+export const DATA_ABSENT_REASON_URL = 'http://hl7.org/fhir/StructureDefinition/data-absent-reason';
+
+// Profile language names (free text) to BCP-47 codes
+const languageCodes: Record<string, string> = {
+  english: 'en',
+  spanish: 'es',
+  chinese: 'zh',
+  mandarin: 'zh',
+  cantonese: 'yue',
+  french: 'fr',
+  german: 'de',
+  italian: 'it',
+  portuguese: 'pt',
+  russian: 'ru',
+  arabic: 'ar',
+  hindi: 'hi',
+  bengali: 'bn',
+  urdu: 'ur',
+  vietnamese: 'vi',
+  tagalog: 'tl',
+  korean: 'ko',
+  japanese: 'ja',
+  polish: 'pl',
+  haitian: 'ht',
+  'haitian creole': 'ht',
+  persian: 'fa',
+  farsi: 'fa',
+};
+
+const countryCodes: Record<string, string> = {
+  'united states': 'US',
+  'united states of america': 'US',
+  usa: 'US',
+  us: 'US',
+  canada: 'CA',
+  mexico: 'MX',
+};
+
+const countryNames: Record<string, string> = {
+  US: 'United States',
+  CA: 'Canada',
+  MX: 'Mexico',
+};
+
+export const toFhirLanguage = (language: string): PatientCommunication['language'] => {
+  const code = languageCodes[language.trim().toLowerCase()];
+  return code
+    ? { coding: [{ system: 'urn:ietf:bcp:47', code, display: language.trim() }], text: language.trim() }
+    : { text: language.trim() };
+};
+
+const buildName = (user: User): HumanName => {
+  if (!user.firstName && !user.lastName) {
+    // US Core requires a family or given name, or a data-absent-reason
+    return {
+      use: 'usual',
+      text: user.username,
+      extension: [{ url: DATA_ABSENT_REASON_URL, valueCode: 'unknown' }],
+    };
+  }
+
+  const name: HumanName = { use: 'official' };
+  if (user.lastName) name.family = user.lastName;
+  if (user.firstName) name.given = [user.firstName];
+  name.text = [user.firstName, user.lastName].filter(Boolean).join(' ');
+  return name;
+};
+
+const buildIdentifiers = (user: User, profile: PatientProfile | null): Identifier[] => {
+  const identifiers: Identifier[] = [];
+
+  if (profile?.medicalRecordNumber) {
+    identifiers.push({
+      use: 'usual',
+      type: {
+        coding: [{ system: 'http://terminology.hl7.org/CodeSystem/v2-0203', code: 'MR', display: 'Medical record number' }],
+        text: 'Medical record number',
+      },
+      system: MRN_IDENTIFIER_SYSTEM,
+      value: profile.medicalRecordNumber,
+    });
+  }
+
+  // Always include our own patient ID so the resource has at least one identifier
+  identifiers.push({
+    use: 'secondary',
+    system: 'urn:ietf:rfc:3986',
+    value: `urn:uuid:${user.id}`,
+  });
+
+  return identifiers;
+};
+
+const buildTelecom = (user: User, profile: PatientProfile | null): ContactPoint[] => {
+  const preference = profile?.communicationPreference || 'email';
+  const telecom: ContactPoint[] = [];
+
+  if (profile?.phoneNumber) {
+    telecom.push({
+      system: preference === 'sms' ? 'sms' : 'phone',
+      value: profile.phoneNumber,
+      use: 'mobile',
+      rank: preference === 'email' ? 2 : 1,
+    });
+  }
+
+  if (profile?.alternatePhone) {
+    telecom.push({ system: 'phone', value: profile.alternatePhone, use: 'home', rank: 3 });
+  }
+
+  telecom.push({ system: 'email', value: user.email, use: 'home', rank: preference === 'email' ? 1 : 2 });
+
+  return telecom.sort((a, b) => (a.rank ?? 0) - (b.rank ?? 0));
+};
+
+// Map a user and their profile to a US Core Patient resource. The Patient ID is the user ID.
+export function toFhirPatient(user: User, profile: PatientProfile | null): Patient {
+  const patient: Patient = {
+    resourceType: 'Patient',
+    id: user.id,
+    meta: {
+      profile: [US_CORE_PATIENT_PROFILE],
+      lastUpdated: (profile?.updatedAt ?? user.updatedAt).toISOString(),
+    },
+    identifier: buildIdentifiers(user, profile),
+    active: true,
+    name: [buildName(user)],
+    telecom: buildTelecom(user, profile),
+    gender: (['male', 'female', 'other', 'unknown'] as const).find(gender => gender === profile?.gender) ?? 'unknown',
+  };
+
+  if (profile?.dateOfBirth) {
+    patient.birthDate = profile.dateOfBirth;
+  }
+
+  if (profile && (profile.streetAddress || profile.city || profile.state || profile.zipCode)) {
+    patient.address = [{
+      use: 'home',
+      type: 'physical',
+      ...(profile.streetAddress && { line: [profile.streetAddress] }),
+      ...(profile.city && { city: profile.city }),
+      ...(profile.state && { state: profile.state }),
+      ...(profile.zipCode && { postalCode: profile.zipCode }),
+      ...(profile.country && { country: countryCodes[profile.country.trim().toLowerCase()] ?? profile.country }),
+    }];
+  }
+
+  if (profile?.emergencyContactName || profile?.emergencyContactPhone) {
+    patient.contact = [{
+      relationship: [
+        {
+          coding: [{ system: 'http://terminology.hl7.org/CodeSystem/v2-0131', code: 'C', display: 'Emergency Contact' }],
+          text: 'Emergency Contact',
+        },
+        ...(profile.emergencyContactRelationship ? [{ text: profile.emergencyContactRelationship }] : []),
+      ],
+      ...(profile.emergencyContactName && { name: { text: profile.emergencyContactName } }),
+      ...(profile.emergencyContactPhone && {
+        telecom: [{ system: 'phone' as const, value: profile.emergencyContactPhone }],
+      }),
+    }];
+  }
+
+  if (profile?.preferredLanguage) {
+    patient.communication = [{ language: toFhirLanguage(profile.preferredLanguage), preferred: true }];
+  }
+
+  return patient;
+}
+
+// FHIR phone numbers are free text; the profile only accepts digits with an optional leading +
+const toPhoneColumn = (value: string | undefined): string | undefined => {
+  if (!value) return undefined;
+  const digits = value.replace(/[^\d+]/g, '').replace(/(?!^)\+/g, '');
+  return digits || undefined;
+};
+
+// Inverse of toFhirPatient for the profile fields; names and email stay on the user account
+export function fromFhirPatient(patient: Patient): Omit<NewPatientProfile, 'userId'> {
+  const address = patient.address?.find(item => item.use === 'home') ?? patient.address?.[0];
+  const phones = (patient.telecom ?? [])
+    .filter(point => (point.system === 'phone' || point.system === 'sms') && point.value && point.use !== 'old')
+    .sort((a, b) => (a.rank ?? Infinity) - (b.rank ?? Infinity));
+  const emergencyContact = patient.contact?.find(contact =>
+    contact.relationship?.some(relationship => relationship.coding?.some(coding => coding.code === 'C'))
+  ) ?? patient.contact?.[0];
+  const mrn = patient.identifier?.find(identifier =>
+    identifier.type?.coding?.some(coding => coding.code === 'MR') || identifier.system === MRN_IDENTIFIER_SYSTEM
+  );
+  const language = patient.communication?.find(item => item.preferred) ?? patient.communication?.[0];
+  const languageCode = language?.language.coding?.find(coding => coding.system === 'urn:ietf:bcp:47')?.code;
+  const country = address?.country?.trim();
+
+  return {
+    dateOfBirth: patient.birthDate?.length === 10 ? patient.birthDate : undefined,
+    gender: patient.gender,
+    phoneNumber: toPhoneColumn(phones[0]?.value),
+    alternatePhone: toPhoneColumn(phones[1]?.value),
+    streetAddress: address?.line?.join(', ') || undefined,
+    city: address?.city,
+    state: address?.state,
+    zipCode: address?.postalCode,
+    country: country ? countryNames[country.toUpperCase()] ?? country : undefined,
+    emergencyContactName: emergencyContact?.name?.text
+      || [...(emergencyContact?.name?.given ?? []), emergencyContact?.name?.family].filter(Boolean).join(' ')
+      || undefined,
+    emergencyContactPhone: toPhoneColumn(emergencyContact?.telecom?.find(point => point.system === 'phone')?.value),
+    emergencyContactRelationship: emergencyContact?.relationship
+      ?.find(relationship => !relationship.coding?.some(coding => coding.code === 'C'))?.text,
+    medicalRecordNumber: mrn?.value,
+    preferredLanguage: language
+      ? (languageCode && Object.keys(languageCodes).find(name => languageCodes[name] === languageCode)
+          ?.replace(/\b\w/g, letter => letter.toUpperCase())) || language.language.text
+      : undefined,
+  };
+}
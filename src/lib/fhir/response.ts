@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { Resource, OperationOutcome, OperationOutcomeIssue } from './types';
+
+export const FHIR_CONTENT_TYPE = 'application/fhir+json';
+
+export function fhirResponse(resource: Resource, status = 200) {
+  return NextResponse.json(resource, {
+    status,
+    headers: { 'Content-Type': FHIR_CONTENT_TYPE },
+  });
+}
+
+// FHIR errors are returned as OperationOutcome resources rather than { error }
+export function operationOutcome(
+  status: number,
+  code: string,
+  diagnostics: string,
+  issues: OperationOutcomeIssue[] = []
+) {
+  const outcome: OperationOutcome = {
+    resourceType: 'OperationOutcome',
+    issue: [{ severity: 'error', code, diagnostics }, ...issues],
+  };
+  return fhirResponse(outcome, status);
+}
@@ -0,0 +1,16 @@
+import { describe, expect, it } from 'vitest';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import { CONDITION_SEARCH_PARAMETERS } from './search';
+
+const dialect = new PgDialect();
+const code = CONDITION_SEARCH_PARAMETERS.find(parameter => parameter.name === 'code')!;
+
+describe('code:text search', () => {
+  it('matches the condition name anywhere', () => {
+    expect(dialect.sqlToQuery(code.toSql('asthma', 'text')!).params).toEqual(['%asthma%']);
+  });
+
+  it('treats LIKE wildcards in the search text literally', () => {
+    expect(dialect.sqlToQuery(code.toSql('100%_\\x', 'text')!).params).toEqual(['%100\\%\\_\\\\x%']);
+  });
+});
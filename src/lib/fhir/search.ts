@@ -0,0 +1,193 @@
+import { SQL, and, or, gte, lt, inArray, isNull, ilike, sql } from 'drizzle-orm';
+import { medicalConditions, allergies, medications } from '@/db/schema';
+import { CONDITION_CLINICAL_SYSTEM, ICD10CM_SYSTEM, SNOMED_SYSTEM } from './condition';
+
+// FHIR search parameters supported by the list endpoints, translated to drizzle conditions.
+// The same definitions drive the CapabilityStatement served at /api/fhir/metadata.
+
+export interface SearchParameter {
+  name: string;
+  type: 'token' | 'date' | 'reference' | 'number';
+  documentation: string;
+  // Returns undefined when the value cannot be parsed
+  toSql: (value: string, modifier?: string) => SQL | undefined;
+}
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 100;
+
+// Search parameters that are not filters on a column
+const RESULT_PARAMETERS = ['_count', '_offset', 'patient'];
+
+// "system|code", "|code" or "code"
+const parseToken = (value: string) => {
+  const separator = value.indexOf('|');
+  return separator === -1
+    ? { code: value }
+    : { system: value.slice(0, separator) || undefined, code: value.slice(separator + 1) };
+};
+
+// Comma-separated values are ORed together; every value must parse
+const anyOf = (value: string, toSql: (item: string) => SQL | undefined): SQL | undefined => {
+  const conditions = value.split(',').map(item => toSql(item.trim()));
+  if (conditions.some(condition => condition === undefined)) return undefined;
+  return conditions.length === 1 ? conditions[0] : or(...(conditions as SQL[]));
+};
+
+// Text searches match anywhere in the value; %, _ and \ in the search text are literal, not wildcards
+const containsPattern = (text: string) => `%${text.replace(/[\\%_]/g, '\\$&')}%`;
+
+// Token values mapped onto our own column values (e.g. completed -> inactive)
+const tokenSearch = (
+  column: Parameters<typeof inArray>[0],
+  system: string | null,
+  codes: Record<string, string[] | null>
+) => (value: string) => anyOf(value, item => {
+  const token = parseToken(item);
+  if (system && token.system && token.system !== system) return sql`false`;
+  if (!(token.code in codes)) return sql`false`;
+  const values = codes[token.code];
+  return values === null ? isNull(column) : inArray(column, values);
+});
+
+// A date value is a range at its own precision: 2024 covers the whole year
+const dateRange = (value: string) => {
+  const match = value.match(/^(eq|ne|gt|lt|ge|le|sa|eb)?(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?(?:T[0-9:.+\-Z]*)?$/);
+  if (!match) return undefined;
+
+  const [, prefix = 'eq', year, month, day] = match;
+  const start = new Date(Date.UTC(Number(year), month ? Number(month) - 1 : 0, day ? Number(day) : 1));
+  // Reject overflowing values such as 2024-13 or 2024-02-30
+  if (month && start.getUTCMonth() !== Number(month) - 1) return undefined;
+  if (day && start.getUTCDate() !== Number(day)) return undefined;
+
+  const end = new Date(start);
+  if (day) end.setUTCDate(end.getUTCDate() + 1);
+  else if (month) end.setUTCMonth(end.getUTCMonth() + 1);
+  else end.setUTCFullYear(end.getUTCFullYear() + 1);
+
+  return { prefix, start: start.toISOString().slice(0, 10), end: end.toISOString().slice(0, 10) };
+};
+
+const dateSearch = (column: Parameters<typeof gte>[0]) => (value: string) => {
+  const range = dateRange(value);
+  if (!range) return undefined;
+
+  switch (range.prefix) {
+    case 'eq': return and(gte(column, range.start), lt(column, range.end));
+    case 'ne': return or(lt(column, range.start), gte(column, range.end));
+    case 'gt':
+    case 'sa': return gte(column, range.end);
+    case 'lt':
+    case 'eb': return lt(column, range.start);
+    case 'ge': return gte(column, range.start);
+    case 'le': return lt(column, range.end);
+    default: return undefined;
+  }
+};
+
+export const CONDITION_SEARCH_PARAMETERS: SearchParameter[] = [
+  {
+    name: 'clinical-status',
+    type: 'token',
+    documentation: 'The clinical status of the condition (active, inactive, resolved)',
+    toSql: tokenSearch(medicalConditions.status, CONDITION_CLINICAL_SYSTEM, {
+      active: ['active'],
+      inactive: ['inactive'],
+      resolved: ['resolved'],
+    }),
+  },
+  {
+    name: 'onset-date',
+    type: 'date',
+    documentation: 'Date of onset; supports the eq, ne, gt, lt, ge, le, sa and eb prefixes',
+    toSql: dateSearch(medicalConditions.onsetDate),
+  },
+  {
+    name: 'code',
+    type: 'token',
+    documentation: 'ICD-10-CM or SNOMED CT code of the condition; use code:text to match the condition name',
+    toSql: (value, modifier) => modifier === 'text'
+      ? anyOf(value, item => ilike(medicalConditions.conditionName, containsPattern(item)))
+      : anyOf(value, item => {
+          const token = parseToken(item);
+          if (token.system && token.system !== ICD10CM_SYSTEM && token.system !== SNOMED_SYSTEM) return sql`false`;
+          return sql`lower(${medicalConditions.conditionCode}) = ${token.code.toLowerCase()}`;
+        }),
+  },
+];
+
+export const ALLERGY_INTOLERANCE_SEARCH_PARAMETERS: SearchParameter[] = [
+  {
+    name: 'criticality',
+    type: 'token',
+    documentation: 'low, high or unable-to-assess (derived from the recorded severity)',
+    toSql: tokenSearch(allergies.severity, 'http://hl7.org/fhir/allergy-intolerance-criticality', {
+      low: ['mild', 'moderate'],
+      high: ['severe', 'life-threatening'],
+      'unable-to-assess': null,
+    }),
+  },
+];
+
+export const MEDICATION_STATEMENT_SEARCH_PARAMETERS: SearchParameter[] = [
+  {
+    name: 'status',
+    type: 'token',
+    documentation: 'active, completed or stopped',
+    toSql: tokenSearch(medications.status, 'http://hl7.org/fhir/CodeSystem/medication-statement-status', {
+      active: ['active'],
+      completed: ['inactive'],
+      stopped: ['discontinued'],
+    }),
+  },
+];
+
+// Every resource list endpoint accepts these
+export const COMMON_SEARCH_PARAMETERS: Omit<SearchParameter, 'toSql'>[] = [
+  { name: 'patient', type: 'reference', documentation: 'Patient/<id>; only the signed-in patient has matches' },
+  { name: '_count', type: 'number', documentation: `Page size (default ${DEFAULT_PAGE_SIZE}, max ${MAX_PAGE_SIZE})` },
+  { name: '_offset', type: 'number', documentation: 'Number of matches to skip; used by the Bundle next/previous links' },
+];
+
+// Translate the request's search parameters into drizzle conditions.
+// Repeated parameters are ANDed; unknown parameters are ignored, as FHIR servers do by default.
+export function buildSearchConditions(
+  searchParams: URLSearchParams,
+  parameters: SearchParameter[]
+): { conditions: SQL[] } | { error: string } {
+  const conditions: SQL[] = [];
+
+  for (const [key, value] of searchParams.entries()) {
+    const [name, modifier] = key.split(':');
+    if (RESULT_PARAMETERS.includes(name)) continue;
+
+    const parameter = parameters.find(item => item.name === name);
+    if (!parameter) continue;
+
+    const condition = parameter.toSql(value, modifier);
+    if (!condition) {
+      return { error: `Invalid value for search parameter '${key}': ${value}` };
+    }
+    conditions.push(condition);
+  }
+
+  return { conditions };
+}
+
+export function parsePaging(searchParams: URLSearchParams): { count: number; offset: number } | { error: string } {
+  const countParam = searchParams.get('_count');
+  const offsetParam = searchParams.get('_offset');
+
+  const count = countParam === null ? DEFAULT_PAGE_SIZE : Number(countParam);
+  const offset = offsetParam === null ? 0 : Number(offsetParam);
+
+  if (!Number.isInteger(count) || count < 0) {
+    return { error: `Invalid _count: ${countParam}` };
+  }
+  if (!Number.isInteger(offset) || offset < 0) {
+    return { error: `Invalid _offset: ${offsetParam}` };
+  }
+
+  return { count: Math.min(count, MAX_PAGE_SIZE), offset };
+}
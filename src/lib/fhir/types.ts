@@ -0,0 +1,301 @@
+// Subset of the HL7 FHIR R4 data types used by our FHIR API.
+// Only the elements we read or write are declared; see https://hl7.org/fhir/R4/
+
+export interface Coding {
+  system?: string;
+  version?: string;
+  code?: string;
+  display?: string;
+}
+
+export interface CodeableConcept {
+  coding?: Coding[];
+  text?: string;
+}
+
+export interface Extension {
+  url: string;
+  valueCode?: string;
+  valueString?: string;
+  valueUri?: string;
+  valueDateTime?: string;
+  valueCoding?: Coding;
+  extension?: Extension[];
+}
+
+export interface Period {
+  start?: string;
+  end?: string;
+}
+
+export interface Identifier {
+  use?: 'usual' | 'official' | 'temp' | 'secondary' | 'old';
+  type?: CodeableConcept;
+  system?: string;
+  value?: string;
+}
+
+export interface HumanName {
+  use?: 'usual' | 'official' | 'temp' | 'nickname' | 'anonymous' | 'old' | 'maiden';
+  text?: string;
+  family?: string;
+  given?: string[];
+  extension?: Extension[];
+}
+
+export interface ContactPoint {
+  system?: 'phone' | 'fax' | 'email' | 'pager' | 'url' | 'sms' | 'other';
+  value?: string;
+  use?: 'home' | 'work' | 'temp' | 'old' | 'mobile';
+  rank?: number;
+}
+
+export interface Address {
+  use?: 'home' | 'work' | 'temp' | 'old' | 'billing';
+  type?: 'postal' | 'physical' | 'both';
+  text?: string;
+  line?: string[];
+  city?: string;
+  state?: string;
+  postalCode?: string;
+  country?: string;
+}
+
+export interface Reference {
+  reference?: string;
+  display?: string;
+}
+
+export interface Annotation {
+  authorString?: string;
+  time?: string;
+  text: string;
+}
+
+export interface Quantity {
+  value?: number;
+  unit?: string;
+  system?: string;
+  code?: string;
+}
+
+export interface Attachment {
+  contentType?: string;
+  language?: string;
+  data?: string; // base64
+  title?: string;
+  creation?: string;
+}
+
+export interface Dosage {
+  text?: string;
+  timing?: {
+    code?: CodeableConcept;
+  };
+  route?: CodeableConcept;
+}
+
+export interface Meta {
+  versionId?: string;
+  lastUpdated?: string;
+  profile?: string[];
+}
+
+export interface Resource {
+  resourceType: string;
+  id?: string;
+  meta?: Meta;
+}
+
+export interface DomainResource extends Resource {
+  extension?: Extension[];
+}
+
+export interface PatientContact {
+  relationship?: CodeableConcept[];
+  name?: HumanName;
+  telecom?: ContactPoint[];
+}
+
+export interface PatientCommunication {
+  language: CodeableConcept;
+  preferred?: boolean;
+}
+
+export interface Patient extends DomainResource {
+  resourceType: 'Patient';
+  identifier?: Identifier[];
+  active?: boolean;
+  name?: HumanName[];
+  telecom?: ContactPoint[];
+  gender?: 'male' | 'female' | 'other' | 'unknown';
+  birthDate?: string;
+  address?: Address[];
+  contact?: PatientContact[];
+  communication?: PatientCommunication[];
+}
+
+export interface Condition extends DomainResource {
+  resourceType: 'Condition';
+  clinicalStatus?: CodeableConcept;
+  verificationStatus?: CodeableConcept;
+  category?: CodeableConcept[];
+  severity?: CodeableConcept;
+  code?: CodeableConcept;
+  subject: Reference;
+  onsetDateTime?: string;
+  abatementDateTime?: string;
+  recordedDate?: string;
+  asserter?: Reference;
+  note?: Annotation[];
+}
+
+export interface AllergyIntoleranceReaction {
+  manifestation: CodeableConcept[];
+  description?: string;
+  severity?: 'mild' | 'moderate' | 'severe';
+}
+
+export interface AllergyIntolerance extends DomainResource {
+  resourceType: 'AllergyIntolerance';
+  clinicalStatus?: CodeableConcept;
+  verificationStatus?: CodeableConcept;
+  category?: Array<'food' | 'medication' | 'environment' | 'biologic'>;
+  criticality?: 'low' | 'high' | 'unable-to-assess';
+  code?: CodeableConcept;
+  patient: Reference;
+  onsetDateTime?: string;
+  recordedDate?: string;
+  note?: Annotation[];
+  reaction?: AllergyIntoleranceReaction[];
+}
+
+export interface MedicationStatement extends DomainResource {
+  resourceType: 'MedicationStatement';
+  status: 'active' | 'completed' | 'entered-in-error' | 'intended' | 'stopped' | 'on-hold' | 'unknown' | 'not-taken';
+  medicationCodeableConcept?: CodeableConcept;
+  subject: Reference;
+  effectivePeriod?: Period;
+  dateAsserted?: string;
+  reasonCode?: CodeableConcept[];
+  note?: Annotation[];
+  dosage?: Dosage[];
+}
+
+export interface FamilyMemberHistoryCondition {
+  code: CodeableConcept;
+  contributedToDeath?: boolean;
+  onsetString?: string;
+  note?: Annotation[];
+}
+
+export interface FamilyMemberHistory extends DomainResource {
+  resourceType: 'FamilyMemberHistory';
+  status: 'partial' | 'completed' | 'entered-in-error' | 'health-unknown';
+  patient: Reference;
+  date?: string;
+  relationship: CodeableConcept;
+  deceasedBoolean?: boolean;
+  deceasedAge?: Quantity;
+  deceasedString?: string;
+  note?: Annotation[];
+  condition?: FamilyMemberHistoryCondition[];
+}
+
+export interface Encounter extends DomainResource {
+  resourceType: 'Encounter';
+  status: 'planned' | 'arrived' | 'triaged' | 'in-progress' | 'onleave' | 'finished' | 'cancelled' | 'entered-in-error' | 'unknown';
+  class: Coding;
+  type?: CodeableConcept[];
+  subject?: Reference;
+  period?: Period;
+  length?: Quantity;
+  reasonCode?: CodeableConcept[];
+}
+
+export interface DocumentReferenceContent {
+  attachment: Attachment;
+}
+
+export interface DocumentReference extends DomainResource {
+  resourceType: 'DocumentReference';
+  status: 'current' | 'superseded' | 'entered-in-error';
+  docStatus?: 'preliminary' | 'final' | 'amended' | 'entered-in-error';
+  type?: CodeableConcept;
+  category?: CodeableConcept[];
+  subject?: Reference;
+  date?: string;
+  description?: string;
+  content: DocumentReferenceContent[];
+  context?: {
+    encounter?: Reference[];
+    period?: Period;
+  };
+}
+
+export interface BundleLink {
+  relation: string;
+  url: string;
+}
+
+export interface BundleEntry<T extends Resource = Resource> {
+  fullUrl?: string;
+  resource?: T;
+  search?: {
+    mode?: 'match' | 'include' | 'outcome';
+  };
+}
+
+export interface Bundle<T extends Resource = Resource> extends Resource {
+  resourceType: 'Bundle';
+  type: 'document' | 'message' | 'transaction' | 'transaction-response' | 'batch' | 'batch-response' | 'history' | 'searchset' | 'collection';
+  timestamp?: string;
+  total?: number;
+  link?: BundleLink[];
+  entry?: BundleEntry<T>[];
+}
+
+export interface CapabilityStatementSearchParam {
+  name: string;
+  type: 'number' | 'date' | 'string' | 'token' | 'reference' | 'composite' | 'quantity' | 'uri' | 'special';
+  documentation?: string;
+}
+
+export interface CapabilityStatementResource {
+  type: string;
+  profile?: string;
+  supportedProfile?: string[];
+  interaction: { code: 'read' | 'vread' | 'update' | 'patch' | 'delete' | 'history-instance' | 'history-type' | 'create' | 'search-type' }[];
+  searchParam?: CapabilityStatementSearchParam[];
+  operation?: { name: string; definition: string; documentation?: string }[];
+}
+
+export interface CapabilityStatement extends DomainResource {
+  resourceType: 'CapabilityStatement';
+  status: 'draft' | 'active' | 'retired' | 'unknown';
+  date: string;
+  publisher?: string;
+  kind: 'instance' | 'capability' | 'requirements';
+  software?: { name: string; version?: string };
+  implementation?: { description: string; url?: string };
+  fhirVersion: string;
+  format: string[];
+  rest: {
+    mode: 'client' | 'server';
+    documentation?: string;
+    security?: { extension?: Extension[]; cors?: boolean; service?: CodeableConcept[]; description?: string };
+    resource: CapabilityStatementResource[];
+  }[];
+}
+
+export interface OperationOutcomeIssue {
+  severity: 'fatal' | 'error' | 'warning' | 'information';
+  code: string;
+  diagnostics?: string;
+  expression?: string[];
+}
+
+export interface OperationOutcome extends Resource {
+  resourceType: 'OperationOutcome';
+  issue: OperationOutcomeIssue[];
+}
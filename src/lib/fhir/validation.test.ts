@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { PatientProfile, User } from '@/db/schema';
+import { toFhirPatient, US_CORE_PATIENT_PROFILE } from './patient';
+import { validateUsCorePatient } from './validation';
+
+const createdAt = new Date('2025-01-15T09:30:00Z');
+
+const user: User = {
+  id: '6f1c2b7e-3d4a-4f5b-8c9d-0e1f2a3b4c5d',
+  username: 'jdoe',
+  email: 'jane.doe@example.com',
+  passwordHash: null,
+  firstName: 'Jane',
+  lastName: 'Doe',
+  emailVerifiedAt: createdAt,
+  deletedAt: null,
+  lockedUntil: null,
+  totpSecret: null,
+  totpEnabledAt: null,
+  totpLastUsedStep: null,
+  mfaFailedAttempts: 0,
+  mfaLockedUntil: null,
+  createdAt,
+  updatedAt: createdAt,
+};
+
+const profile: PatientProfile = {
+  id: '0a9b8c7d-6e5f-4a3b-9c2d-1e0f9a8b7c6d',
+  userId: user.id,
+  dateOfBirth: '1984-07-02',
+  gender: 'female',
+  phoneNumber: '+15551234567',
+  alternatePhone: '5559876543',
+  streetAddress: '12 Main St',
+  city: 'Springfield',
+  state: 'IL',
+  zipCode: '62701',
+  country: 'United States',
+  emergencyContactName: 'John Doe',
+  emergencyContactPhone: '+15550001111',
+  emergencyContactRelationship: 'Spouse',
+  insuranceProvider: null,
+  insurancePolicyNumber: null,
+  insuranceGroupNumber: null,
+  medicalRecordNumber: 'MRN-0042',
+  preferredLanguage: 'Spanish',
+  communicationPreference: 'sms',
+  createdAt,
+  updatedAt: createdAt,
+};
+
+const errors = (issues: ReturnType<typeof validateUsCorePatient>) => issues.filter(issue => issue.severity === 'error');
+
+describe('toFhirPatient conforms to US Core Patient', () => {
+  it('maps a complete profile', () => {
+    const patient = toFhirPatient(user, profile);
+
+    expect(validateUsCorePatient(patient)).toEqual([]);
+    expect(patient.meta?.profile).toEqual([US_CORE_PATIENT_PROFILE]);
+    expect(patient.identifier?.map(identifier => identifier.value)).toEqual(['MRN-0042', `urn:uuid:${user.id}`]);
+    expect(patient.gender).toBe('female');
+    expect(patient.address?.[0]).toMatchObject({ city: 'Springfield', postalCode: '62701', country: 'US' });
+    expect(patient.communication?.[0].language.coding?.[0].code).toBe('es');
+  });
+
+  it('maps an account with no profile yet', () => {
+    const patient = toFhirPatient(user, null);
+
+    expect(validateUsCorePatient(patient)).toEqual([]);
+    expect(patient.gender).toBe('unknown');
+    expect(patient.telecom).toEqual([{ system: 'email', value: user.email, use: 'home', rank: 1 }]);
+  });
+
+  it('marks a missing name as absent instead of leaving it empty', () => {
+    const patient = toFhirPatient({ ...user, firstName: null, lastName: null }, { ...profile, gender: 'nonbinary' });
+
+    expect(validateUsCorePatient(patient)).toEqual([]);
+    expect(patient.name?.[0].text).toBe('jdoe');
+    expect(patient.gender).toBe('unknown');
+  });
+});
+
+describe('validateUsCorePatient', () => {
+  it('reports missing required elements', () => {
+    const issues = validateUsCorePatient({ resourceType: 'Patient', identifier: [], name: [{ use: 'official' }] });
+
+    expect(errors(issues).map(issue => issue.expression?.[0])).toEqual(['Patient.identifier', 'Patient.name[0]', 'Patient.gender']);
+    expect(issues.find(issue => issue.expression?.[0] === 'Patient.name[0]')?.code).toBe('invariant');
+    expect(issues.some(issue => issue.severity === 'warning' && issue.expression?.[0] === 'Patient.meta.profile')).toBe(true);
+  });
+
+  it('rejects malformed values from a mapped patient', () => {
+    const patient = toFhirPatient(user, profile);
+    patient.birthDate = '07/02/1984';
+    patient.telecom = [{ system: 'phone' }];
+    patient.contact = [{ relationship: [{ text: 'Spouse' }] }];
+
+    expect(errors(validateUsCorePatient(patient)).map(issue => issue.expression?.[0])).toEqual([
+      'Patient.birthDate',
+      'Patient.telecom[0].value',
+      'Patient.contact[0]',
+    ]);
+  });
+});
@@ -0,0 +1,78 @@
+import { Patient, OperationOutcomeIssue } from './types';
+import { US_CORE_PATIENT_PROFILE, DATA_ABSENT_REASON_URL } from './patient';
+
+// Checks for the elements the US Core profiles mark as required (min cardinality 1) and their invariants.
+// This is not a full profile validator; it catches mapping mistakes before a resource leaves the server.
+
+const FHIR_DATE = /^\d{4}(-(0[1-9]|1[0-2])(-(0[1-9]|[12]\d|3[01]))?)?$/;
+
+const error = (expression: string, diagnostics: string): OperationOutcomeIssue => ({
+  severity: 'error',
+  code: 'required',
+  diagnostics,
+  expression: [expression],
+});
+
+export function validateUsCorePatient(patient: Patient): OperationOutcomeIssue[] {
+  const issues: OperationOutcomeIssue[] = [];
+
+  if (patient.resourceType !== 'Patient') {
+    issues.push({ severity: 'error', code: 'structure', diagnostics: 'resourceType must be Patient', expression: ['Patient'] });
+  }
+
+  if (!patient.meta?.profile?.includes(US_CORE_PATIENT_PROFILE)) {
+    issues.push({ severity: 'warning', code: 'structure', diagnostics: 'meta.profile does not claim US Core Patient', expression: ['Patient.meta.profile'] });
+  }
+
+  // identifier 1..*, each with system 1..1 and value 1..1
+  if (!patient.identifier?.length) {
+    issues.push(error('Patient.identifier', 'At least one identifier is required'));
+  }
+  patient.identifier?.forEach((identifier, index) => {
+    if (!identifier.system) issues.push(error(`Patient.identifier[${index}].system`, 'Identifier system is required'));
+    if (!identifier.value) issues.push(error(`Patient.identifier[${index}].value`, 'Identifier value is required'));
+  });
+
+  // name 1..*; us-core-6: family or given, or a data-absent-reason
+  if (!patient.name?.length) {
+    issues.push(error('Patient.name', 'At least one name is required'));
+  }
+  patient.name?.forEach((name, index) => {
+    const hasName = !!name.family || !!name.given?.length;
+    const absent = name.extension?.some(extension => extension.url === DATA_ABSENT_REASON_URL);
+    if (!hasName && !absent) {
+      issues.push({ ...error(`Patient.name[${index}]`, 'Name needs a family or given name, or a data-absent-reason'), code: 'invariant' });
+    }
+  });
+
+  // gender 1..1 from AdministrativeGender
+  if (!patient.gender || !['male', 'female', 'other', 'unknown'].includes(patient.gender)) {
+    issues.push(error('Patient.gender', 'gender is required and must be male, female, other or unknown'));
+  }
+
+  if (patient.birthDate && !FHIR_DATE.test(patient.birthDate)) {
+    issues.push({ severity: 'error', code: 'value', diagnostics: 'birthDate must be YYYY, YYYY-MM or YYYY-MM-DD', expression: ['Patient.birthDate'] });
+  }
+
+  // telecom.system 1..1 and telecom.value 1..1
+  patient.telecom?.forEach((telecom, index) => {
+    if (!telecom.system) issues.push(error(`Patient.telecom[${index}].system`, 'Telecom system is required'));
+    if (!telecom.value) issues.push(error(`Patient.telecom[${index}].value`, 'Telecom value is required'));
+  });
+
+  // pat-1: a contact needs details
+  patient.contact?.forEach((contact, index) => {
+    if (!contact.name && !contact.telecom?.length) {
+      issues.push({ ...error(`Patient.contact[${index}]`, 'Contact must have a name or telecom'), code: 'invariant' });
+    }
+  });
+
+  // communication.language 1..1
+  patient.communication?.forEach((communication, index) => {
+    if (!communication.language?.coding?.length && !communication.language?.text) {
+      issues.push(error(`Patient.communication[${index}].language`, 'Communication language is required'));
+    }
+  });
+
+  return issues;
+}
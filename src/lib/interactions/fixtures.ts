@@ -0,0 +1,102 @@
+import { InteractionMedication, InteractionAllergy } from './index';
+
+// Fixture corpus for the interaction engine, run by index.test.ts: the rule IDs each medication list should
+// trigger, most severe first.
+// Include safe combinations and inactive records too, so over-broad rules show up as false positives here.
+
+export interface InteractionFixture {
+  name: string;
+  medications: InteractionMedication[];
+  allergies: InteractionAllergy[];
+  expectedRuleIds: string[];
+}
+
+export const INTERACTION_FIXTURES: InteractionFixture[] = [
+  {
+    name: 'warfarin with a brand-name NSAID',
+    medications: [{ medicationName: 'Warfarin' }, { medicationName: 'Advil' }],
+    allergies: [],
+    expectedRuleIds: ['anticoagulant-nsaid'],
+  },
+  {
+    name: 'coded apixaban with low-dose aspirin',
+    medications: [{ medicationName: 'Eliquis', rxcui: '1364430' }, { medicationName: 'Aspirin 81mg' }],
+    allergies: [],
+    expectedRuleIds: ['anticoagulant-antiplatelet'],
+  },
+  {
+    name: 'nitrate with sildenafil',
+    medications: [{ medicationName: 'Imdur' }, { medicationName: 'Viagra', genericName: 'sildenafil' }],
+    allergies: [],
+    expectedRuleIds: ['nitrate-pde5'],
+  },
+  {
+    name: 'SSRI with tramadol and sumatriptan',
+    medications: [{ medicationName: 'Zoloft' }, { medicationName: 'tramadol' }, { medicationName: 'Imitrex' }],
+    allergies: [],
+    expectedRuleIds: ['serotonergic-tramadol', 'serotonergic-triptan'],
+  },
+  {
+    name: 'simvastatin with clarithromycin',
+    medications: [{ medicationName: 'simvastatin 40mg' }, { medicationName: 'Biaxin' }],
+    allergies: [],
+    expectedRuleIds: ['simvastatin-strong-cyp3a4'],
+  },
+  {
+    name: 'same ingredient under brand and generic names',
+    medications: [{ medicationName: 'Tylenol' }, { medicationName: 'Paracetamol 500mg' }],
+    allergies: [],
+    expectedRuleIds: ['duplicate-ingredient'],
+  },
+  {
+    name: 'two different NSAIDs',
+    medications: [{ medicationName: 'ibuprofen' }, { medicationName: 'Aleve' }],
+    allergies: [],
+    expectedRuleIds: ['duplicate-nsaid'],
+  },
+  {
+    name: 'amoxicillin with a penicillin allergy',
+    medications: [{ medicationName: 'Amoxicillin 500mg' }],
+    allergies: [{ allergen: 'Penicillin', allergenType: 'medication' }],
+    expectedRuleIds: ['penicillin-allergy'],
+  },
+  {
+    name: 'brand name of an allergen',
+    medications: [{ medicationName: 'Motrin' }],
+    allergies: [{ allergen: 'Ibuprofen', allergenType: 'medication' }],
+    expectedRuleIds: ['allergy-ingredient'],
+  },
+  {
+    name: 'celecoxib with a sulfa allergy',
+    medications: [{ medicationName: 'Celebrex' }],
+    allergies: [{ allergen: 'Sulfa drugs', allergenType: 'medication' }],
+    expectedRuleIds: ['sulfonamide-allergy-celecoxib'],
+  },
+  {
+    name: 'lisinopril with spironolactone and regular ibuprofen',
+    medications: [{ medicationName: 'Lisinopril' }, { medicationName: 'Aldactone' }, { medicationName: 'Ibuprofen' }],
+    allergies: [],
+    expectedRuleIds: ['ace-arb-potassium', 'ace-arb-nsaid'],
+  },
+  {
+    name: 'stopped medication is not checked',
+    medications: [{ medicationName: 'Warfarin' }, { medicationName: 'Ibuprofen', status: 'discontinued' }],
+    allergies: [],
+    expectedRuleIds: [],
+  },
+  {
+    name: 'refuted and non-medication allergies are not checked',
+    medications: [{ medicationName: 'Amoxicillin' }, { medicationName: 'Ibuprofen' }],
+    allergies: [
+      { allergen: 'Penicillin', allergenType: 'medication', verificationStatus: 'refuted' },
+      { allergen: 'Ibuprofen', allergenType: 'food' },
+    ],
+    expectedRuleIds: [],
+  },
+  {
+    name: 'common safe combination',
+    medications: [{ medicationName: 'Metformin' }, { medicationName: 'Lipitor' }, { medicationName: 'Lisinopril' }, { medicationName: 'Tylenol' }],
+    allergies: [{ allergen: 'Codeine', allergenType: 'medication' }],
+    expectedRuleIds: [],
+  },
+];
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { checkInteractions, checkNewMedication } from './index';
+import { DEFAULT_INTERACTION_RULES, getEnabledInteractionRules } from './rules';
+import { INTERACTION_FIXTURES } from './fixtures';
+
+describe('checkInteractions', () => {
+  it.each(INTERACTION_FIXTURES.map(fixture => [fixture.name, fixture] as const))('%s', (_, fixture) => {
+    const warnings = checkInteractions(fixture.medications, fixture.allergies, DEFAULT_INTERACTION_RULES);
+    expect(warnings.map(warning => warning.ruleId)).toEqual(fixture.expectedRuleIds);
+  });
+
+  it('orders warnings from most to least severe', () => {
+    const warnings = checkInteractions(
+      [{ medicationName: 'Lisinopril' }, { medicationName: 'Aldactone' }, { medicationName: 'Warfarin' }, { medicationName: 'Ibuprofen' }],
+      [],
+      DEFAULT_INTERACTION_RULES
+    );
+    const order = { contraindicated: 0, major: 1, moderate: 2 };
+    const severities = warnings.map(warning => order[warning.severity]);
+    expect(severities).toEqual([...severities].sort((a, b) => a - b));
+    expect(warnings.map(warning => warning.ruleId)).toContain('anticoagulant-nsaid');
+  });
+
+  it('names the records involved', () => {
+    const [warning] = checkInteractions(
+      [{ id: 'med-1', medicationName: 'Amoxicillin 500mg' }],
+      [{ id: 'allergy-1', allergen: 'Penicillin', allergenType: 'medication' }],
+      DEFAULT_INTERACTION_RULES
+    );
+    expect(warning).toMatchObject({
+      type: 'drug-allergy',
+      medications: [{ id: 'med-1', name: 'Amoxicillin 500mg' }],
+      allergy: { id: 'allergy-1', allergen: 'Penicillin' },
+    });
+  });
+});
+
+describe('checkNewMedication', () => {
+  it('only reports warnings that involve the new medication, whatever its status', () => {
+    const current = [{ id: 'med-1', medicationName: 'Warfarin' }, { id: 'med-2', medicationName: 'Aspirin 81mg' }];
+    const warnings = checkNewMedication({ medicationName: 'Advil', status: 'inactive' }, current, [], DEFAULT_INTERACTION_RULES);
+
+    expect(warnings.map(warning => warning.ruleId)).toEqual(['anticoagulant-nsaid']);
+    expect(warnings[0].medications).toEqual([{ name: 'Advil' }, { id: 'med-1', name: 'Warfarin' }]);
+  });
+});
+
+describe('getEnabledInteractionRules', () => {
+  it('restricts checks to the configured rules', () => {
+    const rules = getEnabledInteractionRules(DEFAULT_INTERACTION_RULES, 'nitrate-pde5');
+    expect(rules.map(rule => rule.id)).toEqual(['nitrate-pde5']);
+    expect(checkInteractions([{ medicationName: 'Warfarin' }, { medicationName: 'Advil' }], [], rules)).toEqual([]);
+  });
+});
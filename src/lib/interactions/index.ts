@@ -0,0 +1,215 @@
+import { Medication, Allergy } from '@/db/schema';
+import { RXNORM_CONCEPTS } from '@/lib/terminology/rxnorm';
+import { tokenize } from '@/lib/terminology/matching';
+import {
+  getEnabledInteractionRules,
+  InteractionRule,
+  InteractionSeverity,
+  DrugGroup,
+} from './rules';
+
+// Interaction engine: checks a patient's active medications against each other and against their medication
+// allergies. Used by the API routes and by generatePatientContext in the browser, so it only relies on the
+// bundled RxNorm subset and must stay free of client-only or server-only dependencies.
+
+export type InteractionMedication = Pick<Medication, 'medicationName'> &
+  Partial<Pick<Medication, 'id' | 'genericName' | 'rxcui' | 'status'>>;
+
+export type InteractionAllergy = Pick<Allergy, 'allergen'> &
+  Partial<Pick<Allergy, 'id' | 'allergenType' | 'status' | 'verificationStatus'>>;
+
+export interface InteractionWarning {
+  // Rule id, or one of the built-in checks: 'duplicate-ingredient', 'allergy-ingredient'
+  ruleId: string;
+  type: 'drug-drug' | 'drug-allergy';
+  severity: InteractionSeverity;
+  // e.g. "Warfarin + Advil" or "Amoxil (allergy: penicillin)"
+  title: string;
+  summary: string;
+  guidance: string;
+  // Medications involved, as entered (ids are missing for a medication that has not been saved yet)
+  medications: { id?: string; name: string }[];
+  allergy?: { id?: string; allergen: string };
+}
+
+// Stands in for the id of a medication that has not been saved yet
+const CANDIDATE_ID = 'candidate';
+
+const SEVERITY_ORDER: Record<InteractionSeverity, number> = { contraindicated: 0, major: 1, moderate: 2 };
+
+const CONCEPT_TERMS = RXNORM_CONCEPTS.map(concept => ({
+  concept,
+  terms: [concept.name, ...(concept.brands ?? []), ...(concept.synonyms ?? [])].map(tokenize),
+}));
+
+// True when the words contain the phrase as consecutive words
+const containsPhrase = (words: string[], phrase: string[]): boolean =>
+  phrase.length > 0 && words.some((_, start) => phrase.every((word, offset) => words[start + offset] === word));
+
+interface ResolvedMedication {
+  medication: InteractionMedication;
+  words: string[];
+  // RxNorm ingredient names, lowercased
+  ingredients: Set<string>;
+}
+
+// Ingredients named by a free-text name: generic names, brands and synonyms of the bundled concepts
+const ingredientsInText = (words: string[]): string[] =>
+  CONCEPT_TERMS
+    .filter(({ terms }) => terms.some(term => containsPhrase(words, term)))
+    .map(({ concept }) => concept.name.toLowerCase());
+
+const resolveMedication = (medication: InteractionMedication): ResolvedMedication => {
+  const words = tokenize(`${medication.medicationName} ${medication.genericName ?? ''}`);
+  const ingredients = new Set(ingredientsInText(words));
+  const coded = medication.rxcui && RXNORM_CONCEPTS.find(concept => concept.rxcui === medication.rxcui);
+  if (coded) {
+    ingredients.add(coded.name.toLowerCase());
+  }
+  return { medication, words, ingredients };
+};
+
+// Group ingredients outside the bundled subset still match by name
+const inGroup = (resolved: ResolvedMedication, group: DrugGroup): boolean =>
+  group.ingredients.some(ingredient =>
+    resolved.ingredients.has(ingredient.toLowerCase()) || containsPhrase(resolved.words, tokenize(ingredient))
+  );
+
+const isActiveMedication = (medication: InteractionMedication) => (medication.status || 'active') === 'active';
+
+// Same relevance rule as the assistant context: refuted or inactive allergies are ignored
+const isRelevantMedicationAllergy = (allergy: InteractionAllergy) =>
+  allergy.allergenType === 'medication'
+  && allergy.verificationStatus !== 'refuted'
+  && (allergy.status || 'active') === 'active';
+
+const describe = ({ medication }: ResolvedMedication) => ({
+  ...(medication.id && { id: medication.id }),
+  name: medication.medicationName,
+});
+
+const describeAllergy = (allergy: InteractionAllergy) => ({
+  ...(allergy.id && { id: allergy.id }),
+  allergen: allergy.allergen,
+});
+
+function drugDrugWarnings(medications: ResolvedMedication[], rules: InteractionRule[]): InteractionWarning[] {
+  const warnings: InteractionWarning[] = [];
+
+  medications.forEach((first, i) => {
+    medications.slice(i + 1).forEach(second => {
+      const shared = Array.from(first.ingredients).filter(ingredient => second.ingredients.has(ingredient));
+      if (shared.length > 0) {
+        warnings.push({
+          ruleId: 'duplicate-ingredient',
+          type: 'drug-drug',
+          severity: 'major',
+          title: `${first.medication.medicationName} + ${second.medication.medicationName}`,
+          summary: `Both contain ${shared.join(', ')}`,
+          guidance: 'Taking the same medicine twice under different names can lead to an overdose. Check whether one of these replaced the other.',
+          medications: [describe(first), describe(second)],
+        });
+        // The ingredient duplication explains any class rule these two would also match
+        return;
+      }
+
+      for (const rule of rules) {
+        if (rule.type !== 'drug-drug') continue;
+        const [groupA, groupB] = rule.drugs;
+        const matches = (inGroup(first, groupA) && inGroup(second, groupB)) || (inGroup(first, groupB) && inGroup(second, groupA));
+        if (matches) {
+          warnings.push({
+            ruleId: rule.id,
+            type: 'drug-drug',
+            severity: rule.severity,
+            title: `${first.medication.medicationName} + ${second.medication.medicationName}`,
+            summary: rule.summary,
+            guidance: rule.guidance,
+            medications: [describe(first), describe(second)],
+          });
+        }
+      }
+    });
+  });
+
+  return warnings;
+}
+
+function drugAllergyWarnings(medications: ResolvedMedication[], allergies: InteractionAllergy[], rules: InteractionRule[]): InteractionWarning[] {
+  const warnings: InteractionWarning[] = [];
+
+  for (const allergy of allergies) {
+    const allergenWords = tokenize(allergy.allergen);
+    const allergenIngredients = ingredientsInText(allergenWords);
+
+    for (const medication of medications) {
+      const title = `${medication.medication.medicationName} (allergy: ${allergy.allergen})`;
+      const sameIngredient = allergenIngredients.filter(ingredient => medication.ingredients.has(ingredient));
+
+      if (sameIngredient.length > 0) {
+        warnings.push({
+          ruleId: 'allergy-ingredient',
+          type: 'drug-allergy',
+          severity: 'contraindicated',
+          title,
+          summary: `Contains ${sameIngredient.join(', ')}, which is recorded as an allergy`,
+          guidance: 'This medicine contains something you are recorded as allergic to. Do not take it until a doctor or pharmacist has reviewed the allergy.',
+          medications: [describe(medication)],
+          allergy: describeAllergy(allergy),
+        });
+        continue;
+      }
+
+      for (const rule of rules) {
+        if (rule.type !== 'drug-allergy') continue;
+        const allergenMatches = rule.allergens.some(term => containsPhrase(allergenWords, tokenize(term)));
+        if (allergenMatches && inGroup(medication, rule.drugs)) {
+          warnings.push({
+            ruleId: rule.id,
+            type: 'drug-allergy',
+            severity: rule.severity,
+            title,
+            summary: rule.summary,
+            guidance: rule.guidance,
+            medications: [describe(medication)],
+            allergy: describeAllergy(allergy),
+          });
+        }
+      }
+    }
+  }
+
+  return warnings;
+}
+
+// Check the active medications against each other and against the active medication allergies.
+// Warnings are ordered from most to least severe.
+export function checkInteractions(
+  medications: InteractionMedication[],
+  allergies: InteractionAllergy[],
+  rules: InteractionRule[] = getEnabledInteractionRules()
+): InteractionWarning[] {
+  const resolved = medications.filter(isActiveMedication).map(resolveMedication);
+  const relevantAllergies = allergies.filter(isRelevantMedicationAllergy);
+
+  return [...drugDrugWarnings(resolved, rules), ...drugAllergyWarnings(resolved, relevantAllergies, rules)]
+    .sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+}
+
+// Warnings a medication would add to the patient's current list, e.g. while it is being added. It is checked
+// as active whatever its status; leave the record being edited out of `medications`.
+export function checkNewMedication(
+  candidate: InteractionMedication,
+  medications: InteractionMedication[],
+  allergies: InteractionAllergy[],
+  rules: InteractionRule[] = getEnabledInteractionRules()
+): InteractionWarning[] {
+  const candidateMedication = { ...candidate, id: CANDIDATE_ID, status: 'active' };
+
+  return checkInteractions([candidateMedication, ...medications], allergies, rules)
+    .filter(warning => warning.medications.some(medication => medication.id === CANDIDATE_ID))
+    .map(warning => ({
+      ...warning,
+      medications: warning.medications.map(({ id, name }) => (id === CANDIDATE_ID ? { name } : { id, name })),
+    }));
+}
@@ -0,0 +1,311 @@
+// Local drug–drug and drug–allergy interaction rules. Like the red-flag rules, they are plain data so they
+// can be reviewed, extended, replaced (pass your own list to checkInteractions) or switched off
+// (NEXT_PUBLIC_INTERACTION_RULES) without touching the engine. They cover well-established, clinically
+// significant interactions only and are not a substitute for a pharmacist's review.
+
+export type InteractionSeverity = 'contraindicated' | 'major' | 'moderate';
+
+// Medications are matched by RxNorm ingredient name (see src/lib/terminology/rxnorm.ts), which also
+// catches brand names and RxCUIs of the bundled concepts
+export interface DrugGroup {
+  name: string;
+  ingredients: string[];
+}
+
+interface BaseInteractionRule {
+  id: string;
+  severity: InteractionSeverity;
+  // One line naming the risk, e.g. "Increased bleeding risk"
+  summary: string;
+  // Shown to the patient and given to the assistant
+  guidance: string;
+}
+
+export interface DrugDrugRule extends BaseInteractionRule {
+  type: 'drug-drug';
+  // Matches one medication from each group; the same group twice flags two different drugs of that group
+  drugs: [DrugGroup, DrugGroup];
+}
+
+export interface DrugAllergyRule extends BaseInteractionRule {
+  type: 'drug-allergy';
+  // Words or phrases in a medication allergy's allergen, e.g. "penicillin"
+  allergens: string[];
+  drugs: DrugGroup;
+}
+
+export type InteractionRule = DrugDrugRule | DrugAllergyRule;
+
+const ANTICOAGULANTS: DrugGroup = { name: 'anticoagulant', ingredients: ['warfarin', 'apixaban', 'rivaroxaban'] };
+const NSAIDS: DrugGroup = { name: 'NSAID', ingredients: ['ibuprofen', 'naproxen', 'meloxicam', 'celecoxib'] };
+const ANTIPLATELETS: DrugGroup = { name: 'antiplatelet', ingredients: ['aspirin', 'clopidogrel'] };
+const ACE_INHIBITORS_ARBS: DrugGroup = { name: 'ACE inhibitor or ARB', ingredients: ['lisinopril', 'enalapril', 'ramipril', 'losartan', 'valsartan'] };
+const POTASSIUM_RAISING: DrugGroup = { name: 'potassium-raising drug', ingredients: ['spironolactone', 'potassium chloride'] };
+const SEROTONERGIC_ANTIDEPRESSANTS: DrugGroup = {
+  name: 'SSRI or SNRI',
+  ingredients: ['sertraline', 'fluoxetine', 'citalopram', 'escitalopram', 'duloxetine', 'venlafaxine'],
+};
+const MAO_INHIBITORS: DrugGroup = { name: 'MAO inhibitor', ingredients: ['phenelzine', 'linezolid'] };
+const OPIOIDS: DrugGroup = { name: 'opioid', ingredients: ['oxycodone', 'morphine', 'tramadol'] };
+const BENZODIAZEPINES: DrugGroup = { name: 'benzodiazepine', ingredients: ['alprazolam', 'lorazepam', 'clonazepam'] };
+const SEDATIVES: DrugGroup = { name: 'sedative', ingredients: ['zolpidem', 'gabapentin', 'cyclobenzaprine', 'tizanidine'] };
+const NITRATES: DrugGroup = { name: 'nitrate', ingredients: ['nitroglycerin', 'isosorbide mononitrate'] };
+const PDE5_INHIBITORS: DrugGroup = { name: 'PDE5 inhibitor', ingredients: ['sildenafil', 'tadalafil'] };
+const MACROLIDES: DrugGroup = { name: 'macrolide antibiotic', ingredients: ['clarithromycin', 'erythromycin', 'azithromycin'] };
+const STRONG_CYP3A4_INHIBITORS: DrugGroup = { name: 'strong CYP3A4 inhibitor', ingredients: ['clarithromycin', 'erythromycin'] };
+const PENICILLINS: DrugGroup = { name: 'penicillin', ingredients: ['amoxicillin', 'penicillin V'] };
+
+export const DEFAULT_INTERACTION_RULES: InteractionRule[] = [
+  {
+    id: 'anticoagulant-nsaid',
+    type: 'drug-drug',
+    severity: 'major',
+    drugs: [ANTICOAGULANTS, NSAIDS],
+    summary: 'Increased bleeding risk',
+    guidance: 'NSAID pain relievers add to the bleeding risk of blood thinners, including stomach bleeding. Ask your doctor or pharmacist before taking them together; acetaminophen is usually the safer pain reliever.',
+  },
+  {
+    id: 'anticoagulant-antiplatelet',
+    type: 'drug-drug',
+    severity: 'major',
+    drugs: [ANTICOAGULANTS, ANTIPLATELETS],
+    summary: 'Increased bleeding risk',
+    guidance: 'Taking a blood thinner with aspirin or clopidogrel raises the risk of serious bleeding. This is sometimes prescribed on purpose, so check with the prescriber that both are intended.',
+  },
+  {
+    id: 'warfarin-inr-raising',
+    type: 'drug-drug',
+    severity: 'major',
+    drugs: [
+      { name: 'warfarin', ingredients: ['warfarin'] },
+      { name: 'drug that raises INR', ingredients: ['amiodarone', 'ciprofloxacin', 'metronidazole', 'fluconazole', 'clarithromycin', 'erythromycin'] },
+    ],
+    summary: 'Warfarin effect (INR) may rise sharply',
+    guidance: 'This medicine can make warfarin much stronger. Your INR usually needs checking soon after starting or stopping it.',
+  },
+  {
+    id: 'simvastatin-strong-cyp3a4',
+    type: 'drug-drug',
+    severity: 'contraindicated',
+    drugs: [{ name: 'simvastatin', ingredients: ['simvastatin'] }, STRONG_CYP3A4_INHIBITORS],
+    summary: 'Risk of severe muscle damage (rhabdomyolysis)',
+    guidance: 'Simvastatin should not be taken with this antibiotic. The statin is usually paused during the course; contact your prescriber.',
+  },
+  {
+    id: 'simvastatin-dose-limit',
+    type: 'drug-drug',
+    severity: 'major',
+    drugs: [{ name: 'simvastatin', ingredients: ['simvastatin'] }, { name: 'heart rhythm or blood pressure drug', ingredients: ['amiodarone', 'diltiazem', 'verapamil'] }],
+    summary: 'Higher simvastatin levels; dose limits apply',
+    guidance: 'Together these raise simvastatin levels and the risk of muscle problems. The simvastatin dose may need to be limited; report unexplained muscle pain or weakness.',
+  },
+  {
+    id: 'colchicine-strong-cyp3a4',
+    type: 'drug-drug',
+    severity: 'major',
+    drugs: [{ name: 'colchicine', ingredients: ['colchicine'] }, STRONG_CYP3A4_INHIBITORS],
+    summary: 'Risk of colchicine toxicity',
+    guidance: 'This antibiotic can raise colchicine to toxic levels. Ask your prescriber whether to reduce or pause colchicine.',
+  },
+  {
+    id: 'serotonergic-maoi',
+    type: 'drug-drug',
+    severity: 'contraindicated',
+    drugs: [SEROTONERGIC_ANTIDEPRESSANTS, MAO_INHIBITORS],
+    summary: 'Risk of serotonin syndrome',
+    guidance: 'These must not be combined. Agitation, fever, sweating, shaking or a fast heartbeat need urgent medical attention.',
+  },
+  {
+    id: 'serotonergic-tramadol',
+    type: 'drug-drug',
+    severity: 'major',
+    drugs: [SEROTONERGIC_ANTIDEPRESSANTS, { name: 'tramadol', ingredients: ['tramadol'] }],
+    summary: 'Risk of serotonin syndrome and seizures',
+    guidance: 'Tramadol with this antidepressant can cause serotonin syndrome and lowers the seizure threshold. Tell your prescriber you take both.',
+  },
+  {
+    id: 'serotonergic-triptan',
+    type: 'drug-drug',
+    severity: 'moderate',
+    drugs: [SEROTONERGIC_ANTIDEPRESSANTS, { name: 'triptan', ingredients: ['sumatriptan'] }],
+    summary: 'Possible serotonin syndrome',
+    guidance: 'Usually safe at normal doses, but watch for agitation, fever, sweating or muscle twitching after a triptan dose.',
+  },
+  {
+    id: 'ace-arb-potassium',
+    type: 'drug-drug',
+    severity: 'major',
+    drugs: [ACE_INHIBITORS_ARBS, POTASSIUM_RAISING],
+    summary: 'Risk of high potassium (hyperkalemia)',
+    guidance: 'Both raise blood potassium. Your potassium and kidney function should be checked regularly; avoid salt substitutes that contain potassium.',
+  },
+  {
+    id: 'ace-arb-nsaid',
+    type: 'drug-drug',
+    severity: 'moderate',
+    drugs: [ACE_INHIBITORS_ARBS, NSAIDS],
+    summary: 'Reduced blood pressure control and kidney strain',
+    guidance: 'Regular NSAID use can blunt this blood pressure medicine and strain the kidneys, especially when dehydrated. Occasional use is usually fine; ask before taking NSAIDs regularly.',
+  },
+  {
+    id: 'opioid-benzodiazepine',
+    type: 'drug-drug',
+    severity: 'major',
+    drugs: [OPIOIDS, BENZODIAZEPINES],
+    summary: 'Risk of dangerous sedation and slowed breathing',
+    guidance: 'Opioids with benzodiazepines can cause extreme drowsiness, slowed breathing and death. Do not add alcohol, and make sure your prescribers know about both.',
+  },
+  {
+    id: 'opioid-sedative',
+    type: 'drug-drug',
+    severity: 'moderate',
+    drugs: [OPIOIDS, SEDATIVES],
+    summary: 'Added drowsiness and slowed breathing',
+    guidance: 'Together these can make you very drowsy. Avoid driving until you know how they affect you and avoid alcohol.',
+  },
+  {
+    id: 'nitrate-pde5',
+    type: 'drug-drug',
+    severity: 'contraindicated',
+    drugs: [NITRATES, PDE5_INHIBITORS],
+    summary: 'Risk of a severe drop in blood pressure',
+    guidance: 'Never take sildenafil or tadalafil with nitrates such as nitroglycerin. The combination can cause a life-threatening drop in blood pressure.',
+  },
+  {
+    id: 'pde5-alpha-blocker',
+    type: 'drug-drug',
+    severity: 'moderate',
+    drugs: [PDE5_INHIBITORS, { name: 'alpha blocker', ingredients: ['tamsulosin'] }],
+    summary: 'Dizziness from low blood pressure',
+    guidance: 'This combination can make you dizzy or faint when standing up. Your prescriber may start with a lower dose.',
+  },
+  {
+    id: 'lithium-toxicity',
+    type: 'drug-drug',
+    severity: 'major',
+    drugs: [
+      { name: 'lithium', ingredients: ['lithium carbonate'] },
+      { name: 'drug that raises lithium', ingredients: [...NSAIDS.ingredients, ...ACE_INHIBITORS_ARBS.ingredients, 'hydrochlorothiazide', 'furosemide'] },
+    ],
+    summary: 'Lithium levels may rise to toxic levels',
+    guidance: 'This medicine can raise lithium levels. Lithium blood levels should be checked; report shakiness, confusion, vomiting or diarrhea.',
+  },
+  {
+    id: 'digoxin-level-raising',
+    type: 'drug-drug',
+    severity: 'major',
+    drugs: [{ name: 'digoxin', ingredients: ['digoxin'] }, { name: 'drug that raises digoxin', ingredients: ['amiodarone', 'verapamil', 'clarithromycin'] }],
+    summary: 'Digoxin levels may rise to toxic levels',
+    guidance: 'The digoxin dose often needs lowering with this medicine. Report nausea, vision changes or an irregular heartbeat.',
+  },
+  {
+    id: 'methotrexate-nsaid',
+    type: 'drug-drug',
+    severity: 'moderate',
+    drugs: [{ name: 'methotrexate', ingredients: ['methotrexate'] }, NSAIDS],
+    summary: 'Higher methotrexate levels',
+    guidance: 'NSAIDs can slow methotrexate clearance. Check with your prescriber, especially before regular use.',
+  },
+  {
+    id: 'tizanidine-ciprofloxacin',
+    type: 'drug-drug',
+    severity: 'contraindicated',
+    drugs: [{ name: 'tizanidine', ingredients: ['tizanidine'] }, { name: 'ciprofloxacin', ingredients: ['ciprofloxacin'] }],
+    summary: 'Tizanidine levels rise sharply (low blood pressure, sedation)',
+    guidance: 'Ciprofloxacin must not be taken with tizanidine. Ask for a different antibiotic.',
+  },
+  {
+    id: 'clopidogrel-omeprazole',
+    type: 'drug-drug',
+    severity: 'moderate',
+    drugs: [{ name: 'clopidogrel', ingredients: ['clopidogrel'] }, { name: 'omeprazole', ingredients: ['omeprazole'] }],
+    summary: 'Clopidogrel may work less well',
+    guidance: 'Omeprazole can weaken clopidogrel. Pantoprazole or famotidine are often used instead; ask your prescriber.',
+  },
+  {
+    id: 'citalopram-qt',
+    type: 'drug-drug',
+    severity: 'moderate',
+    drugs: [
+      { name: 'citalopram or escitalopram', ingredients: ['citalopram', 'escitalopram'] },
+      { name: 'QT-prolonging drug', ingredients: ['amiodarone', 'azithromycin', 'clarithromycin', 'erythromycin', 'ondansetron', 'quetiapine'] },
+    ],
+    summary: 'Risk of abnormal heart rhythm (QT prolongation)',
+    guidance: 'Both can affect heart rhythm. Report palpitations or fainting; an ECG may be advised.',
+  },
+  {
+    id: 'duplicate-nsaid',
+    type: 'drug-drug',
+    severity: 'moderate',
+    drugs: [NSAIDS, NSAIDS],
+    summary: 'Two NSAIDs at once',
+    guidance: 'Taking two NSAIDs adds side effects (stomach bleeding, kidney strain) without better pain relief. Use one at a time.',
+  },
+  {
+    id: 'penicillin-allergy',
+    type: 'drug-allergy',
+    severity: 'contraindicated',
+    allergens: ['penicillin', 'penicillins', 'pcn', 'amoxicillin', 'ampicillin', 'augmentin', 'amoxil', 'beta lactam'],
+    drugs: PENICILLINS,
+    summary: 'Penicillin-class antibiotic with a penicillin allergy',
+    guidance: 'This antibiotic is a penicillin. Do not take it without talking to your prescriber about your allergy.',
+  },
+  {
+    id: 'penicillin-allergy-cephalosporin',
+    type: 'drug-allergy',
+    severity: 'moderate',
+    allergens: ['penicillin', 'penicillins', 'pcn', 'amoxicillin', 'ampicillin', 'augmentin', 'amoxil', 'beta lactam'],
+    drugs: { name: 'cephalosporin', ingredients: ['cephalexin'] },
+    summary: 'Small chance of cross-reaction with a penicillin allergy',
+    guidance: 'Most people with a penicillin allergy tolerate cephalexin, but make sure the prescriber knows about your allergy and how severe it was.',
+  },
+  {
+    id: 'nsaid-allergy',
+    type: 'drug-allergy',
+    severity: 'major',
+    allergens: ['nsaid', 'nsaids', 'aspirin', 'ibuprofen', 'naproxen', 'advil', 'motrin', 'aleve', 'meloxicam', 'anti inflammatory'],
+    drugs: { name: 'NSAID or aspirin', ingredients: [...NSAIDS.ingredients, 'aspirin'] },
+    summary: 'NSAID with an aspirin/NSAID allergy',
+    guidance: 'People who react to one NSAID or aspirin often react to others. Avoid this medicine unless your prescriber has confirmed it is safe for you.',
+  },
+  {
+    id: 'sulfonamide-allergy-celecoxib',
+    type: 'drug-allergy',
+    severity: 'major',
+    allergens: ['sulfa', 'sulfas', 'sulfonamide', 'sulfonamides', 'sulfamethoxazole', 'bactrim', 'septra'],
+    drugs: { name: 'celecoxib', ingredients: ['celecoxib'] },
+    summary: 'Celecoxib with a sulfonamide allergy',
+    guidance: 'Celecoxib contains a sulfonamide group and its label warns against use with a sulfa allergy. Ask for an alternative.',
+  },
+  {
+    id: 'macrolide-allergy',
+    type: 'drug-allergy',
+    severity: 'major',
+    allergens: ['macrolide', 'macrolides', 'erythromycin', 'azithromycin', 'clarithromycin', 'zithromax', 'z pak', 'biaxin'],
+    drugs: MACROLIDES,
+    summary: 'Macrolide antibiotic with a macrolide allergy',
+    guidance: 'This antibiotic belongs to the same family as the one you reacted to. Ask your prescriber for an alternative.',
+  },
+  {
+    id: 'opioid-allergy',
+    type: 'drug-allergy',
+    severity: 'moderate',
+    allergens: ['opioid', 'opioids', 'opiate', 'opiates', 'codeine', 'morphine', 'oxycodone', 'hydrocodone', 'tramadol'],
+    drugs: OPIOIDS,
+    summary: 'Opioid with an opioid allergy or intolerance',
+    guidance: 'Reactions to one opioid (often itching or nausea rather than true allergy) may recur with others. Tell the prescriber what happened before.',
+  },
+];
+
+// Restrict the rules to the comma-separated IDs in NEXT_PUBLIC_INTERACTION_RULES, when it is set
+export function getEnabledInteractionRules(
+  rules: InteractionRule[] = DEFAULT_INTERACTION_RULES,
+  enabledIds: string | undefined = process.env.NEXT_PUBLIC_INTERACTION_RULES
+): InteractionRule[] {
+  if (!enabledIds || !enabledIds.trim()) {
+    return rules;
+  }
+
+  const ids = enabledIds.split(',').map(id => id.trim()).filter(Boolean);
+  return rules.filter(rule => ids.includes(rule.id));
+}
@@ -0,0 +1,69 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { consoleTransport, createResendTransport, getMailTransport } from './index';
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('getMailTransport', () => {
+  it('defaults to the console in development', () => {
+    vi.stubEnv('NODE_ENV', 'development');
+    vi.stubEnv('MAIL_TRANSPORT', '');
+    expect(getMailTransport()?.name).toBe('console');
+  });
+
+  it.each(['', 'console', 'file', 'unknown'])('refuses MAIL_TRANSPORT "%s" in production', (name) => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubEnv('NODE_ENV', 'production');
+    vi.stubEnv('MAIL_TRANSPORT', name);
+    expect(getMailTransport()).toBeNull();
+  });
+
+  it('uses Resend in production once it has an API key', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubEnv('NODE_ENV', 'production');
+    vi.stubEnv('MAIL_TRANSPORT', 'resend');
+    vi.stubEnv('RESEND_API_KEY', '');
+    expect(getMailTransport()).toBeNull();
+
+    vi.stubEnv('RESEND_API_KEY', 're_test');
+    expect(getMailTransport()?.name).toBe('resend');
+  });
+});
+
+describe('createResendTransport', () => {
+  it('posts the message and fails when Resend refuses it', async () => {
+    const fetch = vi.fn()
+      .mockResolvedValueOnce(new Response('{"id":"1"}', { status: 200 }))
+      .mockResolvedValueOnce(new Response('{"message":"invalid from"}', { status: 422 }));
+    vi.stubGlobal('fetch', fetch);
+    const transport = createResendTransport('re_test')!;
+    const message = { from: 'TalkWell <no-reply@talkwell.example.com>', to: 'pat@example.com', subject: 'Hi', text: 'Hello' };
+
+    await transport.send(message);
+    expect(fetch.mock.calls[0][0]).toBe('https://api.resend.com/emails');
+    expect(fetch.mock.calls[0][1].headers.Authorization).toBe('Bearer re_test');
+    expect(JSON.parse(fetch.mock.calls[0][1].body)).toEqual({ ...message, to: ['pat@example.com'] });
+
+    await expect(transport.send(message)).rejects.toThrow('Resend answered 422');
+  });
+});
+
+describe('consoleTransport', () => {
+  it('logs where links go but not their tokens', async () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    await consoleTransport.send({
+      from: 'TalkWell <no-reply@talkwell.local>',
+      to: 'pat@example.com',
+      subject: 'Reset your TalkWell password',
+      text: 'Open this link:\n\nhttps://talkwell.example.com/auth/reset-password?token=secret.jwt.value\n\nSee https://talkwell.example.com/help',
+    });
+
+    const printed = log.mock.calls[0][0] as string;
+    expect(printed).toContain('https://talkwell.example.com/auth/reset-password?[hidden]');
+    expect(printed).toContain('https://talkwell.example.com/help');
+    expect(printed).not.toContain('secret.jwt.value');
+  });
+});
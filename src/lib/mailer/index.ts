@@ -0,0 +1,132 @@
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+
+// Outgoing email behind a small transport interface. Development uses the console or file transport;
+// production uses a provider (Resend, or another entry in MAIL_TRANSPORTS), picked with MAIL_TRANSPORT.
+// In production nothing is sent until MAIL_TRANSPORT names a provider, since the development transports
+// would leave links in logs or on disk.
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  name: string;
+  // Refused when NODE_ENV is production
+  developmentOnly?: boolean;
+  send: (message: MailMessage & { from: string }) => Promise<void>;
+}
+
+const DEFAULT_FROM = 'TalkWell <no-reply@talkwell.local>';
+
+// Links carry single-use tokens in their query string; logs only ever show where a link goes
+const withoutLinkTokens = (text: string) =>
+  text.replace(/https?:\/\/\S+/g, (link) => {
+    try {
+      const url = new URL(link);
+      return url.search ? `${url.origin}${url.pathname}?[hidden]` : link;
+    } catch {
+      return '[link hidden]';
+    }
+  });
+
+// Prints each message to the server log with the tokens in its links hidden; use the file transport to follow them
+export const consoleTransport: MailTransport = {
+  name: 'console',
+  developmentOnly: true,
+  send: async (message) => {
+    console.log(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${withoutLinkTokens(message.text)}`);
+  },
+};
+
+// Writes each message as an .eml file (MAIL_FILE_DIR, default .mail/) that a mail client can open
+export function createFileTransport(directory = process.env.MAIL_FILE_DIR || '.mail'): MailTransport {
+  return {
+    name: 'file',
+    developmentOnly: true,
+    send: async (message) => {
+      await mkdir(directory, { recursive: true });
+      const slug = message.subject.toLowerCase().replace(/[^a-z0-9]+/g, '-').slice(0, 40);
+      const file = path.join(directory, `${Date.now()}-${slug}.eml`);
+      const headers = [
+        `From: ${message.from}`,
+        `To: ${message.to}`,
+        `Subject: ${message.subject}`,
+        `Date: ${new Date().toUTCString()}`,
+        'Content-Type: text/plain; charset=utf-8',
+      ];
+      await writeFile(file, `${headers.join('\r\n')}\r\n\r\n${message.text}\r\n`);
+      console.log(`[mail] ${message.subject} for ${message.to} written to ${file}`);
+    },
+  };
+}
+
+// Sends through the Resend HTTP API (https://resend.com) with RESEND_API_KEY; MAIL_FROM must be a verified sender
+export function createResendTransport(apiKey = process.env.RESEND_API_KEY): MailTransport | null {
+  if (!apiKey) {
+    console.error('RESEND_API_KEY is not set; emails are not being sent');
+    return null;
+  }
+
+  return {
+    name: 'resend',
+    send: async (message) => {
+      const response = await fetch('https://api.resend.com/emails', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ from: message.from, to: [message.to], subject: message.subject, text: message.text }),
+      });
+      if (!response.ok) {
+        throw new Error(`Resend answered ${response.status}: ${await response.text()}`);
+      }
+    },
+  };
+}
+
+export const MAIL_TRANSPORTS: Record<string, () => MailTransport | null> = {
+  console: () => consoleTransport,
+  file: () => createFileTransport(),
+  resend: () => createResendTransport(),
+};
+
+export function getMailTransport(): MailTransport | null {
+  const production = process.env.NODE_ENV === 'production';
+  const name = process.env.MAIL_TRANSPORT || (production ? null : 'console');
+  if (!name) {
+    console.error('MAIL_TRANSPORT is not set; emails are not being sent');
+    return null;
+  }
+
+  const factory = MAIL_TRANSPORTS[name];
+  if (!factory) {
+    console.error(`Unknown MAIL_TRANSPORT "${name}"; emails are not being sent`);
+    return null;
+  }
+
+  const transport = factory();
+  if (transport && production && transport.developmentOnly) {
+    console.error(`MAIL_TRANSPORT "${name}" is for development only; emails are not being sent`);
+    return null;
+  }
+  return transport;
+}
+
+// Send a message; false (and logged) when it could not be handed to the transport
+export async function sendMail(message: MailMessage, transport = getMailTransport()): Promise<boolean> {
+  if (!transport) {
+    return false;
+  }
+
+  try {
+    await transport.send({ ...message, from: process.env.MAIL_FROM || DEFAULT_FROM });
+    return true;
+  } catch (error) {
+    console.error(`Failed to send "${message.subject}" via ${transport.name}:`, error);
+    return false;
+  }
+}
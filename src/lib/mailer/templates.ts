@@ -0,0 +1,32 @@
+import { MailMessage } from './index';
+
+// Plain-text account emails. Links go to pages in this app and carry a single-use token.
+
+const greeting = (name: string | null) => `Hi ${name || 'there'},`;
+
+export const verificationEmail = (to: string, name: string | null, link: string, validHours: number): MailMessage => ({
+  to,
+  subject: 'Confirm your TalkWell email address',
+  text: [
+    greeting(name),
+    '',
+    'Please confirm this is your email address so you can start using TalkWell:',
+    link,
+    '',
+    `The link works once and expires in ${validHours} hours. If you didn't create a TalkWell account, you can ignore this email.`,
+  ].join('\n'),
+});
+
+export const passwordResetEmail = (to: string, name: string | null, link: string, validMinutes: number): MailMessage => ({
+  to,
+  subject: 'Reset your TalkWell password',
+  text: [
+    greeting(name),
+    '',
+    'Someone asked to reset the password for your TalkWell account. To choose a new password, open:',
+    link,
+    '',
+    `The link works once and expires in ${validMinutes} minutes. Resetting signs you out on every device.`,
+    "If you didn't ask for this, you can ignore this email; your password has not changed.",
+  ].join('\n'),
+});
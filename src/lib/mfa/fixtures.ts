@@ -0,0 +1,49 @@
+// Fixture corpus for the TOTP implementation, run by totp.test.ts against a fixed clock. The codes are the
+// RFC 6238 appendix B SHA-1 test vectors truncated to six digits; the secret is the ASCII string "12345678901234567890".
+
+export const RFC6238_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+export interface TotpFixture {
+  name: string;
+  now: Date;
+  code: string;
+  lastUsedStep?: number | null;
+  // Step verifyTotp should return, or null when the code must be refused
+  expectedStep: number | null;
+}
+
+export const TOTP_FIXTURES: TotpFixture[] = [
+  { name: 'RFC vector at 59s', now: new Date(59 * 1000), code: '287082', expectedStep: 1 },
+  { name: 'RFC vector at 1111111109s', now: new Date(1111111109 * 1000), code: '081804', expectedStep: 37037036 },
+  { name: 'RFC vector at 1111111111s', now: new Date(1111111111 * 1000), code: '050471', expectedStep: 37037037 },
+  { name: 'RFC vector at 1234567890s', now: new Date(1234567890 * 1000), code: '005924', expectedStep: 41152263 },
+  { name: 'RFC vector at 2000000000s', now: new Date(2000000000 * 1000), code: '279037', expectedStep: 66666666 },
+  { name: 'RFC vector at 20000000000s', now: new Date(20000000000 * 1000), code: '353130', expectedStep: 666666666 },
+  {
+    name: 'previous step is still accepted',
+    now: new Date((1111111109 + 30) * 1000),
+    code: '081804',
+    expectedStep: 37037036,
+  },
+  {
+    name: 'two steps late is refused',
+    now: new Date((1111111109 + 60) * 1000),
+    code: '081804',
+    expectedStep: null,
+  },
+  {
+    name: 'replayed code is refused',
+    now: new Date(1111111109 * 1000),
+    code: '081804',
+    lastUsedStep: 37037036,
+    expectedStep: null,
+  },
+  {
+    name: 'spaces are ignored',
+    now: new Date(1234567890 * 1000),
+    code: '005 924',
+    expectedStep: 41152263,
+  },
+  { name: 'wrong code', now: new Date(1234567890 * 1000), code: '005925', expectedStep: null },
+  { name: 'not six digits', now: new Date(1234567890 * 1000), code: '05924', expectedStep: null },
+];
@@ -0,0 +1,261 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { sign, verify } from 'jsonwebtoken';
+import QRCode from 'qrcode';
+import { db } from '@/db';
+import { users, mfaRecoveryCodes, User } from '@/db/schema';
+import { eq, and, isNull, lt, or, sql, count } from 'drizzle-orm';
+import { AuthFailure, accountRestriction, getAuthSecret } from '@/lib/auth-server';
+import { hashSecret } from '@/lib/smart/tokens';
+import { buildOtpauthUri, generateTotpSecret, verifyTotp } from './totp';
+
+// Server-only TOTP two-factor authentication: encrypted secrets, enrollment, one-time recovery codes
+// and the short-lived challenge token that links the two login steps
+
+export const MFA_ISSUER = 'TalkWell';
+export const RECOVERY_CODE_COUNT = 10;
+export const MFA_CHALLENGE_TTL_SECONDS = 5 * 60;
+// Wrong codes in a row before code checks are locked for MFA_LOCKOUT_SECONDS
+export const MFA_MAX_FAILED_ATTEMPTS = 5;
+export const MFA_LOCKOUT_SECONDS = 15 * 60;
+
+const NOT_CONFIGURED: AuthFailure = { error: 'Two-factor authentication is not configured', status: 500 };
+const INVALID_CODE: AuthFailure = { error: 'Invalid verification code', status: 401 };
+const MFA_LOCKED: AuthFailure = { error: 'Too many invalid codes, please try again later', status: 429 };
+
+// TOTP secrets are encrypted with MFA_ENCRYPTION_KEY (32 random bytes, base64). Without it 2FA can
+// neither be set up nor checked, rather than keeping the secrets in plain text.
+function getEncryptionKey(): Buffer | null {
+  const key = process.env.MFA_ENCRYPTION_KEY ? Buffer.from(process.env.MFA_ENCRYPTION_KEY, 'base64') : null;
+  if (!key || key.length !== 32) {
+    console.error('MFA_ENCRYPTION_KEY is not set to 32 base64-encoded bytes; two-factor authentication is unavailable');
+    return null;
+  }
+  return key;
+}
+
+// AES-256-GCM, stored as v1.<iv>.<tag>.<ciphertext>
+export function encryptTotpSecret(secret: string, key: Buffer): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  return ['v1', iv, cipher.getAuthTag(), ciphertext].map(part => typeof part === 'string' ? part : part.toString('base64url')).join('.');
+}
+
+export function decryptTotpSecret(payload: string, key: Buffer): string | null {
+  const [version, iv, tag, ciphertext] = payload.split('.');
+  if (version !== 'v1' || !iv || !tag || !ciphertext) {
+    return null;
+  }
+
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(iv, 'base64url'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64url')), decipher.final()]).toString('utf8');
+  } catch {
+    return null;
+  }
+}
+
+export const isMfaEnabled = (user: Pick<User, 'totpEnabledAt' | 'totpSecret'>) => !!user.totpEnabledAt && !!user.totpSecret;
+
+// Recovery codes look like "k7d2m-xq9fa"; case, spaces and dashes don't matter when they are typed back
+const RECOVERY_CODE_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789';
+
+const normaliseRecoveryCode = (code: string) => code.toLowerCase().replace(/[\s-]/g, '');
+
+export function generateRecoveryCodes(total = RECOVERY_CODE_COUNT): string[] {
+  return Array.from({ length: total }, () => {
+    const chars = Array.from(randomBytes(10), byte => RECOVERY_CODE_ALPHABET[byte % RECOVERY_CODE_ALPHABET.length]).join('');
+    return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+  });
+}
+
+const recoveryCodeRows = (userId: string, codes: string[]) =>
+  codes.map(code => ({ userId, codeHash: hashSecret(normaliseRecoveryCode(code)) }));
+
+export async function replaceRecoveryCodes(userId: string): Promise<string[]> {
+  const codes = generateRecoveryCodes();
+  await db.batch([
+    db.delete(mfaRecoveryCodes).where(eq(mfaRecoveryCodes.userId, userId)),
+    db.insert(mfaRecoveryCodes).values(recoveryCodeRows(userId, codes)),
+  ]);
+  return codes;
+}
+
+export async function countUnusedRecoveryCodes(userId: string): Promise<number> {
+  const result = await db
+    .select({ total: count() })
+    .from(mfaRecoveryCodes)
+    .where(and(eq(mfaRecoveryCodes.userId, userId), isNull(mfaRecoveryCodes.usedAt)));
+  return result[0]?.total ?? 0;
+}
+
+export interface TotpEnrollment {
+  secret: string;
+  otpauthUri: string;
+  qrCode: string; // PNG data URL of otpauthUri
+}
+
+// Store a new, not yet active secret. Setup can be restarted until a code has been confirmed.
+export async function beginTotpEnrollment(user: Pick<User, 'id' | 'email' | 'totpEnabledAt'>): Promise<TotpEnrollment | AuthFailure> {
+  if (user.totpEnabledAt) {
+    return { error: 'Two-factor authentication is already enabled', status: 409 };
+  }
+
+  const key = getEncryptionKey();
+  if (!key) {
+    return NOT_CONFIGURED;
+  }
+
+  const secret = generateTotpSecret();
+  await db
+    .update(users)
+    .set({ totpSecret: encryptTotpSecret(secret, key), totpEnabledAt: null, totpLastUsedStep: null, updatedAt: new Date() })
+    .where(eq(users.id, user.id));
+
+  const otpauthUri = buildOtpauthUri(secret, user.email, MFA_ISSUER);
+  return { secret, otpauthUri, qrCode: await QRCode.toDataURL(otpauthUri) };
+}
+
+// Turn 2FA on once the first code from the app checks out; returns the recovery codes, shown only this once
+export async function confirmTotpEnrollment(userId: string, code: string, now = new Date()): Promise<{ recoveryCodes: string[] } | AuthFailure> {
+  const key = getEncryptionKey();
+  if (!key) {
+    return NOT_CONFIGURED;
+  }
+
+  const found = await db.select().from(users).where(eq(users.id, userId)).limit(1);
+  const user = found[0];
+  if (!user?.totpSecret) {
+    return { error: 'Start two-factor setup first', status: 400 };
+  }
+  if (user.totpEnabledAt) {
+    return { error: 'Two-factor authentication is already enabled', status: 409 };
+  }
+
+  const secret = decryptTotpSecret(user.totpSecret, key);
+  const step = secret ? verifyTotp(secret, code, now) : null;
+  if (step === null) {
+    return INVALID_CODE;
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+  await db.batch([
+    db.update(users).set({ totpEnabledAt: now, totpLastUsedStep: step, mfaFailedAttempts: 0, updatedAt: now }).where(eq(users.id, userId)),
+    db.delete(mfaRecoveryCodes).where(eq(mfaRecoveryCodes.userId, userId)),
+    db.insert(mfaRecoveryCodes).values(recoveryCodeRows(userId, recoveryCodes)),
+  ]);
+  return { recoveryCodes };
+}
+
+export async function disableTotp(userId: string): Promise<void> {
+  await db.batch([
+    db.update(users)
+      .set({ totpSecret: null, totpEnabledAt: null, totpLastUsedStep: null, mfaFailedAttempts: 0, mfaLockedUntil: null, updatedAt: new Date() })
+      .where(eq(users.id, userId)),
+    db.delete(mfaRecoveryCodes).where(eq(mfaRecoveryCodes.userId, userId)),
+  ]);
+}
+
+// Count a wrong code; too many in a row stop codes being checked for a while. Only the code checks are locked,
+// not the account: someone who merely knows the password must not be able to sign the owner out of their devices.
+async function recordFailedAttempt(userId: string, now: Date): Promise<AuthFailure> {
+  const updated = await db
+    .update(users)
+    .set({ mfaFailedAttempts: sql`${users.mfaFailedAttempts} + 1` })
+    .where(eq(users.id, userId))
+    .returning({ mfaFailedAttempts: users.mfaFailedAttempts });
+
+  if ((updated[0]?.mfaFailedAttempts ?? 0) >= MFA_MAX_FAILED_ATTEMPTS) {
+    console.error(`Too many invalid two-factor codes for user ${userId}; locking two-factor verification`);
+    await db
+      .update(users)
+      .set({ mfaLockedUntil: new Date(now.getTime() + MFA_LOCKOUT_SECONDS * 1000), mfaFailedAttempts: 0 })
+      .where(eq(users.id, userId));
+    return MFA_LOCKED;
+  }
+  return INVALID_CODE;
+}
+
+// Check an authenticator code, or failing that a recovery code (which is then used up)
+export async function verifySecondFactor(userId: string, code: string, now = new Date()): Promise<{ method: 'totp' | 'recovery-code' } | AuthFailure> {
+  const found = await db.select().from(users).where(eq(users.id, userId)).limit(1);
+  const user = found[0];
+  if (!user) {
+    return { error: 'Unauthorized', status: 401 };
+  }
+
+  const restriction = accountRestriction(user);
+  if (restriction) {
+    return restriction;
+  }
+  if (!isMfaEnabled(user)) {
+    return { error: 'Two-factor authentication is not enabled', status: 400 };
+  }
+  if (user.mfaLockedUntil && user.mfaLockedUntil > now) {
+    return MFA_LOCKED;
+  }
+
+  const key = getEncryptionKey();
+  const secret = key ? decryptTotpSecret(user.totpSecret!, key) : null;
+  if (!secret) {
+    return NOT_CONFIGURED;
+  }
+
+  let method: 'totp' | 'recovery-code' | null = null;
+
+  const step = verifyTotp(secret, code, now, user.totpLastUsedStep);
+  if (step !== null) {
+    // Only the first request to present this code wins
+    const claimed = await db
+      .update(users)
+      .set({ totpLastUsedStep: step })
+      .where(and(eq(users.id, userId), or(isNull(users.totpLastUsedStep), lt(users.totpLastUsedStep, step))))
+      .returning({ id: users.id });
+    method = claimed.length > 0 ? 'totp' : null;
+  } else {
+    const used = await db
+      .update(mfaRecoveryCodes)
+      .set({ usedAt: now })
+      .where(and(
+        eq(mfaRecoveryCodes.userId, userId),
+        eq(mfaRecoveryCodes.codeHash, hashSecret(normaliseRecoveryCode(code))),
+        isNull(mfaRecoveryCodes.usedAt)
+      ))
+      .returning({ id: mfaRecoveryCodes.id });
+    method = used.length > 0 ? 'recovery-code' : null;
+  }
+
+  if (!method) {
+    return recordFailedAttempt(userId, now);
+  }
+
+  if (user.mfaFailedAttempts > 0) {
+    await db.update(users).set({ mfaFailedAttempts: 0 }).where(eq(users.id, userId));
+  }
+  return { method };
+}
+
+// Proof that the password step passed, exchanged with a code at /api/auth/login/mfa for a session
+export function signMfaChallenge(userId: string): string | null {
+  const secret = getAuthSecret();
+  if (!secret) {
+    return null;
+  }
+
+  return sign({ userId, purpose: 'mfa-login' }, secret, { expiresIn: MFA_CHALLENGE_TTL_SECONDS });
+}
+
+export function verifyMfaChallenge(token: string): string | null {
+  const secret = getAuthSecret();
+  if (!secret) {
+    return null;
+  }
+
+  try {
+    const decoded = verify(token, secret) as { userId: string; purpose?: string };
+    return decoded.purpose === 'mfa-login' ? decoded.userId : null;
+  } catch {
+    return null;
+  }
+}
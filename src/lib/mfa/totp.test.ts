@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { base32Decode, base32Encode, buildOtpauthUri, generateTotp, generateTotpSecret, verifyTotp } from './totp';
+import { RFC6238_SECRET, TOTP_FIXTURES } from './fixtures';
+
+describe('verifyTotp', () => {
+  it.each(TOTP_FIXTURES.map(fixture => [fixture.name, fixture] as const))('%s', (_, fixture) => {
+    expect(verifyTotp(RFC6238_SECRET, fixture.code, fixture.now, fixture.lastUsedStep ?? null)).toBe(fixture.expectedStep);
+  });
+
+  it('refuses codes for a malformed secret', () => {
+    expect(verifyTotp('not base32!', '287082', new Date(59 * 1000))).toBeNull();
+  });
+});
+
+describe('generateTotp', () => {
+  // RFC 6238 appendix B, SHA-1 column, at the full eight digits
+  it.each([
+    [59, '94287082'],
+    [1111111109, '07081804'],
+    [1111111111, '14050471'],
+    [1234567890, '89005924'],
+    [2000000000, '69279037'],
+    [20000000000, '65353130'],
+  ])('matches the RFC vector at %ss', (seconds, code) => {
+    expect(generateTotp(RFC6238_SECRET, new Date(seconds * 1000), 8)).toBe(code);
+  });
+});
+
+describe('base32', () => {
+  it('decodes the RFC secret', () => {
+    expect(base32Decode(RFC6238_SECRET)?.toString('ascii')).toBe('12345678901234567890');
+  });
+
+  it('round-trips a generated secret', () => {
+    const secret = generateTotpSecret();
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(base32Encode(base32Decode(secret)!)).toBe(secret);
+  });
+
+  it('ignores case, spaces and dashes', () => {
+    expect(base32Decode('gezd gnbv-gy3t')?.equals(base32Decode('GEZDGNBVGY3T')!)).toBe(true);
+  });
+});
+
+describe('buildOtpauthUri', () => {
+  it('labels the secret with the issuer and account', () => {
+    const uri = new URL(buildOtpauthUri(RFC6238_SECRET, 'jane@example.com', 'TalkWell'));
+    expect(`${uri.protocol}//${uri.host}`).toBe('otpauth://totp');
+    expect(decodeURIComponent(uri.pathname)).toBe('/TalkWell:jane@example.com');
+    expect(uri.searchParams.get('secret')).toBe(RFC6238_SECRET);
+    expect(uri.searchParams.get('issuer')).toBe('TalkWell');
+  });
+});
@@ -0,0 +1,109 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+// RFC 6238 time-based one-time passwords (HMAC-SHA1, 6 digits, 30-second steps), the defaults every
+// authenticator app supports. Everything takes the current time as a parameter so it can be checked
+// against a fixed clock.
+
+export const TOTP_DIGITS = 6;
+export const TOTP_PERIOD_SECONDS = 30;
+// Codes from one step either side are accepted, to allow for clock drift and slow typing
+export const TOTP_WINDOW = 1;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export function base32Encode(bytes: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+export function base32Decode(encoded: string): Buffer | null {
+  const cleaned = encoded.toUpperCase().replace(/[\s=-]/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      return null;
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+// 160-bit secret, the size RFC 4226 recommends for HMAC-SHA1
+export const generateTotpSecret = () => base32Encode(randomBytes(20));
+
+export const totpStep = (now: Date) => Math.floor(now.getTime() / 1000 / TOTP_PERIOD_SECONDS);
+
+// RFC 4226 HOTP with dynamic truncation
+export function generateHotp(secret: Buffer, counter: number, digits = TOTP_DIGITS): string {
+  const message = Buffer.alloc(8);
+  message.writeUInt32BE(Math.floor(counter / 0x100000000), 0);
+  message.writeUInt32BE(counter % 0x100000000, 4);
+
+  const digest = createHmac('sha1', secret).update(message).digest();
+  const offset = digest[digest.length - 1] & 0x0f;
+  const binary = (digest.readUInt32BE(offset) & 0x7fffffff) % 10 ** digits;
+  return binary.toString().padStart(digits, '0');
+}
+
+export function generateTotp(secret: string, now: Date, digits = TOTP_DIGITS): string | null {
+  const key = base32Decode(secret);
+  return key ? generateHotp(key, totpStep(now), digits) : null;
+}
+
+// The time step the code belongs to, or null if it matches none in the window. Steps at or before
+// lastUsedStep are refused, so a code cannot be replayed.
+export function verifyTotp(secret: string, code: string, now: Date, lastUsedStep: number | null = null): number | null {
+  const key = base32Decode(secret);
+  const candidate = code.replace(/\s/g, '');
+  if (!key || !new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(candidate)) {
+    return null;
+  }
+
+  const current = totpStep(now);
+  for (let step = current - TOTP_WINDOW; step <= current + TOTP_WINDOW; step++) {
+    if (lastUsedStep !== null && step <= lastUsedStep) {
+      continue;
+    }
+    const expected = Buffer.from(generateHotp(key, step));
+    if (timingSafeEqual(expected, Buffer.from(candidate))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+// Key URI format understood by authenticator apps (and rendered as the enrollment QR code)
+export function buildOtpauthUri(secret: string, accountName: string, issuer: string): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
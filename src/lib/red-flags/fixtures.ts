@@ -0,0 +1,121 @@
+import { RedFlagMatch, RedFlagTurn } from './index';
+
+// Fixture corpus for the red-flag engine, run by index.test.ts: the flags each transcript should raise, in order.
+// Include near-misses as well as emergencies so loosened rules show up as false positives here.
+
+export interface RedFlagFixture {
+  name: string;
+  turns: RedFlagTurn[];
+  expected: Pick<RedFlagMatch, 'ruleId' | 'category' | 'hotline'>[];
+}
+
+export const RED_FLAG_FIXTURES: RedFlagFixture[] = [
+  {
+    name: 'chest pain radiating to the arm',
+    turns: [
+      { role: 'assistant', text: 'What is bothering you today?' },
+      { role: 'user', text: 'I have this pressure in my chest and it is spreading down my left arm.' },
+    ],
+    expected: [
+      { ruleId: 'cardiac-chest-pain', category: 'cardiac', hotline: '911' },
+    ],
+  },
+  {
+    name: 'chest pain with sweating described across turns',
+    turns: [
+      { role: 'user', text: 'My chest pain started an hour ago.' },
+      { role: 'assistant', text: 'Are you having any other symptoms?' },
+      { role: 'user', text: 'I am sweating a lot and feel nauseous.' },
+    ],
+    expected: [
+      { ruleId: 'cardiac-chest-pain', category: 'cardiac', hotline: '911' },
+    ],
+  },
+  {
+    name: 'chest pain without warning signs',
+    turns: [
+      { role: 'user', text: 'I have some chest pain when I press on my ribs after a fall.' },
+      { role: 'assistant', text: 'Any shortness of breath or pain spreading to your arm?' },
+      { role: 'user', text: 'No, no shortness of breath.' },
+    ],
+    expected: [],
+  },
+  {
+    name: 'stroke signs',
+    turns: [
+      { role: 'user', text: 'My husband says my face is drooping on one side and my words are slurred.' },
+    ],
+    expected: [
+      { ruleId: 'stroke-fast', category: 'stroke', hotline: '911' },
+    ],
+  },
+  {
+    name: 'suicidal ideation',
+    turns: [
+      { role: 'assistant', text: 'How has your mood been lately?' },
+      { role: 'user', text: 'Honestly I feel like everyone would be better off without me. Sometimes I want to die.' },
+    ],
+    expected: [
+      { ruleId: 'suicidal-ideation', category: 'mental-health', hotline: '988' },
+    ],
+  },
+  {
+    name: 'denied suicidal thoughts still show 988',
+    turns: [
+      { role: 'assistant', text: 'Have you had any thoughts of hurting yourself?' },
+      { role: 'user', text: 'No, I am not suicidal, just tired.' },
+    ],
+    expected: [
+      { ruleId: 'suicidal-ideation', category: 'mental-health', hotline: '988' },
+    ],
+  },
+  {
+    name: 'anaphylaxis after a sting',
+    turns: [
+      { role: 'user', text: 'I got stung by a bee twenty minutes ago.' },
+      { role: 'assistant', text: 'How are you feeling now?' },
+      { role: 'user', text: 'It is getting hard to breathe and I am wheezing.' },
+    ],
+    expected: [
+      { ruleId: 'anaphylaxis', category: 'anaphylaxis', hotline: '911' },
+    ],
+  },
+  {
+    name: 'mild seasonal allergy',
+    turns: [
+      { role: 'user', text: 'My allergies are acting up, I have a runny nose and itchy eyes.' },
+      { role: 'assistant', text: 'Any trouble breathing?' },
+      { role: 'user', text: 'No trouble breathing at all.' },
+    ],
+    expected: [],
+  },
+  {
+    name: 'bleeding that will not stop',
+    turns: [
+      { role: 'user', text: 'I cut my hand in the kitchen and the bleeding will not stop, it is soaking through the towel.' },
+    ],
+    expected: [
+      { ruleId: 'severe-bleeding', category: 'bleeding', hotline: '911' },
+    ],
+  },
+  {
+    name: 'multiple emergencies keep their order',
+    turns: [
+      { role: 'user', text: 'I am coughing up blood.' },
+      { role: 'assistant', text: 'That can be serious. Anything else?' },
+      { role: 'user', text: 'And I cannot lift my right arm.' },
+    ],
+    expected: [
+      { ruleId: 'severe-bleeding', category: 'bleeding', hotline: '911' },
+      { ruleId: 'stroke-fast', category: 'stroke', hotline: '911' },
+    ],
+  },
+  {
+    name: 'routine consultation',
+    turns: [
+      { role: 'user', text: 'I have had a mild headache for two days.' },
+      { role: 'assistant', text: 'I recommend rest and fluids.' },
+    ],
+    expected: [],
+  },
+];
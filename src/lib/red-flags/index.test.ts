@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { detectRedFlags } from './index';
+import { DEFAULT_RED_FLAG_RULES, RED_FLAG_WINDOW_TURNS, getEnabledRedFlagRules } from './rules';
+import { RED_FLAG_FIXTURES } from './fixtures';
+
+describe('detectRedFlags', () => {
+  it.each(RED_FLAG_FIXTURES.map(fixture => [fixture.name, fixture] as const))('%s', (_, fixture) => {
+    const flags = detectRedFlags(fixture.turns);
+    expect(flags.map(({ ruleId, category, hotline }) => ({ ruleId, category, hotline }))).toEqual(fixture.expected);
+  });
+
+  it('points at the patient turn that completed the match', () => {
+    const [flag] = detectRedFlags([
+      { role: 'user', text: 'My chest pain started an hour ago.', offsetMs: 1000 },
+      { role: 'assistant', text: 'Are you having any other symptoms?', offsetMs: 4000 },
+      { role: 'user', text: 'I am sweating a lot.', offsetMs: 9000 },
+    ]);
+    expect(flag).toMatchObject({ turnIndex: 2, offsetMs: 9000, matchedText: 'sweating' });
+  });
+
+  it('ignores what the assistant says', () => {
+    expect(detectRedFlags([{ role: 'assistant', text: 'If you ever feel suicidal, call 988.' }])).toEqual([]);
+  });
+
+  it('only combines trigger parts within the turn window', () => {
+    const filler = Array.from({ length: RED_FLAG_WINDOW_TURNS }, () => ({ role: 'user' as const, text: 'Okay.' }));
+    const flags = detectRedFlags([
+      { role: 'user', text: 'My chest pain started an hour ago.' },
+      ...filler,
+      { role: 'user', text: 'I am sweating a lot.' },
+    ]);
+    expect(flags).toEqual([]);
+  });
+
+  it('reports each rule once', () => {
+    const flags = detectRedFlags([
+      { role: 'user', text: 'My speech is slurred.' },
+      { role: 'user', text: 'And my face is drooping.' },
+    ]);
+    expect(flags.map(flag => flag.ruleId)).toEqual(['stroke-fast']);
+  });
+});
+
+describe('getEnabledRedFlagRules', () => {
+  it('keeps every rule when no IDs are configured', () => {
+    expect(getEnabledRedFlagRules(DEFAULT_RED_FLAG_RULES, undefined)).toBe(DEFAULT_RED_FLAG_RULES);
+    expect(getEnabledRedFlagRules(DEFAULT_RED_FLAG_RULES, ' ')).toBe(DEFAULT_RED_FLAG_RULES);
+  });
+
+  it('restricts detection to the configured rules', () => {
+    const rules = getEnabledRedFlagRules(DEFAULT_RED_FLAG_RULES, 'stroke-fast, severe-bleeding');
+    expect(rules.map(rule => rule.id)).toEqual(['stroke-fast', 'severe-bleeding']);
+    expect(detectRedFlags([{ role: 'user', text: 'I want to die.' }], rules)).toEqual([]);
+  });
+});
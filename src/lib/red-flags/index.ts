@@ -0,0 +1,100 @@
+import { NEGATION_PATTERN, CLAUSE_BOUNDARY_PATTERN } from '@/lib/summary-extraction/rules';
+import {
+  DEFAULT_RED_FLAG_RULES,
+  RED_FLAG_WINDOW_TURNS,
+  RedFlagRule,
+  RedFlagCategory,
+  RedFlagHotline,
+} from './rules';
+
+// Red-flag engine: scans the patient's side of a transcript for emergencies.
+// Shared by the live call UI and the VAPI webhook, so it must stay free of client-only or server-only dependencies.
+
+export interface RedFlagTurn {
+  role: 'user' | 'assistant';
+  text: string;
+  offsetMs?: number;
+}
+
+export interface RedFlagMatch {
+  ruleId: string;
+  name: string;
+  category: RedFlagCategory;
+  hotline: RedFlagHotline;
+  guidance: string;
+  assistantInstruction: string;
+  // Patient text that completed the match
+  matchedText: string;
+  // Index (into the scanned turns) of the patient turn that completed the match
+  turnIndex: number;
+  offsetMs?: number;
+}
+
+const isNegated = (text: string, matchIndex: number): boolean => {
+  const clause = text.slice(0, matchIndex).split(CLAUSE_BOUNDARY_PATTERN).pop() || '';
+  return NEGATION_PATTERN.test(clause);
+};
+
+// First non-negated match of a pattern in a turn
+const findMatch = (text: string, pattern: RegExp, negatable: boolean): string | null => {
+  const globalPattern = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`);
+  for (const match of Array.from(text.matchAll(globalPattern))) {
+    if (!negatable || !isNegated(text, match.index ?? 0)) {
+      return match[0];
+    }
+  }
+  return null;
+};
+
+// Check one rule against a window of patient turns ending at the newest one.
+// The newest turn must take part in the match, so each emergency is reported once, when it is first described.
+const matchRule = (rule: RedFlagRule, window: { text: string }[]): string | null => {
+  const negatable = rule.negatable !== false;
+  const newest = window[window.length - 1];
+
+  for (const trigger of rule.triggers) {
+    const matches = trigger.map(pattern => ({
+      inNewest: findMatch(newest.text, pattern, negatable),
+      inWindow: window.some(turn => findMatch(turn.text, pattern, negatable) !== null),
+    }));
+
+    if (matches.every(match => match.inWindow) && matches.some(match => match.inNewest)) {
+      return matches.map(match => match.inNewest).filter(Boolean).join(' … ');
+    }
+  }
+
+  return null;
+};
+
+// Scan every patient turn and return the first match of each rule, in the order they occurred
+export function detectRedFlags(turns: RedFlagTurn[], rules: RedFlagRule[] = DEFAULT_RED_FLAG_RULES): RedFlagMatch[] {
+  const matches: RedFlagMatch[] = [];
+  const userTurns = turns
+    .map((turn, turnIndex) => ({ ...turn, turnIndex }))
+    .filter(turn => turn.role === 'user' && turn.text.trim());
+
+  userTurns.forEach((turn, position) => {
+    const window = userTurns.slice(Math.max(0, position - RED_FLAG_WINDOW_TURNS + 1), position + 1);
+
+    for (const rule of rules) {
+      if (matches.some(match => match.ruleId === rule.id)) continue;
+
+      const matchedText = matchRule(rule, window);
+      if (matchedText) {
+        matches.push({
+          ruleId: rule.id,
+          name: rule.name,
+          category: rule.category,
+          hotline: rule.hotline,
+          guidance: rule.guidance,
+          assistantInstruction: rule.assistantInstruction,
+          matchedText,
+          turnIndex: turn.turnIndex,
+          offsetMs: turn.offsetMs,
+        });
+      }
+    }
+  });
+
+  return matches;
+}
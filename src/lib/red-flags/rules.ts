@@ -0,0 +1,107 @@
+// Emergency red-flag rules checked against what the patient says during a live call.
+// Rules are plain data so they can be reviewed, extended or switched off (NEXT_PUBLIC_RED_FLAG_RULES)
+// without touching the engine.
+
+export type RedFlagCategory = 'cardiac' | 'stroke' | 'mental-health' | 'anaphylaxis' | 'bleeding';
+export type RedFlagHotline = '911' | '988';
+
+export interface RedFlagRule {
+  id: string;
+  name: string;
+  category: RedFlagCategory;
+  hotline: RedFlagHotline;
+  // Shown to the patient in the emergency banner
+  guidance: string;
+  // Sent to the assistant as a system message when instruction injection is enabled
+  assistantInstruction: string;
+  // The rule matches when every pattern of any one trigger is found in the recent patient turns
+  triggers: RegExp[][];
+  // Whether "no" / "not" before a match cancels it. Off for rules where a false alarm is the safer mistake.
+  negatable?: boolean;
+}
+
+// Number of most recent patient turns a multi-part trigger may be spread across
+export const RED_FLAG_WINDOW_TURNS = 3;
+
+const CHEST_PAIN = /\bchest (?:pain|pains|tightness|pressure|discomfort)\b|\b(?:pain|tightness|pressure|squeezing|crushing|heaviness) (?:in|on|across) (?:my|the) chest\b|\bheart attack\b/i;
+const CARDIAC_ASSOCIATED = /\b(?:spread(?:s|ing)?|radiat(?:es|ing)|goes|going|moving|travel(?:s|ing|ling)?|shoot(?:s|ing)?)\s+(?:down |up |into |to |through )?(?:my |the )?(?:left |right )?(?:arm|jaw|neck|back|shoulder)s?\b|\b(?:arm|jaw) (?:pain|hurts|is numb|numbness)\b|\bsweat(?:y|ing)\b|\bclammy\b|\bshort(?:ness)? of breath\b|\bcan(?:'|no)?t (?:catch my )?breathe?\b|\bnause(?:a|ous)\b|\blight ?headed\b/i;
+
+const FACE_DROOP = /\b(?:face|mouth|smile|lip) (?:is |looks |feels )?(?:droop(?:ing|y|s)?|uneven|lopsided|crooked)\b|\bdroop(?:ing|y) (?:face|mouth|smile)\b/i;
+const ONE_SIDED_WEAKNESS = /\b(?:one|left|right) side of (?:my|the|his|her) (?:body|face)\b.*\b(?:weak|numb|paraly[sz]ed|dead|limp)\b|\b(?:weak|numb)(?:ness)? (?:on|in|down) (?:one|my left|my right|the left|the right|his left|his right|her left|her right) side\b|\bcan(?:'|no)?t (?:lift|raise|move|feel) (?:my |his |her )?(?:left |right )?(?:arm|leg)\b/i;
+const SPEECH_DIFFICULTY = /\bslurr(?:ed|ing)\b|\bspeech is (?:slurred|garbled|weird)\b|\bcan(?:'|no)?t (?:speak|talk properly|get (?:my |the )?words out|find (?:my|the) words)\b/i;
+const OTHER_STROKE_SIGNS = /\bworst headache of my life\b|\bsudden(?:ly)? (?:lost|loss of|can(?:'|no)?t see out of) (?:my )?(?:vision|sight|one eye)\b/i;
+
+const SUICIDAL_IDEATION = /\b(?:kill(?:ing)? myself|suicid(?:e|al)|end(?:ing)? (?:my life|it all)|take my (?:own )?life|(?:don't|do not) want to (?:live|be alive|be here|wake up)|better off dead|want(?:ed)? to die|hurt(?:ing)? myself|self[- ]harm(?:ing)?|no reason to (?:live|go on))\b/i;
+
+const ANAPHYLAXIS = /\banaphyla(?:xis|ctic)\b|\b(?:used|needed|using) (?:my |an )?epi-?pen\b/i;
+const AIRWAY_SWELLING = /\b(?:throat|tongue|lips?) (?:is |are |feels |feel |keeps )?(?:swelling|swollen|closing|closing up|tight(?:ening)?)\b|\bthroat (?:is )?closing\b/i;
+const ALLERGEN_EXPOSURE = /\ballergic\b|\ballerg(?:y|ies)\b|\b(?:bee|wasp) sting\b|\bstung\b|\bpeanuts?\b|\btree nuts?\b|\bshellfish\b/i;
+const SYSTEMIC_REACTION = /\b(?:hard to|trouble|difficulty|can(?:'|no)?t) (?:breathe|breathing|swallow(?:ing)?)\b|\bwheez(?:e|ing)\b|\bhives (?:all over|everywhere)\b|\b(?:dizzy|faint|passing out)\b/i;
+
+const SEVERE_BLEEDING = /\bbleeding (?:won't|will not|doesn't|does not|isn't|is not|hasn't) stop(?:ping|ped)?\b|\bcan(?:'|no)?t (?:get (?:it|the bleeding) to )?stop (?:the )?bleeding\b|\b(?:soak(?:ing|ed)?) (?:through )?(?:a |the |my )?(?:towel|bandage|pad|pads|shirt)\b|\b(?:spurting|gushing|pouring) blood\b|\bblood (?:is )?(?:spurting|gushing|pouring)\b|\b(?:vomit(?:ing|ed)?|throwing up|threw up|coughing up|cough(?:ed)? up) blood\b/i;
+
+export const DEFAULT_RED_FLAG_RULES: RedFlagRule[] = [
+  {
+    id: 'cardiac-chest-pain',
+    name: 'Chest pain with cardiac warning signs',
+    category: 'cardiac',
+    hotline: '911',
+    guidance: 'Chest pain that spreads to the arm, jaw, neck or back, or comes with sweating or shortness of breath, can be a heart attack. Call 911 now. Do not drive yourself.',
+    assistantInstruction: 'The patient has described chest pain with cardiac warning signs. Stop the consultation, tell them clearly to call 911 immediately and not to drive themselves, and keep your remaining responses short.',
+    triggers: [[CHEST_PAIN, CARDIAC_ASSOCIATED]],
+  },
+  {
+    id: 'stroke-fast',
+    name: 'Possible stroke (FAST signs)',
+    category: 'stroke',
+    hotline: '911',
+    guidance: 'Face drooping, arm or leg weakness on one side, or slurred speech can be signs of a stroke. Call 911 now and note the time symptoms started.',
+    assistantInstruction: 'The patient has described possible stroke (FAST) signs. Tell them to call 911 immediately and to note the time the symptoms started. Do not continue the routine consultation.',
+    triggers: [[FACE_DROOP], [ONE_SIDED_WEAKNESS], [SPEECH_DIFFICULTY], [OTHER_STROKE_SIGNS]],
+  },
+  {
+    id: 'suicidal-ideation',
+    name: 'Thoughts of suicide or self-harm',
+    category: 'mental-health',
+    hotline: '988',
+    guidance: 'You are not alone. Call or text 988 to reach the Suicide & Crisis Lifeline any time. If you are in immediate danger, call 911.',
+    assistantInstruction: 'The patient has mentioned thoughts of suicide or self-harm. Respond with empathy, do not judge, encourage them to call or text 988 (Suicide & Crisis Lifeline) now, and to call 911 if they are in immediate danger. Ask whether they are safe right now.',
+    triggers: [[SUICIDAL_IDEATION]],
+    // "I'm not suicidal, but..." is still worth a 988 reminder
+    negatable: false,
+  },
+  {
+    id: 'anaphylaxis',
+    name: 'Possible severe allergic reaction (anaphylaxis)',
+    category: 'anaphylaxis',
+    hotline: '911',
+    guidance: 'Swelling of the throat, tongue or lips, or trouble breathing after an allergen, can be anaphylaxis. Use your epinephrine auto-injector if you have one and call 911 now.',
+    assistantInstruction: 'The patient may be having anaphylaxis. Tell them to use an epinephrine auto-injector if they have one and call 911 immediately. Keep responses short.',
+    triggers: [[ANAPHYLAXIS], [AIRWAY_SWELLING], [ALLERGEN_EXPOSURE, SYSTEMIC_REACTION]],
+  },
+  {
+    id: 'severe-bleeding',
+    name: 'Severe bleeding',
+    category: 'bleeding',
+    hotline: '911',
+    guidance: 'Bleeding that will not stop or soaks through bandages needs emergency care. Apply firm, direct pressure and call 911 now.',
+    assistantInstruction: 'The patient has described severe bleeding. Tell them to apply firm direct pressure to the wound and call 911 immediately.',
+    triggers: [[SEVERE_BLEEDING]],
+  },
+];
+
+// Restrict the rules to the comma-separated IDs in NEXT_PUBLIC_RED_FLAG_RULES, when it is set
+export function getEnabledRedFlagRules(
+  rules: RedFlagRule[] = DEFAULT_RED_FLAG_RULES,
+  enabledIds: string | undefined = process.env.NEXT_PUBLIC_RED_FLAG_RULES
+): RedFlagRule[] {
+  if (!enabledIds || !enabledIds.trim()) {
+    return rules;
+  }
+
+  const ids = enabledIds.split(',').map(id => id.trim()).filter(Boolean);
+  return rules.filter(rule => ids.includes(rule.id));
+}
+
+// Instruction injection can be switched off with NEXT_PUBLIC_RED_FLAG_ASSISTANT_INSTRUCTIONS=false
+export const RED_FLAG_ASSISTANT_INSTRUCTIONS_ENABLED = process.env.NEXT_PUBLIC_RED_FLAG_ASSISTANT_INSTRUCTIONS !== 'false';
@@ -0,0 +1,190 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { sessions, Session } from '@/db/schema';
+import { eq, and, isNull, gt, desc } from 'drizzle-orm';
+import { generateSecret, hashSecret, secretMatches } from '@/lib/smart/tokens';
+import { isResourceId } from '@/lib/fhir/common';
+
+// Server-only login sessions: rotating refresh tokens and the HttpOnly cookies that carry them
+
+export const ACCESS_COOKIE = 'talkwell_access';
+export const REFRESH_COOKIE = 'talkwell_refresh';
+
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+export const SESSION_TTL_SECONDS = 30 * 24 * 60 * 60;
+// How long a just-replaced refresh token is tolerated, for refreshes racing each other across tabs. It earns
+// nothing in that time (the racing request already set the new cookies), it just doesn't count as reuse.
+export const ROTATION_GRACE_SECONDS = 30;
+
+// The refresh cookie is only sent to the auth endpoints
+const REFRESH_COOKIE_PATH = '/api/auth';
+
+export interface SessionTokens {
+  session: Session;
+  refreshToken: string;
+}
+
+export interface SessionFailure {
+  error: string;
+  status: number;
+}
+
+const INVALID_SESSION: SessionFailure = { error: 'Invalid session', status: 401 };
+// The browser should keep the cookies a racing refresh has just set
+export const ALREADY_REFRESHED: SessionFailure = { error: 'Session was already refreshed', status: 409 };
+
+// Clients can write anything at the front of X-Forwarded-For; only the entries our own proxies appended are
+// trusted. TRUSTED_PROXY_HOPS (default 1) counts them, and the rightmost of those names the client. Without the
+// header, X-Real-IP as the platform sets it.
+export function clientIp(request: NextRequest): string | null {
+  const hops = Math.max(1, Number.parseInt(process.env.TRUSTED_PROXY_HOPS || '1', 10) || 1);
+  const forwarded = (request.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean);
+  if (forwarded.length > 0) {
+    return forwarded[Math.max(0, forwarded.length - hops)];
+  }
+  return request.headers.get('x-real-ip')?.trim() || null;
+}
+
+const toRefreshToken = (sessionId: string, secret: string) => `${sessionId}.${secret}`;
+
+const parseRefreshToken = (token: string) => {
+  const separator = token.indexOf('.');
+  return separator > 0
+    ? { sessionId: token.slice(0, separator), secret: token.slice(separator + 1) }
+    : null;
+};
+
+export async function createSession(userId: string, request: NextRequest): Promise<SessionTokens> {
+  const secret = generateSecret();
+  const created = await db
+    .insert(sessions)
+    .values({
+      userId,
+      refreshTokenHash: hashSecret(secret),
+      userAgent: request.headers.get('user-agent')?.slice(0, 500) || null,
+      ipAddress: clientIp(request),
+      expiresAt: new Date(Date.now() + SESSION_TTL_SECONDS * 1000),
+    })
+    .returning();
+
+  return { session: created[0], refreshToken: toRefreshToken(created[0].id, secret) };
+}
+
+export async function revokeSession(sessionId: string, reason: string): Promise<void> {
+  await db
+    .update(sessions)
+    .set({ revokedAt: new Date(), revokedReason: reason })
+    .where(and(eq(sessions.id, sessionId), isNull(sessions.revokedAt)));
+}
+
+// Sign out one of the user's devices; false when the session is not theirs, already ended or not a session ID at all
+export async function revokeUserSession(userId: string, sessionId: string, reason: string): Promise<boolean> {
+  if (!isResourceId(sessionId)) {
+    return false;
+  }
+
+  const revoked = await db
+    .update(sessions)
+    .set({ revokedAt: new Date(), revokedReason: reason })
+    .where(and(eq(sessions.id, sessionId), eq(sessions.userId, userId), isNull(sessions.revokedAt)))
+    .returning({ id: sessions.id });
+  return revoked.length > 0;
+}
+
+// Sign out everywhere
+export async function revokeUserSessions(userId: string, reason: string): Promise<number> {
+  const revoked = await db
+    .update(sessions)
+    .set({ revokedAt: new Date(), revokedReason: reason })
+    .where(and(eq(sessions.userId, userId), isNull(sessions.revokedAt)))
+    .returning({ id: sessions.id });
+  return revoked.length;
+}
+
+export async function listActiveSessions(userId: string): Promise<Session[]> {
+  return db
+    .select()
+    .from(sessions)
+    .where(and(eq(sessions.userId, userId), isNull(sessions.revokedAt), gt(sessions.expiresAt, new Date())))
+    .orderBy(desc(sessions.lastUsedAt));
+}
+
+// Look up the session a refresh token belongs to, whether or not the token is still the current one
+export async function findSessionForRefreshToken(token: string): Promise<Session | null> {
+  const parsed = parseRefreshToken(token);
+  if (!parsed || !isResourceId(parsed.sessionId)) {
+    return null;
+  }
+
+  const found = await db.select().from(sessions).where(eq(sessions.id, parsed.sessionId)).limit(1);
+  return found[0] ?? null;
+}
+
+// Exchange a refresh token for a new one. A token that was already replaced (outside the grace window)
+// has been used twice, so the whole session is revoked and both holders have to sign in again.
+export async function rotateSession(token: string, request: NextRequest): Promise<SessionTokens | SessionFailure> {
+  const parsed = parseRefreshToken(token);
+  const session = await findSessionForRefreshToken(token);
+  if (!parsed || !session || session.revokedAt || session.expiresAt <= new Date()) {
+    return INVALID_SESSION;
+  }
+
+  const now = new Date();
+
+  if (secretMatches(parsed.secret, session.refreshTokenHash)) {
+    const secret = generateSecret();
+    const rotated = await db
+      .update(sessions)
+      .set({
+        refreshTokenHash: hashSecret(secret),
+        previousRefreshTokenHash: session.refreshTokenHash,
+        rotatedAt: now,
+        lastUsedAt: now,
+        ipAddress: clientIp(request),
+      })
+      // Only if nobody rotated it since we read it
+      .where(and(eq(sessions.id, session.id), eq(sessions.refreshTokenHash, session.refreshTokenHash)))
+      .returning();
+
+    if (rotated.length > 0) {
+      return { session: rotated[0], refreshToken: toRefreshToken(session.id, secret) };
+    }
+    // Lost the race to a parallel refresh of the same token
+    return ALREADY_REFRESHED;
+  }
+
+  const withinGrace = session.rotatedAt
+    && now.getTime() - session.rotatedAt.getTime() < ROTATION_GRACE_SECONDS * 1000;
+  if (session.previousRefreshTokenHash && withinGrace && secretMatches(parsed.secret, session.previousRefreshTokenHash)) {
+    return ALREADY_REFRESHED;
+  }
+
+  console.error(`Refresh token reuse detected for session ${session.id}; revoking it`);
+  await revokeSession(session.id, 'refresh-token-reuse');
+  return INVALID_SESSION;
+}
+
+const cookieOptions = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'strict' as const,
+};
+
+export function setSessionCookies(response: NextResponse, accessToken: string, tokens: SessionTokens): NextResponse {
+  response.cookies.set(ACCESS_COOKIE, accessToken, { ...cookieOptions, path: '/', maxAge: ACCESS_TOKEN_TTL_SECONDS });
+  response.cookies.set(REFRESH_COOKIE, tokens.refreshToken, {
+    ...cookieOptions,
+    path: REFRESH_COOKIE_PATH,
+    maxAge: Math.max(0, Math.floor((tokens.session.expiresAt.getTime() - Date.now()) / 1000)),
+  });
+  return response;
+}
+
+export function clearSessionCookies(response: NextResponse): NextResponse {
+  response.cookies.set(ACCESS_COOKIE, '', { ...cookieOptions, path: '/', maxAge: 0 });
+  response.cookies.set(REFRESH_COOKIE, '', { ...cookieOptions, path: REFRESH_COOKIE_PATH, maxAge: 0 });
+  return response;
+}
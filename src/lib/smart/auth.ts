@@ -0,0 +1,49 @@
+import { NextRequest } from 'next/server';
+import { db } from '@/db';
+import { oauthAccessTokens } from '@/db/schema';
+import { eq, and, isNull, gt } from 'drizzle-orm';
+import { authenticateToken, getRequestToken, isEmailVerified, loadActiveUser } from '@/lib/auth-server';
+import { ACCESS_TOKEN_PREFIX, hashSecret } from './tokens';
+import { parseScope, hasResourceAccess, FhirInteraction } from './scopes';
+
+export interface FhirAuth {
+  userId: string;
+  // null for our own frontend's login token, which has full access to the patient's record
+  scopes: string[] | null;
+}
+
+// FHIR endpoints accept either a login JWT or a SMART access token issued by /api/oauth/token.
+// Both go through the same account checks as the rest of the API, including a verified email address.
+export async function authenticateFhirRequest(request: NextRequest): Promise<FhirAuth | null> {
+  const token = getRequestToken(request);
+  if (!token) {
+    return null;
+  }
+
+  if (!token.startsWith(ACCESS_TOKEN_PREFIX)) {
+    const auth = await authenticateToken(token);
+    return 'error' in auth || !isEmailVerified(auth.user) ? null : { userId: auth.userId, scopes: null };
+  }
+
+  const accessToken = await db
+    .select()
+    .from(oauthAccessTokens)
+    .where(and(
+      eq(oauthAccessTokens.tokenHash, hashSecret(token)),
+      isNull(oauthAccessTokens.revokedAt),
+      gt(oauthAccessTokens.expiresAt, new Date())
+    ))
+    .limit(1);
+
+  if (accessToken.length === 0) {
+    return null;
+  }
+
+  const account = await loadActiveUser(accessToken[0].userId);
+  return 'error' in account || !isEmailVerified(account.user)
+    ? null
+    : { userId: account.userId, scopes: parseScope(accessToken[0].scope) };
+}
+
+export const canAccess = (auth: FhirAuth, resourceType: string, interaction: FhirInteraction) =>
+  auth.scopes === null || hasResourceAccess(auth.scopes, resourceType, interaction);
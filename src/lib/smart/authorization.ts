@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { oauthClients, OAuthClient } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { parseScope, isSupportedScope } from './scopes';
+import { isValidCodeChallenge, secretMatches } from './tokens';
+
+export interface AuthorizationRequest {
+  client: OAuthClient;
+  redirectUri: string;
+  scopes: string[];
+  state: string | null;
+  codeChallenge: string;
+}
+
+export interface AuthorizationRequestError {
+  error: string;
+  error_description: string;
+  // Set once the redirect URI is trusted, so the error can be returned to the app
+  redirectUrl?: string;
+}
+
+// Token endpoint responses must not be cached (RFC 6749 5.1)
+export function oauthResponse(body: object, status = 200) {
+  return NextResponse.json(body, {
+    status,
+    headers: { 'Cache-Control': 'no-store', Pragma: 'no-cache' },
+  });
+}
+
+export const oauthError = (status: number, error: string, description: string) =>
+  oauthResponse({ error, error_description: description }, status);
+
+// Redirect back to the app with OAuth parameters (code, state or error) in the query
+export function buildRedirectUrl(redirectUri: string, params: Record<string, string | null | undefined>): string {
+  const url = new URL(redirectUri);
+  for (const [key, value] of Object.entries(params)) {
+    if (value) url.searchParams.set(key, value);
+  }
+  return url.toString();
+}
+
+export const fhirBaseUrl = (request: NextRequest) => `${request.nextUrl.origin}/api/fhir`;
+
+// Validate an authorization request (RFC 6749 4.1.1 with mandatory PKCE and SMART's aud).
+// Client and redirect URI problems are never redirected, so an attacker cannot use us as an open redirector.
+export async function validateAuthorizationRequest(
+  params: URLSearchParams,
+  fhirBase: string
+): Promise<AuthorizationRequest | AuthorizationRequestError> {
+  const clientId = params.get('client_id');
+  const redirectUri = params.get('redirect_uri');
+
+  if (!clientId) {
+    return { error: 'invalid_request', error_description: 'client_id is required' };
+  }
+
+  const client = await db
+    .select()
+    .from(oauthClients)
+    .where(eq(oauthClients.clientId, clientId))
+    .limit(1);
+
+  if (client.length === 0) {
+    return { error: 'invalid_client', error_description: 'Unknown client' };
+  }
+  if (!redirectUri || !client[0].redirectUris.includes(redirectUri)) {
+    return { error: 'invalid_request', error_description: 'redirect_uri does not match a registered redirect URI' };
+  }
+
+  const state = params.get('state');
+  const fail = (error: string, description: string): AuthorizationRequestError => ({
+    error,
+    error_description: description,
+    redirectUrl: buildRedirectUrl(redirectUri, { error, error_description: description, state }),
+  });
+
+  if (params.get('response_type') !== 'code') {
+    return fail('unsupported_response_type', 'Only response_type=code is supported');
+  }
+
+  const codeChallenge = params.get('code_challenge');
+  if (!codeChallenge || params.get('code_challenge_method') !== 'S256' || !isValidCodeChallenge(codeChallenge)) {
+    return fail('invalid_request', 'PKCE with code_challenge_method=S256 is required');
+  }
+
+  const aud = params.get('aud');
+  if (aud && aud.replace(/\/$/, '') !== fhirBase) {
+    return fail('invalid_request', `aud must be ${fhirBase}`);
+  }
+
+  // Grant the supported scopes the client registered for; anything else is dropped
+  const allowed = parseScope(client[0].scope);
+  const scopes = parseScope(params.get('scope')).filter(scope => isSupportedScope(scope) && allowed.includes(scope));
+  if (!scopes.some(scope => scope.startsWith('patient/'))) {
+    return fail('invalid_scope', 'Request at least one patient/<Resource>.read scope the client is registered for');
+  }
+
+  return { client: client[0], redirectUri, scopes, state, codeChallenge };
+}
+
+// Client authentication for the token and introspection endpoints: HTTP Basic or
+// client_id/client_secret in the form body. Public clients only present their client_id.
+export async function authenticateClient(request: NextRequest, form: URLSearchParams): Promise<OAuthClient | null> {
+  let clientId = form.get('client_id');
+  let clientSecret = form.get('client_secret');
+
+  const authHeader = request.headers.get('authorization');
+  if (authHeader?.startsWith('Basic ')) {
+    const decoded = Buffer.from(authHeader.substring(6), 'base64').toString('utf-8');
+    const separator = decoded.indexOf(':');
+    if (separator === -1) return null;
+    clientId = decodeURIComponent(decoded.slice(0, separator));
+    clientSecret = decodeURIComponent(decoded.slice(separator + 1));
+  }
+
+  if (!clientId) {
+    return null;
+  }
+
+  const client = await db
+    .select()
+    .from(oauthClients)
+    .where(eq(oauthClients.clientId, clientId))
+    .limit(1);
+
+  if (client.length === 0) {
+    return null;
+  }
+
+  if (client[0].clientSecretHash) {
+    return clientSecret && secretMatches(clientSecret, client[0].clientSecretHash) ? client[0] : null;
+  }
+  return client[0];
+}
@@ -0,0 +1,62 @@
+// SMART on FHIR scopes for third-party apps. Only patient-level read access is offered:
+// "patient/<Type>.read" (SMART v1) or "patient/<Type>.rs" (SMART v2), with "*" for every type.
+
+export type FhirInteraction = 'read' | 'search';
+
+export const SMART_RESOURCE_TYPES = [
+  'Patient',
+  'Condition',
+  'AllergyIntolerance',
+  'MedicationStatement',
+  'FamilyMemberHistory',
+] as const;
+
+// Accepted in requests but grant no data access of their own
+const CONTEXT_SCOPES = ['launch/patient'];
+
+const RESOURCE_SCOPE_PATTERN = /^patient\/(\*|[A-Za-z]+)\.(read|r|s|rs)$/;
+
+const resourceLabels: Record<string, string> = {
+  Patient: 'your demographics and contact details',
+  Condition: 'your medical conditions',
+  AllergyIntolerance: 'your allergies',
+  MedicationStatement: 'your medications',
+  FamilyMemberHistory: 'your family medical history',
+  '*': 'your entire health record, including past consultations',
+};
+
+export const parseScope = (scope: string | null | undefined): string[] =>
+  Array.from(new Set((scope ?? '').split(/\s+/).filter(Boolean)));
+
+export const isSupportedScope = (scope: string) => {
+  if (CONTEXT_SCOPES.includes(scope)) return true;
+  const match = scope.match(RESOURCE_SCOPE_PATTERN);
+  return !!match && (match[1] === '*' || (SMART_RESOURCE_TYPES as readonly string[]).includes(match[1]));
+};
+
+export const DEFAULT_CLIENT_SCOPE = ['launch/patient', ...SMART_RESOURCE_TYPES.map(type => `patient/${type}.read`)].join(' ');
+
+// Does the granted scope allow this interaction on this resource type?
+export function hasResourceAccess(scopes: string[], resourceType: string, interaction: FhirInteraction): boolean {
+  return scopes.some(scope => {
+    const match = scope.match(RESOURCE_SCOPE_PATTERN);
+    if (!match || (match[1] !== '*' && match[1] !== resourceType)) return false;
+
+    const permissions = match[2] === 'read' ? 'rs' : match[2];
+    return permissions.includes(interaction === 'read' ? 'r' : 's');
+  });
+}
+
+// Human-readable line for the consent screen
+export function describeScope(scope: string): string {
+  if (scope === 'launch/patient') {
+    return 'Know which patient record it is connected to';
+  }
+
+  const match = scope.match(RESOURCE_SCOPE_PATTERN);
+  if (!match) return scope;
+
+  const permissions = match[2] === 'read' ? 'rs' : match[2];
+  const verb = permissions === 'rs' ? 'Read and search' : permissions === 'r' ? 'Read' : 'Search';
+  return `${verb} ${resourceLabels[match[1]] ?? match[1]}`;
+}
@@ -0,0 +1,33 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+
+export const AUTHORIZATION_CODE_TTL_SECONDS = 5 * 60;
+export const ACCESS_TOKEN_TTL_SECONDS = 60 * 60;
+
+// Opaque tokens carry a prefix so they are never mistaken for our own login JWTs
+export const ACCESS_TOKEN_PREFIX = 'twat_';
+
+export const generateSecret = (prefix = '') => `${prefix}${randomBytes(32).toString('base64url')}`;
+
+// Codes, tokens and client secrets are stored as SHA-256 hex digests
+export const hashSecret = (value: string) => createHash('sha256').update(value).digest('hex');
+
+export const secretMatches = (value: string, hash: string) => {
+  const expected = Buffer.from(hash, 'hex');
+  const actual = Buffer.from(hashSecret(value), 'hex');
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
+
+// RFC 7636: code_verifier is 43-128 characters from the unreserved set
+const CODE_VERIFIER_PATTERN = /^[A-Za-z0-9\-._~]{43,128}$/;
+
+export const isValidCodeChallenge = (challenge: string) => /^[A-Za-z0-9\-_]{43}$/.test(challenge);
+
+// PKCE S256: BASE64URL(SHA256(code_verifier)) must equal the stored code_challenge
+export function verifyCodeChallenge(verifier: string, challenge: string): boolean {
+  if (!CODE_VERIFIER_PATTERN.test(verifier)) {
+    return false;
+  }
+  const computed = Buffer.from(createHash('sha256').update(verifier).digest('base64url'));
+  const expected = Buffer.from(challenge);
+  return computed.length === expected.length && timingSafeEqual(computed, expected);
+}
@@ -0,0 +1,123 @@
+import { ExtractionTurn } from './index';
+import { SeverityLevel, NextStepUrgency } from './rules';
+
+// Fixture corpus of representative consultations and what the extractor should pull out of them.
+// Run by index.test.ts; add a fixture whenever a rule changes so regressions show up as a failing test.
+
+export interface SummaryExtractionFixture {
+  name: string;
+  turns: ExtractionTurn[];
+  expected: {
+    symptoms: string[];
+    deniedSymptoms?: string[];
+    durations?: string[];
+    // Severity level per symptom name
+    severity?: Record<string, SeverityLevel>;
+    bodySites?: string[];
+    nextStepUrgencies?: NextStepUrgency[];
+    possibleConditions?: string[];
+  };
+}
+
+export const SUMMARY_EXTRACTION_FIXTURES: SummaryExtractionFixture[] = [
+  {
+    name: 'tension headache with follow-up duration answer',
+    turns: [
+      { role: 'assistant', text: 'Hello, I am your AI nurse. What brings you in today?' },
+      { role: 'user', text: 'I have a really bad headache across my forehead.' },
+      { role: 'assistant', text: 'I am sorry to hear that. How long have you had it?' },
+      { role: 'user', text: 'For about three days now. It is like an 8 out of 10.' },
+      { role: 'assistant', text: 'Do you have any fever or nausea?' },
+      { role: 'user', text: 'No.' },
+      { role: 'assistant', text: 'This sounds like it could be a tension headache, possibly made worse by dehydration. I recommend drinking plenty of water and resting in a dark room. If it does not improve in a few days, please schedule an appointment with your doctor.' },
+    ],
+    expected: {
+      symptoms: ['headache'],
+      deniedSymptoms: ['fever', 'nausea'],
+      durations: ['for about three days'],
+      severity: { headache: 'severe' },
+      bodySites: ['head'],
+      nextStepUrgencies: ['self-care', 'routine'],
+      possibleConditions: ['tension headache', 'dehydration'],
+    },
+  },
+  {
+    name: 'stomach bug with negated symptom in the same sentence',
+    turns: [
+      { role: 'assistant', text: 'How can I help you today?' },
+      { role: 'user', text: 'I have been throwing up since last night and I have diarrhea, but no fever.' },
+      { role: 'assistant', text: 'Are you able to keep fluids down?' },
+      { role: 'user', text: 'Only small sips. My stomach aches a little.' },
+      { role: 'assistant', text: 'That could be gastroenteritis or food poisoning. Try taking small, frequent sips of an oral rehydration solution. If you cannot keep any fluids down or notice blood, go to urgent care today.' },
+    ],
+    expected: {
+      symptoms: ['vomiting', 'diarrhea', 'abdominal pain'],
+      deniedSymptoms: ['fever'],
+      durations: ['since last night'],
+      severity: { 'abdominal pain': 'mild' },
+      bodySites: ['abdomen'],
+      nextStepUrgencies: ['self-care', 'urgent'],
+      possibleConditions: ['gastroenteritis', 'food poisoning'],
+    },
+  },
+  {
+    name: 'knee pain with body site and onset',
+    turns: [
+      { role: 'user', text: 'My left knee is swollen and the pain started yesterday after a run.' },
+      { role: 'assistant', text: 'Can you put weight on it?' },
+      { role: 'user', text: 'Yes, but it is pretty bad when I go down stairs.' },
+      { role: 'assistant', text: 'It may be a sprain. You should rest, ice and elevate the knee. Please see a doctor if the swelling gets worse or you cannot bear weight.' },
+    ],
+    expected: {
+      symptoms: ['swelling', 'knee pain'],
+      durations: ['started yesterday'],
+      severity: { swelling: 'moderate', 'knee pain': 'moderate' },
+      bodySites: ['knee'],
+      nextStepUrgencies: ['self-care', 'routine'],
+      possibleConditions: ['sprain'],
+    },
+  },
+  {
+    name: 'cold symptoms answered with a bare yes',
+    turns: [
+      { role: 'user', text: 'I have a sore throat and a stuffy nose for the past week.' },
+      { role: 'assistant', text: 'Have you had a cough as well?' },
+      { role: 'user', text: 'Yes, mostly at night.' },
+      { role: 'assistant', text: 'This is most likely a common cold. Get plenty of rest and stay hydrated.' },
+    ],
+    expected: {
+      symptoms: ['sore throat', 'nasal congestion', 'cough'],
+      durations: ['for the past week'],
+      bodySites: ['throat', 'nose'],
+      nextStepUrgencies: ['self-care'],
+      possibleConditions: ['common cold'],
+    },
+  },
+  {
+    name: 'chest pain escalated to emergency services',
+    turns: [
+      { role: 'user', text: 'I have crushing chest pain and I am short of breath. It came on suddenly about 20 minutes ago.' },
+      { role: 'assistant', text: 'These symptoms can be serious. Please call 911 right away or have someone take you to the emergency room.' },
+    ],
+    expected: {
+      symptoms: ['chest pain', 'shortness of breath'],
+      durations: ['came on suddenly', 'about 20 minutes ago'],
+      bodySites: ['chest'],
+      nextStepUrgencies: ['emergency'],
+      possibleConditions: [],
+    },
+  },
+  {
+    name: 'no symptoms mentioned',
+    turns: [
+      { role: 'user', text: 'I just wanted to ask about my medication schedule.' },
+      { role: 'assistant', text: 'Of course. What medication are you taking?' },
+      { role: 'user', text: 'Lisinopril in the morning.' },
+    ],
+    expected: {
+      symptoms: [],
+      nextStepUrgencies: [],
+      possibleConditions: [],
+    },
+  },
+];
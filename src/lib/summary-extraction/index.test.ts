@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { extractTranscriptSummary, findSymptoms, formatAssessment, formatNextSteps, formatSymptoms } from './index';
+import { SUMMARY_EXTRACTION_FIXTURES } from './fixtures';
+
+const unique = <T,>(values: T[]) => Array.from(new Set(values));
+
+describe('extractTranscriptSummary', () => {
+  it.each(SUMMARY_EXTRACTION_FIXTURES.map(fixture => [fixture.name, fixture] as const))('%s', (_, fixture) => {
+    const extraction = extractTranscriptSummary(fixture.turns);
+    const { expected } = fixture;
+
+    expect(extraction.symptoms.map(symptom => symptom.name)).toEqual(expected.symptoms);
+    expect(extraction.deniedSymptoms).toEqual(expected.deniedSymptoms ?? []);
+    if (expected.durations) {
+      expect(extraction.durations).toEqual(expected.durations);
+    }
+    for (const [name, level] of Object.entries(expected.severity ?? {})) {
+      expect(extraction.symptoms.find(symptom => symptom.name === name)?.severity?.level).toBe(level);
+    }
+    if (expected.bodySites) {
+      expect(extraction.bodySites).toEqual(expected.bodySites);
+    }
+    if (expected.nextStepUrgencies) {
+      expect(unique(extraction.nextSteps.map(step => step.urgency))).toEqual(expected.nextStepUrgencies);
+    }
+    if (expected.possibleConditions) {
+      expect(extraction.possibleConditions).toEqual(expected.possibleConditions);
+    }
+  });
+});
+
+describe('negation', () => {
+  it('denies a symptom negated in the same sentence', () => {
+    const symptoms = findSymptoms('I have diarrhea, but no fever.');
+    expect(symptoms.map(symptom => [symptom.name, symptom.negated])).toEqual([['diarrhea', false], ['fever', true]]);
+  });
+
+  it('answers a question about symptoms with a bare no', () => {
+    const extraction = extractTranscriptSummary([
+      { role: 'assistant', text: 'Do you have any fever or nausea?' },
+      { role: 'user', text: 'No.' },
+    ]);
+    expect(extraction.symptoms).toEqual([]);
+    expect(extraction.deniedSymptoms).toEqual(['fever', 'nausea']);
+  });
+
+  it('never lists a symptom as denied once it has been reported', () => {
+    const extraction = extractTranscriptSummary([
+      { role: 'user', text: 'I do not have a headache.' },
+      { role: 'user', text: 'Actually my headache came back this morning.' },
+    ]);
+    expect(extraction.symptoms.map(symptom => symptom.name)).toEqual(['headache']);
+    expect(extraction.deniedSymptoms).toEqual([]);
+  });
+});
+
+describe('formatting', () => {
+  it('leaves every field empty when nothing was extracted', () => {
+    const extraction = extractTranscriptSummary([
+      { role: 'user', text: 'I just wanted to ask about my medication schedule.' },
+    ]);
+    expect(formatSymptoms(extraction)).toBeNull();
+    expect(formatNextSteps(extraction)).toBeNull();
+    expect(formatAssessment(extraction)).toBeNull();
+  });
+
+  it('puts the most urgent advice first', () => {
+    const extraction = extractTranscriptSummary([
+      { role: 'assistant', text: 'I recommend drinking plenty of water. If the pain spreads to your arm, call 911.' },
+    ]);
+    expect(formatNextSteps(extraction)).toBe('If the pain spreads to your arm, call 911. I recommend drinking plenty of water.');
+  });
+
+  it('lists denied symptoms after the reported ones', () => {
+    const extraction = extractTranscriptSummary([
+      { role: 'user', text: 'I have a headache but no fever.' },
+    ]);
+    expect(formatSymptoms(extraction)).toBe('Headache. Denies: fever.');
+  });
+});
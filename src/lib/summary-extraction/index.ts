@@ -0,0 +1,357 @@
+import {
+  SYMPTOM_RULES,
+  BODY_SITE_RULES,
+  DURATION_PATTERNS,
+  SEVERITY_RULES,
+  PAIN_SCALE_PATTERN,
+  painScaleLevel,
+  NEGATION_PATTERN,
+  CLAUSE_BOUNDARY_PATTERN,
+  NEXT_STEP_PATTERN,
+  NEXT_STEP_URGENCY_RULES,
+  CONDITION_RULES,
+  ASSESSMENT_HEDGE_PATTERN,
+  SeverityLevel,
+  NextStepUrgency,
+} from './rules';
+
+// Deterministic (LLM-free) extraction of a consultation summary from transcript turns.
+// Used when building summaries in the browser and in the VAPI webhook, so it must stay free of
+// client-only or server-only dependencies.
+
+export interface ExtractionTurn {
+  role: 'user' | 'assistant';
+  text: string;
+}
+
+export interface SeverityMention {
+  level: SeverityLevel;
+  text: string;
+}
+
+export interface SymptomMention {
+  // Canonical name, e.g. "headache" or "knee pain"
+  name: string;
+  // First phrase the patient used for it
+  text: string;
+  turnIndex: number;
+  bodySites: string[];
+  durations: string[];
+  severity?: SeverityMention;
+}
+
+export interface NextStep {
+  text: string;
+  urgency: NextStepUrgency;
+  turnIndex: number;
+}
+
+export interface TranscriptExtraction {
+  // Symptoms the patient reported, merged by name in order of first mention
+  symptoms: SymptomMention[];
+  // Symptoms the patient explicitly denied and never reported
+  deniedSymptoms: string[];
+  durations: string[];
+  severities: SeverityMention[];
+  bodySites: string[];
+  nextSteps: NextStep[];
+  // Conditions the assistant raised as possible explanations
+  possibleConditions: string[];
+}
+
+export const MAX_SUMMARY_NEXT_STEPS = 4;
+
+const severityRank: Record<SeverityLevel, number> = {
+  mild: 0,
+  moderate: 1,
+  severe: 2,
+};
+
+const urgencyRank: Record<NextStepUrgency, number> = {
+  emergency: 0,
+  urgent: 1,
+  routine: 2,
+  'self-care': 3,
+};
+
+// Global copies of the symptom patterns so every occurrence in a sentence can be found
+const symptomMatchers = SYMPTOM_RULES.map(rule => ({
+  name: rule.name,
+  pattern: new RegExp(rule.pattern.source, 'gi'),
+}));
+
+const AFFIRMATIVE_ANSWER = /^\s*(?:yes|yeah|yep|yup|i do|i have|i am|a little|kind of|sort of)\b/i;
+const NEGATIVE_ANSWER = /^\s*(?:no|nope|nah|not really|i don't|i do not|i haven't|none)\b/i;
+
+const splitSentences = (text: string): string[] =>
+  (text.match(/[^.!?]+[.!?]*/g) || [])
+    .map(sentence => sentence.trim())
+    .filter(sentence => sentence.length > 0);
+
+const unique = (values: string[]): string[] => {
+  const seen = new Set<string>();
+  return values.filter(value => {
+    const key = value.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+interface SiteMatch {
+  name: string;
+  painName?: string;
+  index: number;
+}
+
+// Body sites in the order they are mentioned
+const findBodySites = (sentence: string): SiteMatch[] =>
+  BODY_SITE_RULES
+    .map(rule => ({ name: rule.name, painName: rule.painName, index: sentence.search(rule.pattern) }))
+    .filter(site => site.index >= 0)
+    .sort((a, b) => a.index - b.index);
+
+export const findDurations = (sentence: string): string[] =>
+  unique(
+    DURATION_PATTERNS
+      .flatMap(pattern => Array.from(sentence.matchAll(pattern)))
+      .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+      .map(match => match[0].trim().toLowerCase())
+  );
+
+export const findSeverity = (sentence: string): SeverityMention | undefined => {
+  const mentions: SeverityMention[] = [];
+
+  for (const match of Array.from(sentence.matchAll(PAIN_SCALE_PATTERN))) {
+    mentions.push({ level: painScaleLevel(Number(match[1])), text: match[0] });
+  }
+
+  for (const rule of SEVERITY_RULES) {
+    for (const text of sentence.match(rule.pattern) || []) {
+      mentions.push({ level: rule.level, text });
+    }
+  }
+
+  // The most severe description wins
+  return mentions.sort((a, b) => severityRank[b.level] - severityRank[a.level])[0];
+};
+
+const isNegated = (sentence: string, matchIndex: number): boolean => {
+  const clause = sentence.slice(0, matchIndex).split(CLAUSE_BOUNDARY_PATTERN).pop() || '';
+  return NEGATION_PATTERN.test(clause);
+};
+
+interface SentenceSymptom {
+  name: string;
+  text: string;
+  negated: boolean;
+  // Body sites closer to this symptom than to any other symptom in the sentence
+  bodySites: string[];
+}
+
+// Find symptoms in one sentence; earlier (more specific) rules claim their text first
+export const findSymptoms = (sentence: string): SentenceSymptom[] => {
+  const claimed: Array<[number, number]> = [];
+  const found: Array<Omit<SentenceSymptom, 'bodySites'> & { start: number; end: number }> = [];
+  const sites = findBodySites(sentence);
+
+  for (const matcher of symptomMatchers) {
+    for (const match of Array.from(sentence.matchAll(matcher.pattern))) {
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      if (claimed.some(([claimedStart, claimedEnd]) => start < claimedEnd && end > claimedStart)) {
+        continue;
+      }
+      claimed.push([start, end]);
+      found.push({ name: matcher.name, text: match[0], negated: isNegated(sentence, start), start, end });
+    }
+  }
+
+  const distance = (symptom: { start: number; end: number }, site: SiteMatch) =>
+    site.index < symptom.start ? symptom.start - site.index : Math.max(0, site.index - symptom.end);
+
+  return found
+    .sort((a, b) => a.start - b.start)
+    .map((symptom, _, all) => {
+      const nearest = sites.filter(site => all.every(other => distance(symptom, site) <= distance(other, site)));
+      // Generic pain is named after the closest site in the sentence, e.g. "knee pain"
+      const painSite = [...sites].sort((a, b) => distance(symptom, a) - distance(symptom, b))[0];
+      const name = symptom.name === 'pain' && painSite
+        ? painSite.painName || `${painSite.name} pain`
+        : symptom.name;
+
+      return { name, text: symptom.text, negated: symptom.negated, bodySites: nearest.map(site => site.name) };
+    });
+};
+
+// Sentences from the assistant that give advice; questions are never advice
+export const findNextStep = (sentence: string): NextStepUrgency | null => {
+  if (sentence.endsWith('?') || !NEXT_STEP_PATTERN.test(sentence)) {
+    return null;
+  }
+
+  const rule = NEXT_STEP_URGENCY_RULES.find(urgencyRule => urgencyRule.pattern.test(sentence));
+  return rule ? rule.urgency : 'self-care';
+};
+
+export const findPossibleConditions = (sentence: string): string[] => {
+  if (!ASSESSMENT_HEDGE_PATTERN.test(sentence)) {
+    return [];
+  }
+
+  return CONDITION_RULES
+    .map(rule => ({ name: rule.name, index: sentence.search(rule.pattern) }))
+    .filter(condition => condition.index >= 0)
+    .sort((a, b) => a.index - b.index)
+    .map(condition => condition.name);
+};
+
+export function extractTranscriptSummary(turns: ExtractionTurn[]): TranscriptExtraction {
+  const symptoms = new Map<string, SymptomMention>();
+  const denied: string[] = [];
+  const durations: string[] = [];
+  const severities: SeverityMention[] = [];
+  const bodySites: string[] = [];
+  const nextSteps: NextStep[] = [];
+  const possibleConditions: string[] = [];
+
+  // Symptoms from the latest user sentence, so a follow-up answer like "about three days" can attach to them
+  let lastReported: SymptomMention[] = [];
+  // Symptoms the assistant asked about in its latest question, for bare yes/no answers
+  let askedAbout: string[] = [];
+
+  const report = (name: string, text: string, turnIndex: number): SymptomMention => {
+    const existing = symptoms.get(name);
+    if (existing) return existing;
+
+    const mention: SymptomMention = { name, text, turnIndex, bodySites: [], durations: [] };
+    symptoms.set(name, mention);
+    return mention;
+  };
+
+  const annotate = (mention: SymptomMention, sites: string[], sentenceDurations: string[], severity?: SeverityMention) => {
+    mention.bodySites = unique([...mention.bodySites, ...sites]);
+    mention.durations = unique([...mention.durations, ...sentenceDurations]);
+    if (severity && (!mention.severity || severityRank[severity.level] > severityRank[mention.severity.level])) {
+      mention.severity = severity;
+    }
+  };
+
+  turns.forEach((turn, turnIndex) => {
+    const sentences = splitSentences(turn.text);
+
+    if (turn.role === 'assistant') {
+      askedAbout = [];
+      for (const sentence of sentences) {
+        const urgency = findNextStep(sentence);
+        if (urgency) {
+          nextSteps.push({ text: sentence, urgency, turnIndex });
+        }
+
+        possibleConditions.push(...findPossibleConditions(sentence));
+
+        if (sentence.endsWith('?')) {
+          askedAbout = findSymptoms(sentence).map(symptom => symptom.name).filter(name => name !== 'pain');
+        }
+      }
+      return;
+    }
+
+    sentences.forEach((sentence, sentenceIndex) => {
+      const sentenceSymptoms = findSymptoms(sentence);
+      const sentenceDurations = findDurations(sentence);
+      const severity = findSeverity(sentence);
+
+      durations.push(...sentenceDurations);
+      if (severity) severities.push(severity);
+
+      // "Yes" / "No" answering a question about specific symptoms
+      if (sentenceIndex === 0 && sentenceSymptoms.length === 0 && askedAbout.length > 0) {
+        if (NEGATIVE_ANSWER.test(sentence)) {
+          denied.push(...askedAbout);
+        } else if (AFFIRMATIVE_ANSWER.test(sentence)) {
+          lastReported = askedAbout.map(name => report(name, name, turnIndex));
+        }
+      }
+
+      const reported = sentenceSymptoms.filter(symptom => !symptom.negated);
+      denied.push(...sentenceSymptoms.filter(symptom => symptom.negated).map(symptom => symptom.name));
+
+      if (reported.length > 0) {
+        lastReported = reported.map(symptom => {
+          const mention = report(symptom.name, symptom.text, turnIndex);
+          annotate(mention, symptom.bodySites, sentenceDurations, severity);
+          bodySites.push(...symptom.bodySites);
+          return mention;
+        });
+      } else if (sentenceSymptoms.length === 0) {
+        // Details given without naming the symptom describe whatever was mentioned last
+        lastReported.forEach(mention => annotate(mention, [], sentenceDurations, severity));
+      }
+    });
+
+    askedAbout = [];
+  });
+
+  const reportedNames = new Set(symptoms.keys());
+
+  return {
+    symptoms: Array.from(symptoms.values()),
+    deniedSymptoms: unique(denied.filter(name => name !== 'pain' && !reportedNames.has(name))),
+    durations: unique(durations),
+    severities,
+    bodySites: unique(bodySites),
+    nextSteps: nextSteps.filter((step, index) =>
+      nextSteps.findIndex(other => other.text.toLowerCase() === step.text.toLowerCase()) === index
+    ),
+    possibleConditions: unique(possibleConditions),
+  };
+}
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+const formatSymptom = (symptom: SymptomMention): string => {
+  const details: string[] = [];
+  const sites = symptom.bodySites.filter(site => !symptom.name.includes(site));
+  if (sites.length > 0) details.push(sites.join(', '));
+  if (symptom.severity) details.push(symptom.severity.level === symptom.severity.text.toLowerCase()
+    ? symptom.severity.level
+    : `${symptom.severity.level}, "${symptom.severity.text}"`);
+  if (symptom.durations.length > 0) details.push(symptom.durations.join(', '));
+
+  return details.length > 0 ? `${symptom.name} (${details.join('; ')})` : symptom.name;
+};
+
+// "Headache (forehead; severe, "8/10"; for three days); nausea. Denies: fever."
+export function formatSymptoms(extraction: TranscriptExtraction): string | null {
+  if (extraction.symptoms.length === 0) {
+    return null;
+  }
+
+  let text = capitalize(extraction.symptoms.map(formatSymptom).join('; ')) + '.';
+  if (extraction.deniedSymptoms.length > 0) {
+    text += ` Denies: ${extraction.deniedSymptoms.join(', ')}.`;
+  }
+  return text;
+}
+
+// Most urgent advice first, then in the order it was given
+export function formatNextSteps(extraction: TranscriptExtraction, limit = MAX_SUMMARY_NEXT_STEPS): string | null {
+  if (extraction.nextSteps.length === 0) {
+    return null;
+  }
+
+  return [...extraction.nextSteps]
+    .sort((a, b) => urgencyRank[a.urgency] - urgencyRank[b.urgency] || a.turnIndex - b.turnIndex)
+    .slice(0, limit)
+    .map(step => /[.!]$/.test(step.text) ? step.text : `${step.text}.`)
+    .join(' ');
+}
+
+export function formatAssessment(extraction: TranscriptExtraction): string | null {
+  if (extraction.possibleConditions.length === 0) {
+    return null;
+  }
+
+  return `Possible causes discussed (not a diagnosis): ${extraction.possibleConditions.join(', ')}.`;
+}
@@ -0,0 +1,179 @@
+// Rule data for the transcript summary extractor.
+// Everything here is plain data so rules can be reviewed and extended without touching the extractor.
+
+export type SeverityLevel = 'mild' | 'moderate' | 'severe';
+export type NextStepUrgency = 'emergency' | 'urgent' | 'routine' | 'self-care';
+
+export interface SymptomRule {
+  // Canonical name shown in summaries
+  name: string;
+  pattern: RegExp;
+}
+
+export interface BodySiteRule {
+  name: string;
+  pattern: RegExp;
+  // Name for generic pain at this site when it differs from "<site> pain"
+  painName?: string;
+}
+
+export interface SeverityRule {
+  level: SeverityLevel;
+  pattern: RegExp;
+}
+
+export interface NextStepUrgencyRule {
+  urgency: NextStepUrgency;
+  pattern: RegExp;
+}
+
+export interface ConditionRule {
+  name: string;
+  pattern: RegExp;
+}
+
+// Specific symptoms are listed before generic pain so "chest pain" wins over "pain"
+export const SYMPTOM_RULES: SymptomRule[] = [
+  { name: 'chest pain', pattern: /\bchest (?:pain|pains|tightness|pressure)\b|\b(?:pain|tightness|pressure) in (?:my|the) chest\b/i },
+  { name: 'headache', pattern: /\bhead ?aches?\b|\bmigraines?\b|\bmy head (?:hurts|is pounding|is killing me)\b/i },
+  { name: 'sore throat', pattern: /\bsore throat\b|\bthroat (?:hurts|is sore|is scratchy)\b|\bscratchy throat\b/i },
+  { name: 'abdominal pain', pattern: /\b(?:stomach|tummy|belly|abdominal) (?:ache|aches|pain|pains|cramps?)\b|\bstomach ?ache\b|\bcramping\b/i },
+  { name: 'back pain', pattern: /\bback (?:pain|ache|hurts)\b|\bbackache\b/i },
+  { name: 'earache', pattern: /\bear ?aches?\b|\bear (?:pain|hurts)\b/i },
+  { name: 'fever', pattern: /\bfevers?\b|\bfeverish\b|\b(?:high |a )?temperature\b|\brunning hot\b/i },
+  { name: 'chills', pattern: /\bchills\b|\bshivering\b/i },
+  { name: 'cough', pattern: /\bcough(?:s|ing)?\b/i },
+  { name: 'shortness of breath', pattern: /\bshort(?:ness)? of breath\b|\b(?:trouble|difficulty|hard time) breathing\b|\bcan(?:'|no)?t (?:catch my )?breathe?\b|\bbreathless\b|\bwheez(?:e|ing)\b/i },
+  { name: 'nasal congestion', pattern: /\b(?:stuffy|runny|blocked) nose\b|\bcongest(?:ed|ion)\b|\bsneez(?:e|es|ing)\b/i },
+  { name: 'nausea', pattern: /\bnause(?:a|ous|ated)\b|\bqueasy\b|\bsick to my stomach\b/i },
+  { name: 'vomiting', pattern: /\bvomit(?:ing|ed)?\b|\bthrow(?:ing)? up\b|\bthrew up\b/i },
+  { name: 'diarrhea', pattern: /\bdiarrh(?:ea|oea)\b|\bloose stools?\b/i },
+  { name: 'constipation', pattern: /\bconstipat(?:ed|ion)\b/i },
+  { name: 'loss of appetite', pattern: /\b(?:loss of|lost my|no|poor) appetite\b|\bnot (?:hungry|eating)\b/i },
+  { name: 'fatigue', pattern: /\bfatigue[d]?\b|\b(?:very |really |always )?tired\b|\bexhausted\b|\bno energy\b|\bweak(?:ness)?\b/i },
+  { name: 'dizziness', pattern: /\bdizz(?:y|iness)\b|\blight ?headed(?:ness)?\b|\bvertigo\b|\broom is spinning\b/i },
+  { name: 'fainting', pattern: /\bfaint(?:ed|ing)?\b|\bpassed out\b|\bblack(?:ed)? out\b/i },
+  { name: 'palpitations', pattern: /\bpalpitations?\b|\bheart (?:is )?(?:racing|pounding|fluttering)\b|\bracing heart\b/i },
+  { name: 'rash', pattern: /\brash(?:es)?\b|\bhives\b|\bred (?:spots|bumps|patches)\b/i },
+  { name: 'itching', pattern: /\bitch(?:y|ing|es)?\b/i },
+  { name: 'swelling', pattern: /\bswell(?:ing|ed)\b|\bswollen\b|\bpuffy\b/i },
+  { name: 'numbness', pattern: /\bnumb(?:ness)?\b/i },
+  { name: 'tingling', pattern: /\btingl(?:e|ing|y)\b|\bpins and needles\b/i },
+  { name: 'bleeding', pattern: /\bbleed(?:ing|s)?\b|\bblood in (?:my )?(?:stool|urine|vomit)\b/i },
+  { name: 'painful urination', pattern: /\b(?:burn(?:s|ing)?|pain(?:ful)?|hurts) (?:when|while) (?:i )?(?:pee|urinat(?:e|ing))\b|\bpainful urination\b/i },
+  { name: 'blurred vision', pattern: /\bblurr(?:y|ed) vision\b|\bvision is blurry\b|\bdouble vision\b/i },
+  { name: 'insomnia', pattern: /\binsomnia\b|\bcan(?:'|no)?t sleep\b|\btrouble sleeping\b|\bnot sleeping\b/i },
+  { name: 'anxiety', pattern: /\banxi(?:ety|ous)\b|\bpanic(?:king)?\b|\bon edge\b/i },
+  { name: 'low mood', pattern: /\bdepress(?:ed|ion)\b|\bfeeling (?:down|low|hopeless)\b/i },
+  { name: 'joint pain', pattern: /\bjoint (?:pain|aches?)\b|\b(?:knees?|hips?|elbows?|wrists?|ankles?) (?:hurt|hurts|ache|aches)\b/i },
+  // Generic pain comes last; its body site turns it into e.g. "knee pain"
+  { name: 'pain', pattern: /\bpain(?:s|ful)?\b|\baches?\b|\baching\b|\bhurts?\b|\bsore(?:ness)?\b/i },
+];
+
+export const BODY_SITE_RULES: BodySiteRule[] = [
+  { name: 'lower back', pattern: /\blower back\b/i },
+  { name: 'upper back', pattern: /\bupper back\b/i },
+  { name: 'head', pattern: /\bhead\b|\bforehead\b|\btemples?\b/i, painName: 'headache' },
+  { name: 'eye', pattern: /\beyes?\b/i },
+  { name: 'ear', pattern: /\bears?\b/i, painName: 'earache' },
+  { name: 'nose', pattern: /\bnose\b|\bsinus(?:es)?\b/i },
+  { name: 'jaw', pattern: /\bjaw\b/i },
+  { name: 'tooth', pattern: /\btooth\b|\bteeth\b|\bgums?\b/i, painName: 'toothache' },
+  { name: 'throat', pattern: /\bthroat\b/i, painName: 'sore throat' },
+  { name: 'neck', pattern: /\bneck\b/i },
+  { name: 'chest', pattern: /\bchest\b/i, painName: 'chest pain' },
+  { name: 'shoulder', pattern: /\bshoulders?\b/i },
+  { name: 'arm', pattern: /\barms?\b/i },
+  { name: 'elbow', pattern: /\belbows?\b/i },
+  { name: 'wrist', pattern: /\bwrists?\b/i },
+  { name: 'hand', pattern: /\bhands?\b|\bfingers?\b/i },
+  { name: 'back', pattern: /\bback\b/i },
+  { name: 'abdomen', pattern: /\babdom(?:en|inal)\b|\bstomach\b|\bbelly\b|\btummy\b/i, painName: 'abdominal pain' },
+  { name: 'side', pattern: /\b(?:left|right) side\b|\bmy side\b/i },
+  { name: 'pelvis', pattern: /\bpelvi(?:s|c)\b|\bgroin\b/i },
+  { name: 'hip', pattern: /\bhips?\b/i },
+  { name: 'leg', pattern: /\blegs?\b|\bthighs?\b|\bcalf\b|\bcalves\b/i },
+  { name: 'knee', pattern: /\bknees?\b/i },
+  { name: 'ankle', pattern: /\bankles?\b/i },
+  { name: 'foot', pattern: /\bfoot\b|\bfeet\b|\btoes?\b/i },
+  { name: 'skin', pattern: /\bskin\b/i },
+];
+
+const NUMBER = '(?:\\d+(?:\\.\\d+)?|a|an|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve|a couple(?: of)?|couple of|a few|few|several)';
+const UNIT = '(?:minute|hour|day|night|week|month|year)s?';
+const APPROX = '(?:(?:about|around|almost|nearly|roughly|over|more than|at least)\\s+)?';
+const WEEKDAY = '(?:monday|tuesday|wednesday|thursday|friday|saturday|sunday)';
+const RELATIVE_DAY = `(?:yesterday|today|last night|last ${WEEKDAY}|last (?:week|month|year)|this (?:morning|afternoon|evening|week)|the weekend|this weekend|${WEEKDAY})`;
+
+// Duration and onset phrases; the matched text is kept verbatim in the summary
+export const DURATION_PATTERNS: RegExp[] = [
+  new RegExp(`\\bfor\\s+${APPROX}(?:the\\s+)?(?:past|last)\\s+(?:${NUMBER}\\s+)?${UNIT}\\b`, 'gi'),
+  new RegExp(`\\bfor\\s+${APPROX}${NUMBER}\\s+${UNIT}\\b`, 'gi'),
+  new RegExp(`\\b${APPROX}${NUMBER}\\s+${UNIT}\\s+ago\\b`, 'gi'),
+  new RegExp(`\\bsince\\s+(?:${RELATIVE_DAY}|i woke up|i got up)\\b`, 'gi'),
+  new RegExp(`\\b(?:started|began|came on|kicked in)\\s+(?:${RELATIVE_DAY}|suddenly|gradually|out of nowhere)\\b`, 'gi'),
+  /\b(?:all day|on and off|comes and goes|every (?:day|night|morning)|constant(?:ly)?)\b/gi,
+];
+
+export const SEVERITY_RULES: SeverityRule[] = [
+  { level: 'mild', pattern: /\b(?:mild(?:ly)?|slight(?:ly)?|a little|a bit|not too bad)\b/gi },
+  { level: 'moderate', pattern: /\b(?:moderate(?:ly)?|pretty bad|quite bad|fairly bad)\b/gi },
+  { level: 'severe', pattern: /\b(?:severe(?:ly)?|intense|excruciating|unbearable|terrible|horrible|awful|really bad|very bad|the worst|worst)\b/gi },
+];
+
+// "7 out of 10", "7/10"
+export const PAIN_SCALE_PATTERN = /\b(10|[0-9])\s*(?:\/|out of)\s*10\b/gi;
+
+export const painScaleLevel = (score: number): SeverityLevel => {
+  if (score >= 7) return 'severe';
+  if (score >= 4) return 'moderate';
+  return 'mild';
+};
+
+// Words that negate a symptom when they appear shortly before it in the same clause
+export const NEGATION_PATTERN = /\b(?:no|not|never|without|denies|deny|don't|do not|doesn't|does not|didn't|did not|haven't|have not|hasn't|has not|isn't|aren't|no longer)\b(?:\s+\S+){0,3}\s*$/i;
+
+// Clause boundaries used to limit negation scope ("no fever, but my head hurts")
+export const CLAUSE_BOUNDARY_PATTERN = /[,;]|\bbut\b|\bthough\b|\bhowever\b/gi;
+
+// Sentences from the assistant that read like advice
+export const NEXT_STEP_PATTERN = /\b(?:i (?:would |'d )?(?:recommend|suggest|advise)|i'd (?:recommend|suggest|advise)|you should|you may want to|you might want to|it(?: would|'d) be (?:best|a good idea|wise) to|it's (?:best|a good idea|important) to|make sure (?:to|you)|try to|try (?:taking|using|drinking)|please (?:call|go|see|seek|contact|schedule|make|book)|consider|seek|call 911|call 988|go to (?:the )?(?:emergency|er|urgent care|a doctor|your doctor)|schedule|book an appointment|follow up|keep an eye|monitor|stay hydrated|get (?:plenty of )?rest)\b/i;
+
+// Checked in order; the first match wins
+export const NEXT_STEP_URGENCY_RULES: NextStepUrgencyRule[] = [
+  { urgency: 'emergency', pattern: /\b(?:911|988|emergency (?:room|department|services)|\ber\b|ambulance|immediately|right away|right now)\b/i },
+  { urgency: 'urgent', pattern: /\b(?:urgent care|today|tonight|within (?:24|48) hours|as soon as (?:possible|you can)|same[- ]day)\b/i },
+  { urgency: 'routine', pattern: /\b(?:doctor|physician|gp|primary care|appointment|follow up|specialist|pharmacist|clinic|provider|dentist|dermatologist|therapist)\b/i },
+];
+
+// Conditions the assistant may raise as possible explanations; only counted in hedged statements
+export const CONDITION_RULES: ConditionRule[] = [
+  { name: 'common cold', pattern: /\b(?:common )?cold\b/i },
+  { name: 'influenza', pattern: /\b(?:the )?flu\b|\binfluenza\b/i },
+  { name: 'COVID-19', pattern: /\bcovid(?:-19)?\b|\bcoronavirus\b/i },
+  { name: 'viral infection', pattern: /\bviral (?:infection|illness)\b|\ba virus\b/i },
+  { name: 'sinus infection', pattern: /\bsinus infection\b|\bsinusitis\b/i },
+  { name: 'strep throat', pattern: /\bstrep(?: throat)?\b/i },
+  { name: 'ear infection', pattern: /\bear infection\b|\botitis\b/i },
+  { name: 'bronchitis', pattern: /\bbronchitis\b/i },
+  { name: 'pneumonia', pattern: /\bpneumonia\b/i },
+  { name: 'seasonal allergies', pattern: /\b(?:seasonal )?allergies\b|\bhay fever\b/i },
+  { name: 'allergic reaction', pattern: /\ballergic reaction\b/i },
+  { name: 'migraine', pattern: /\bmigraines?\b/i },
+  { name: 'tension headache', pattern: /\btension(?:-type)? headaches?\b/i },
+  { name: 'dehydration', pattern: /\bdehydrat(?:ed|ion)\b/i },
+  { name: 'food poisoning', pattern: /\bfood poisoning\b/i },
+  { name: 'gastroenteritis', pattern: /\bgastroenteritis\b|\bstomach (?:bug|flu|virus)\b/i },
+  { name: 'acid reflux', pattern: /\bacid reflux\b|\bheartburn\b|\bgerd\b|\breflux\b/i },
+  { name: 'urinary tract infection', pattern: /\burinary tract infection\b|\buti\b/i },
+  { name: 'muscle strain', pattern: /\bmuscle (?:strain|spasm)\b|\bstrained (?:a )?muscle\b|\bpulled (?:a )?muscle\b/i },
+  { name: 'sprain', pattern: /\bsprain(?:ed)?\b/i },
+  { name: 'conjunctivitis', pattern: /\bconjunctivitis\b|\bpink eye\b/i },
+  { name: 'eczema', pattern: /\beczema\b|\bdermatitis\b/i },
+  { name: 'anxiety', pattern: /\banxiety\b|\bpanic attacks?\b/i },
+  { name: 'low blood sugar', pattern: /\blow blood sugar\b|\bhypoglycemia\b/i },
+  { name: 'high blood pressure', pattern: /\bhigh blood pressure\b|\bhypertension\b/i },
+];
+
+// Hedged phrasing that marks a condition as a possibility rather than a passing mention
+export const ASSESSMENT_HEDGE_PATTERN = /\b(?:sounds like|could be|might be|may be|can be|consistent with|suggests?|possibly|probably|likely|common with|symptoms of|signs of|caused by|due to)\b/i;
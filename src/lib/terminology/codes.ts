@@ -0,0 +1,54 @@
+// Structural checks for the codes stored in medicalConditions.conditionCode.
+// Kept free of the bundled code index so the Zod schemas stay cheap to import anywhere.
+
+// Category (letter, digit, digit or letter), then up to four characters after the dot, e.g. E11.9, S06.0X0A
+const ICD10CM_PATTERN = /^[A-Z][0-9][0-9A-Z](\.[0-9A-Z]{1,4})?$/i;
+
+// SNOMED CT identifiers: 6-18 digits ending in a partition identifier and a Verhoeff check digit
+const SNOMED_PATTERN = /^[1-9]\d{5,17}$/;
+// 00 = concept, short format; 10 = concept, long format (extension namespace)
+const SNOMED_CONCEPT_PARTITIONS = ['00', '10'];
+
+const VERHOEFF_MULTIPLICATION = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 2, 3, 4, 0, 6, 7, 8, 9, 5],
+  [2, 3, 4, 0, 1, 7, 8, 9, 5, 6],
+  [3, 4, 0, 1, 2, 8, 9, 5, 6, 7],
+  [4, 0, 1, 2, 3, 9, 5, 6, 7, 8],
+  [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+  [6, 5, 9, 8, 7, 1, 0, 4, 3, 2],
+  [7, 6, 5, 9, 8, 2, 1, 0, 4, 3],
+  [8, 7, 6, 5, 9, 3, 2, 1, 0, 4],
+  [9, 8, 7, 6, 5, 4, 3, 2, 1, 0],
+];
+
+const VERHOEFF_PERMUTATION = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 5, 7, 6, 2, 8, 3, 0, 9, 4],
+  [5, 8, 0, 3, 7, 9, 6, 1, 4, 2],
+  [8, 9, 1, 6, 0, 4, 3, 5, 2, 7],
+  [9, 4, 5, 3, 1, 2, 6, 8, 7, 0],
+  [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+  [2, 7, 9, 3, 8, 0, 6, 4, 1, 5],
+  [7, 0, 4, 6, 9, 1, 3, 2, 5, 8],
+];
+
+const verhoeffValid = (digits: string) => {
+  let check = 0;
+  digits.split('').reverse().forEach((digit, index) => {
+    check = VERHOEFF_MULTIPLICATION[check][VERHOEFF_PERMUTATION[index % 8][Number(digit)]];
+  });
+  return check === 0;
+};
+
+export const isIcd10CmCode = (code: string) => ICD10CM_PATTERN.test(code.trim());
+
+export function isSnomedConceptId(code: string): boolean {
+  const trimmed = code.trim();
+  return SNOMED_PATTERN.test(trimmed)
+    && SNOMED_CONCEPT_PARTITIONS.includes(trimmed.slice(-3, -1))
+    && verhoeffValid(trimmed);
+}
+
+// conditionCode accepts a well-formed ICD-10-CM code or a SNOMED CT concept id
+export const isValidConditionCode = (code: string) => isIcd10CmCode(code) || isSnomedConceptId(code);
@@ -0,0 +1,422 @@
+// Bundled subset of ICD-10-CM (FY2025 code set): billable codes for the conditions patients most often
+// report, with lay terms so "high blood pressure" finds I10. The full code set is ~74,000 codes and is not
+// shipped; add entries here when a common condition is missing. Codes must be billable (full length).
+
+export interface Icd10CmEntry {
+  code: string;
+  display: string;
+  // Lay terms and abbreviations patients type instead of the official title
+  synonyms?: string[];
+}
+
+export const ICD10CM_CODES: Icd10CmEntry[] = [
+  // Infectious and parasitic diseases
+  { code: 'A08.4', display: 'Viral intestinal infection, unspecified', synonyms: ['viral gastroenteritis', 'stomach bug'] },
+  { code: 'A09', display: 'Infectious gastroenteritis and colitis, unspecified', synonyms: ['stomach flu', 'gastroenteritis'] },
+  { code: 'A15.0', display: 'Tuberculosis of lung', synonyms: ['TB', 'tuberculosis'] },
+  { code: 'A41.9', display: 'Sepsis, unspecified organism', synonyms: ['blood infection', 'septicemia'] },
+  { code: 'A49.9', display: 'Bacterial infection, unspecified' },
+  { code: 'A53.9', display: 'Syphilis, unspecified' },
+  { code: 'A54.9', display: 'Gonococcal infection, unspecified', synonyms: ['gonorrhea'] },
+  { code: 'A56.2', display: 'Chlamydial infection of genitourinary tract, unspecified', synonyms: ['chlamydia'] },
+  { code: 'A69.20', display: 'Lyme disease, unspecified' },
+  { code: 'B00.9', display: 'Herpesviral infection, unspecified', synonyms: ['herpes', 'cold sores'] },
+  { code: 'B01.9', display: 'Varicella without complication', synonyms: ['chickenpox'] },
+  { code: 'B02.9', display: 'Zoster without complications', synonyms: ['shingles', 'herpes zoster'] },
+  { code: 'B07.9', display: 'Viral wart, unspecified', synonyms: ['warts'] },
+  { code: 'B18.1', display: 'Chronic viral hepatitis B without delta-agent', synonyms: ['hepatitis B', 'hep B'] },
+  { code: 'B18.2', display: 'Chronic viral hepatitis C', synonyms: ['hepatitis C', 'hep C'] },
+  { code: 'B20', display: 'Human immunodeficiency virus [HIV] disease', synonyms: ['HIV', 'AIDS'] },
+  { code: 'B27.90', display: 'Infectious mononucleosis, unspecified without complication', synonyms: ['mono', 'glandular fever'] },
+  { code: 'B35.1', display: 'Tinea unguium', synonyms: ['nail fungus', 'onychomycosis'] },
+  { code: 'B35.3', display: 'Tinea pedis', synonyms: ["athlete's foot"] },
+  { code: 'B37.0', display: 'Candidal stomatitis', synonyms: ['oral thrush'] },
+  { code: 'B37.9', display: 'Candidiasis, unspecified', synonyms: ['yeast infection', 'thrush'] },
+  { code: 'B86', display: 'Scabies' },
+  { code: 'U07.1', display: 'COVID-19', synonyms: ['coronavirus', 'SARS-CoV-2'] },
+
+  // Neoplasms
+  { code: 'C16.9', display: 'Malignant neoplasm of stomach, unspecified', synonyms: ['stomach cancer', 'gastric cancer'] },
+  { code: 'C18.9', display: 'Malignant neoplasm of colon, unspecified', synonyms: ['colon cancer', 'bowel cancer', 'colorectal cancer'] },
+  { code: 'C22.0', display: 'Liver cell carcinoma', synonyms: ['liver cancer', 'hepatocellular carcinoma'] },
+  { code: 'C25.9', display: 'Malignant neoplasm of pancreas, unspecified', synonyms: ['pancreatic cancer'] },
+  { code: 'C34.90', display: 'Malignant neoplasm of unspecified part of unspecified bronchus or lung', synonyms: ['lung cancer'] },
+  { code: 'C43.9', display: 'Malignant melanoma of skin, unspecified', synonyms: ['melanoma', 'skin cancer'] },
+  { code: 'C44.91', display: 'Basal cell carcinoma of skin, unspecified', synonyms: ['skin cancer', 'BCC'] },
+  { code: 'C50.919', display: 'Malignant neoplasm of unspecified site of unspecified female breast', synonyms: ['breast cancer'] },
+  { code: 'C53.9', display: 'Malignant neoplasm of cervix uteri, unspecified', synonyms: ['cervical cancer'] },
+  { code: 'C54.1', display: 'Malignant neoplasm of endometrium', synonyms: ['uterine cancer', 'endometrial cancer'] },
+  { code: 'C56.9', display: 'Malignant neoplasm of unspecified ovary', synonyms: ['ovarian cancer'] },
+  { code: 'C61', display: 'Malignant neoplasm of prostate', synonyms: ['prostate cancer'] },
+  { code: 'C64.9', display: 'Malignant neoplasm of unspecified kidney, except renal pelvis', synonyms: ['kidney cancer'] },
+  { code: 'C67.9', display: 'Malignant neoplasm of bladder, unspecified', synonyms: ['bladder cancer'] },
+  { code: 'C73', display: 'Malignant neoplasm of thyroid gland', synonyms: ['thyroid cancer'] },
+  { code: 'C81.90', display: 'Hodgkin lymphoma, unspecified, unspecified site', synonyms: ["Hodgkin's disease"] },
+  { code: 'C85.90', display: 'Non-Hodgkin lymphoma, unspecified, unspecified site', synonyms: ['lymphoma', 'NHL'] },
+  { code: 'C90.00', display: 'Multiple myeloma not having achieved remission', synonyms: ['myeloma'] },
+  { code: 'C91.10', display: 'Chronic lymphocytic leukemia of B-cell type not having achieved remission', synonyms: ['CLL', 'leukemia'] },
+  { code: 'D12.6', display: 'Benign neoplasm of colon, unspecified', synonyms: ['colon polyp'] },
+  { code: 'D17.9', display: 'Benign lipomatous neoplasm, unspecified', synonyms: ['lipoma'] },
+  { code: 'D22.9', display: 'Melanocytic nevi, unspecified', synonyms: ['mole', 'moles'] },
+  { code: 'D25.9', display: 'Leiomyoma of uterus, unspecified', synonyms: ['fibroids', 'uterine fibroids'] },
+
+  // Blood and immune system
+  { code: 'D50.9', display: 'Iron deficiency anemia, unspecified', synonyms: ['low iron', 'anaemia'] },
+  { code: 'D51.0', display: 'Vitamin B12 deficiency anemia due to intrinsic factor deficiency', synonyms: ['pernicious anemia'] },
+  { code: 'D56.9', display: 'Thalassemia, unspecified' },
+  { code: 'D57.1', display: 'Sickle-cell disease without crisis', synonyms: ['sickle cell anemia'] },
+  { code: 'D64.9', display: 'Anemia, unspecified', synonyms: ['anaemia'] },
+  { code: 'D66', display: 'Hereditary factor VIII deficiency', synonyms: ['hemophilia', 'haemophilia A'] },
+  { code: 'D68.51', display: 'Activated protein C resistance', synonyms: ['factor V Leiden'] },
+  { code: 'D69.6', display: 'Thrombocytopenia, unspecified', synonyms: ['low platelets'] },
+  { code: 'D86.0', display: 'Sarcoidosis of lung', synonyms: ['sarcoidosis'] },
+
+  // Endocrine, nutritional and metabolic diseases
+  { code: 'E03.9', display: 'Hypothyroidism, unspecified', synonyms: ['underactive thyroid', 'low thyroid'] },
+  { code: 'E04.1', display: 'Nontoxic single thyroid nodule', synonyms: ['thyroid nodule'] },
+  { code: 'E05.00', display: 'Thyrotoxicosis with diffuse goiter without thyrotoxic crisis or storm', synonyms: ["Graves' disease"] },
+  { code: 'E05.90', display: 'Thyrotoxicosis, unspecified without thyrotoxic crisis or storm', synonyms: ['hyperthyroidism', 'overactive thyroid'] },
+  { code: 'E06.3', display: 'Autoimmune thyroiditis', synonyms: ["Hashimoto's thyroiditis"] },
+  { code: 'E10.9', display: 'Type 1 diabetes mellitus without complications', synonyms: ['type 1 diabetes', 'T1D', 'juvenile diabetes'] },
+  { code: 'E10.65', display: 'Type 1 diabetes mellitus with hyperglycemia' },
+  { code: 'E11.9', display: 'Type 2 diabetes mellitus without complications', synonyms: ['type 2 diabetes', 'diabetes', 'T2D', 'sugar diabetes'] },
+  { code: 'E11.22', display: 'Type 2 diabetes mellitus with diabetic chronic kidney disease', synonyms: ['diabetic kidney disease'] },
+  { code: 'E11.319', display: 'Type 2 diabetes mellitus with unspecified diabetic retinopathy without macular edema', synonyms: ['diabetic retinopathy'] },
+  { code: 'E11.40', display: 'Type 2 diabetes mellitus with diabetic neuropathy, unspecified', synonyms: ['diabetic neuropathy'] },
+  { code: 'E11.621', display: 'Type 2 diabetes mellitus with foot ulcer', synonyms: ['diabetic foot ulcer'] },
+  { code: 'E11.649', display: 'Type 2 diabetes mellitus with hypoglycemia without coma' },
+  { code: 'E11.65', display: 'Type 2 diabetes mellitus with hyperglycemia', synonyms: ['uncontrolled diabetes'] },
+  { code: 'E13.9', display: 'Other specified diabetes mellitus without complications' },
+  { code: 'E16.2', display: 'Hypoglycemia, unspecified', synonyms: ['low blood sugar'] },
+  { code: 'E21.0', display: 'Primary hyperparathyroidism' },
+  { code: 'E24.9', display: "Cushing's syndrome, unspecified" },
+  { code: 'E27.1', display: 'Primary adrenocortical insufficiency', synonyms: ["Addison's disease"] },
+  { code: 'E28.2', display: 'Polycystic ovarian syndrome', synonyms: ['PCOS', 'polycystic ovaries'] },
+  { code: 'E53.8', display: 'Deficiency of other specified B group vitamins', synonyms: ['B12 deficiency', 'vitamin B12 deficiency'] },
+  { code: 'E55.9', display: 'Vitamin D deficiency, unspecified', synonyms: ['low vitamin D'] },
+  { code: 'E61.1', display: 'Iron deficiency' },
+  { code: 'E66.01', display: 'Morbid (severe) obesity due to excess calories', synonyms: ['morbid obesity'] },
+  { code: 'E66.9', display: 'Obesity, unspecified', synonyms: ['overweight'] },
+  { code: 'E73.9', display: 'Lactose intolerance, unspecified' },
+  { code: 'E78.00', display: 'Pure hypercholesterolemia, unspecified', synonyms: ['high cholesterol'] },
+  { code: 'E78.1', display: 'Pure hyperglyceridemia', synonyms: ['high triglycerides'] },
+  { code: 'E78.2', display: 'Mixed hyperlipidemia' },
+  { code: 'E78.5', display: 'Hyperlipidemia, unspecified', synonyms: ['high cholesterol', 'high lipids'] },
+  { code: 'E79.0', display: 'Hyperuricemia without signs of inflammatory arthritis and tophaceous disease', synonyms: ['high uric acid'] },
+  { code: 'E83.110', display: 'Hereditary hemochromatosis', synonyms: ['iron overload'] },
+  { code: 'E84.9', display: 'Cystic fibrosis, unspecified', synonyms: ['CF'] },
+  { code: 'E86.0', display: 'Dehydration' },
+  { code: 'E87.1', display: 'Hypo-osmolality and hyponatremia', synonyms: ['low sodium'] },
+  { code: 'E87.5', display: 'Hyperkalemia', synonyms: ['high potassium'] },
+  { code: 'E87.6', display: 'Hypokalemia', synonyms: ['low potassium'] },
+
+  // Mental and behavioral disorders
+  { code: 'F03.90', display: 'Unspecified dementia, unspecified severity, without behavioral disturbance, psychotic disturbance, mood disturbance, and anxiety', synonyms: ['dementia'] },
+  { code: 'F10.10', display: 'Alcohol abuse, uncomplicated' },
+  { code: 'F10.20', display: 'Alcohol dependence, uncomplicated', synonyms: ['alcoholism', 'alcohol use disorder'] },
+  { code: 'F11.20', display: 'Opioid dependence, uncomplicated', synonyms: ['opioid use disorder', 'opioid addiction'] },
+  { code: 'F12.10', display: 'Cannabis abuse, uncomplicated' },
+  { code: 'F17.210', display: 'Nicotine dependence, cigarettes, uncomplicated', synonyms: ['smoking', 'smoker'] },
+  { code: 'F20.9', display: 'Schizophrenia, unspecified' },
+  { code: 'F31.9', display: 'Bipolar disorder, unspecified', synonyms: ['bipolar', 'manic depression'] },
+  { code: 'F32.9', display: 'Major depressive disorder, single episode, unspecified', synonyms: ['depression', 'major depression'] },
+  { code: 'F32.A', display: 'Depression, unspecified', synonyms: ['depression'] },
+  { code: 'F33.1', display: 'Major depressive disorder, recurrent, moderate' },
+  { code: 'F33.9', display: 'Major depressive disorder, recurrent, unspecified', synonyms: ['recurrent depression'] },
+  { code: 'F34.1', display: 'Dysthymic disorder', synonyms: ['dysthymia', 'persistent depressive disorder'] },
+  { code: 'F40.10', display: 'Social phobia, unspecified', synonyms: ['social anxiety'] },
+  { code: 'F41.0', display: 'Panic disorder [episodic paroxysmal anxiety]', synonyms: ['panic attacks'] },
+  { code: 'F41.1', display: 'Generalized anxiety disorder', synonyms: ['anxiety', 'GAD'] },
+  { code: 'F41.9', display: 'Anxiety disorder, unspecified', synonyms: ['anxiety'] },
+  { code: 'F42.9', display: 'Obsessive-compulsive disorder, unspecified', synonyms: ['OCD'] },
+  { code: 'F43.10', display: 'Post-traumatic stress disorder, unspecified', synonyms: ['PTSD'] },
+  { code: 'F43.20', display: 'Adjustment disorder, unspecified' },
+  { code: 'F50.9', display: 'Eating disorder, unspecified', synonyms: ['anorexia', 'bulimia'] },
+  { code: 'F51.01', display: 'Primary insomnia' },
+  { code: 'F60.3', display: 'Borderline personality disorder', synonyms: ['BPD'] },
+  { code: 'F84.0', display: 'Autistic disorder', synonyms: ['autism', 'autism spectrum disorder', 'ASD'] },
+  { code: 'F90.0', display: 'Attention-deficit hyperactivity disorder, predominantly inattentive type', synonyms: ['ADD'] },
+  { code: 'F90.9', display: 'Attention-deficit hyperactivity disorder, unspecified type', synonyms: ['ADHD'] },
+
+  // Nervous system
+  { code: 'G12.21', display: 'Amyotrophic lateral sclerosis', synonyms: ['ALS', "Lou Gehrig's disease"] },
+  { code: 'G20.A1', display: "Parkinson's disease without dyskinesia, without mention of fluctuations", synonyms: ["Parkinson's"] },
+  { code: 'G25.81', display: 'Restless legs syndrome', synonyms: ['RLS'] },
+  { code: 'G30.9', display: "Alzheimer's disease, unspecified", synonyms: ["Alzheimer's"] },
+  { code: 'G35', display: 'Multiple sclerosis', synonyms: ['MS'] },
+  { code: 'G40.909', display: 'Epilepsy, unspecified, not intractable, without status epilepticus', synonyms: ['epilepsy', 'seizure disorder'] },
+  { code: 'G43.009', display: 'Migraine without aura, not intractable, without status migrainosus' },
+  { code: 'G43.109', display: 'Migraine with aura, not intractable, without status migrainosus' },
+  { code: 'G43.909', display: 'Migraine, unspecified, not intractable, without status migrainosus', synonyms: ['migraine', 'migraines'] },
+  { code: 'G44.009', display: 'Cluster headache syndrome, unspecified, not intractable', synonyms: ['cluster headaches'] },
+  { code: 'G44.209', display: 'Tension-type headache, unspecified, not intractable', synonyms: ['tension headache'] },
+  { code: 'G45.9', display: 'Transient cerebral ischemic attack, unspecified', synonyms: ['TIA', 'mini stroke'] },
+  { code: 'G47.00', display: 'Insomnia, unspecified', synonyms: ['trouble sleeping'] },
+  { code: 'G47.33', display: 'Obstructive sleep apnea (adult) (pediatric)', synonyms: ['sleep apnea', 'OSA'] },
+  { code: 'G47.419', display: 'Narcolepsy without cataplexy' },
+  { code: 'G50.0', display: 'Trigeminal neuralgia' },
+  { code: 'G51.0', display: "Bell's palsy" },
+  { code: 'G56.00', display: 'Carpal tunnel syndrome, unspecified upper limb', synonyms: ['carpal tunnel'] },
+  { code: 'G62.9', display: 'Polyneuropathy, unspecified', synonyms: ['neuropathy', 'peripheral neuropathy'] },
+  { code: 'G70.00', display: 'Myasthenia gravis without (acute) exacerbation' },
+  { code: 'G80.9', display: 'Cerebral palsy, unspecified', synonyms: ['CP'] },
+  { code: 'G89.29', display: 'Other chronic pain', synonyms: ['chronic pain'] },
+  { code: 'G93.32', display: 'Myalgic encephalomyelitis/chronic fatigue syndrome', synonyms: ['chronic fatigue syndrome', 'ME/CFS'] },
+
+  // Eye and ear
+  { code: 'H04.123', display: 'Dry eye syndrome of bilateral lacrimal glands', synonyms: ['dry eyes'] },
+  { code: 'H10.9', display: 'Unspecified conjunctivitis', synonyms: ['pink eye'] },
+  { code: 'H25.9', display: 'Unspecified age-related cataract', synonyms: ['cataracts'] },
+  { code: 'H35.30', display: 'Unspecified macular degeneration', synonyms: ['macular degeneration', 'AMD'] },
+  { code: 'H40.9', display: 'Unspecified glaucoma', synonyms: ['glaucoma'] },
+  { code: 'H52.13', display: 'Myopia, bilateral', synonyms: ['nearsighted', 'short-sighted'] },
+  { code: 'H52.4', display: 'Presbyopia', synonyms: ['reading glasses'] },
+  { code: 'H60.90', display: 'Unspecified otitis externa, unspecified ear', synonyms: ["swimmer's ear"] },
+  { code: 'H61.20', display: 'Impacted cerumen, unspecified ear', synonyms: ['ear wax', 'earwax'] },
+  { code: 'H66.90', display: 'Otitis media, unspecified, unspecified ear', synonyms: ['ear infection'] },
+  { code: 'H81.09', display: "Meniere's disease, unspecified ear" },
+  { code: 'H81.10', display: 'Benign paroxysmal vertigo, unspecified ear', synonyms: ['BPPV', 'vertigo'] },
+  { code: 'H91.90', display: 'Unspecified hearing loss, unspecified ear', synonyms: ['hearing loss', 'deafness'] },
+  { code: 'H93.19', display: 'Tinnitus, unspecified ear', synonyms: ['ringing in ears'] },
+
+  // Circulatory system
+  { code: 'I10', display: 'Essential (primary) hypertension', synonyms: ['high blood pressure', 'hypertension', 'HTN'] },
+  { code: 'I11.9', display: 'Hypertensive heart disease without heart failure' },
+  { code: 'I12.9', display: 'Hypertensive chronic kidney disease with stage 1 through stage 4 chronic kidney disease, or unspecified chronic kidney disease' },
+  { code: 'I20.9', display: 'Angina pectoris, unspecified', synonyms: ['angina'] },
+  { code: 'I21.9', display: 'Acute myocardial infarction, unspecified', synonyms: ['heart attack', 'MI'] },
+  { code: 'I25.10', display: 'Atherosclerotic heart disease of native coronary artery without angina pectoris', synonyms: ['coronary artery disease', 'CAD', 'heart disease'] },
+  { code: 'I25.2', display: 'Old myocardial infarction', synonyms: ['previous heart attack'] },
+  { code: 'I26.99', display: 'Other pulmonary embolism without acute cor pulmonale', synonyms: ['pulmonary embolism', 'PE', 'blood clot in lung'] },
+  { code: 'I27.20', display: 'Pulmonary hypertension, unspecified' },
+  { code: 'I34.1', display: 'Nonrheumatic mitral (valve) prolapse', synonyms: ['mitral valve prolapse', 'MVP'] },
+  { code: 'I35.0', display: 'Nonrheumatic aortic (valve) stenosis', synonyms: ['aortic stenosis'] },
+  { code: 'I42.9', display: 'Cardiomyopathy, unspecified' },
+  { code: 'I47.10', display: 'Supraventricular tachycardia, unspecified', synonyms: ['SVT'] },
+  { code: 'I48.0', display: 'Paroxysmal atrial fibrillation' },
+  { code: 'I48.91', display: 'Unspecified atrial fibrillation', synonyms: ['afib', 'AF', 'atrial fibrillation'] },
+  { code: 'I49.3', display: 'Ventricular premature depolarization', synonyms: ['PVCs', 'extra heartbeats'] },
+  { code: 'I49.9', display: 'Cardiac arrhythmia, unspecified', synonyms: ['irregular heartbeat', 'arrhythmia'] },
+  { code: 'I50.22', display: 'Chronic systolic (congestive) heart failure' },
+  { code: 'I50.9', display: 'Heart failure, unspecified', synonyms: ['congestive heart failure', 'CHF'] },
+  { code: 'I51.7', display: 'Cardiomegaly', synonyms: ['enlarged heart'] },
+  { code: 'I63.9', display: 'Cerebral infarction, unspecified', synonyms: ['stroke', 'CVA'] },
+  { code: 'I65.29', display: 'Occlusion and stenosis of unspecified carotid artery', synonyms: ['carotid artery disease'] },
+  { code: 'I71.40', display: 'Abdominal aortic aneurysm, without rupture, unspecified', synonyms: ['AAA', 'aortic aneurysm'] },
+  { code: 'I73.00', display: "Raynaud's syndrome without gangrene", synonyms: ["Raynaud's"] },
+  { code: 'I73.9', display: 'Peripheral vascular disease, unspecified', synonyms: ['PAD', 'PVD', 'peripheral artery disease'] },
+  { code: 'I82.409', display: 'Acute embolism and thrombosis of unspecified deep veins of unspecified lower extremity', synonyms: ['DVT', 'deep vein thrombosis', 'blood clot in leg'] },
+  { code: 'I83.90', display: 'Asymptomatic varicose veins of unspecified lower extremity', synonyms: ['varicose veins'] },
+  { code: 'I95.1', display: 'Orthostatic hypotension' },
+  { code: 'I95.9', display: 'Hypotension, unspecified', synonyms: ['low blood pressure'] },
+
+  // Respiratory system
+  { code: 'J00', display: 'Acute nasopharyngitis [common cold]', synonyms: ['cold'] },
+  { code: 'J01.90', display: 'Acute sinusitis, unspecified', synonyms: ['sinus infection'] },
+  { code: 'J02.0', display: 'Streptococcal pharyngitis', synonyms: ['strep throat'] },
+  { code: 'J02.9', display: 'Acute pharyngitis, unspecified', synonyms: ['sore throat'] },
+  { code: 'J03.90', display: 'Acute tonsillitis, unspecified', synonyms: ['tonsillitis'] },
+  { code: 'J06.9', display: 'Acute upper respiratory infection, unspecified', synonyms: ['URI', 'chest cold'] },
+  { code: 'J11.1', display: 'Influenza due to unidentified influenza virus with other respiratory manifestations', synonyms: ['flu', 'influenza'] },
+  { code: 'J18.9', display: 'Pneumonia, unspecified organism', synonyms: ['pneumonia'] },
+  { code: 'J20.9', display: 'Acute bronchitis, unspecified', synonyms: ['bronchitis'] },
+  { code: 'J30.2', display: 'Other seasonal allergic rhinitis', synonyms: ['seasonal allergies'] },
+  { code: 'J30.9', display: 'Allergic rhinitis, unspecified', synonyms: ['hay fever', 'nasal allergies'] },
+  { code: 'J32.9', display: 'Chronic sinusitis, unspecified' },
+  { code: 'J34.2', display: 'Deviated nasal septum', synonyms: ['deviated septum'] },
+  { code: 'J35.01', display: 'Chronic tonsillitis' },
+  { code: 'J43.9', display: 'Emphysema, unspecified', synonyms: ['emphysema'] },
+  { code: 'J44.1', display: 'Chronic obstructive pulmonary disease with (acute) exacerbation', synonyms: ['COPD flare'] },
+  { code: 'J44.9', display: 'Chronic obstructive pulmonary disease, unspecified', synonyms: ['COPD'] },
+  { code: 'J45.20', display: 'Mild intermittent asthma, uncomplicated' },
+  { code: 'J45.30', display: 'Mild persistent asthma, uncomplicated' },
+  { code: 'J45.40', display: 'Moderate persistent asthma, uncomplicated' },
+  { code: 'J45.50', display: 'Severe persistent asthma, uncomplicated' },
+  { code: 'J45.909', display: 'Unspecified asthma, uncomplicated', synonyms: ['asthma'] },
+  { code: 'J45.990', display: 'Exercise induced bronchospasm', synonyms: ['exercise-induced asthma'] },
+  { code: 'J47.9', display: 'Bronchiectasis, uncomplicated' },
+  { code: 'J84.10', display: 'Pulmonary fibrosis, unspecified' },
+  { code: 'J93.9', display: 'Pneumothorax, unspecified', synonyms: ['collapsed lung'] },
+
+  // Digestive system
+  { code: 'K02.9', display: 'Dental caries, unspecified', synonyms: ['cavities', 'tooth decay'] },
+  { code: 'K05.10', display: 'Chronic gingivitis, plaque induced', synonyms: ['gum disease', 'gingivitis'] },
+  { code: 'K12.0', display: 'Recurrent oral aphthae', synonyms: ['canker sores', 'mouth ulcers'] },
+  { code: 'K20.90', display: 'Esophagitis, unspecified without bleeding' },
+  { code: 'K21.00', display: 'Gastro-esophageal reflux disease with esophagitis, without bleeding' },
+  { code: 'K21.9', display: 'Gastro-esophageal reflux disease without esophagitis', synonyms: ['GERD', 'acid reflux', 'heartburn'] },
+  { code: 'K22.70', display: "Barrett's esophagus without dysplasia" },
+  { code: 'K25.9', display: 'Gastric ulcer, unspecified as acute or chronic, without hemorrhage or perforation', synonyms: ['stomach ulcer'] },
+  { code: 'K27.9', display: 'Peptic ulcer, site unspecified, unspecified as acute or chronic, without hemorrhage or perforation', synonyms: ['peptic ulcer', 'ulcer'] },
+  { code: 'K29.70', display: 'Gastritis, unspecified, without bleeding', synonyms: ['gastritis'] },
+  { code: 'K30', display: 'Functional dyspepsia', synonyms: ['indigestion'] },
+  { code: 'K31.84', display: 'Gastroparesis' },
+  { code: 'K35.80', display: 'Unspecified acute appendicitis', synonyms: ['appendicitis'] },
+  { code: 'K40.90', display: 'Unilateral inguinal hernia, without obstruction or gangrene, not specified as recurrent', synonyms: ['inguinal hernia', 'hernia'] },
+  { code: 'K42.9', display: 'Umbilical hernia without obstruction or gangrene' },
+  { code: 'K44.9', display: 'Diaphragmatic hernia without obstruction or gangrene', synonyms: ['hiatal hernia', 'hiatus hernia'] },
+  { code: 'K50.90', display: "Crohn's disease, unspecified, without complications", synonyms: ["Crohn's"] },
+  { code: 'K51.90', display: 'Ulcerative colitis, unspecified, without complications', synonyms: ['UC', 'colitis'] },
+  { code: 'K52.9', display: 'Noninfective gastroenteritis and colitis, unspecified' },
+  { code: 'K57.30', display: 'Diverticulosis of large intestine without perforation or abscess without bleeding', synonyms: ['diverticulosis'] },
+  { code: 'K57.32', display: 'Diverticulitis of large intestine without perforation or abscess without bleeding', synonyms: ['diverticulitis'] },
+  { code: 'K58.0', display: 'Irritable bowel syndrome with diarrhea', synonyms: ['IBS-D'] },
+  { code: 'K58.9', display: 'Irritable bowel syndrome without diarrhea', synonyms: ['IBS', 'irritable bowel'] },
+  { code: 'K59.00', display: 'Constipation, unspecified', synonyms: ['constipation'] },
+  { code: 'K64.9', display: 'Unspecified hemorrhoids', synonyms: ['piles', 'haemorrhoids'] },
+  { code: 'K70.30', display: 'Alcoholic cirrhosis of liver without ascites' },
+  { code: 'K74.60', display: 'Unspecified cirrhosis of liver', synonyms: ['cirrhosis'] },
+  { code: 'K75.81', display: 'Nonalcoholic steatohepatitis (NASH)', synonyms: ['NASH', 'MASH'] },
+  { code: 'K76.0', display: 'Fatty (change of) liver, not elsewhere classified', synonyms: ['fatty liver', 'NAFLD'] },
+  { code: 'K80.20', display: 'Calculus of gallbladder without cholecystitis without obstruction', synonyms: ['gallstones'] },
+  { code: 'K81.9', display: 'Cholecystitis, unspecified', synonyms: ['gallbladder inflammation'] },
+  { code: 'K85.90', display: 'Acute pancreatitis without necrosis or infection, unspecified', synonyms: ['pancreatitis'] },
+  { code: 'K86.1', display: 'Other chronic pancreatitis', synonyms: ['chronic pancreatitis'] },
+  { code: 'K90.0', display: 'Celiac disease', synonyms: ['coeliac disease', 'gluten intolerance'] },
+  { code: 'K92.2', display: 'Gastrointestinal hemorrhage, unspecified', synonyms: ['GI bleed'] },
+
+  // Skin
+  { code: 'L01.00', display: 'Impetigo, unspecified' },
+  { code: 'L02.91', display: 'Cutaneous abscess, unspecified', synonyms: ['abscess', 'boil'] },
+  { code: 'L03.90', display: 'Cellulitis, unspecified', synonyms: ['skin infection'] },
+  { code: 'L20.9', display: 'Atopic dermatitis, unspecified', synonyms: ['eczema'] },
+  { code: 'L21.9', display: 'Seborrheic dermatitis, unspecified', synonyms: ['dandruff'] },
+  { code: 'L23.9', display: 'Allergic contact dermatitis, unspecified cause', synonyms: ['contact dermatitis'] },
+  { code: 'L30.9', display: 'Dermatitis, unspecified', synonyms: ['rash'] },
+  { code: 'L40.0', display: 'Psoriasis vulgaris', synonyms: ['plaque psoriasis'] },
+  { code: 'L40.9', display: 'Psoriasis, unspecified', synonyms: ['psoriasis'] },
+  { code: 'L50.9', display: 'Urticaria, unspecified', synonyms: ['hives'] },
+  { code: 'L57.0', display: 'Actinic keratosis', synonyms: ['sun spots'] },
+  { code: 'L60.0', display: 'Ingrowing nail', synonyms: ['ingrown toenail'] },
+  { code: 'L63.9', display: 'Alopecia areata, unspecified' },
+  { code: 'L65.9', display: 'Nonscarring hair loss, unspecified', synonyms: ['hair loss'] },
+  { code: 'L70.0', display: 'Acne vulgaris', synonyms: ['acne'] },
+  { code: 'L71.9', display: 'Rosacea, unspecified', synonyms: ['rosacea'] },
+  { code: 'L72.0', display: 'Epidermal cyst', synonyms: ['sebaceous cyst'] },
+  { code: 'L73.2', display: 'Hidradenitis suppurativa' },
+  { code: 'L80', display: 'Vitiligo' },
+  { code: 'L82.1', display: 'Other seborrheic keratosis' },
+  { code: 'L84', display: 'Corns and callosities', synonyms: ['corns', 'calluses'] },
+  { code: 'L89.90', display: 'Pressure ulcer of unspecified site, unspecified stage', synonyms: ['bedsore', 'pressure sore'] },
+
+  // Musculoskeletal system
+  { code: 'M06.9', display: 'Rheumatoid arthritis, unspecified', synonyms: ['RA'] },
+  { code: 'M10.9', display: 'Gout, unspecified', synonyms: ['gout'] },
+  { code: 'M15.0', display: 'Primary generalized (osteo)arthritis' },
+  { code: 'M16.9', display: 'Osteoarthritis of hip, unspecified', synonyms: ['hip arthritis'] },
+  { code: 'M17.9', display: 'Osteoarthritis of knee, unspecified', synonyms: ['knee arthritis'] },
+  { code: 'M19.90', display: 'Unspecified osteoarthritis, unspecified site', synonyms: ['arthritis', 'osteoarthritis', 'OA'] },
+  { code: 'M20.10', display: 'Hallux valgus (acquired), unspecified foot', synonyms: ['bunion'] },
+  { code: 'M25.50', display: 'Pain in unspecified joint', synonyms: ['joint pain'] },
+  { code: 'M25.561', display: 'Pain in right knee' },
+  { code: 'M25.562', display: 'Pain in left knee' },
+  { code: 'M26.609', display: 'Unspecified temporomandibular joint disorder, unspecified side', synonyms: ['TMJ'] },
+  { code: 'M32.9', display: 'Systemic lupus erythematosus, unspecified', synonyms: ['lupus', 'SLE'] },
+  { code: 'M35.00', display: 'Sjogren syndrome, unspecified', synonyms: ["Sjögren's"] },
+  { code: 'M35.3', display: 'Polymyalgia rheumatica', synonyms: ['PMR'] },
+  { code: 'M41.9', display: 'Scoliosis, unspecified' },
+  { code: 'M45.9', display: 'Ankylosing spondylitis of unspecified sites in spine' },
+  { code: 'M47.816', display: 'Spondylosis without myelopathy or radiculopathy, lumbar region' },
+  { code: 'M48.061', display: 'Spinal stenosis, lumbar region without neurogenic claudication', synonyms: ['spinal stenosis'] },
+  { code: 'M50.30', display: 'Other cervical disc degeneration, unspecified cervical region' },
+  { code: 'M51.26', display: 'Other intervertebral disc displacement, lumbar region', synonyms: ['herniated disc', 'slipped disc', 'bulging disc'] },
+  { code: 'M54.2', display: 'Cervicalgia', synonyms: ['neck pain'] },
+  { code: 'M54.30', display: 'Sciatica, unspecified side', synonyms: ['sciatica'] },
+  { code: 'M54.50', display: 'Low back pain, unspecified', synonyms: ['lower back pain'] },
+  { code: 'M54.9', display: 'Dorsalgia, unspecified', synonyms: ['back pain'] },
+  { code: 'M62.830', display: 'Muscle spasm of back' },
+  { code: 'M65.4', display: 'Radial styloid tenosynovitis [de Quervain]' },
+  { code: 'M72.2', display: 'Plantar fascial fibromatosis', synonyms: ['plantar fasciitis'] },
+  { code: 'M75.00', display: 'Adhesive capsulitis of unspecified shoulder', synonyms: ['frozen shoulder'] },
+  { code: 'M75.100', display: 'Unspecified rotator cuff tear or rupture of unspecified shoulder, not specified as traumatic', synonyms: ['rotator cuff tear'] },
+  { code: 'M77.10', display: 'Lateral epicondylitis, unspecified elbow', synonyms: ['tennis elbow'] },
+  { code: 'M79.10', display: 'Myalgia, unspecified site', synonyms: ['muscle pain'] },
+  { code: 'M79.7', display: 'Fibromyalgia' },
+  { code: 'M81.0', display: 'Age-related osteoporosis without current pathological fracture', synonyms: ['osteoporosis'] },
+  { code: 'M85.80', display: 'Other specified disorders of bone density and structure, unspecified site', synonyms: ['osteopenia'] },
+
+  // Genitourinary system
+  { code: 'N17.9', display: 'Acute kidney failure, unspecified', synonyms: ['acute kidney injury', 'AKI'] },
+  { code: 'N18.30', display: 'Chronic kidney disease, stage 3 unspecified', synonyms: ['CKD 3'] },
+  { code: 'N18.4', display: 'Chronic kidney disease, stage 4 (severe)', synonyms: ['CKD 4'] },
+  { code: 'N18.6', display: 'End stage renal disease', synonyms: ['ESRD', 'kidney failure'] },
+  { code: 'N18.9', display: 'Chronic kidney disease, unspecified', synonyms: ['CKD', 'kidney disease'] },
+  { code: 'N20.0', display: 'Calculus of kidney', synonyms: ['kidney stones'] },
+  { code: 'N30.00', display: 'Acute cystitis without hematuria', synonyms: ['cystitis'] },
+  { code: 'N32.81', display: 'Overactive bladder', synonyms: ['OAB'] },
+  { code: 'N39.0', display: 'Urinary tract infection, site not specified', synonyms: ['UTI', 'bladder infection'] },
+  { code: 'N39.3', display: 'Stress incontinence (female) (male)' },
+  { code: 'N40.0', display: 'Benign prostatic hyperplasia without lower urinary tract symptoms', synonyms: ['BPH', 'enlarged prostate'] },
+  { code: 'N40.1', display: 'Benign prostatic hyperplasia with lower urinary tract symptoms' },
+  { code: 'N46.9', display: 'Male infertility, unspecified' },
+  { code: 'N52.9', display: 'Male erectile dysfunction, unspecified', synonyms: ['erectile dysfunction', 'ED'] },
+  { code: 'N60.19', display: 'Diffuse cystic mastopathy of unspecified breast', synonyms: ['fibrocystic breasts'] },
+  { code: 'N63.0', display: 'Unspecified lump in unspecified breast', synonyms: ['breast lump'] },
+  { code: 'N73.9', display: 'Female pelvic inflammatory disease, unspecified', synonyms: ['PID'] },
+  { code: 'N76.0', display: 'Acute vaginitis' },
+  { code: 'N80.9', display: 'Endometriosis, unspecified', synonyms: ['endometriosis'] },
+  { code: 'N83.20', display: 'Unspecified ovarian cysts', synonyms: ['ovarian cyst'] },
+  { code: 'N92.0', display: 'Excessive and frequent menstruation with regular cycle', synonyms: ['heavy periods', 'menorrhagia'] },
+  { code: 'N94.6', display: 'Dysmenorrhea, unspecified', synonyms: ['painful periods', 'period pain'] },
+  { code: 'N95.1', display: 'Menopausal and female climacteric states', synonyms: ['menopause', 'hot flashes'] },
+  { code: 'N97.9', display: 'Female infertility, unspecified', synonyms: ['infertility'] },
+
+  // Pregnancy
+  { code: 'O13.9', display: 'Gestational [pregnancy-induced] hypertension without significant proteinuria, unspecified trimester' },
+  { code: 'O14.90', display: 'Unspecified pre-eclampsia, unspecified trimester', synonyms: ['preeclampsia'] },
+  { code: 'O21.0', display: 'Mild hyperemesis gravidarum', synonyms: ['morning sickness'] },
+  { code: 'O24.419', display: 'Gestational diabetes mellitus in pregnancy, unspecified control', synonyms: ['gestational diabetes'] },
+  { code: 'Z33.1', display: 'Pregnant state, incidental', synonyms: ['pregnant', 'pregnancy'] },
+
+  // Congenital conditions
+  { code: 'Q21.10', display: 'Atrial septal defect, unspecified', synonyms: ['ASD', 'hole in the heart'] },
+  { code: 'Q90.9', display: 'Down syndrome, unspecified', synonyms: ['trisomy 21'] },
+
+  // Symptoms and signs
+  { code: 'R00.0', display: 'Tachycardia, unspecified', synonyms: ['fast heart rate'] },
+  { code: 'R00.2', display: 'Palpitations' },
+  { code: 'R01.1', display: 'Cardiac murmur, unspecified', synonyms: ['heart murmur'] },
+  { code: 'R03.0', display: 'Elevated blood-pressure reading, without diagnosis of hypertension' },
+  { code: 'R05.9', display: 'Cough, unspecified', synonyms: ['cough'] },
+  { code: 'R06.02', display: 'Shortness of breath', synonyms: ['breathlessness'] },
+  { code: 'R07.9', display: 'Chest pain, unspecified' },
+  { code: 'R10.9', display: 'Unspecified abdominal pain', synonyms: ['stomach ache', 'belly pain'] },
+  { code: 'R11.0', display: 'Nausea' },
+  { code: 'R11.2', display: 'Nausea with vomiting, unspecified' },
+  { code: 'R19.7', display: 'Diarrhea, unspecified', synonyms: ['diarrhoea'] },
+  { code: 'R31.9', display: 'Hematuria, unspecified', synonyms: ['blood in urine'] },
+  { code: 'R32', display: 'Unspecified urinary incontinence', synonyms: ['incontinence', 'bladder leakage'] },
+  { code: 'R35.0', display: 'Frequency of micturition', synonyms: ['frequent urination'] },
+  { code: 'R42', display: 'Dizziness and giddiness', synonyms: ['dizziness', 'lightheaded'] },
+  { code: 'R50.9', display: 'Fever, unspecified', synonyms: ['fever'] },
+  { code: 'R51.9', display: 'Headache, unspecified', synonyms: ['headache', 'headaches'] },
+  { code: 'R53.83', display: 'Other fatigue', synonyms: ['fatigue', 'tiredness'] },
+  { code: 'R55', display: 'Syncope and collapse', synonyms: ['fainting'] },
+  { code: 'R56.9', display: 'Unspecified convulsions', synonyms: ['seizure', 'seizures'] },
+  { code: 'R60.0', display: 'Localized edema', synonyms: ['swelling'] },
+  { code: 'R63.4', display: 'Abnormal weight loss' },
+  { code: 'R73.03', display: 'Prediabetes', synonyms: ['borderline diabetes'] },
+
+  // Injuries and allergic reactions
+  { code: 'S06.0X0A', display: 'Concussion without loss of consciousness, initial encounter', synonyms: ['concussion'] },
+  { code: 'S93.401A', display: 'Sprain of unspecified ligament of right ankle, initial encounter', synonyms: ['sprained ankle'] },
+  { code: 'S93.402A', display: 'Sprain of unspecified ligament of left ankle, initial encounter', synonyms: ['sprained ankle'] },
+  { code: 'T78.2XXA', display: 'Anaphylactic shock, unspecified, initial encounter', synonyms: ['anaphylaxis'] },
+  { code: 'T78.40XA', display: 'Allergy, unspecified, initial encounter', synonyms: ['allergic reaction'] },
+
+  // History and status
+  { code: 'Z79.01', display: 'Long term (current) use of anticoagulants', synonyms: ['blood thinners'] },
+  { code: 'Z79.4', display: 'Long term (current) use of insulin', synonyms: ['insulin'] },
+  { code: 'Z72.0', display: 'Tobacco use' },
+  { code: 'Z80.3', display: 'Family history of malignant neoplasm of breast' },
+  { code: 'Z82.49', display: 'Family history of ischemic heart disease and other diseases of the circulatory system' },
+  { code: 'Z85.3', display: 'Personal history of malignant neoplasm of breast', synonyms: ['breast cancer survivor'] },
+  { code: 'Z86.718', display: 'Personal history of other venous thrombosis and embolism', synonyms: ['history of blood clots'] },
+  { code: 'Z86.73', display: 'Personal history of transient ischemic attack (TIA), and cerebral infarction without residual deficits', synonyms: ['history of stroke'] },
+  { code: 'Z87.891', display: 'Personal history of nicotine dependence', synonyms: ['former smoker', 'ex-smoker'] },
+  { code: 'Z88.0', display: 'Allergy status to penicillin', synonyms: ['penicillin allergy'] },
+  { code: 'Z91.010', display: 'Allergy to peanuts', synonyms: ['peanut allergy'] },
+  { code: 'Z95.0', display: 'Presence of cardiac pacemaker', synonyms: ['pacemaker'] },
+  { code: 'Z95.1', display: 'Presence of aortocoronary bypass graft', synonyms: ['bypass surgery', 'CABG'] },
+  { code: 'Z96.651', display: 'Presence of right artificial knee joint', synonyms: ['knee replacement'] },
+];
@@ -0,0 +1,79 @@
+import { ICD10CM_SYSTEM } from '@/lib/fhir/condition';
+import { ICD10CM_CODES, Icd10CmEntry } from './icd10cm';
+import { tokenize, termScore } from './matching';
+
+// Offline condition code search over the bundled ICD-10-CM subset. Matches codes by prefix ("E11" -> E11.x)
+// and names word by word (see ./matching).
+
+export const DEFAULT_SEARCH_LIMIT = 10;
+export const MAX_SEARCH_LIMIT = 25;
+
+export interface TerminologyResult {
+  system: string;
+  code: string;
+  display: string;
+  // Set when the query matched a lay term rather than the official title
+  matchedTerm?: string;
+}
+
+interface IndexedEntry {
+  entry: Icd10CmEntry;
+  compactCode: string;
+  // Words of the display title followed by the words of each synonym
+  terms: { text: string; words: string[] }[];
+}
+
+const compact = (code: string) => code.replace(/[^0-9A-Za-z]/g, '').toUpperCase();
+
+const INDEX: IndexedEntry[] = ICD10CM_CODES.map(entry => ({
+  entry,
+  compactCode: compact(entry.code),
+  terms: [entry.display, ...(entry.synonyms ?? [])].map(text => ({ text, words: tokenize(text) })),
+}));
+
+export function searchIcd10Cm(query: string, limit = DEFAULT_SEARCH_LIMIT): TerminologyResult[] {
+  const tokens = tokenize(query);
+  if (tokens.length === 0) {
+    return [];
+  }
+
+  const compactQuery = compact(query);
+  const looksLikeCode = /^[A-Z][0-9]/.test(compactQuery);
+
+  const matches: { indexed: IndexedEntry; score: number; matchedTerm?: string }[] = [];
+
+  for (const indexed of INDEX) {
+    let best = 0;
+    let matchedTerm: string | undefined;
+
+    if (looksLikeCode && indexed.compactCode.startsWith(compactQuery)) {
+      best = indexed.compactCode === compactQuery ? 10 : 8;
+    }
+
+    indexed.terms.forEach((term, termIndex) => {
+      const score = termScore(tokens, term.words);
+      if (score > best) {
+        best = score;
+        matchedTerm = termIndex === 0 ? undefined : term.text;
+      }
+    });
+
+    if (best > 0) {
+      matches.push({ indexed, score: best, matchedTerm });
+    }
+  }
+
+  // Ties go to the shorter, more general title, then code order
+  matches.sort((a, b) =>
+    b.score - a.score
+    || a.indexed.entry.display.length - b.indexed.entry.display.length
+    || a.indexed.entry.code.localeCompare(b.indexed.entry.code)
+  );
+
+  return matches.slice(0, limit).map(({ indexed, matchedTerm }) => ({
+    system: ICD10CM_SYSTEM,
+    code: indexed.entry.code,
+    display: indexed.entry.display,
+    ...(matchedTerm && { matchedTerm }),
+  }));
+}
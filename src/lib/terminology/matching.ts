@@ -0,0 +1,55 @@
+// Word-by-word matching shared by the terminology searches: exact words rank above prefixes ("diab"),
+// which rank above typos ("diabtes").
+
+export const tokenize = (text: string) =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+
+// Optimal string alignment distance (Levenshtein plus adjacent transpositions)
+function editDistance(a: string, b: string): number {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array<number>(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) rows[0][j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+}
+
+// 3 = exact word, 2 = word prefix, 1 = within the typo budget (of the word or the word's prefix), 0 = no match
+function wordScore(token: string, word: string): number {
+  if (word === token) return 3;
+  if (word.startsWith(token)) return 2;
+  if (token.length < 4) return 0;
+
+  const allowedEdits = token.length >= 8 ? 2 : 1;
+  if (Math.abs(word.length - token.length) <= allowedEdits && editDistance(token, word) <= allowedEdits) return 1;
+  return word.length > token.length && editDistance(token, word.slice(0, token.length)) <= allowedEdits ? 1 : 0;
+}
+
+// Every query token must match some word of the term; returns 0 otherwise
+export function termScore(tokens: string[], words: string[]): number {
+  let total = 0;
+  for (const token of tokens) {
+    const best = Math.max(0, ...words.map(word => wordScore(token, word)));
+    if (best === 0) return 0;
+    total += best;
+  }
+
+  // Prefer terms the query starts and mostly covers, so "migraine" ranks the general code first
+  let score = total / tokens.length + 0.5 * Math.min(1, tokens.length / words.length);
+  if (wordScore(tokens[0], words[0]) > 0) score += 0.5;
+  if (tokens.length === words.length && total === tokens.length * 3) score += 2;
+  return score;
+}
@@ -0,0 +1,163 @@
+import { readFile } from 'fs/promises';
+import { RXNORM_SYSTEM } from '@/lib/fhir/medication-statement';
+import { RXNORM_CONCEPTS, RxNormConcept } from './rxnorm';
+import { tokenize, termScore } from './matching';
+import { TerminologyResult, DEFAULT_SEARCH_LIMIT } from './index';
+
+// Medication search and name normalization over the local RxNorm subset. Server-only: the subset
+// may be read from RXNORM_SUBSET_FILE.
+
+export interface MedicationSearchResult extends TerminologyResult {
+  // code is the ingredient RxCUI
+  genericName: string;
+  brandName?: string;
+  strengths: string[];
+}
+
+interface IndexedConcept {
+  concept: RxNormConcept;
+  // Generic name followed by its synonyms
+  genericTerms: { text: string; words: string[] }[];
+  brandTerms: { text: string; words: string[] }[];
+}
+
+interface RxNormIndex {
+  concepts: IndexedConcept[];
+  byRxcui: Map<string, RxNormConcept>;
+}
+
+const isStringArray = (value: unknown) => value === undefined || (Array.isArray(value) && value.every(item => typeof item === 'string'));
+
+const isRxNormConcept = (value: unknown): value is RxNormConcept => {
+  const concept = value as RxNormConcept;
+  return !!concept
+    && typeof concept.rxcui === 'string' && /^\d+$/.test(concept.rxcui)
+    && typeof concept.name === 'string' && concept.name.length > 0
+    && isStringArray(concept.brands)
+    && isStringArray(concept.strengths)
+    && isStringArray(concept.synonyms);
+};
+
+async function loadConcepts(): Promise<RxNormConcept[]> {
+  const file = process.env.RXNORM_SUBSET_FILE;
+  if (!file) {
+    return RXNORM_CONCEPTS;
+  }
+
+  try {
+    const data = JSON.parse(await readFile(file, 'utf-8'));
+    if (Array.isArray(data) && data.length > 0 && data.every(isRxNormConcept)) {
+      return data;
+    }
+    console.error(`RXNORM_SUBSET_FILE ${file} is not an array of RxNorm concepts; using the bundled subset`);
+  } catch (error) {
+    console.error(`Failed to load RXNORM_SUBSET_FILE ${file}; using the bundled subset:`, error);
+  }
+  return RXNORM_CONCEPTS;
+}
+
+const toTerm = (text: string) => ({ text, words: tokenize(text) });
+
+let rxNormIndex: Promise<RxNormIndex> | null = null;
+
+// Loaded once per server process
+const getIndex = () => {
+  rxNormIndex ??= loadConcepts().then(concepts => ({
+    concepts: concepts.map(concept => ({
+      concept,
+      genericTerms: [concept.name, ...(concept.synonyms ?? [])].map(toTerm),
+      brandTerms: (concept.brands ?? []).map(toTerm),
+    })),
+    byRxcui: new Map(concepts.map(concept => [concept.rxcui, concept])),
+  }));
+  return rxNormIndex;
+};
+
+const toResult = (concept: RxNormConcept, brandName?: string, matchedTerm?: string): MedicationSearchResult => ({
+  system: RXNORM_SYSTEM,
+  code: concept.rxcui,
+  display: brandName ? `${brandName} (${concept.name})` : concept.name,
+  ...(matchedTerm && { matchedTerm }),
+  genericName: concept.name,
+  ...(brandName && { brandName }),
+  strengths: concept.strengths ?? [],
+});
+
+// Returns the generic drug and each of its brands as separate brand/generic pairs. A generic-name query
+// also lists the brands (ranked below the generic); a brand-name query lists only that brand.
+export async function searchRxNorm(query: string, limit = DEFAULT_SEARCH_LIMIT): Promise<MedicationSearchResult[]> {
+  const tokens = tokenize(query);
+  if (tokens.length === 0) {
+    return [];
+  }
+
+  const { concepts } = await getIndex();
+  const matches: { result: MedicationSearchResult; score: number }[] = [];
+
+  for (const { concept, genericTerms, brandTerms } of concepts) {
+    let genericScore = 0;
+    let matchedTerm: string | undefined;
+    genericTerms.forEach((term, termIndex) => {
+      const score = termScore(tokens, term.words);
+      if (score > genericScore) {
+        genericScore = score;
+        matchedTerm = termIndex === 0 ? undefined : term.text;
+      }
+    });
+
+    if (genericScore > 0) {
+      matches.push({ result: toResult(concept, undefined, matchedTerm), score: genericScore });
+    }
+
+    for (const brand of brandTerms) {
+      const score = Math.max(termScore(tokens, brand.words), genericScore - 1);
+      if (score > 0) {
+        matches.push({ result: toResult(concept, brand.text), score });
+      }
+    }
+  }
+
+  matches.sort((a, b) => b.score - a.score || a.result.display.localeCompare(b.result.display));
+  return matches.slice(0, limit).map(match => match.result);
+}
+
+export async function findRxNormConcept(rxcui: string): Promise<RxNormConcept | undefined> {
+  return (await getIndex()).byRxcui.get(rxcui);
+}
+
+// Exact (case- and punctuation-insensitive) match of a free-text name against generic names, synonyms and brands
+async function matchRxNormName(name: string | null | undefined): Promise<RxNormConcept | undefined> {
+  const key = tokenize(name ?? '').join(' ');
+  if (!key) {
+    return undefined;
+  }
+
+  const { concepts } = await getIndex();
+  return concepts.find(({ genericTerms, brandTerms }) =>
+    [...genericTerms, ...brandTerms].some(term => term.words.join(' ') === key)
+  )?.concept;
+}
+
+interface MedicationNames {
+  medicationName?: string;
+  genericName?: string | null;
+  rxcui?: string | null;
+}
+
+// Fill in rxcui and genericName so records typed as free text ("Lipitor", "Tylenol") are coded the same way
+// as ones picked from the autocomplete. Values the patient entered are never replaced.
+export async function normalizeMedication<T extends MedicationNames>(record: T): Promise<T> {
+  const concept = record.rxcui
+    ? await findRxNormConcept(record.rxcui)
+    : (await matchRxNormName(record.medicationName)) ?? (await matchRxNormName(record.genericName));
+
+  if (!concept) {
+    return record;
+  }
+
+  return {
+    ...record,
+    rxcui: record.rxcui || concept.rxcui,
+    genericName: record.genericName || concept.name,
+  };
+}
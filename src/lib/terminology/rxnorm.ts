@@ -0,0 +1,125 @@
+// Bundled RxNorm subset: single-ingredient concepts (TTY=IN) for commonly prescribed medications, with
+// their brand names (BN) and the strengths/dose forms of their clinical drugs (SCD). Set RXNORM_SUBSET_FILE
+// to a JSON file of the same shape (an array of RxNormConcept) to use a larger local extract instead.
+
+export interface RxNormConcept {
+  // Ingredient RxCUI; this is what medications.rxcui stores
+  rxcui: string;
+  // Ingredient name as RxNorm writes it, e.g. "metformin"
+  name: string;
+  brands?: string[];
+  // Strength and dose form as in the SCD names, e.g. "500 MG Oral Tablet"
+  strengths?: string[];
+  // International names and abbreviations patients type instead
+  synonyms?: string[];
+}
+
+export const RXNORM_CONCEPTS: RxNormConcept[] = [
+  { rxcui: '161', name: 'acetaminophen', brands: ['Tylenol'], strengths: ['325 MG Oral Tablet', '500 MG Oral Tablet'], synonyms: ['paracetamol', 'APAP'] },
+  { rxcui: '435', name: 'albuterol', brands: ['ProAir', 'Ventolin', 'Proventil'], strengths: ['0.09 MG/ACTUAT Metered Dose Inhaler', '0.83 MG/ML Inhalation Solution'], synonyms: ['salbutamol'] },
+  { rxcui: '519', name: 'allopurinol', brands: ['Zyloprim'], strengths: ['100 MG Oral Tablet', '300 MG Oral Tablet'] },
+  { rxcui: '596', name: 'alprazolam', brands: ['Xanax'], strengths: ['0.25 MG Oral Tablet', '0.5 MG Oral Tablet', '1 MG Oral Tablet'] },
+  { rxcui: '703', name: 'amiodarone', brands: ['Pacerone'], strengths: ['200 MG Oral Tablet'] },
+  { rxcui: '704', name: 'amitriptyline', strengths: ['10 MG Oral Tablet', '25 MG Oral Tablet', '50 MG Oral Tablet'] },
+  { rxcui: '17767', name: 'amlodipine', brands: ['Norvasc'], strengths: ['2.5 MG Oral Tablet', '5 MG Oral Tablet', '10 MG Oral Tablet'] },
+  { rxcui: '723', name: 'amoxicillin', brands: ['Amoxil'], strengths: ['250 MG Oral Capsule', '500 MG Oral Capsule', '875 MG Oral Tablet'] },
+  { rxcui: '1364430', name: 'apixaban', brands: ['Eliquis'], strengths: ['2.5 MG Oral Tablet', '5 MG Oral Tablet'] },
+  { rxcui: '1191', name: 'aspirin', brands: ['Bayer', 'Ecotrin'], strengths: ['81 MG Delayed Release Oral Tablet', '325 MG Oral Tablet'], synonyms: ['ASA', 'acetylsalicylic acid'] },
+  { rxcui: '83367', name: 'atorvastatin', brands: ['Lipitor'], strengths: ['10 MG Oral Tablet', '20 MG Oral Tablet', '40 MG Oral Tablet', '80 MG Oral Tablet'] },
+  { rxcui: '18631', name: 'azithromycin', brands: ['Zithromax'], strengths: ['250 MG Oral Tablet', '500 MG Oral Tablet'] },
+  { rxcui: '42347', name: 'bupropion', brands: ['Wellbutrin', 'Zyban'], strengths: ['150 MG 12HR Extended Release Oral Tablet', '150 MG 24HR Extended Release Oral Tablet', '300 MG 24HR Extended Release Oral Tablet'] },
+  { rxcui: '2002', name: 'carbamazepine', brands: ['Tegretol'], strengths: ['200 MG Oral Tablet'] },
+  { rxcui: '20352', name: 'carvedilol', brands: ['Coreg'], strengths: ['3.125 MG Oral Tablet', '6.25 MG Oral Tablet', '12.5 MG Oral Tablet', '25 MG Oral Tablet'] },
+  { rxcui: '140587', name: 'celecoxib', brands: ['Celebrex'], strengths: ['100 MG Oral Capsule', '200 MG Oral Capsule'] },
+  { rxcui: '2231', name: 'cephalexin', brands: ['Keflex'], strengths: ['250 MG Oral Capsule', '500 MG Oral Capsule'] },
+  { rxcui: '20610', name: 'cetirizine', brands: ['Zyrtec'], strengths: ['10 MG Oral Tablet'] },
+  { rxcui: '2551', name: 'ciprofloxacin', brands: ['Cipro'], strengths: ['250 MG Oral Tablet', '500 MG Oral Tablet'] },
+  { rxcui: '2556', name: 'citalopram', brands: ['Celexa'], strengths: ['10 MG Oral Tablet', '20 MG Oral Tablet', '40 MG Oral Tablet'] },
+  { rxcui: '21212', name: 'clarithromycin', brands: ['Biaxin'], strengths: ['250 MG Oral Tablet', '500 MG Oral Tablet'] },
+  { rxcui: '2582', name: 'clindamycin', brands: ['Cleocin'], strengths: ['150 MG Oral Capsule', '300 MG Oral Capsule'] },
+  { rxcui: '2598', name: 'clonazepam', brands: ['Klonopin'], strengths: ['0.5 MG Oral Tablet', '1 MG Oral Tablet'] },
+  { rxcui: '32968', name: 'clopidogrel', brands: ['Plavix'], strengths: ['75 MG Oral Tablet'] },
+  { rxcui: '2683', name: 'colchicine', brands: ['Colcrys'], strengths: ['0.6 MG Oral Tablet'] },
+  { rxcui: '21949', name: 'cyclobenzaprine', brands: ['Flexeril'], strengths: ['5 MG Oral Tablet', '10 MG Oral Tablet'] },
+  { rxcui: '3407', name: 'digoxin', brands: ['Lanoxin'], strengths: ['0.125 MG Oral Tablet', '0.25 MG Oral Tablet'] },
+  { rxcui: '3443', name: 'diltiazem', brands: ['Cardizem'], strengths: ['30 MG Oral Tablet', '120 MG 24HR Extended Release Oral Capsule', '180 MG 24HR Extended Release Oral Capsule'] },
+  { rxcui: '3498', name: 'diphenhydramine', brands: ['Benadryl'], strengths: ['25 MG Oral Capsule'] },
+  { rxcui: '3640', name: 'doxycycline', brands: ['Vibramycin'], strengths: ['100 MG Oral Capsule', '100 MG Oral Tablet'] },
+  { rxcui: '72625', name: 'duloxetine', brands: ['Cymbalta'], strengths: ['20 MG Delayed Release Oral Capsule', '30 MG Delayed Release Oral Capsule', '60 MG Delayed Release Oral Capsule'] },
+  { rxcui: '1545653', name: 'empagliflozin', brands: ['Jardiance'], strengths: ['10 MG Oral Tablet', '25 MG Oral Tablet'] },
+  { rxcui: '3827', name: 'enalapril', brands: ['Vasotec'], strengths: ['5 MG Oral Tablet', '10 MG Oral Tablet', '20 MG Oral Tablet'] },
+  { rxcui: '4053', name: 'erythromycin', brands: ['Ery-Tab'], strengths: ['250 MG Delayed Release Oral Tablet'] },
+  { rxcui: '321988', name: 'escitalopram', brands: ['Lexapro'], strengths: ['5 MG Oral Tablet', '10 MG Oral Tablet', '20 MG Oral Tablet'] },
+  { rxcui: '4083', name: 'estradiol', brands: ['Estrace'], strengths: ['1 MG Oral Tablet', '2 MG Oral Tablet'] },
+  { rxcui: '341248', name: 'ezetimibe', brands: ['Zetia'], strengths: ['10 MG Oral Tablet'] },
+  { rxcui: '4278', name: 'famotidine', brands: ['Pepcid'], strengths: ['20 MG Oral Tablet', '40 MG Oral Tablet'] },
+  { rxcui: '87636', name: 'fexofenadine', brands: ['Allegra'], strengths: ['180 MG Oral Tablet'] },
+  { rxcui: '4450', name: 'fluconazole', brands: ['Diflucan'], strengths: ['150 MG Oral Tablet'] },
+  { rxcui: '4493', name: 'fluoxetine', brands: ['Prozac'], strengths: ['10 MG Oral Capsule', '20 MG Oral Capsule', '40 MG Oral Capsule'] },
+  { rxcui: '41126', name: 'fluticasone', brands: ['Flonase', 'Flovent'], strengths: ['0.05 MG/ACTUAT Metered Dose Nasal Spray', '0.11 MG/ACTUAT Metered Dose Inhaler'] },
+  { rxcui: '4603', name: 'furosemide', brands: ['Lasix'], strengths: ['20 MG Oral Tablet', '40 MG Oral Tablet', '80 MG Oral Tablet'] },
+  { rxcui: '25480', name: 'gabapentin', brands: ['Neurontin'], strengths: ['100 MG Oral Capsule', '300 MG Oral Capsule', '400 MG Oral Capsule', '600 MG Oral Tablet'] },
+  { rxcui: '4821', name: 'glipizide', brands: ['Glucotrol'], strengths: ['5 MG Oral Tablet', '10 MG Oral Tablet'] },
+  { rxcui: '5487', name: 'hydrochlorothiazide', brands: ['Microzide'], strengths: ['12.5 MG Oral Capsule', '25 MG Oral Tablet'], synonyms: ['HCTZ'] },
+  { rxcui: '5521', name: 'hydroxychloroquine', brands: ['Plaquenil'], strengths: ['200 MG Oral Tablet'] },
+  { rxcui: '5640', name: 'ibuprofen', brands: ['Advil', 'Motrin'], strengths: ['200 MG Oral Tablet', '400 MG Oral Tablet', '600 MG Oral Tablet', '800 MG Oral Tablet'] },
+  { rxcui: '274783', name: 'insulin glargine', brands: ['Lantus', 'Basaglar', 'Toujeo'], strengths: ['100 UNT/ML Injectable Solution', '100 UNT/ML Pen Injector'] },
+  { rxcui: '86009', name: 'insulin lispro', brands: ['Humalog'], strengths: ['100 UNT/ML Injectable Solution', '100 UNT/ML Pen Injector'] },
+  { rxcui: '6058', name: 'isosorbide mononitrate', brands: ['Imdur'], strengths: ['30 MG 24HR Extended Release Oral Tablet', '60 MG 24HR Extended Release Oral Tablet'] },
+  { rxcui: '28439', name: 'lamotrigine', brands: ['Lamictal'], strengths: ['25 MG Oral Tablet', '100 MG Oral Tablet', '200 MG Oral Tablet'] },
+  { rxcui: '114477', name: 'levetiracetam', brands: ['Keppra'], strengths: ['500 MG Oral Tablet', '750 MG Oral Tablet', '1000 MG Oral Tablet'] },
+  { rxcui: '10582', name: 'levothyroxine', brands: ['Synthroid', 'Levoxyl', 'Unithroid'], strengths: ['0.025 MG Oral Tablet', '0.05 MG Oral Tablet', '0.075 MG Oral Tablet', '0.1 MG Oral Tablet'] },
+  { rxcui: '190376', name: 'linezolid', brands: ['Zyvox'], strengths: ['600 MG Oral Tablet'] },
+  { rxcui: '29046', name: 'lisinopril', brands: ['Prinivil', 'Zestril'], strengths: ['2.5 MG Oral Tablet', '5 MG Oral Tablet', '10 MG Oral Tablet', '20 MG Oral Tablet', '40 MG Oral Tablet'] },
+  { rxcui: '42351', name: 'lithium carbonate', brands: ['Lithobid'], strengths: ['300 MG Oral Capsule', '300 MG Extended Release Oral Tablet'], synonyms: ['lithium'] },
+  { rxcui: '28889', name: 'loratadine', brands: ['Claritin'], strengths: ['10 MG Oral Tablet'] },
+  { rxcui: '6470', name: 'lorazepam', brands: ['Ativan'], strengths: ['0.5 MG Oral Tablet', '1 MG Oral Tablet', '2 MG Oral Tablet'] },
+  { rxcui: '52175', name: 'losartan', brands: ['Cozaar'], strengths: ['25 MG Oral Tablet', '50 MG Oral Tablet', '100 MG Oral Tablet'] },
+  { rxcui: '41493', name: 'meloxicam', brands: ['Mobic'], strengths: ['7.5 MG Oral Tablet', '15 MG Oral Tablet'] },
+  { rxcui: '6809', name: 'metformin', brands: ['Glucophage'], strengths: ['500 MG Oral Tablet', '850 MG Oral Tablet', '1000 MG Oral Tablet', '500 MG 24HR Extended Release Oral Tablet'] },
+  { rxcui: '6851', name: 'methotrexate', brands: ['Trexall'], strengths: ['2.5 MG Oral Tablet'] },
+  { rxcui: '6901', name: 'methylphenidate', brands: ['Ritalin', 'Concerta'], strengths: ['10 MG Oral Tablet', '18 MG 24HR Extended Release Oral Tablet'] },
+  { rxcui: '6915', name: 'metoclopramide', brands: ['Reglan'], strengths: ['10 MG Oral Tablet'] },
+  { rxcui: '6918', name: 'metoprolol', brands: ['Lopressor', 'Toprol'], strengths: ['25 MG Oral Tablet', '50 MG Oral Tablet', '25 MG 24HR Extended Release Oral Tablet', '50 MG 24HR Extended Release Oral Tablet'] },
+  { rxcui: '6922', name: 'metronidazole', brands: ['Flagyl'], strengths: ['250 MG Oral Tablet', '500 MG Oral Tablet'] },
+  { rxcui: '15996', name: 'mirtazapine', brands: ['Remeron'], strengths: ['15 MG Oral Tablet', '30 MG Oral Tablet'] },
+  { rxcui: '88249', name: 'montelukast', brands: ['Singulair'], strengths: ['10 MG Oral Tablet', '5 MG Chewable Tablet'] },
+  { rxcui: '7052', name: 'morphine', brands: ['MS Contin'], strengths: ['15 MG Oral Tablet', '15 MG 12HR Extended Release Oral Tablet'] },
+  { rxcui: '7258', name: 'naproxen', brands: ['Aleve', 'Naprosyn'], strengths: ['220 MG Oral Tablet', '500 MG Oral Tablet'] },
+  { rxcui: '7454', name: 'nitrofurantoin', brands: ['Macrobid'], strengths: ['100 MG Oral Capsule'] },
+  { rxcui: '4917', name: 'nitroglycerin', brands: ['Nitrostat'], strengths: ['0.4 MG Sublingual Tablet'] },
+  { rxcui: '7646', name: 'omeprazole', brands: ['Prilosec'], strengths: ['20 MG Delayed Release Oral Capsule', '40 MG Delayed Release Oral Capsule'] },
+  { rxcui: '26225', name: 'ondansetron', brands: ['Zofran'], strengths: ['4 MG Oral Tablet', '8 MG Oral Tablet', '4 MG Disintegrating Oral Tablet'] },
+  { rxcui: '7804', name: 'oxycodone', brands: ['OxyContin', 'Roxicodone'], strengths: ['5 MG Oral Tablet', '10 MG 12HR Extended Release Oral Tablet'] },
+  { rxcui: '40790', name: 'pantoprazole', brands: ['Protonix'], strengths: ['20 MG Delayed Release Oral Tablet', '40 MG Delayed Release Oral Tablet'] },
+  { rxcui: '7984', name: 'penicillin V', strengths: ['250 MG Oral Tablet', '500 MG Oral Tablet'] },
+  { rxcui: '8123', name: 'phenelzine', brands: ['Nardil'], strengths: ['15 MG Oral Tablet'] },
+  { rxcui: '8183', name: 'phenytoin', brands: ['Dilantin'], strengths: ['100 MG Extended Release Oral Capsule'] },
+  { rxcui: '33738', name: 'pioglitazone', brands: ['Actos'], strengths: ['15 MG Oral Tablet', '30 MG Oral Tablet', '45 MG Oral Tablet'] },
+  { rxcui: '8591', name: 'potassium chloride', brands: ['Klor-Con'], strengths: ['10 MEQ Extended Release Oral Tablet', '20 MEQ Extended Release Oral Tablet'] },
+  { rxcui: '42463', name: 'pravastatin', brands: ['Pravachol'], strengths: ['20 MG Oral Tablet', '40 MG Oral Tablet'] },
+  { rxcui: '8640', name: 'prednisone', strengths: ['5 MG Oral Tablet', '10 MG Oral Tablet', '20 MG Oral Tablet'] },
+  { rxcui: '8787', name: 'propranolol', brands: ['Inderal'], strengths: ['10 MG Oral Tablet', '20 MG Oral Tablet', '40 MG Oral Tablet'] },
+  { rxcui: '51272', name: 'quetiapine', brands: ['Seroquel'], strengths: ['25 MG Oral Tablet', '50 MG Oral Tablet', '100 MG Oral Tablet'] },
+  { rxcui: '35296', name: 'ramipril', brands: ['Altace'], strengths: ['2.5 MG Oral Capsule', '5 MG Oral Capsule', '10 MG Oral Capsule'] },
+  { rxcui: '1114195', name: 'rivaroxaban', brands: ['Xarelto'], strengths: ['10 MG Oral Tablet', '15 MG Oral Tablet', '20 MG Oral Tablet'] },
+  { rxcui: '301542', name: 'rosuvastatin', brands: ['Crestor'], strengths: ['5 MG Oral Tablet', '10 MG Oral Tablet', '20 MG Oral Tablet', '40 MG Oral Tablet'] },
+  { rxcui: '1991302', name: 'semaglutide', brands: ['Ozempic', 'Wegovy', 'Rybelsus'], strengths: ['3 MG Oral Tablet', '7 MG Oral Tablet', '14 MG Oral Tablet'] },
+  { rxcui: '36437', name: 'sertraline', brands: ['Zoloft'], strengths: ['25 MG Oral Tablet', '50 MG Oral Tablet', '100 MG Oral Tablet'] },
+  { rxcui: '136411', name: 'sildenafil', brands: ['Viagra', 'Revatio'], strengths: ['20 MG Oral Tablet', '50 MG Oral Tablet', '100 MG Oral Tablet'] },
+  { rxcui: '36567', name: 'simvastatin', brands: ['Zocor'], strengths: ['10 MG Oral Tablet', '20 MG Oral Tablet', '40 MG Oral Tablet'] },
+  { rxcui: '593411', name: 'sitagliptin', brands: ['Januvia'], strengths: ['25 MG Oral Tablet', '50 MG Oral Tablet', '100 MG Oral Tablet'] },
+  { rxcui: '9997', name: 'spironolactone', brands: ['Aldactone'], strengths: ['25 MG Oral Tablet', '50 MG Oral Tablet'] },
+  { rxcui: '37418', name: 'sumatriptan', brands: ['Imitrex'], strengths: ['50 MG Oral Tablet', '100 MG Oral Tablet'] },
+  { rxcui: '358263', name: 'tadalafil', brands: ['Cialis'], strengths: ['5 MG Oral Tablet', '20 MG Oral Tablet'] },
+  { rxcui: '77492', name: 'tamsulosin', brands: ['Flomax'], strengths: ['0.4 MG Oral Capsule'] },
+  { rxcui: '57258', name: 'tizanidine', brands: ['Zanaflex'], strengths: ['2 MG Oral Tablet', '4 MG Oral Tablet'] },
+  { rxcui: '38404', name: 'topiramate', brands: ['Topamax'], strengths: ['25 MG Oral Tablet', '50 MG Oral Tablet', '100 MG Oral Tablet'] },
+  { rxcui: '10689', name: 'tramadol', brands: ['Ultram'], strengths: ['50 MG Oral Tablet'] },
+  { rxcui: '10737', name: 'trazodone', strengths: ['50 MG Oral Tablet', '100 MG Oral Tablet'] },
+  { rxcui: '69749', name: 'valsartan', brands: ['Diovan'], strengths: ['80 MG Oral Tablet', '160 MG Oral Tablet'] },
+  { rxcui: '39786', name: 'venlafaxine', brands: ['Effexor'], strengths: ['37.5 MG 24HR Extended Release Oral Capsule', '75 MG 24HR Extended Release Oral Capsule', '150 MG 24HR Extended Release Oral Capsule'] },
+  { rxcui: '11170', name: 'verapamil', brands: ['Calan'], strengths: ['80 MG Oral Tablet', '120 MG Oral Tablet', '240 MG Extended Release Oral Tablet'] },
+  { rxcui: '11289', name: 'warfarin', brands: ['Coumadin', 'Jantoven'], strengths: ['1 MG Oral Tablet', '2 MG Oral Tablet', '2.5 MG Oral Tablet', '5 MG Oral Tablet'] },
+  { rxcui: '39993', name: 'zolpidem', brands: ['Ambien'], strengths: ['5 MG Oral Tablet', '10 MG Oral Tablet'] },
+];
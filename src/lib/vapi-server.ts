@@ -0,0 +1,112 @@
+import { sign, verify } from 'jsonwebtoken';
+import { createHash, timingSafeEqual } from 'crypto';
+import { getAuthSecret } from '@/lib/auth-server';
+
+// Server-only VAPI helpers (webhook verification and call attribution)
+
+export const DEFAULT_CONSULTATION_DISCLAIMER = 'This consultation was with an AI assistant and does not constitute professional medical advice. Please consult with a qualified healthcare professional for proper medical diagnosis and treatment.';
+
+// Sign a short-lived token identifying the user who starts a call.
+// The browser passes it to VAPI as call metadata and VAPI echoes it back in webhook events.
+export function signCallToken(userId: string): string | null {
+  const secret = getAuthSecret();
+  if (!secret) {
+    return null;
+  }
+
+  return sign({ userId, purpose: 'vapi-call' }, secret, { expiresIn: '4h' });
+}
+
+export function verifyCallToken(token: unknown): string | null {
+  const secret = getAuthSecret();
+  if (typeof token !== 'string' || !token || !secret) {
+    return null;
+  }
+
+  try {
+    const decoded = verify(token, secret) as { userId: string; purpose?: string };
+    return decoded.purpose === 'vapi-call' ? decoded.userId : null;
+  } catch {
+    return null;
+  }
+}
+
+// Compare the x-vapi-secret header against VAPI_WEBHOOK_SECRET in constant time
+export function verifyWebhookSecret(provided: string | null, expected: string): boolean {
+  if (!provided) {
+    return false;
+  }
+
+  // Hash both sides so timingSafeEqual always compares equal-length buffers
+  const providedHash = createHash('sha256').update(provided).digest();
+  const expectedHash = createHash('sha256').update(expected).digest();
+  return timingSafeEqual(providedHash, expectedHash);
+}
+
+// Subset of the VAPI server message payloads we handle
+export interface VapiCall {
+  id: string;
+  metadata?: Record<string, unknown>;
+  assistantOverrides?: {
+    metadata?: Record<string, unknown>;
+  };
+}
+
+export interface VapiArtifactMessage {
+  role: 'user' | 'bot' | 'assistant' | 'system' | 'tool_calls' | 'tool_call_result';
+  message?: string;
+  secondsFromStart?: number;
+}
+
+export interface VapiStatusUpdateMessage {
+  type: 'status-update';
+  status: string;
+  call: VapiCall;
+}
+
+export interface VapiTranscriptMessage {
+  type: 'transcript';
+  role: 'user' | 'assistant';
+  transcriptType: 'partial' | 'final';
+  transcript: string;
+  timestamp?: number;
+  call: VapiCall;
+}
+
+export interface VapiEndOfCallReportMessage {
+  type: 'end-of-call-report';
+  call: VapiCall;
+  startedAt?: string;
+  endedAt?: string;
+  durationSeconds?: number;
+  analysis?: {
+    summary?: string;
+  };
+  artifact?: {
+    transcript?: string;
+    messages?: VapiArtifactMessage[];
+  };
+}
+
+export type VapiServerMessage =
+  | VapiStatusUpdateMessage
+  | VapiTranscriptMessage
+  | VapiEndOfCallReportMessage
+  | { type: string; call?: VapiCall };
+
+// Call metadata may be reported on the call itself or on its assistant overrides
+export function getCallMetadata(call: VapiCall): Record<string, unknown> {
+  return { ...call.assistantOverrides?.metadata, ...call.metadata };
+}
+
+// Convert end-of-call-report artifact messages into transcript turns
+export function artifactMessagesToTurns(messages: VapiArtifactMessage[]) {
+  return messages
+    .filter(msg => (msg.role === 'user' || msg.role === 'bot' || msg.role === 'assistant') && msg.message?.trim())
+    .map((msg, index) => ({
+      turnIndex: index,
+      role: msg.role === 'user' ? 'user' as const : 'assistant' as const,
+      text: msg.message!.trim(),
+      offsetMs: Math.max(0, Math.round((msg.secondsFromStart ?? 0) * 1000)),
+    }));
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { MedicalCondition } from '@/db/schema';
+import { buildAssistantOverrides, PatientCallVariables, PatientRecord } from './vapi';
+
+const recordedAt = new Date('2025-03-01T10:00:00Z');
+
+const condition = (index: number): MedicalCondition => ({
+  id: `00000000-0000-4000-8000-${String(index).padStart(12, '0')}`,
+  userId: '6f1c2b7e-3d4a-4f5b-8c9d-0e1f2a3b4c5d',
+  conditionName: `Condition number ${index}`,
+  conditionCode: null,
+  severity: 'moderate',
+  status: 'active',
+  onsetDate: '2020-01-01',
+  diagnosisDate: null,
+  resolutionDate: null,
+  description: 'A long-standing condition with a description that takes up room in the prompt',
+  notes: null,
+  diagnosedBy: null,
+  createdAt: recordedAt,
+  updatedAt: recordedAt,
+});
+
+const largeHistory: PatientRecord = {
+  profile: null,
+  conditions: Array.from({ length: 200 }, (_, index) => condition(index + 1)),
+  medications: [],
+  allergies: [],
+  familyHistory: [],
+  pastConsultations: [],
+};
+
+const patientContext = (tokenBudget: number) =>
+  (buildAssistantOverrides(largeHistory, undefined, { tokenBudget }).variableValues as PatientCallVariables).patientContext;
+
+describe('buildAssistantOverrides', () => {
+  it('truncates a large history to the token budget and says how much was left out', () => {
+    // Every budget, so the cut falls at each point of an entry and of the "more not shown" line
+    for (let tokenBudget = 420; tokenBudget <= 1200; tokenBudget++) {
+      const context = patientContext(tokenBudget);
+      expect(Math.ceil(context.length / 4)).toBeLessThanOrEqual(tokenBudget);
+
+      const block = context.slice(context.indexOf('CURRENT MEDICAL CONDITIONS:'), context.indexOf('RESPONSE GUIDELINES:'));
+      const shown = block.match(/^- Condition number \d+/gm)?.length ?? 0;
+      expect(shown).toBeGreaterThan(0);
+      expect(block.trimEnd().endsWith(`- (${200 - shown} more not shown)`)).toBe(true);
+    }
+  });
+
+  it('leaves a history that fits untouched', () => {
+    const context = patientContext(100000);
+    expect(context.match(/^- Condition number \d+/gm)).toHaveLength(200);
+    expect(context).not.toContain('more not shown');
+  });
+});
@@ -1,5 +1,7 @@
 import Vapi from '@vapi-ai/web';
-import { PatientProfile, MedicalCondition, PastConsultation } from '@/db/schema';
+import { PatientProfile, MedicalCondition, Medication, Allergy, FamilyHistory, PastConsultation } from '@/db/schema';
+import { RedFlagMatch } from '@/lib/red-flags';
+import { checkInteractions, InteractionWarning } from '@/lib/interactions';
 
 // VAPI Configuration
 export const createVapiInstance = () => {
@@ -10,76 +12,206 @@ export const createVapiInstance = () => {
   return new Vapi(process.env.NEXT_PUBLIC_VAPI_PUBLIC_KEY);
 };
 
-// Generate patient context for the AI assistant
-export const generatePatientContext = (
-  profile: PatientProfile | null,
-  conditions: MedicalCondition[],
-  pastConsultations: PastConsultation[],
-  initialContext?: string
-): string => {
-  let context = `You are a compassionate AI nurse assistant helping a patient. You should provide helpful, general medical guidance while always emphasizing that this is not a substitute for professional medical care.
+// Everything we know about the patient that can be shared with the assistant
+export interface PatientRecord {
+  profile: PatientProfile | null;
+  conditions: MedicalCondition[];
+  medications: Medication[];
+  allergies: Allergy[];
+  familyHistory: FamilyHistory[];
+  pastConsultations: PastConsultation[];
+}
 
-IMPORTANT DISCLAIMERS TO ALWAYS REMEMBER:
-- Always remind patients that this is general guidance, not professional medical advice
-- Encourage patients to consult with healthcare professionals for proper diagnosis and treatment
-- Provide local hospital/clinic contact information when appropriate
-- Be empathetic and supportive while maintaining professional boundaries
+export interface PatientContextOptions {
+  // Approximate token budget for the whole prompt (estimated at ~4 characters per token)
+  tokenBudget?: number;
+}
 
-`;
+export const DEFAULT_CONTEXT_TOKEN_BUDGET = Number(process.env.NEXT_PUBLIC_VAPI_CONTEXT_TOKEN_BUDGET) || 2000;
 
-  // Add patient profile information
-  if (profile) {
-    context += `PATIENT PROFILE:
-- Name: Patient (keep confidential)
-- Age: ${profile.dateOfBirth ? calculateAge(profile.dateOfBirth) : 'Unknown'}
-- Gender: ${profile.gender || 'Not specified'}
-- Location: ${profile.city && profile.state ? `${profile.city}, ${profile.state}` : 'Not specified'}
-- Preferred Language: ${profile.preferredLanguage || 'English'}
-- Emergency Contact: ${profile.emergencyContactName ? `${profile.emergencyContactName} (${profile.emergencyContactRelationship})` : 'Not provided'}
+interface ContextSection {
+  title: string;
+  lines: string[];
+}
 
-`;
+const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+const omittedLine = (count: number) => `- (${count} more not shown)\n`;
+
+const severityRank: Record<string, number> = {
+  'life-threatening': 0,
+  severe: 1,
+  moderate: 2,
+  mild: 3,
+};
+
+// First-degree relatives carry the most hereditary weight, so list them first
+const relationshipRank: Record<string, number> = {
+  mother: 0,
+  father: 0,
+  sister: 0,
+  brother: 0,
+  child: 0,
+  'maternal-grandmother': 1,
+  'maternal-grandfather': 1,
+  'paternal-grandmother': 1,
+  'paternal-grandfather': 1,
+  aunt: 2,
+  uncle: 2,
+};
+
+const formatAllergy = (allergy: Allergy): string => {
+  let line = `- ${allergy.allergen}`;
+  if (allergy.allergenType) line += ` (${allergy.allergenType})`;
+  if (allergy.severity === 'life-threatening' || allergy.severity === 'severe') {
+    line += ` - !! ${allergy.severity.toUpperCase()} !!`;
+  } else if (allergy.severity) {
+    line += ` - Severity: ${allergy.severity}`;
+  }
+  if (allergy.reaction) line += ` - Reaction: ${allergy.reaction}`;
+  line += ` - ${allergy.verificationStatus === 'confirmed' ? 'Confirmed' : 'Unconfirmed'}`;
+  return line;
+};
+
+const formatMedication = (medication: Medication): string => {
+  let line = `- ${medication.medicationName}`;
+  if (medication.genericName) line += ` (${medication.genericName})`;
+  const regimen = [medication.dosage, medication.frequency, medication.route].filter(Boolean).join(', ');
+  if (regimen) line += ` - ${regimen}`;
+  if (medication.purpose) line += ` - For: ${medication.purpose}`;
+  return line;
+};
+
+const formatInteractionWarning = (warning: InteractionWarning): string =>
+  `- [${warning.severity.toUpperCase()}] ${warning.title}: ${warning.summary}. ${warning.guidance}`;
+
+const formatCondition = (condition: MedicalCondition): string => {
+  let line = `- ${condition.conditionName}`;
+  if (condition.severity) line += ` (${condition.severity})`;
+  if (condition.status) line += ` - Status: ${condition.status}`;
+  if (condition.onsetDate) line += ` - Since: ${condition.onsetDate}`;
+  if (condition.description) line += ` - ${condition.description}`;
+  return line;
+};
+
+const formatFamilyHistory = (entry: FamilyHistory): string => {
+  let line = `- ${entry.relationship.replace('-', ' ')}: ${entry.condition}`;
+  if (entry.ageOfOnset) line += ` (onset at age ${entry.ageOfOnset})`;
+  if (entry.causeOfDeath) line += ` - Died of ${entry.causeOfDeath}${entry.ageAtDeath ? ` at age ${entry.ageAtDeath}` : ''}`;
+  return line;
+};
+
+// Build the patient sections in priority order: safety-critical information first,
+// so it survives when the prompt has to be trimmed to fit the token budget.
+const buildContextSections = (record: PatientRecord, initialContext?: string): ContextSection[] => {
+  const { profile, conditions, medications, allergies, familyHistory, pastConsultations } = record;
+  const sections: ContextSection[] = [];
+
+  // Refuted and resolved allergies are not safety-relevant
+  const relevantAllergies = allergies
+    .filter(allergy => allergy.verificationStatus !== 'refuted' && (allergy.status || 'active') === 'active')
+    .sort((a, b) => (severityRank[a.severity || ''] ?? 4) - (severityRank[b.severity || ''] ?? 4));
+  if (relevantAllergies.length > 0) {
+    sections.push({
+      title: 'ALLERGIES AND ADVERSE REACTIONS (never suggest anything the patient is allergic to):',
+      lines: relevantAllergies.map(formatAllergy),
+    });
+  }
+
+  const activeMedications = medications.filter(medication => (medication.status || 'active') === 'active');
+  if (activeMedications.length > 0) {
+    sections.push({
+      title: 'CURRENT MEDICATIONS (consider interactions before suggesting anything):',
+      lines: activeMedications.map(formatMedication),
+    });
+  }
+
+  const interactionWarnings = checkInteractions(medications, allergies);
+  if (interactionWarnings.length > 0) {
+    sections.push({
+      title: 'MEDICATION INTERACTION WARNINGS (from the local rules; raise these if relevant, never advise stopping a prescribed medicine):',
+      lines: interactionWarnings.map(formatInteractionWarning),
+    });
+  }
+
+  if (initialContext) {
+    sections.push({
+      title: 'CURRENT CONSULTATION CONTEXT:',
+      lines: [
+        `The patient has indicated: "${initialContext}"`,
+        '',
+        'Please address their current concern while considering their medical history and past consultations.',
+      ],
+    });
   }
 
-  // Add current medical conditions
   if (conditions.length > 0) {
-    context += `CURRENT MEDICAL CONDITIONS:
-`;
-    conditions.forEach(condition => {
-      context += `- ${condition.conditionName}`;
-      if (condition.severity) context += ` (${condition.severity})`;
-      if (condition.status) context += ` - Status: ${condition.status}`;
-      if (condition.onsetDate) context += ` - Since: ${condition.onsetDate}`;
-      if (condition.description) context += ` - ${condition.description}`;
-      context += '\n';
+    const sortedConditions = [...conditions].sort(
+      (a, b) => Number(b.status === 'active') - Number(a.status === 'active')
+    );
+    sections.push({
+      title: 'CURRENT MEDICAL CONDITIONS:',
+      lines: sortedConditions.map(formatCondition),
+    });
+  }
+
+  if (profile) {
+    sections.push({
+      title: 'PATIENT PROFILE:',
+      lines: [
+        '- Name: Patient (keep confidential)',
+        `- Age: ${profile.dateOfBirth ? calculateAge(profile.dateOfBirth) : 'Unknown'}`,
+        `- Gender: ${profile.gender || 'Not specified'}`,
+        `- Location: ${profile.city && profile.state ? `${profile.city}, ${profile.state}` : 'Not specified'}`,
+        `- Preferred Language: ${profile.preferredLanguage || 'English'}`,
+        `- Emergency Contact: ${profile.emergencyContactName ? `${profile.emergencyContactName} (${profile.emergencyContactRelationship})` : 'Not provided'}`,
+      ],
     });
-    context += '\n';
   }
 
-  // Add recent consultation history (last 3)
+  if (familyHistory.length > 0) {
+    const sortedFamilyHistory = [...familyHistory].sort(
+      (a, b) => (relationshipRank[a.relationship] ?? 3) - (relationshipRank[b.relationship] ?? 3)
+    );
+    sections.push({
+      title: 'FAMILY MEDICAL HISTORY:',
+      lines: sortedFamilyHistory.map(formatFamilyHistory),
+    });
+  }
+
+  // Add recent consultation history (last 3, most recent first)
   if (pastConsultations.length > 0) {
-    context += `RECENT CONSULTATION HISTORY (Last 3):
-`;
-    pastConsultations.slice(-3).forEach((consultation, index) => {
-      context += `${index + 1}. ${new Date(consultation.createdAt).toLocaleDateString()}:
+    sections.push({
+      title: 'RECENT CONSULTATION HISTORY (Last 3):',
+      lines: pastConsultations.slice(-3).reverse().map((consultation, index) =>
+        `${index + 1}. ${new Date(consultation.createdAt).toLocaleDateString()}:
    - Summary: ${consultation.summary}
    - Symptoms: ${consultation.symptoms || 'None recorded'}
-   - Follow-up: ${consultation.followUpContacts || 'None specified'}
-`;
+   - Follow-up: ${consultation.followUpContacts || 'None specified'}`
+      ),
     });
-    context += '\n';
   }
 
-  // Add current consultation context
-  if (initialContext) {
-    context += `CURRENT CONSULTATION CONTEXT:
-The patient has indicated: "${initialContext}"
+  return sections;
+};
+
+// Generate patient context for the AI assistant
+export const generatePatientContext = (
+  record: PatientRecord,
+  initialContext?: string,
+  options: PatientContextOptions = {}
+): string => {
+  const preamble = `You are a compassionate AI nurse assistant helping a patient. You should provide helpful, general medical guidance while always emphasizing that this is not a substitute for professional medical care.
 
-Please address their current concern while considering their medical history and past consultations.
+IMPORTANT DISCLAIMERS TO ALWAYS REMEMBER:
+- Always remind patients that this is general guidance, not professional medical advice
+- Encourage patients to consult with healthcare professionals for proper diagnosis and treatment
+- Provide local hospital/clinic contact information when appropriate
+- Be empathetic and supportive while maintaining professional boundaries
 
 `;
-  }
 
-  context += `RESPONSE GUIDELINES:
+  const guidelines = `RESPONSE GUIDELINES:
 - Be warm, empathetic, and professional
 - Ask clarifying questions to better understand their situation
 - Provide general health guidance and comfort
@@ -91,6 +223,39 @@ Please address their current concern while considering their medical history and
 
 Remember: You are providing supportive guidance, not medical diagnosis or treatment.`;
 
+  const tokenBudget = options.tokenBudget ?? DEFAULT_CONTEXT_TOKEN_BUDGET;
+  let remaining = tokenBudget - estimateTokens(preamble) - estimateTokens(guidelines);
+  let context = preamble;
+
+  // Fill sections in priority order, trimming lower-priority entries once the budget runs out. A section is
+  // only started when its first entry fits, and room for the "more not shown" line is kept until the last entry.
+  for (const section of buildContextSections(record, initialContext)) {
+    const header = `${section.title}\n`;
+    let available = remaining - estimateTokens(header) - estimateTokens('\n');
+    let block = header;
+    let included = 0;
+    for (const line of section.lines) {
+      const later = section.lines.length - included - 1;
+      const cost = estimateTokens(`${line}\n`);
+      if (cost + (later > 0 ? estimateTokens(omittedLine(later)) : 0) > available) break;
+      block += `${line}\n`;
+      available -= cost;
+      included++;
+    }
+
+    if (included === 0) {
+      break;
+    }
+    if (included < section.lines.length) {
+      block += omittedLine(section.lines.length - included);
+    }
+
+    context += `${block}\n`;
+    remaining -= estimateTokens(`${block}\n`);
+  }
+
+  context += guidelines;
+
   return context;
 };
 
@@ -109,7 +274,72 @@ const calculateAge = (dateOfBirth: string): number => {
 };
 
 // VAPI Assistant Configuration (handled in VAPI dashboard)
-// The patient context will be sent to the assistant via system message or variables
+// The assistant's system prompt should reference {{patientContext}}; the values below
+// are supplied per call through assistant overrides.
+export type VapiAssistantOverrides = NonNullable<Parameters<Vapi['start']>[1]>;
+
+export interface PatientCallVariables {
+  patientContext: string;
+  patientAge: string;
+  patientGender: string;
+  patientLocation: string;
+  preferredLanguage: string;
+  activeConditions: string;
+  activeMedications: string;
+  allergies: string;
+  recentConsultations: string;
+  currentConcern: string;
+}
+
+export interface AssistantOverrideOptions extends PatientContextOptions {
+  // Signed token from /api/vapi/call-token, echoed back to our webhook as call metadata
+  callToken?: string;
+}
+
+// Build the per-call assistant overrides carrying the patient's context
+export const buildAssistantOverrides = (
+  record: PatientRecord,
+  initialContext?: string,
+  options: AssistantOverrideOptions = {}
+): VapiAssistantOverrides => {
+  const { profile, conditions, medications, allergies, pastConsultations } = record;
+  const variableValues: PatientCallVariables = {
+    patientContext: generatePatientContext(record, initialContext, options),
+    patientAge: profile?.dateOfBirth ? String(calculateAge(profile.dateOfBirth)) : 'Unknown',
+    patientGender: profile?.gender || 'Not specified',
+    patientLocation: profile?.city && profile?.state ? `${profile.city}, ${profile.state}` : 'Not specified',
+    preferredLanguage: profile?.preferredLanguage || 'English',
+    activeConditions: conditions
+      .filter(condition => condition.status === 'active')
+      .map(condition => condition.conditionName)
+      .join(', ') || 'None recorded',
+    activeMedications: medications
+      .filter(medication => (medication.status || 'active') === 'active')
+      .map(medication => [medication.medicationName, medication.dosage].filter(Boolean).join(' '))
+      .join(', ') || 'None recorded',
+    allergies: allergies
+      .filter(allergy => allergy.verificationStatus !== 'refuted' && (allergy.status || 'active') === 'active')
+      .map(allergy => allergy.severity ? `${allergy.allergen} (${allergy.severity})` : allergy.allergen)
+      .join(', ') || 'None recorded',
+    recentConsultations: pastConsultations
+      .slice(-3)
+      .map(consultation => `${new Date(consultation.createdAt).toLocaleDateString()}: ${consultation.summary}`)
+      .join('; ') || 'None',
+    currentConcern: initialContext || '',
+  };
+
+  if (!options.callToken) {
+    return { variableValues };
+  }
+
+  return {
+    variableValues,
+    metadata: {
+      callToken: options.callToken,
+      currentConcern: initialContext || '',
+    },
+  };
+};
 
 // Types for VAPI events
 export interface VapiMessage {
@@ -120,6 +350,13 @@ export interface VapiMessage {
   timestamp?: string;
 }
 
+export interface TranscriptTurn {
+  turnIndex: number;
+  role: 'user' | 'assistant';
+  text: string;
+  offsetMs: number;
+}
+
 export interface ConversationSummary {
   summary: string;
   symptoms: string;
@@ -128,4 +365,9 @@ export interface ConversationSummary {
   disclaimer: string;
   duration: number;
   transcript: string;
+  turns: TranscriptTurn[];
+  startedAt?: string;
+  endedAt?: string;
+  vapiCallId?: string;
+  redFlags?: RedFlagMatch[];
 }
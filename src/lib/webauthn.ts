@@ -0,0 +1,443 @@
+import { randomUUID } from 'crypto';
+import {
+  generateAuthenticationOptions,
+  generateRegistrationOptions,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+  AuthenticationResponseJSON,
+  AuthenticatorTransportFuture,
+  PublicKeyCredentialCreationOptionsJSON,
+  PublicKeyCredentialRequestOptionsJSON,
+  RegistrationResponseJSON,
+} from '@simplewebauthn/server';
+import { db } from '@/db';
+import { users, passkeys, sessions, webauthnChallenges, Passkey, User, WebAuthnChallenge } from '@/db/schema';
+import { eq, and, gt, lt, or, exists, isNotNull, sql } from 'drizzle-orm';
+import { AuthFailure, accountRestriction } from '@/lib/auth-server';
+import { AccountDetailsInput, ReauthenticationInput, verifyPassword } from '@/lib/auth';
+import { isMfaEnabled, verifySecondFactor } from '@/lib/mfa';
+import { isResourceId } from '@/lib/fhir/common';
+
+// Server-only passkey (WebAuthn) ceremonies: adding a passkey to an account, passwordless sign-up and
+// sign-in. Every ceremony is two requests; the challenge from the first is stored and used up by the second.
+
+export const WEBAUTHN_CHALLENGE_TTL_SECONDS = 5 * 60;
+// Passwordless accounts without 2FA can only add a passkey this soon after signing in
+export const PASSKEY_REAUTHENTICATION_SECONDS = 5 * 60;
+
+// How the account proves it is still its owner before adding a passkey
+export type Reauthentication = 'code' | 'password' | 'recent-sign-in';
+
+type ChallengePurpose = 'registration' | 'signup' | 'authentication';
+
+// A passwordless sign-up waiting for its passkey; the account is only created once that checks out
+type PendingAccount = AccountDetailsInput & { id: string };
+
+export interface RelyingParty {
+  id: string;
+  name: string;
+  origin: string;
+}
+
+export interface CeremonyOptions<Options> {
+  challengeId: string;
+  options: Options;
+}
+
+const NOT_CONFIGURED: AuthFailure = { error: 'Passkeys are not configured', status: 500 };
+const VERIFICATION_FAILED: AuthFailure = { error: 'Passkey could not be verified', status: 400 };
+const CHALLENGE_EXPIRED: AuthFailure = { error: 'Passkey request expired, please try again', status: 400 };
+
+// Passkeys are bound to the site's origin: NEXTAUTH_URL (or WEBAUTHN_ORIGIN), with WEBAUTHN_RP_ID
+// overriding the domain they are registered for
+export function getRelyingParty(): RelyingParty | null {
+  const origin = process.env.WEBAUTHN_ORIGIN || process.env.NEXTAUTH_URL;
+  if (!origin) {
+    console.error('NEXTAUTH_URL is not set; passkeys are unavailable');
+    return null;
+  }
+
+  try {
+    const url = new URL(origin);
+    return { id: process.env.WEBAUTHN_RP_ID || url.hostname, name: 'TalkWell', origin: url.origin };
+  } catch {
+    console.error(`Invalid passkey origin ${origin}; passkeys are unavailable`);
+    return null;
+  }
+}
+
+const toTransports = (transports: string | null) =>
+  transports ? transports.split(',') as AuthenticatorTransportFuture[] : undefined;
+
+const toUserHandle = (userId: string) => new Uint8Array(Buffer.from(userId.replace(/-/g, ''), 'hex'));
+
+async function storeChallenge(
+  purpose: ChallengePurpose,
+  challenge: string,
+  details: { userId?: string; pendingAccount?: PendingAccount } = {}
+): Promise<string> {
+  const now = new Date();
+  // Tidy up ceremonies that were started and never finished
+  await db.delete(webauthnChallenges).where(lt(webauthnChallenges.expiresAt, now));
+
+  const stored = await db
+    .insert(webauthnChallenges)
+    .values({
+      challenge,
+      purpose,
+      userId: details.userId ?? null,
+      pendingAccount: details.pendingAccount ? JSON.stringify(details.pendingAccount) : null,
+      expiresAt: new Date(now.getTime() + WEBAUTHN_CHALLENGE_TTL_SECONDS * 1000),
+    })
+    .returning({ id: webauthnChallenges.id });
+  return stored[0].id;
+}
+
+// Each challenge answers exactly one response, whether or not it verifies
+async function consumeChallenge(challengeId: string, purpose: ChallengePurpose): Promise<WebAuthnChallenge | null> {
+  const consumed = await db
+    .delete(webauthnChallenges)
+    .where(and(
+      eq(webauthnChallenges.id, challengeId),
+      eq(webauthnChallenges.purpose, purpose),
+      gt(webauthnChallenges.expiresAt, new Date())
+    ))
+    .returning();
+  return consumed[0] ?? null;
+}
+
+export async function listPasskeys(userId: string): Promise<Passkey[]> {
+  return db.select().from(passkeys).where(eq(passkeys.userId, userId)).orderBy(passkeys.createdAt);
+}
+
+async function registrationOptions(
+  rp: RelyingParty,
+  account: { id: string; username: string; firstName: string | null; lastName: string | null },
+  existing: Passkey[]
+): Promise<PublicKeyCredentialCreationOptionsJSON> {
+  return generateRegistrationOptions({
+    rpName: rp.name,
+    rpID: rp.id,
+    userName: account.username,
+    userID: toUserHandle(account.id),
+    userDisplayName: [account.firstName, account.lastName].filter(Boolean).join(' ') || account.username,
+    attestationType: 'none',
+    excludeCredentials: existing.map(passkey => ({ id: passkey.credentialId, transports: toTransports(passkey.transports) })),
+    // Discoverable, so the account is found from the passkey alone at sign-in
+    authenticatorSelection: { residentKey: 'required', userVerification: 'required' },
+  });
+}
+
+// Check the browser's new credential; null when it does not answer the challenge
+async function verifyNewPasskey(
+  rp: RelyingParty,
+  challenge: WebAuthnChallenge,
+  response: RegistrationResponseJSON
+) {
+  try {
+    const verification = await verifyRegistrationResponse({
+      response,
+      expectedChallenge: challenge.challenge,
+      expectedOrigin: rp.origin,
+      expectedRPID: rp.id,
+      requireUserVerification: true,
+    });
+    return verification.verified ? verification.registrationInfo : null;
+  } catch (error) {
+    console.error('Passkey registration failed verification:', error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+type RegistrationInfo = NonNullable<Awaited<ReturnType<typeof verifyNewPasskey>>>;
+
+const passkeyValues = (userId: string, info: RegistrationInfo, name?: string) => ({
+  userId,
+  credentialId: info.credential.id,
+  publicKey: Buffer.from(info.credential.publicKey).toString('base64url'),
+  counter: info.credential.counter,
+  transports: info.credential.transports?.join(',') || null,
+  deviceType: info.credentialDeviceType,
+  backedUp: info.credentialBackedUp,
+  name: name || null,
+});
+
+// Passkey sign-in skips the TOTP step, so a passkey added from a stolen session would outlive it and get around
+// 2FA. Accounts with 2FA confirm a current code, other accounts their password; passwordless ones must have
+// signed in moments ago.
+export const reauthenticationFor = (user: Pick<User, 'passwordHash' | 'totpEnabledAt' | 'totpSecret'>): Reauthentication =>
+  isMfaEnabled(user) ? 'code' : user.passwordHash ? 'password' : 'recent-sign-in';
+
+async function confirmReauthentication(
+  userId: string,
+  sessionId: string | null,
+  proof: ReauthenticationInput
+): Promise<AuthFailure | null> {
+  const found = await db.select().from(users).where(eq(users.id, userId)).limit(1);
+  const user = found[0];
+  if (!user) {
+    return { error: 'Unauthorized', status: 401 };
+  }
+
+  switch (reauthenticationFor(user)) {
+    case 'code': {
+      if (!proof.code) {
+        return { error: 'Enter a code from your authenticator app to add a passkey', status: 403 };
+      }
+      const verified = await verifySecondFactor(userId, proof.code);
+      // Not a 401: the browser would refresh the session and send the wrong code again
+      return 'error' in verified ? { error: verified.error, status: verified.status === 401 ? 403 : verified.status } : null;
+    }
+    case 'password':
+      if (!proof.password) {
+        return { error: 'Enter your password to add a passkey', status: 403 };
+      }
+      return (await verifyPassword(proof.password, user.passwordHash!)) ? null : { error: 'Incorrect password', status: 403 };
+    case 'recent-sign-in': {
+      const session = sessionId
+        ? await db.select({ createdAt: sessions.createdAt }).from(sessions).where(eq(sessions.id, sessionId)).limit(1)
+        : [];
+      const signedInAt = session[0]?.createdAt.getTime() ?? 0;
+      return Date.now() - signedInAt < PASSKEY_REAUTHENTICATION_SECONDS * 1000
+        ? null
+        : { error: 'Sign out and sign in again to add a passkey', status: 403 };
+    }
+  }
+}
+
+// Add a passkey to a signed-in account, once it has confirmed who it is; the challenge only exists after that
+export async function beginPasskeyRegistration(
+  user: Pick<User, 'id' | 'username' | 'firstName' | 'lastName'>,
+  sessionId: string | null,
+  proof: ReauthenticationInput
+): Promise<CeremonyOptions<PublicKeyCredentialCreationOptionsJSON> | AuthFailure> {
+  const rp = getRelyingParty();
+  if (!rp) {
+    return NOT_CONFIGURED;
+  }
+
+  const reauthentication = await confirmReauthentication(user.id, sessionId, proof);
+  if (reauthentication) {
+    return reauthentication;
+  }
+
+  const options = await registrationOptions(rp, user, await listPasskeys(user.id));
+  return { challengeId: await storeChallenge('registration', options.challenge, { userId: user.id }), options };
+}
+
+export async function finishPasskeyRegistration(
+  userId: string,
+  challengeId: string,
+  response: RegistrationResponseJSON,
+  name?: string
+): Promise<Passkey | AuthFailure> {
+  const rp = getRelyingParty();
+  if (!rp) {
+    return NOT_CONFIGURED;
+  }
+
+  const challenge = await consumeChallenge(challengeId, 'registration');
+  if (!challenge || challenge.userId !== userId) {
+    return CHALLENGE_EXPIRED;
+  }
+
+  const info = await verifyNewPasskey(rp, challenge, response);
+  if (!info) {
+    return VERIFICATION_FAILED;
+  }
+
+  const created = await db.insert(passkeys).values(passkeyValues(userId, info, name)).returning();
+  return created[0];
+}
+
+// Why these account details cannot be used for a new account, if anything
+async function accountDetailsConflict(details: AccountDetailsInput): Promise<AuthFailure | null> {
+  const existing = await db
+    .select({ username: users.username, email: users.email })
+    .from(users)
+    .where(or(eq(users.username, details.username), eq(users.email, details.email)))
+    .limit(1);
+
+  if (existing.length === 0) {
+    return null;
+  }
+  return existing[0].username === details.username
+    ? { error: 'Username already exists', status: 409 }
+    : { error: 'Email already exists', status: 409 };
+}
+
+// Passwordless sign-up. Details are expected sanitised and lower-cased, as for password registration.
+export async function beginPasswordlessSignup(
+  details: AccountDetailsInput
+): Promise<CeremonyOptions<PublicKeyCredentialCreationOptionsJSON> | AuthFailure> {
+  const rp = getRelyingParty();
+  if (!rp) {
+    return NOT_CONFIGURED;
+  }
+
+  const conflict = await accountDetailsConflict(details);
+  if (conflict) {
+    return conflict;
+  }
+
+  const pendingAccount: PendingAccount = { ...details, id: randomUUID() };
+  const options = await registrationOptions(rp, pendingAccount, []);
+  return { challengeId: await storeChallenge('signup', options.challenge, { pendingAccount }), options };
+}
+
+export async function finishPasswordlessSignup(
+  challengeId: string,
+  response: RegistrationResponseJSON
+): Promise<User | AuthFailure> {
+  const rp = getRelyingParty();
+  if (!rp) {
+    return NOT_CONFIGURED;
+  }
+
+  const challenge = await consumeChallenge(challengeId, 'signup');
+  if (!challenge?.pendingAccount) {
+    return CHALLENGE_EXPIRED;
+  }
+
+  const info = await verifyNewPasskey(rp, challenge, response);
+  if (!info) {
+    return VERIFICATION_FAILED;
+  }
+
+  // The username or email may have been taken while the passkey was being created
+  const account: PendingAccount = JSON.parse(challenge.pendingAccount);
+  const conflict = await accountDetailsConflict(account);
+  if (conflict) {
+    return conflict;
+  }
+
+  const [createdUsers] = await db.batch([
+    db.insert(users).values({ ...account, passwordHash: null }).returning(),
+    db.insert(passkeys).values(passkeyValues(account.id, info, 'Passkey created at sign-up')),
+  ]);
+  return createdUsers[0];
+}
+
+// Sign-in: the browser offers whichever of its passkeys for this site the user picks
+export async function beginPasskeyAuthentication(): Promise<CeremonyOptions<PublicKeyCredentialRequestOptionsJSON> | AuthFailure> {
+  const rp = getRelyingParty();
+  if (!rp) {
+    return NOT_CONFIGURED;
+  }
+
+  const options = await generateAuthenticationOptions({ rpID: rp.id, userVerification: 'required' });
+  return { challengeId: await storeChallenge('authentication', options.challenge), options };
+}
+
+export async function finishPasskeyAuthentication(
+  challengeId: string,
+  response: AuthenticationResponseJSON
+): Promise<User | AuthFailure> {
+  const rp = getRelyingParty();
+  if (!rp) {
+    return NOT_CONFIGURED;
+  }
+
+  const challenge = await consumeChallenge(challengeId, 'authentication');
+  if (!challenge) {
+    return CHALLENGE_EXPIRED;
+  }
+
+  const found = await db
+    .select({ passkey: passkeys, user: users })
+    .from(passkeys)
+    .innerJoin(users, eq(passkeys.userId, users.id))
+    .where(eq(passkeys.credentialId, response.id))
+    .limit(1);
+  if (found.length === 0) {
+    return { error: 'This passkey is not registered with TalkWell', status: 401 };
+  }
+
+  const { passkey, user } = found[0];
+
+  let newCounter: number;
+  try {
+    const verification = await verifyAuthenticationResponse({
+      response,
+      expectedChallenge: challenge.challenge,
+      expectedOrigin: rp.origin,
+      expectedRPID: rp.id,
+      credential: {
+        id: passkey.credentialId,
+        publicKey: new Uint8Array(Buffer.from(passkey.publicKey, 'base64url')),
+        counter: passkey.counter,
+        transports: toTransports(passkey.transports),
+      },
+      requireUserVerification: true,
+    });
+    if (!verification.verified) {
+      return VERIFICATION_FAILED;
+    }
+    newCounter = verification.authenticationInfo.newCounter;
+  } catch (error) {
+    console.error('Passkey sign-in failed verification:', error instanceof Error ? error.message : error);
+    return VERIFICATION_FAILED;
+  }
+
+  await db.update(passkeys).set({ counter: newCounter, lastUsedAt: new Date() }).where(eq(passkeys.id, passkey.id));
+
+  const restriction = accountRestriction(user);
+  return restriction ?? user;
+}
+
+export async function accountHasPassword(userId: string): Promise<boolean> {
+  const found = await db.select({ passwordHash: users.passwordHash }).from(users).where(eq(users.id, userId)).limit(1);
+  return !!found[0]?.passwordHash;
+}
+
+const PASSKEY_NOT_FOUND: AuthFailure = { error: 'Passkey not found', status: 404 };
+
+// An account must keep some way to sign in: a password or at least one passkey. The check is part of the delete,
+// behind a lock on the account row that password removal takes too, so concurrent removals cannot both pass it.
+export async function removePasskey(userId: string, passkeyId: string): Promise<true | AuthFailure> {
+  if (!isResourceId(passkeyId)) {
+    return PASSKEY_NOT_FOUND;
+  }
+
+  const [, removed] = await db.batch([
+    db.select({ id: users.id }).from(users).where(eq(users.id, userId)).for('update'),
+    db
+      .delete(passkeys)
+      .where(and(
+        eq(passkeys.id, passkeyId),
+        eq(passkeys.userId, userId),
+        or(
+          exists(db.select({ id: users.id }).from(users).where(and(eq(users.id, userId), isNotNull(users.passwordHash)))),
+          sql`(select count(*) from ${passkeys} where ${passkeys.userId} = ${userId}) > 1`
+        )
+      ))
+      .returning({ id: passkeys.id }),
+  ]);
+  if (removed.length > 0) {
+    return true;
+  }
+
+  const found = await db
+    .select({ id: passkeys.id })
+    .from(passkeys)
+    .where(and(eq(passkeys.id, passkeyId), eq(passkeys.userId, userId)))
+    .limit(1);
+  return found.length > 0 ? { error: 'Add another passkey before removing this one', status: 409 } : PASSKEY_NOT_FOUND;
+}
+
+// Go passwordless, but only while a passkey remains; locks the account row as removePasskey does
+export async function removePassword(userId: string): Promise<boolean> {
+  const [, updated] = await db.batch([
+    db.select({ id: users.id }).from(users).where(eq(users.id, userId)).for('update'),
+    db
+      .update(users)
+      .set({ passwordHash: null, updatedAt: new Date() })
+      .where(and(
+        eq(users.id, userId),
+        isNotNull(users.passwordHash),
+        exists(db.select({ id: passkeys.id }).from(passkeys).where(eq(passkeys.userId, userId)))
+      ))
+      .returning({ id: users.id }),
+  ]);
+  return updated.length > 0;
+}